@@ -0,0 +1,126 @@
+/**
+ * 画布工具调用评估：运行场景文件，比较最终画布与期望画布，输出通过率、工具错误与步数
+ *
+ * 用法:
+ *   npx tsx scripts/eval-canvas.ts [--scenarios a.json,./scenarios] [--tag update]
+ *     [--provider aliyun] [--base-url URL] [--model m1,m2] [--api-key KEY] [--tool-call-mode text|native]
+ *     [--variants variants.json] [--system "系统提示词"] [--max-steps 5] [--out report.json]
+ *   npx tsx scripts/eval-canvas.ts --mock   # 使用内置 mock fixture 离线验证评估流程
+ *
+ * 未指定 --scenarios 时运行内置场景；场景文件可以是单个场景或场景数组，目录中读取全部 .json 文件
+ * --model 用逗号分隔多个模型时逐个评估；--variants 文件是提示词变体数组（name / systemPrompt / canvasPrompt）
+ * API Key 也可以通过环境变量 RUNOMNI_API_KEY 提供
+ */
+
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import {
+  BUILTIN_SCENARIOS,
+  createMockBackend,
+  formatCanvasEvalReport,
+  parseCanvasScenario,
+  runCanvasEval,
+  type CanvasEvalBackend,
+  type CanvasPromptVariant,
+  type CanvasScenario
+} from '../src/modules/eval';
+import type { ToolCallMode } from '../src/modules/llm/LLM';
+import { BUILTIN_FIXTURES } from '../src/modules/mock';
+import { getProviderAdapter } from '../src/modules/llm/providers';
+import { parseArgs } from './httpBridge';
+
+async function readScenarioFile(file: string): Promise<CanvasScenario[]> {
+  const content = JSON.parse(await readFile(file, 'utf8'));
+  const items: unknown[] = Array.isArray(content) ? content : [content];
+  return items.map((item, index) => parseCanvasScenario(item, items.length > 1 ? `${file}#${index + 1}` : file));
+}
+
+async function loadScenarios(paths: string[]): Promise<CanvasScenario[]> {
+  const scenarios: CanvasScenario[] = [];
+  for (const path of paths.map(item => resolve(item.trim()))) {
+    if ((await stat(path)).isDirectory()) {
+      const files = (await readdir(path)).filter(file => file.endsWith('.json')).sort();
+      for (const file of files) {
+        scenarios.push(...await readScenarioFile(join(path, file)));
+      }
+    } else {
+      scenarios.push(...await readScenarioFile(path));
+    }
+  }
+  return scenarios;
+}
+
+async function loadVariants(file: string): Promise<CanvasPromptVariant[]> {
+  const content = JSON.parse(await readFile(resolve(file), 'utf8'));
+  const variants: CanvasPromptVariant[] = Array.isArray(content) ? content : [content];
+  variants.forEach((variant, index) => {
+    if (typeof variant?.name !== 'string' || !variant.name) {
+      throw new Error(`${file} 中第 ${index + 1} 个提示词变体缺少 name`);
+    }
+  });
+  return variants;
+}
+
+function createBackends(args: Record<string, string>): CanvasEvalBackend[] {
+  if (args.mock === 'true') {
+    return [createMockBackend(BUILTIN_FIXTURES)];
+  }
+
+  const provider = getProviderAdapter(args.provider ?? 'aliyun', args['base-url']);
+  const apiKey = args['api-key'] ?? process.env.RUNOMNI_API_KEY;
+  if (!apiKey) {
+    throw new Error('请通过 --api-key 或环境变量 RUNOMNI_API_KEY 提供 API Key，或使用 --mock 离线运行');
+  }
+
+  const toolCallMode = args['tool-call-mode'];
+  if (toolCallMode && toolCallMode !== 'native' && toolCallMode !== 'text') {
+    throw new Error(`--tool-call-mode 只支持 native 或 text，收到: ${toolCallMode}`);
+  }
+
+  const models = (args.model ?? provider.defaultModel ?? '').split(',').map(model => model.trim()).filter(Boolean);
+  if (models.length === 0) {
+    throw new Error(`供应商 ${provider.name} 没有默认模型，请通过 --model 指定`);
+  }
+
+  return models.map(model => ({
+    name: `${provider.id}:${model}`,
+    llmConfig: {
+      apiKey,
+      providerId: provider.id,
+      baseURL: args['base-url'] ?? provider.defaultBaseURL,
+      model,
+      toolCallMode: toolCallMode as ToolCallMode | undefined
+    }
+  }));
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  let scenarios = args.scenarios ? await loadScenarios(args.scenarios.split(',')) : BUILTIN_SCENARIOS;
+  if (args.tag) {
+    scenarios = scenarios.filter(scenario => scenario.tags?.includes(args.tag));
+  }
+
+  const reports = await runCanvasEval({
+    scenarios,
+    backends: createBackends(args),
+    variants: args.variants ? await loadVariants(args.variants) : undefined,
+    systemPrompt: args.system,
+    maxSteps: args['max-steps'] ? Number(args['max-steps']) : undefined,
+    onResult: result => console.log(`${result.passed ? '✅' : '❌'} ${result.backend} / ${result.variant} / ${result.scenarioId}`)
+  });
+
+  console.log(`\n${formatCanvasEvalReport(reports)}`);
+
+  if (args.out) {
+    const out = resolve(args.out);
+    await writeFile(out, JSON.stringify(reports, null, 2) + '\n');
+    console.log(`💾 已写入 ${out}`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ 评估失败:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
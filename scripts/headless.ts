@@ -0,0 +1,131 @@
+/**
+ * 无界面运行 Agent：发送文本、音频与图片，把对话记录与返回的语音写入磁盘
+ *
+ * 用法:
+ *   npx tsx scripts/headless.ts --prompt "画一个红色矩形" [--audio input.wav] [--image a.png,b.jpg]
+ *     [--provider aliyun] [--base-url URL] [--model MODEL] [--api-key KEY] [--voice Cherry]
+ *     [--system "系统提示词"] [--history session.json] [--out ./headless-output] [--no-canvas]
+ *
+ * 省略 --provider 时按 --base-url 识别供应商（如本地 mock 服务使用通用适配器），都省略时使用阿里云
+ * API Key 也可以通过环境变量 RUNOMNI_API_KEY 提供；--history 指定的文件用于在多次运行之间保留对话历史
+ * 输出目录中生成 transcript.json（回复文本、工具调用、画布状态与完整对话记录）和 reply.wav
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import { HeadlessSession, type KeyValueStorage } from '../src/modules/headless';
+import { getProviderAdapter } from '../src/modules/llm/providers';
+import { parseArgs } from './httpBridge';
+
+const DEFAULT_SYSTEM_PROMPT = '你是一个多模态助手，回答简洁，需要时使用画布工具。';
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mp3'
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+async function readAsDataUrl(file: string, mimeTypes: Record<string, string>): Promise<string> {
+  const mimeType = mimeTypes[extname(file).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`不支持的文件类型: ${file}（支持 ${Object.keys(mimeTypes).join(' / ')}）`);
+  }
+  const data = await readFile(resolve(file));
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
+
+// 以 JSON 文件保存的键值存储，每次写入立即落盘
+function createFileStorage(file: string): KeyValueStorage {
+  const items: Record<string, string> = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+  const flush = () => writeFileSync(file, JSON.stringify(items, null, 2) + '\n');
+
+  return {
+    getItem: key => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value;
+      flush();
+    },
+    removeItem: key => {
+      delete items[key];
+      flush();
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.prompt && !args.audio && !args.image) {
+    throw new Error('请至少通过 --prompt、--audio 或 --image 提供一种输入');
+  }
+
+  const baseURL = args['base-url'];
+  const provider = getProviderAdapter(args.provider ?? (baseURL ? undefined : 'aliyun'), baseURL);
+  const apiKey = args['api-key'] ?? process.env.RUNOMNI_API_KEY;
+  if (!apiKey) {
+    throw new Error('请通过 --api-key 或环境变量 RUNOMNI_API_KEY 提供 API Key');
+  }
+
+  const model = args.model ?? provider.defaultModel;
+  if (!model) {
+    throw new Error(`供应商 ${provider.name} 没有默认模型，请通过 --model 指定`);
+  }
+
+  const session = new HeadlessSession({
+    agentConfig: {
+      systemPrompt: args.system ?? DEFAULT_SYSTEM_PROMPT,
+      llmConfig: {
+        apiKey,
+        providerId: provider.id,
+        baseURL: baseURL ?? provider.defaultBaseURL,
+        model,
+        voice: args.voice,
+        format: 'wav'
+      }
+    },
+    canvasTools: args['no-canvas'] !== 'true',
+    storage: args.history ? createFileStorage(resolve(args.history)) : undefined
+  });
+
+  const audio = args.audio ? await readAsDataUrl(args.audio, AUDIO_MIME_TYPES) : undefined;
+  const images = args.image
+    ? await Promise.all(args.image.split(',').map(file => readAsDataUrl(file.trim(), IMAGE_MIME_TYPES)))
+    : undefined;
+
+  console.log(`🚀 发送请求: ${provider.name} / ${model}`);
+  const result = await session.run({ text: args.prompt, audio, images });
+
+  const outDir = resolve(args.out ?? 'headless-output');
+  await mkdir(outDir, { recursive: true });
+  const transcript = {
+    input: { prompt: args.prompt ?? '', audio: args.audio ?? null, images: args.image?.split(',') ?? [] },
+    reply: result.text,
+    toolCalls: result.toolCalls,
+    summary: result.summary,
+    usage: result.usage ?? null,
+    canvas: result.canvas,
+    durationMs: result.durationMs,
+    history: session.getTranscript()
+  };
+  await writeFile(join(outDir, 'transcript.json'), JSON.stringify(transcript, null, 2) + '\n');
+  if (result.audio) {
+    await writeFile(join(outDir, 'reply.wav'), result.audio);
+  }
+
+  console.log(`💬 ${result.text}`);
+  console.log(`🔧 工具调用 ${result.toolCalls.length} 次，用时 ${result.durationMs}ms`);
+  console.log(`💾 已写入 ${join(outDir, 'transcript.json')}${result.audio ? ` 与 ${join(outDir, 'reply.wav')}` : '（模型没有返回音频）'}`);
+  session.dispose();
+}
+
+main().catch(error => {
+  console.error('❌ 运行失败:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Node HTTP 与 Web 标准 Request / Response 之间的转换
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export type WebHandler = (request: Request) => Promise<Response>;
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function toWebRequest(req: IncomingMessage, url: string, signal?: AbortSignal): Promise<Request> {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (value !== undefined && key !== 'host' && key !== 'content-length') {
+      headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+  const method = req.method ?? 'GET';
+  const body = method === 'GET' || method === 'HEAD' ? undefined : await readBody(req);
+  return new Request(url, { method, headers, body, signal });
+}
+
+export async function sendWebResponse(res: ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    // 响应体已由 fetch 解压，不能再转发压缩与长度相关的头
+    if (key !== 'content-encoding' && key !== 'content-length' && key !== 'transfer-encoding') {
+      headers[key] = value;
+    }
+  });
+  res.writeHead(response.status, headers);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    res.write(value);
+  }
+  res.end();
+}
+
+/**
+ * 包装为 node:http 的请求回调：客户端断开时中止处理，异常时返回 500
+ */
+export function createNodeListener(handler: WebHandler, resolveUrl: (path: string) => string) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+      const request = await toWebRequest(req, resolveUrl(req.url ?? '/'), controller.signal);
+      await sendWebResponse(res, await handler(request));
+    } catch (error) {
+      console.error('❌ 处理请求失败:', error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: { message: error instanceof Error ? error.message : String(error) } }));
+    }
+  };
+}
+
+/**
+ * 解析 --name value 形式的命令行参数
+ */
+export function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const key = argv[i].slice(2);
+      const next = argv[i + 1];
+      args[key] = next && !next.startsWith('--') ? argv[++i] : 'true';
+    }
+  }
+  return args;
+}
@@ -0,0 +1,55 @@
+/**
+ * 离线 mock 服务：回放 fixture，替代真实的 OpenAI 兼容供应商
+ *
+ * 用法: npx tsx scripts/mock-server.ts [--port 8787] [--fixtures ./fixtures] [--speed 1]
+ * 在设置中选择自定义供应商，Base URL 填 http://localhost:8787/v1，API Key 任意
+ * 请求头 x-mock-fixture 可以指定回放的 fixture 名称
+ */
+
+import { createServer } from 'node:http';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { BUILTIN_FIXTURES, createMockCompletionHandler, type StreamFixture } from '../src/modules/mock';
+import { createNodeListener, parseArgs } from './httpBridge';
+
+async function loadFixtures(dir: string): Promise<StreamFixture[]> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  return Promise.all(files.map(async file => {
+    const fixture = JSON.parse(await readFile(join(dir, file), 'utf8')) as StreamFixture;
+    return { ...fixture, name: fixture.name || file.replace(/\.json$/, '') };
+  }));
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port ?? 8787);
+  const speed = Number(args.speed ?? 1);
+
+  // 自定义目录中的 fixture 优先于内置 fixture
+  const fixtures = args.fixtures
+    ? [...await loadFixtures(resolve(args.fixtures)), ...BUILTIN_FIXTURES]
+    : BUILTIN_FIXTURES;
+
+  const handler = createMockCompletionHandler({
+    fixtures,
+    speed,
+    onRequest: (body, fixture) => {
+      console.log(`📨 ${body.model ?? '-'} (${body.messages?.length ?? 0} 条消息) → ${fixture?.name ?? '无匹配'}`);
+    }
+  });
+
+  const server = createServer(createNodeListener(handler, path => `http://localhost:${port}${path}`));
+  server.listen(port, () => {
+    console.log(`🧪 mock 服务已启动: http://localhost:${port}/v1`);
+    console.log(`📼 已加载 ${fixtures.length} 个 fixture: ${fixtures.map(fixture => fixture.name).join(', ')}`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ mock 服务启动失败:', error);
+  process.exit(1);
+});
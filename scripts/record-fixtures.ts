@@ -0,0 +1,52 @@
+/**
+ * 录制代理：把请求转发给真实供应商，同时把流式响应保存为 fixture
+ *
+ * 用法: npx tsx scripts/record-fixtures.ts --upstream https://dashscope.aliyuncs.com/compatible-mode/v1 [--port 8788] [--out ./fixtures]
+ * 在设置中把 Base URL 改为 http://localhost:8788/v1（API Key 保持真实值，只转发不保存），
+ * 正常使用一遍后即可用 scripts/mock-server.ts --fixtures ./fixtures 离线回放
+ */
+
+import { createServer } from 'node:http';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { createFixtureRecorder } from '../src/modules/mock';
+import { createNodeListener, parseArgs } from './httpBridge';
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.upstream) {
+    throw new Error('请通过 --upstream 指定真实供应商的 Base URL');
+  }
+  const upstream = args.upstream.replace(/\/+$/, '');
+  const port = Number(args.port ?? 8788);
+  const outDir = resolve(args.out ?? 'fixtures');
+  const prefix = args.prefix ?? `session-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  await mkdir(outDir, { recursive: true });
+
+  const recorder = createFixtureRecorder({
+    nameFor: (_body, index) => `${prefix}-${String(index).padStart(3, '0')}`,
+    onFixture: async fixture => {
+      const file = join(outDir, `${fixture.name}.json`);
+      await writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+      console.log(`💾 已保存 fixture: ${file}（${fixture.events.length} 个事件）`);
+    }
+  });
+
+  // 本地路径中的 /v1 对应 upstream 的 Base URL
+  const server = createServer(createNodeListener(
+    recorder,
+    path => `${upstream}${path.replace(/^\/v1(?=\/|$)/, '')}`
+  ));
+  server.listen(port, () => {
+    console.log(`🎙️ 录制代理已启动: http://localhost:${port}/v1 → ${upstream}`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ 录制代理启动失败:', error);
+  process.exit(1);
+});
@@ -21,6 +21,10 @@ export class AudioStreamer {
   private checkInterval: number | null = null;
   private initialBufferTime: number = 0.1; //0.1 // 100ms initial buffer
   private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
+  // 播放进度统计（用于打断时估算用户实际听到的内容）
+  private receivedSamples: number = 0;
+  private firstStartTime: number | null = null;
+  private scheduledDuration: number = 0;
 
   public onComplete = () => {};
 
@@ -75,6 +79,8 @@ export class AudioStreamer {
       }
     }
 
+    this.receivedSamples += float32Array.length;
+
     const newBuffer = new Float32Array(
       this.processingBuffer.length + float32Array.length,
     );
@@ -157,6 +163,10 @@ export class AudioStreamer {
       const startTime = Math.max(this.scheduledTime, this.context.currentTime);
       source.start(startTime);
 
+      if (this.firstStartTime === null) {
+        this.firstStartTime = startTime;
+      }
+      this.scheduledDuration += audioBuffer.duration;
       this.scheduledTime = startTime + audioBuffer.duration;
     }
 
@@ -235,6 +245,22 @@ export class AudioStreamer {
     }
   }
 
+  isActive(): boolean {
+    return this.isPlaying || this.audioQueue.length > 0 || this.processingBuffer.length > 0;
+  }
+
+  // 近似的播放进度：已播放时长与已接收音频总时长（秒）
+  getPlaybackProgress(): { playedSeconds: number; receivedSeconds: number } {
+    const receivedSeconds = this.receivedSamples / this.sampleRate;
+    if (this.firstStartTime === null) {
+      return { playedSeconds: 0, receivedSeconds };
+    }
+
+    const elapsed = this.context.currentTime - this.firstStartTime;
+    const playedSeconds = Math.max(0, Math.min(elapsed, this.scheduledDuration));
+    return { playedSeconds, receivedSeconds };
+  }
+
   setVolume(volume: number) {
     this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
   }
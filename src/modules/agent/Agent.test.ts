@@ -0,0 +1,290 @@
+/**
+ * Agent 测试套件
+ * 通过 LLMConfig.fetch 注入模拟的流式接口，验证打断与取消、ReAct 多步循环、步数上限、工具调用预算与工具注册表同步
+ */
+
+import { Agent, truncateHeardText, type AgentRunSummary, type AgentStepSummary } from './Agent'
+import type { Tool } from '../llm/LLM'
+import { ConversationHistory, INTERRUPTED_REPLY_PLACEHOLDER } from '../llm/ConversationHistory'
+import { encodeSSE, SSE_DONE } from '../mock/streamFixtures'
+import { ToolRegistry } from '../tools/ToolRegistry'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 通过 LLMConfig.fetch 注入模拟的流式接口：按调用顺序返回预设的文本回复（字符串为一个分片，数组为多个分片）
+function createAgent(
+  replies: Array<string | string[]>,
+  limits: { maxSteps?: number; maxToolCallsPerRound?: number } = {},
+  onToolCall?: (name: string) => void
+) {
+  let callIndex = 0
+  const requests: any[] = []
+  const fetch = async (_input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    requests.push(JSON.parse(String(init?.body)))
+    const reply = replies[callIndex++] ?? '好的'
+    const events = (Array.isArray(reply) ? reply : [reply]).map(content => encodeSSE({ choices: [{ index: 0, delta: { content } }] }))
+    return new Response(events.join('') + encodeSSE(SSE_DONE), { headers: { 'Content-Type': 'text/event-stream' } })
+  }
+
+  const agent = new Agent({
+    systemPrompt: '你是画布助手',
+    llmConfig: { apiKey: 'test', baseURL: 'http://localhost', model: 'mock-model', toolCallMode: 'text', fetch },
+    ...limits
+  })
+
+  const calls: Array<{ name: string; args: Record<string, unknown> }> = []
+  const createTool = (name: string, data: Record<string, unknown>): Tool => ({
+    name,
+    description: name,
+    parameters: { type: 'object', properties: {} },
+    handler: async (args: Record<string, unknown>) => {
+      calls.push({ name, args })
+      onToolCall?.(name)
+      return { isSuccess: true, data }
+    }
+  })
+  agent.registerTools([
+    createTool('draw_rectangle', { id: 'rect_001' }),
+    createTool('update_shape_color', { id: 'rect_001' })
+  ])
+
+  const steps: AgentStepSummary[] = []
+  let summary: AgentRunSummary | null = null
+  agent.on('stepCompleted', (step: AgentStepSummary) => steps.push(step))
+  agent.on('runCompleted', (result: AgentRunSummary) => {
+    summary = result
+  })
+
+  return { agent, calls, steps, requests, getSummary: () => summary as AgentRunSummary | null }
+}
+
+function toolCallTag(name: string, args: Record<string, unknown> = {}): string {
+  return `<tool_calls>[{"name":"${name}","arguments":${JSON.stringify(args)}}]</tool_calls>`
+}
+
+async function run(agent: Agent, input: string): Promise<string> {
+  let text = ''
+  for await (const response of agent.generate(input)) {
+    text += response.text
+  }
+  return text
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🗺️ 开始运行 Agent 测试...')
+
+  try {
+    // 测试 1: 按听到的比例截断回复文本，去掉工具调用标签
+    assert(truncateHeardText('  你好世界  ', 1) === '你好世界', '全部听到时保留完整文本')
+    assert(truncateHeardText('你好世界', 0.5) === '你好', '听到一半时截断为一半')
+    assert(truncateHeardText(`好的${toolCallTag('draw_rectangle')}画好了`, 1) === '好的画好了', '截断前应该去掉工具调用标签')
+    assert(truncateHeardText('你好世界', 0) === '' && truncateHeardText('你好世界', -1) === '', '没有听到时为空')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 截断历史中的助手消息，不跨越到上一轮对话；什么也没听到时记录占位内容
+    const history = new ConversationHistory()
+    history.addUserMessage('第一轮')
+    history.addAssistantMessage('第一轮回复')
+    history.addUserMessage('画个圆')
+    history.addAssistantMessage('', [{ id: 'call_1', name: 'draw_circle', arguments: '{}' }])
+    history.addToolMessage('{"id":"circle_001"}', 'call_1')
+    history.addAssistantMessage('画好了一个红色的圆')
+    const truncated = history.truncateLastAssistantMessage('画好了')
+    assert(truncated?.content === '画好了' && truncated.interrupted === true, '应该截断本轮最后一条助手消息并标记打断')
+    assert(history.truncateLastAssistantMessage('')?.content === INTERRUPTED_REPLY_PLACEHOLDER, '截断后为空时应该记录占位内容而不是移除')
+    assert(history.getLength() === 6, '截断不应该移除消息')
+    history.addUserMessage('再画一个')
+    assert(history.truncateLastAssistantMessage('不应该修改') === null, '不应该跨越到上一轮对话')
+    const empty = history.addInterruptedAssistantMessage('')
+    assert(empty.content === INTERRUPTED_REPLY_PLACEHOLDER && empty.interrupted === true, '空回复被打断时应该记录占位内容')
+    assert(history.getMessages().filter(message => message.interrupted).length === 2, '一次调用就应该写入带打断标记的消息')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 生成中被打断，按听到的比例只写入一次助手消息；什么也没听到时记录占位回复
+    const interrupted = createAgent([['你好', '，我是画布助手', '，很高兴认识你']])
+    const interruptedTexts: string[] = []
+    interrupted.agent.on('responseInterrupted', (payload: { text: string }) => interruptedTexts.push(payload.text))
+    for await (const response of interrupted.agent.generate('你好')) {
+      if (response.text) {
+        interrupted.agent.interruptResponse(0)
+      }
+    }
+    const afterInterrupt = interrupted.agent.getConversationHistory()
+    assert(afterInterrupt.length === 3 && afterInterrupt[2].role === 'assistant', '被打断后应该只有一条助手回复跟在用户消息之后')
+    assert(afterInterrupt[2].content[0].text === INTERRUPTED_REPLY_PLACEHOLDER, '什么也没听到时应该记录占位回复')
+    assert(interruptedTexts.length === 1 && interruptedTexts[0] === '' && interrupted.getSummary()?.stopReason === 'interrupted', '应该发出打断事件并以 interrupted 结束')
+
+    const partlyHeard = createAgent([['你好世界', '后面的内容']])
+    for await (const response of partlyHeard.agent.generate('你好')) {
+      if (response.text) {
+        partlyHeard.agent.interruptResponse(0.5)
+      }
+    }
+    const heardHistory = partlyHeard.agent.getConversationHistory()
+    assert(heardHistory.length === 3 && heardHistory[2].content[0].text === '你好', `应该只保存听到的部分: ${heardHistory[2]?.content[0].text}`)
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 流式生成中取消，停止读取后续分片，已生成的部分保留并标记打断
+    const cancelled = createAgent([['第一句', '第二句', '第三句']])
+    const cancelledTexts: string[] = []
+    cancelled.agent.on('responseCancelled', (payload: { text: string }) => cancelledTexts.push(payload.text))
+    const streamed: string[] = []
+    for await (const response of cancelled.agent.generate('说三句话')) {
+      if (response.text) {
+        streamed.push(response.text)
+        assert(cancelled.agent.cancelCurrentResponse(), '生成中应该可以取消')
+      }
+    }
+    assert(streamed.join(',') === '第一句', `取消后不应该继续输出: ${streamed.join(',')}`)
+    assert(cancelledTexts.length === 1 && cancelledTexts[0] === '第一句', '应该发出 responseCancelled 并带上已生成的文本')
+    assert(cancelled.getSummary()?.stopReason === 'cancelled' && !cancelled.agent.isResponseInProgress(), '应该以 cancelled 结束')
+    const cancelledHistory = cancelled.agent.getConversationHistory()
+    assert(cancelledHistory.length === 3 && cancelledHistory[2].content[0].text === '第一句', '历史中应该只保留已生成的部分')
+    assert(!cancelled.agent.cancelCurrentResponse(), '结束后再取消应该返回 false')
+
+    // 执行一批工具调用的过程中取消：尚未开始的工具调用被跳过，结果反馈写入历史，最后记录一条助手消息
+    const dependentBatch = toolCallTag('draw_rectangle').replace(
+      '}]</tool_calls>',
+      '},{"name":"update_shape_color","arguments":{"id":"$ref:0.id","color":"blue"}}]</tool_calls>'
+    )
+    let midBatch: ReturnType<typeof createAgent> | null = null
+    midBatch = createAgent([`先画矩形${dependentBatch}`, '不应该请求'], {}, name => {
+      if (name === 'draw_rectangle') {
+        midBatch!.agent.cancelCurrentResponse()
+      }
+    })
+    const skipped: string[] = []
+    const batchCancelled: string[] = []
+    midBatch.agent.on('toolCallSkipped', (toolCall: { name: string }) => skipped.push(toolCall.name))
+    midBatch.agent.on('responseCancelled', (payload: { text: string }) => batchCancelled.push(payload.text))
+    await run(midBatch.agent, '画一个蓝色矩形')
+    assert(midBatch.calls.map(call => call.name).join(',') === 'draw_rectangle', '取消后不应该再执行同批次的工具')
+    assert(skipped.join(',') === 'update_shape_color', '未开始的工具调用应该记录为跳过')
+    assert(midBatch.requests.length === 1, '取消后不应该进入下一步')
+    const batchSummary = midBatch.getSummary()!
+    assert(batchCancelled.length === 1 && batchSummary.stopReason === 'cancelled', '应该发出 responseCancelled 并以 cancelled 结束')
+    assert(batchSummary.executedToolCallCount === 1 && batchSummary.steps[0].skippedToolCalls[0]?.reason === '响应已取消，未执行', '汇总应该记录已执行与因取消跳过的工具调用')
+    const batchHistory = midBatch.agent.getConversationHistory()
+    assert(batchHistory.map(message => message.role).join(',') === 'system,user,assistant,user,assistant', `历史顺序不正确: ${batchHistory.map(message => message.role).join(',')}`)
+    assert(batchHistory[2].content[0].text === '先画矩形', '工具调用的助手消息应该保留本步的文本')
+    assert(batchHistory[3].content[0].text!.includes('响应已取消，未执行'), '跳过原因应该写入工具结果')
+    assert(batchHistory[4].content[0].text === INTERRUPTED_REPLY_PLACEHOLDER, '没有后续回复时应该记录占位回复')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 依赖前一步结果的多步工具调用，直到模型不再调用工具
+    const house = createAgent([
+      `先画房子${toolCallTag('draw_rectangle', { color: 'red' })}`,
+      `再改屋顶颜色${toolCallTag('update_shape_color', { id: 'rect_001', color: 'blue' })}`,
+      '画好了，屋顶已改成蓝色'
+    ])
+    const spoken = await run(house.agent, '画一个房子，然后把屋顶改成蓝色')
+    assert(house.calls.map(call => call.name).join(',') === 'draw_rectangle,update_shape_color', '两个工具应该按步骤依次执行')
+    assert(house.steps.length === 3, '应该产生 3 个步骤事件')
+    assert(house.steps[0].toolCalls[0].name === 'draw_rectangle' && house.steps[0].executedToolCalls === 1, '第 1 步应该执行绘制')
+    assert(spoken === '先画房子再改屋顶颜色画好了，屋顶已改成蓝色', '各步骤的口播文本应该依次输出且不含标签')
+    const summary1 = house.getSummary()!
+    assert(summary1.stopReason === 'completed' && summary1.stepCount === 3, '应该正常结束并记录步数')
+    assert(summary1.executedToolCallCount === 2 && summary1.finalText === '画好了，屋顶已改成蓝色', '汇总应该包含工具统计与最终回复')
+    assert(house.agent.getLastRunSummary() === summary1, 'getLastRunSummary 应该返回最近一轮汇总')
+    console.log('✅ 测试 5 通过')
+
+    // 测试 6: 模型持续调用工具时，达到最大步数后最后一步关闭工具，以文字回复结束
+    const looping = createAgent([toolCallTag('draw_rectangle'), toolCallTag('draw_rectangle'), '已经画了两个矩形'], { maxSteps: 2 })
+    const loopingText = await run(looping.agent, '一直画')
+    const summary2 = looping.getSummary()!
+    assert(looping.calls.length === 2, '超过最大步数后不应该再执行工具')
+    assert(summary2.stopReason === 'max_steps' && summary2.stepCount === 3, '应该以 max_steps 结束')
+    assert(summary2.finalText === '已经画了两个矩形' && loopingText === '已经画了两个矩形', '最后一步应该给出文字回复')
+    assert(summary2.skippedToolCallCount === 0 && summary2.steps[2].toolCalls.length === 0, '最后一步不应该产生工具调用')
+    const finalRequest = looping.requests[2].messages.at(-1).content[0].text as string
+    assert(finalRequest.includes('不要再调用工具'), '最后一步应该要求模型直接回复')
+    assert(looping.agent.getConversationHistory().at(-1)?.content[0].text === '已经画了两个矩形', '最终回复应该写入历史')
+    console.log('✅ 测试 6 通过')
+
+    // 测试 7: 单轮工具调用预算，超出部分跳过并把原因反馈给模型
+    const batch = `${toolCallTag('draw_rectangle')}`.replace(
+      '}]</tool_calls>',
+      '},{"name":"draw_rectangle","arguments":{}},{"name":"draw_rectangle","arguments":{}}]</tool_calls>'
+    )
+    const budgeted = createAgent([batch, '只画了两个'], { maxToolCallsPerRound: 2 })
+    await run(budgeted.agent, '画三个矩形')
+    const summary3 = budgeted.getSummary()!
+    assert(budgeted.calls.length === 2, '超出预算的工具调用不应该执行')
+    assert(budgeted.steps[0].skippedToolCalls[0].reason.includes('上限'), '跳过原因应该说明达到上限')
+    assert(budgeted.steps[0].toolResultsText!.includes('上限'), '跳过原因应该作为工具结果反馈给模型')
+    assert(summary3.stopReason === 'completed' && summary3.finalText === '只画了两个', '模型收到反馈后应该正常收尾')
+    console.log('✅ 测试 7 通过')
+
+    // 测试 8: 绑定工具注册表后，切换工具包只更新工具与系统提示词，不清空历史
+    const session = createAgent(['你好'])
+    const registry = new ToolRegistry()
+    registry.registerPack({
+      namespace: 'notes',
+      title: '便签',
+      tools: [{
+        name: 'add_note',
+        description: '添加便签',
+        parameters: { type: 'object', properties: {} },
+        handler: async () => ({ isSuccess: true })
+      }]
+    })
+    session.agent.setToolRegistry(registry)
+    await run(session.agent, '打个招呼')
+    const systemPrompt = () => session.agent.getConversationHistory()[0].content[0].text ?? ''
+    assert(systemPrompt().startsWith('你是画布助手') && systemPrompt().includes('- add_note：添加便签'), '系统提示词应该追加工具说明')
+    registry.disablePack('notes')
+    assert(!systemPrompt().includes('add_note'), '禁用工具包后提示词应该重新生成')
+    assert(!(session.agent as any).llm.tools.has('add_note'), '禁用工具包后工具应该从 LLM 移除')
+    assert((session.agent as any).llm.tools.has('draw_rectangle'), '直接注册的工具不受注册表影响')
+    assert(session.agent.getConversationHistory().length === 3, '切换工具包不应该清空对话历史')
+    registry.enablePack('notes')
+    session.agent.setToolsEnabled(false)
+    assert(systemPrompt() === '你是画布助手', '关闭工具调用时不应该包含工具说明')
+    session.agent.setPromptSegment('screenGrid', '截图网格说明')
+    assert(systemPrompt() === '你是画布助手\n\n截图网格说明', '附加段落应该追加到基础提示词之后')
+    assert(session.agent.getConversationHistory().length === 3, '设置附加段落不应该清空对话历史')
+    session.agent.setPromptSegment('screenGrid', null)
+    assert(systemPrompt() === '你是画布助手', '移除附加段落后提示词应该恢复')
+    console.log('✅ 测试 8 通过')
+
+    // 测试 9: 带来源的图片按来源分组并插入来源说明
+    const visual = createAgent(['看到了'])
+    await visual.agent.sendMultiModalMessage({
+      text: '这是什么',
+      images: [
+        { data: 'SCREEN1', source: 'screen' },
+        { data: 'SCREEN2', source: 'screen' },
+        { data: 'data:image/jpeg;base64,CAMERA', source: 'camera' },
+        'PLAIN'
+      ]
+    })
+    const userContent = visual.requests[0].messages.at(-1).content as any[]
+    const describe = userContent.map(part => (part.type === 'text' ? part.text : part.image_url.url))
+    assert(JSON.stringify(describe) === JSON.stringify([
+      '这是什么',
+      '[屏幕画面]',
+      'data:image/jpeg;base64,SCREEN1',
+      'data:image/jpeg;base64,SCREEN2',
+      '[摄像头画面]',
+      'data:image/jpeg;base64,CAMERA',
+      'data:image/jpeg;base64,PLAIN'
+    ]), `内容顺序不正确: ${JSON.stringify(describe)}`)
+    console.log('✅ 测试 9 通过')
+
+    console.log('🎉 所有测试都通过了！Agent 打断、取消与多步循环工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -1,16 +1,52 @@
 import { EventEmitter } from 'eventemitter3'
 import {
   LLM,
+  type GenerationResult,
   type LLMConfig,
+  type Message,
   type ToolCall,
   type ToolCallLifecycleHooks
 } from '../llm/LLM'
 import { ConversationHistory } from '../llm/ConversationHistory'
 import type { ChatCompletionMessage } from '../api/types'
 import { parseToolCalls, hasToolCallTags } from '../tools/toolCallParser'
+import { isFailedToolResponse } from '../tools/toolCallScheduler'
+import type { ToolRegistry } from '../tools/ToolRegistry'
 
 type MessageContent = ChatCompletionMessage['content']
 
+// 图片的画面来源：屏幕截图 / 摄像头 / 屏幕与摄像头的合成画面
+export type VisualSource = 'screen' | 'camera' | 'composite'
+
+export interface TaggedImage {
+  data: string          // base64、data URL 或 http(s) 地址
+  source: VisualSource
+}
+
+// 带来源的图片按来源分组，每组前插入一段文字说明
+export const VISUAL_SOURCE_LABELS: Record<VisualSource, string> = {
+  screen: '[屏幕画面]',
+  camera: '[摄像头画面]',
+  composite: '[屏幕与摄像头合成画面]'
+}
+
+// 按用户实际听到的比例截断回复文本（去掉工具调用标签，只保留口播内容）
+export function truncateHeardText(text: string, heardRatio: number): string {
+  const spokenText = hasToolCallTags(text) ? parseToolCalls(text).cleanedText : text
+  const trimmed = spokenText.trim()
+  if (heardRatio >= 1) {
+    return trimmed
+  }
+
+  const heardLength = Math.round(trimmed.length * Math.max(0, heardRatio))
+  return trimmed.slice(0, heardLength).trim()
+}
+
+const DEFAULT_MAX_STEPS = 5
+// 达到最大步数后的最后一步不再提供工具，要求模型直接给出文字回复
+const FINAL_STEP_INSTRUCTION = '已达到本轮最大推理步数，请不要再调用工具，直接根据已有的工具结果用一两句话回复用户。'
+const DEFAULT_MAX_TOOL_CALLS_PER_ROUND = 10
+
 export interface AgentConfig {
   systemPrompt: string
   llmConfig: LLMConfig
@@ -18,6 +54,8 @@ export interface AgentConfig {
   description?: string
   sendHistoryImages?: boolean
   sendHistoryAudio?: boolean  // 新增：是否发送历史音频
+  maxSteps?: number              // 每轮回复最多执行几步工具调用（ReAct 循环），默认 5
+  maxToolCallsPerRound?: number  // 每轮回复最多执行的工具调用次数，默认 10
 }
 
 export interface AgentMessage {
@@ -37,6 +75,36 @@ export interface AgentResponse {
   usage?: any
   toolCalls?: any[]
   toolResultsText?: string
+  step?: number  // 所属的 ReAct 步骤（从 1 开始）
+}
+
+export type AgentRunStopReason =
+  | 'completed'    // 模型不再调用工具，正常结束
+  | 'max_steps'    // 达到最大步数，最后一步关闭工具直接回复
+  | 'tool_budget'  // 达到本轮工具调用上限，后续工具调用未执行
+  | 'cancelled'
+  | 'interrupted'
+  | 'error'
+
+export interface AgentStepSummary {
+  step: number
+  text: string                                   // 本步生成的文本（不含工具调用标签）
+  toolCalls: Array<{ id: string; name: string }> // 本步模型发出的工具调用
+  executedToolCalls: number
+  failedToolCalls: number
+  skippedToolCalls: Array<{ id: string; name: string; reason: string }>
+  toolResultsText?: string
+}
+
+export interface AgentRunSummary {
+  stopReason: AgentRunStopReason
+  stepCount: number
+  toolCallCount: number
+  executedToolCallCount: number
+  failedToolCallCount: number
+  skippedToolCallCount: number
+  finalText: string
+  steps: AgentStepSummary[]
 }
 
 export class Agent extends EventEmitter {
@@ -49,10 +117,24 @@ export class Agent extends EventEmitter {
   private sendHistoryAudio: boolean  // 新增：历史音频配置
   private currentRoundContent: MessageContent | null = null
   private toolsEnabled = true
+  private isResponding = false
+  private pendingInterruption: { heardRatio: number } | null = null
+  private abortController: AbortController | null = null
+  private loopLimits: { maxSteps: number; maxToolCallsPerRound: number }
+  private runSteps: AgentStepSummary[] = []
+  private lastRunSummary: AgentRunSummary | null = null
+  private toolRegistry: ToolRegistry | null = null
+  private registryToolNames = new Set<string>()
+  private detachToolRegistry?: () => void
+  private promptSegments = new Map<string, string>()
 
   constructor(config: AgentConfig) {
     super()
     this.config = config
+    this.loopLimits = {
+      maxSteps: config.maxSteps ?? DEFAULT_MAX_STEPS,
+      maxToolCallsPerRound: config.maxToolCallsPerRound ?? DEFAULT_MAX_TOOL_CALLS_PER_ROUND
+    }
     this.llm = new LLM(config.llmConfig)
     this.sendHistoryImages = config.sendHistoryImages ?? false
     this.sendHistoryAudio = config.sendHistoryAudio ?? false  // 初始化历史音频配置
@@ -63,6 +145,123 @@ export class Agent extends EventEmitter {
 
   setToolsEnabled(enabled: boolean): void {
     this.toolsEnabled = enabled
+    this.refreshSystemMessage()
+  }
+
+  /**
+   * 绑定工具注册表：启用的工具包会注册到 LLM，工具说明段落追加到系统提示词之后
+   * 注册表变化（注册、移除、启用/禁用工具包）时自动同步，不清空对话历史
+   */
+  setToolRegistry(registry: ToolRegistry | null): void {
+    this.detachToolRegistry?.()
+    this.detachToolRegistry = undefined
+    this.toolRegistry = registry
+
+    if (registry) {
+      const handleChanged = () => this.syncToolRegistry()
+      registry.on('changed', handleChanged)
+      this.detachToolRegistry = () => registry.off('changed', handleChanged)
+    }
+
+    this.syncToolRegistry()
+  }
+
+  getToolRegistry(): ToolRegistry | null {
+    return this.toolRegistry
+  }
+
+  private syncToolRegistry(): void {
+    this.registryToolNames.forEach(name => this.llm.unregisterTool(name))
+    this.registryToolNames.clear()
+
+    const activeTools = this.toolRegistry?.getActiveTools() ?? []
+    activeTools.forEach(tool => this.registryToolNames.add(tool.name))
+    this.llm.registerTools(activeTools)
+    console.log(`🧰 Agent 已同步工具注册表: ${activeTools.length} 个工具`)
+
+    this.refreshSystemMessage()
+  }
+
+  /**
+   * 设置附加的系统提示词段落（例如截图坐标网格说明），segment 为空时移除
+   * 与 updateSystemPrompt 不同，不清空对话历史
+   */
+  setPromptSegment(key: string, segment: string | null): void {
+    const text = segment?.trim() ?? ''
+    if ((this.promptSegments.get(key) ?? '') === text) {
+      return
+    }
+
+    if (text) {
+      this.promptSegments.set(key, text)
+    } else {
+      this.promptSegments.delete(key)
+    }
+    this.refreshSystemMessage()
+  }
+
+  // 系统提示词 = 基础提示词 + 附加段落 + 当前启用工具包生成的工具说明（工具调用开启时，按工具调用方式生成）
+  private composeSystemPrompt(basePrompt: string): string {
+    const base = basePrompt.trim()
+    const segment = this.toolsEnabled ? this.toolRegistry?.buildSystemPromptSegment(this.llm.getToolCallMode()) ?? '' : ''
+    return [base, ...this.promptSegments.values(), segment].filter(Boolean).join('\n\n')
+  }
+
+  private refreshSystemMessage(): void {
+    this.conversationHistory.setSystemMessage(this.composeSystemPrompt(this.config.systemPrompt))
+  }
+
+  isResponseInProgress(): boolean {
+    return this.isResponding
+  }
+
+  // 最近一轮回复的多步循环汇总（步数、工具调用统计、结束原因）
+  getLastRunSummary(): AgentRunSummary | null {
+    return this.lastRunSummary
+  }
+
+  /**
+   * 取消当前回复：中止 LLM 流并跳过未执行的工具调用，完成后发出 'responseCancelled'
+   * 已生成的部分文本会保留在历史中并标记为被打断
+   */
+  cancelCurrentResponse(): boolean {
+    if (!this.isResponding || !this.abortController) {
+      return false
+    }
+
+    console.log('⏹️ 取消当前回复')
+    this.abortController.abort()
+    return true
+  }
+
+  /**
+   * 打断当前回复（barge-in）
+   * heardRatio 为用户实际听到的音频比例（0-1），历史中的助手消息会被截断为对应长度
+   * - 生成中：中止 LLM 流，跳过未执行的工具调用
+   * - 已生成完但仍在播放：直接截断历史中本轮最后一条助手消息
+   */
+  interruptResponse(heardRatio: number = 1): void {
+    const ratio = Math.max(0, Math.min(1, Number.isFinite(heardRatio) ? heardRatio : 1))
+
+    if (this.isResponding) {
+      console.log('✋ 请求打断当前回复', { heardRatio: ratio })
+      this.pendingInterruption = { heardRatio: ratio }
+      this.abortController?.abort()
+      return
+    }
+
+    const lastAssistant = this.conversationHistory.getMessages()
+      .filter(message => message.role === 'assistant')
+      .pop()
+    if (!lastAssistant) {
+      return
+    }
+
+    const fullText = lastAssistant.content
+    const heardText = truncateHeardText(fullText, ratio)
+    this.conversationHistory.truncateLastAssistantMessage(heardText)
+    console.log('✋ 播放中被打断，已截断助手消息', { heardRatio: ratio, heardLength: heardText.length })
+    this.emit('responseInterrupted', { text: heardText, fullText, heardRatio: ratio })
   }
 
   async sendTextMessage(content: string): Promise<void> {
@@ -76,7 +275,7 @@ export class Agent extends EventEmitter {
 
   async sendMultiModalMessage(options: {
     text?: string
-    images?: string[]
+    images?: Array<string | TaggedImage>
     videos?: string[]
     audio?: string
     audios?: string[]
@@ -95,14 +294,20 @@ export class Agent extends EventEmitter {
     const textContent = options.text || ''
     // 历史仅保存一个音频和一张图片（与现有策略一致）
     const audioData = options.audio ?? (options.audios && options.audios.length > 0 ? options.audios[0] : undefined)
-    const imageData = options.images?.[0]
+    const firstImage = options.images?.[0]
+    const imageData = typeof firstImage === 'string' ? firstImage : firstImage?.data
     
     this.conversationHistory.addUserMessage(textContent, audioData, imageData)
 
     await this.consumeResponseStream()
   }
 
-  async *generate(userInput: string, images?: string[], audioData?: string): AsyncGenerator<AgentResponse> {
+  async *generate(
+    userInput: string,
+    images?: string[],
+    audioData?: string,
+    options: { signal?: AbortSignal } = {}
+  ): AsyncGenerator<AgentResponse> {
     const contentParts = this.buildContentParts({
       text: userInput,
       images,
@@ -121,7 +326,7 @@ export class Agent extends EventEmitter {
     const textContent = userInput || ''
     this.conversationHistory.addUserMessage(textContent)
 
-    for await (const chunk of this.streamResponse()) {
+    for await (const chunk of this.streamResponse(options.signal)) {
       yield chunk
     }
   }
@@ -137,10 +342,23 @@ export class Agent extends EventEmitter {
     }
   }
 
-  private async *streamResponse(): AsyncGenerator<AgentResponse> {
+  private async *streamResponse(externalSignal?: AbortSignal): AsyncGenerator<AgentResponse> {
     this.emit('responseStarted')
     this.lastFullResponseText = ''
     this.lastFullAudio = undefined
+    this.isResponding = true
+    this.pendingInterruption = null
+    this.runSteps = []
+
+    // 每轮回复独立的中止控制器，外部信号中止时一并取消
+    const abortController = new AbortController()
+    const signal = abortController.signal
+    const abortFromExternal = () => abortController.abort()
+    this.abortController = abortController
+    if (externalSignal?.aborted) {
+      abortController.abort()
+    }
+    externalSignal?.addEventListener('abort', abortFromExternal)
 
     try {
       // 使用过滤后的消息历史（根据配置决定是否包含历史图片和音频）
@@ -171,145 +389,311 @@ export class Agent extends EventEmitter {
         }
       }
 
-      let encounteredToolCall = false
-      let toolResultsRecorded = false
-
-      for await (const result of this.llm.generate(messages, undefined, undefined, this.toolsEnabled)) {
-        const nextFullText = this.lastFullResponseText + (result.text || '')
-        this.lastFullResponseText = nextFullText
-
-        const response: AgentResponse = {
-          text: result.text || '',
-          accumulatedText: nextFullText,
-          audio: result.audio,
-          audioChunk: result.audioChunk,
-          finished: result.finished,
-          usage: result.usage,
-          toolCalls: result.toolCalls,
-          toolResultsText: result.toolResultsText
-        }
+      const { maxSteps, maxToolCallsPerRound } = this.loopLimits
+      let spokenTextStart = 0
+      let executedToolCalls = 0
+      let step = 0
+      let currentStep: AgentStepSummary | null = null
 
-        if (result.audio) {
-          this.lastFullAudio = result.audio
+      // 工具调用预算：超过本轮调用上限时拒绝执行，原因会作为工具结果反馈给模型
+      const getToolCallSkipReason = (_toolCall: ToolCall): string | undefined => {
+        if (executedToolCalls >= maxToolCallsPerRound) {
+          return `已达到本轮工具调用上限（${maxToolCallsPerRound} 次），未执行`
         }
+        executedToolCalls++
+        if (currentStep) {
+          currentStep.executedToolCalls++
+        }
+        return undefined
+      }
 
-        this.emit('responseChunk', response)
-        yield response
-
-        // 处理工具调用 - 使用文本解析方式
-        if (this.toolsEnabled && result.toolCalls && result.toolCalls.length > 0) {
-          console.log('🛠️ 检测到工具调用:', result.toolCalls)
-          encounteredToolCall = true
-
-          // 🔥 先保存工具调用的assistant消息到历史记录
-          // 注意：保持原始响应内容不变，不要用描述性文本替换
-          this.conversationHistory.addAssistantMessage(
-            this.lastFullResponseText.trim() || '',
-            result.toolCalls.map(tc => ({
-              id: tc.id,
-              name: tc.name,
-              arguments: tc.arguments
-            }))
-          )
-
-          const lifecycleHooks: ToolCallLifecycleHooks = {
-            onStart: (toolCall) => {
-              this.emit('toolCallStarted', toolCall)
-            },
-            onSuccess: (toolCall, response) => {
-              // 🔧 不再单独保存每个工具响应到历史记录
-              // 因为 LLM.processToolCalls() 已经将所有工具调用结果合并到一条消息中
-              this.emit('toolCallCompleted', { toolCall, response })
-            },
-            onError: (toolCall, error) => {
-              // 🔧 不再单独保存错误消息到历史记录
-              // 错误会在合并的工具调用结果中体现
-              this.emit('toolCallFailed', { toolCall, error })
-            }
+      // 工具生命周期回调：文本标签模式下工具可能在流式阶段提前执行
+      const lifecycleHooks: ToolCallLifecycleHooks = {
+        onStart: (toolCall) => {
+          this.emit('toolCallStarted', toolCall)
+        },
+        onSuccess: (toolCall, response) => {
+          // 🔧 不再单独保存每个工具响应到历史记录
+          // 因为 LLM.processToolCalls() 已经将所有工具调用结果合并到一条消息中
+          if (currentStep && isFailedToolResponse(response)) {
+            currentStep.failedToolCalls++
+          }
+          this.emit('toolCallCompleted', { toolCall, response })
+        },
+        onError: (toolCall, error) => {
+          // 🔧 不再单独保存错误消息到历史记录
+          // 错误会在合并的工具调用结果中体现
+          if (currentStep) {
+            currentStep.failedToolCalls++
           }
+          this.emit('toolCallFailed', { toolCall, error })
+        },
+        onSkip: (toolCall, reason) => {
+          if (currentStep) {
+            currentStep.skippedToolCalls.push({ id: toolCall.id, name: toolCall.name, reason })
+          }
+          this.emit('toolCallSkipped', toolCall)
+        }
+      }
 
-          // 记录当前累计文本长度，用于提取工具调用完成后的新增回复
-          const baselineLength = this.lastFullResponseText.length
-
-          // 处理工具调用并继续对话
-          for await (const toolResult of this.llm.processToolCalls(
-            result.toolCalls,
-            this.convertToLLMMessages(filteredMessages),
-            lifecycleHooks,
-            this.lastFullResponseText.trim() // 传入原始的assistant响应内容
-          )) {
-            if (toolResult.toolResultsText && !toolResultsRecorded) {
-              const summarized = toolResult.toolResultsText.trim()
-              if (summarized) {
-                this.conversationHistory.addToolMessage(summarized)
-              }
-              toolResultsRecorded = true
-            }
+      const generateOptions = {
+        signal,
+        eagerToolExecution: true,
+        toolHooks: lifecycleHooks,
+        getToolCallSkipReason,
+        continueAfterToolCalls: false
+      }
 
-            // 更新累积的文本内容
-            if (toolResult.text) {
-              this.lastFullResponseText += toolResult.text
-            }
+      // ReAct 循环：每一步生成一次回复，模型发出工具调用则执行后带着结果进入下一步，直到不再调用工具
+      // 首次工具调用沿用历史消息（不含本轮多模态内容），后续步骤使用上一步返回的完整消息
+      let stepMessages: Message[] = messages as Message[]
+      let toolBaseMessages: Message[] = this.convertToLLMMessages(filteredMessages)
+      let stopReason: AgentRunStopReason = 'completed'
+      let lastUsage: any
+
+      while (true) {
+        step++
+        // 超过最大步数时关闭工具并追加总结指令，保证本轮以文字回复结束
+        const isFinalStep = step > maxSteps
+        const stepToolsEnabled = this.toolsEnabled && !isFinalStep
+        if (isFinalStep) {
+          stepMessages = [...stepMessages, { role: 'user', content: [{ type: 'text', text: FINAL_STEP_INSTRUCTION }] }]
+          stopReason = 'max_steps'
+          console.warn(`⚠️ 已达到最大推理步数（${maxSteps}），最后一步不再调用工具`)
+        }
+        const stepTextStart = this.lastFullResponseText.length
+        currentStep = {
+          step,
+          text: '',
+          toolCalls: [],
+          executedToolCalls: 0,
+          failedToolCalls: 0,
+          skippedToolCalls: []
+        }
+        this.emit('stepStarted', { step, maxSteps })
 
-            const toolResponse: AgentResponse = {
-              text: toolResult.text || '',
-              accumulatedText: this.lastFullResponseText,
-              audio: toolResult.audio,
-              audioChunk: toolResult.audioChunk,
-              finished: toolResult.finished,
-              usage: toolResult.usage,
-              toolCalls: toolResult.toolCalls,
-              toolResultsText: toolResult.toolResultsText
-            }
+        let stepToolCalls: ToolCall[] | undefined
+        let stepFinished = false
 
-            this.emit('responseChunk', toolResponse)
-            yield toolResponse
+        for await (const result of this.llm.generate(stepMessages, undefined, undefined, stepToolsEnabled, generateOptions)) {
+          // 工具调用在结束标记之前单独产出
+          if (result.toolCalls && result.toolCalls.length > 0) {
+            stepToolCalls = result.toolCalls
+          }
 
-            if (toolResult.finished) {
-              break
-            }
+          // 不再调用工具的结束标记才是整轮回复的结束
+          const isFinalResult = result.finished && !(stepToolsEnabled && stepToolCalls)
+          const response = this.toAgentResponse(result, step, isFinalResult)
+          this.emit('responseChunk', response)
+          yield response
+
+          // 中止后 LLM 流会自行结束，继续读取以拿到流式阶段已解析的工具调用
+          if (signal.aborted) {
+            continue
+          }
+
+          if (result.finished) {
+            lastUsage = result.usage
+            stepFinished = true
+            break
           }
+        }
+
+        // 中止后 LLM 流会静默结束，不会产出结束标记；已解析出工具调用时先记录并跳过未执行的调用
+        if (!stepFinished && signal.aborted && !(stepToolsEnabled && stepToolCalls?.length)) {
+          this.completeAbortedResponse(spokenTextStart)
+          return
+        }
 
-          // 🔥 提取工具调用处理后的新增助手回复，确保作为独立消息保存
-          const followUpText = this.lastFullResponseText.slice(baselineLength).trim()
-          if (followUpText) {
-            this.conversationHistory.addAssistantMessage(followUpText)
-            console.log('📝 工具调用后的结束语已保存为新的assistant消息:', followUpText.substring(0, 50) + '...')
+        const stepText = this.lastFullResponseText.slice(stepTextStart).trim()
+        currentStep.text = stepText
+
+        if (!stepToolsEnabled || !stepToolCalls || stepToolCalls.length === 0) {
+          // 模型不再调用工具：本步的回复即为最终回复
+          if (stepText) {
+            this.conversationHistory.addAssistantMessage(stepText)
           }
+          this.completeStep(currentStep)
+          break
         }
 
-        if (result.finished) {
-          // 🔧 修复：如果没有工具调用，正常保存assistant消息
-          // 如果有工具调用，则已经在上面的工具调用处理中保存了
-          if (!encounteredToolCall) {
-            if (this.lastFullResponseText.trim()) {
-              this.conversationHistory.addAssistantMessage(
-                this.lastFullResponseText.trim()
-              )
+        console.log(`🛠️ 第 ${step} 步检测到工具调用:`, stepToolCalls)
+        currentStep.toolCalls = stepToolCalls.map(toolCall => ({ id: toolCall.id, name: toolCall.name }))
+
+        // 🔥 先保存工具调用的assistant消息到历史记录
+        // 注意：保持原始响应内容不变，不要用描述性文本替换
+        this.conversationHistory.addAssistantMessage(
+          stepText,
+          stepToolCalls.map(tc => ({
+            id: tc.id,
+            name: tc.name,
+            arguments: tc.arguments
+          }))
+        )
+        spokenTextStart = this.lastFullResponseText.length
+
+        // 执行工具调用，结果汇总后交还控制权，由下一步继续生成
+        let nextMessages: Message[] | undefined
+        for await (const toolResult of this.llm.processToolCalls(
+          stepToolCalls,
+          toolBaseMessages,
+          lifecycleHooks,
+          stepText, // 传入原始的assistant响应内容
+          generateOptions
+        )) {
+          if (toolResult.toolResultsText) {
+            const summarized = toolResult.toolResultsText.trim()
+            if (summarized) {
+              this.conversationHistory.addToolMessage(summarized)
             }
+            currentStep.toolResultsText = summarized
+            nextMessages = toolResult.followUpMessages
           }
 
-          // 重置当前轮次内容
-          this.currentRoundContent = null
+          const toolResponse = this.toAgentResponse(toolResult, step, false)
+          this.emit('responseChunk', toolResponse)
+          yield toolResponse
+        }
 
-          this.emit('responseCompleted', {
-            text: this.lastFullResponseText,
-            audio: this.lastFullAudio,
-            finished: true,
-            usage: result.usage
-          })
+        if (signal.aborted) {
+          this.completeStep(currentStep)
+          this.completeAbortedResponse(spokenTextStart)
+          return
+        }
+
+        this.completeStep(currentStep)
+
+        // 本步的工具调用全部被拒绝：继续生成只会重复调用，直接结束
+        if (currentStep.executedToolCalls === 0 && currentStep.skippedToolCalls.length > 0) {
+          stopReason = 'tool_budget'
+          console.warn(`⚠️ ReAct 循环提前结束: ${stopReason}`, { step, executedToolCalls })
+          break
+        }
+
+        if (!nextMessages) {
           break
         }
+
+        stepMessages = nextMessages
+        toolBaseMessages = nextMessages
       }
+
+      // 重置当前轮次内容
+      this.currentRoundContent = null
+
+      const summary = this.finishRun(stopReason)
+      this.emit('responseCompleted', {
+        text: this.lastFullResponseText,
+        audio: this.lastFullAudio,
+        finished: true,
+        usage: lastUsage,
+        summary
+      })
     } catch (error) {
       // 重置当前轮次内容
       this.currentRoundContent = null
+      this.finishRun('error')
       this.emit('responseError', error as Error)
       throw error
+    } finally {
+      externalSignal?.removeEventListener('abort', abortFromExternal)
+      if (this.abortController === abortController) {
+        this.abortController = null
+      }
+      this.isResponding = false
+    }
+  }
+
+  // 将 LLM 结果转换为 Agent 回复，并累计完整文本
+  private toAgentResponse(result: GenerationResult, step: number, finished: boolean): AgentResponse {
+    if (result.text) {
+      this.lastFullResponseText += result.text
+    }
+    if (result.audio) {
+      this.lastFullAudio = result.audio
+    }
+
+    return {
+      text: result.text || '',
+      accumulatedText: this.lastFullResponseText,
+      audio: result.audio,
+      audioChunk: result.audioChunk,
+      finished,
+      usage: result.usage,
+      toolCalls: result.toolCalls,
+      toolResultsText: result.toolResultsText,
+      step
+    }
+  }
+
+  private completeStep(summary: AgentStepSummary): void {
+    this.runSteps.push(summary)
+    console.log(`🧭 第 ${summary.step} 步完成`, {
+      toolCalls: summary.toolCalls.length,
+      executed: summary.executedToolCalls,
+      skipped: summary.skippedToolCalls.length
+    })
+    this.emit('stepCompleted', summary)
+  }
+
+  // 汇总本轮多步循环的最终状态，发出 'runCompleted'
+  private finishRun(stopReason: AgentRunStopReason): AgentRunSummary {
+    const steps = this.runSteps
+    const summary: AgentRunSummary = {
+      stopReason,
+      stepCount: steps.length,
+      toolCallCount: steps.reduce((total, step) => total + step.toolCalls.length, 0),
+      executedToolCallCount: steps.reduce((total, step) => total + step.executedToolCalls, 0),
+      failedToolCallCount: steps.reduce((total, step) => total + step.failedToolCalls, 0),
+      skippedToolCallCount: steps.reduce((total, step) => total + step.skippedToolCalls.length, 0),
+      finalText: steps.length > 0 ? steps[steps.length - 1].text : '',
+      steps: [...steps]
     }
+
+    this.lastRunSummary = summary
+    this.runSteps = []
+    console.log('🏁 本轮回复结束', {
+      stopReason: summary.stopReason,
+      steps: summary.stepCount,
+      toolCalls: summary.toolCallCount,
+      executed: summary.executedToolCallCount
+    })
+    this.emit('runCompleted', summary)
+    return summary
   }
 
-  private buildContentParts(options: { text?: string; images?: string[]; videos?: string[]; audio?: string; audios?: string[] }): MessageContent {
+  // 结束被中止的回复：barge-in 打断按听到的比例截断，否则保留已生成的部分并发出 'responseCancelled'
+  private completeAbortedResponse(spokenTextStart: number): void {
+    if (this.pendingInterruption) {
+      this.completeInterruptedResponse(spokenTextStart)
+      this.finishRun('interrupted')
+      return
+    }
+
+    const partialText = truncateHeardText(this.lastFullResponseText.slice(spokenTextStart), 1)
+    this.conversationHistory.addInterruptedAssistantMessage(partialText)
+
+    this.currentRoundContent = null
+    console.log('⏹️ 回复已取消', { partialLength: partialText.length })
+    this.emit('responseCancelled', { text: partialText })
+    this.finishRun('cancelled')
+  }
+
+  // 结束被打断的回复：只保存用户实际听到的部分
+  private completeInterruptedResponse(spokenTextStart: number): void {
+    const heardRatio = this.pendingInterruption?.heardRatio ?? 1
+    this.pendingInterruption = null
+
+    const fullText = this.lastFullResponseText.slice(spokenTextStart)
+    const heardText = truncateHeardText(fullText, heardRatio)
+    this.conversationHistory.addInterruptedAssistantMessage(heardText)
+
+    this.currentRoundContent = null
+    console.log('✋ 回复已被打断', { heardRatio, heardLength: heardText.length, fullLength: fullText.length })
+    this.emit('responseInterrupted', { text: heardText, fullText, heardRatio })
+  }
+
+  private buildContentParts(options: { text?: string; images?: Array<string | TaggedImage>; videos?: string[]; audio?: string; audios?: string[] }): MessageContent {
     const parts: MessageContent = []
 
     if (options.text && options.text.trim()) {
@@ -321,11 +705,22 @@ export class Agent extends EventEmitter {
 
     if (options.images && options.images.length > 0) {
       console.log(`🖼️ Agent: 处理 ${options.images.length} 个图片`)
+      let currentSource: VisualSource | null = null
       options.images.forEach(rawImage => {
         if (!rawImage) return
-        const imageSource = rawImage.trim()
+        const tagged = typeof rawImage === 'string' ? null : rawImage
+        const imageSource = (tagged ? tagged.data : rawImage as string).trim()
         if (!imageSource) return
 
+        // 来源变化时插入来源说明，让模型区分屏幕内容与摄像头拍到的实物
+        if (tagged && tagged.source !== currentSource) {
+          currentSource = tagged.source
+          parts.push({
+            type: 'text',
+            text: VISUAL_SOURCE_LABELS[tagged.source]
+          })
+        }
+
         const isPrefixedDataUrl = imageSource.startsWith('data:')
         const isHttpUrl = /^https?:\/\//i.test(imageSource)
         const url = isPrefixedDataUrl || isHttpUrl
@@ -423,11 +818,12 @@ export class Agent extends EventEmitter {
   }
 
   private addSystemMessage(content: string): void {
-    if (!content.trim()) {
+    const composed = this.composeSystemPrompt(content)
+    if (!composed) {
       return
     }
 
-    this.conversationHistory.addMessage('system', content.trim(), 'text')
+    this.conversationHistory.addMessage('system', composed, 'text')
   }
 
   private addUserMessage(content: string): void {
@@ -484,8 +880,13 @@ export class Agent extends EventEmitter {
   }
 
   updateLLMConfig(newConfig: Partial<LLMConfig>): void {
+    const previousMode = this.llm.getToolCallMode()
     this.llm.updateConfig(newConfig)
     this.config.llmConfig = { ...this.config.llmConfig, ...newConfig }
+    // 切换供应商可能改变工具调用方式，工具说明随之重新生成
+    if (this.llm.getToolCallMode() !== previousMode) {
+      this.refreshSystemMessage()
+    }
     this.emit('llmConfigUpdated', this.config.llmConfig)
   }
 
@@ -500,6 +901,15 @@ export class Agent extends EventEmitter {
       console.log(`🎵 Agent sendHistoryAudio 更新为: ${this.sendHistoryAudio}`)
     }
 
+    if (newConfig.maxSteps !== undefined || newConfig.maxToolCallsPerRound !== undefined) {
+      this.loopLimits = {
+        maxSteps: newConfig.maxSteps ?? this.loopLimits.maxSteps,
+        maxToolCallsPerRound: newConfig.maxToolCallsPerRound ?? this.loopLimits.maxToolCallsPerRound
+      }
+      this.config = { ...this.config, ...this.loopLimits }
+      console.log('🧭 Agent 多步循环限制更新为:', this.loopLimits)
+    }
+
     if (newConfig.systemPrompt !== undefined) {
       this.updateSystemPrompt(newConfig.systemPrompt)
     }
@@ -611,6 +1021,7 @@ export class Agent extends EventEmitter {
   }
 
   dispose(): void {
+    this.detachToolRegistry?.()
     this.clearConversationHistory()
     this.removeAllListeners()
   }
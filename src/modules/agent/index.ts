@@ -1,2 +1,2 @@
-export { Agent } from './Agent'
-export type { AgentConfig, AgentMessage, AgentResponse } from './Agent'
\ No newline at end of file
+export { Agent, VISUAL_SOURCE_LABELS } from './Agent'
+export type { AgentConfig, AgentMessage, AgentResponse, AgentRunStopReason, AgentRunSummary, AgentStepSummary, TaggedImage, VisualSource } from './Agent'
\ No newline at end of file
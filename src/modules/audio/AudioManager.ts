@@ -22,10 +22,18 @@ export class AudioManager extends EventEmitter {
   private currentPlaybackUrl: string | null = null
   private playbackGainNode: GainNode | null = null
   private streamingSources: AudioBufferSourceNode[] = []
-  private streamingState: { isActive: boolean; nextStartTime: number; hasChunks: boolean } = {
+  private streamingState: {
+    isActive: boolean
+    nextStartTime: number
+    hasChunks: boolean
+    firstStartTime: number | null
+    receivedDuration: number
+  } = {
     isActive: false,
     nextStartTime: 0,
-    hasChunks: false
+    hasChunks: false,
+    firstStartTime: null,
+    receivedDuration: 0
   }
   private streamingStopTimeout: number | null = null
   private config: AudioConfig
@@ -314,6 +322,8 @@ export class AudioManager extends EventEmitter {
     this.streamingState.isActive = true
     this.streamingState.nextStartTime = this.audioContext.currentTime + 0.05
     this.streamingState.hasChunks = false
+    this.streamingState.firstStartTime = null
+    this.streamingState.receivedDuration = 0
 
     if (this.audioElement) {
       this.audioElement.pause()
@@ -333,6 +343,24 @@ export class AudioManager extends EventEmitter {
     return this.streamingState.hasChunks
   }
 
+  isStreamingPlaybackActive(): boolean {
+    return this.streamingState.isActive || this.streamingSources.length > 0
+  }
+
+  // 流式播放进度（秒），用于打断时估算用户实际听到的内容
+  getStreamingProgress(): { playedSeconds: number; receivedSeconds: number } {
+    const receivedSeconds = this.streamingState.receivedDuration
+    if (!this.audioContext || this.streamingState.firstStartTime === null) {
+      return { playedSeconds: 0, receivedSeconds }
+    }
+
+    const elapsed = this.audioContext.currentTime - this.streamingState.firstStartTime
+    return {
+      playedSeconds: Math.max(0, Math.min(elapsed, receivedSeconds)),
+      receivedSeconds
+    }
+  }
+
   async enqueueAudioChunk(chunk: ArrayBuffer, sampleRate?: number): Promise<void> {
     if (!this.audioContext) {
       throw new Error('Audio not initialized')
@@ -379,6 +407,10 @@ export class AudioManager extends EventEmitter {
 
       this.streamingState.nextStartTime = startTime + buffer.duration
       this.streamingState.hasChunks = true
+      if (this.streamingState.firstStartTime === null) {
+        this.streamingState.firstStartTime = startTime
+      }
+      this.streamingState.receivedDuration += buffer.duration
       this.streamingSources.push(source)
 
       source.onended = () => {
@@ -1,4 +1,10 @@
 import type { ChatCompletionMessage } from '../api/types';
+import {
+  DEFAULT_CONTEXT_TOKENS,
+  estimateAudioTokens,
+  estimateImageTokens,
+  estimateTextTokens
+} from './contextBudget';
 
 export interface ContextItem {
   id: string;
@@ -20,10 +26,10 @@ export interface ConversationContext {
 
 export class ContextManager {
   private context: ConversationContext;
-  private maxContextDuration: number; // 30秒上下文窗口
+  private maxContextTokens: number; // 上下文 token 预算
 
-  constructor(maxContextDuration: number = 30000) { // 30秒
-    this.maxContextDuration = maxContextDuration;
+  constructor(maxContextTokens: number = DEFAULT_CONTEXT_TOKENS) {
+    this.maxContextTokens = maxContextTokens;
     this.context = {
       messages: [],
       contextItems: [],
@@ -32,9 +38,6 @@ export class ContextManager {
   }
 
   addAudioChunk(audioData: string, timestamp: number = Date.now()): void {
-    // 清理过期数据
-    this.cleanupOldItems(timestamp);
-    
     // 添加新的音频数据
     this.context.contextItems.push({
       id: `audio_${timestamp}`,
@@ -42,12 +45,10 @@ export class ContextManager {
       data: audioData,
       timestamp
     });
+    this.cleanupOldItems();
   }
 
   addImageChunk(imageData: string, timestamp: number = Date.now()): void {
-    // 清理过期数据
-    this.cleanupOldItems(timestamp);
-    
     // 添加新的图像数据
     this.context.contextItems.push({
       id: `image_${timestamp}`,
@@ -55,12 +56,10 @@ export class ContextManager {
       data: imageData,
       timestamp
     });
+    this.cleanupOldItems();
   }
 
   addUserMessage(content: string, timestamp: number = Date.now()): void {
-    // 清理过期数据
-    this.cleanupOldItems(timestamp);
-    
     // 添加用户消息
     this.context.messages.push({
       message: {
@@ -72,12 +71,10 @@ export class ContextManager {
       },
       timestamp
     });
+    this.cleanupOldItems();
   }
 
   addAssistantMessage(content: string, timestamp: number = Date.now()): void {
-    // 清理过期数据
-    this.cleanupOldItems(timestamp);
-    
     // 添加助手消息
     this.context.messages.push({
       message: {
@@ -89,6 +86,7 @@ export class ContextManager {
       },
       timestamp
     });
+    this.cleanupOldItems();
   }
 
   getRecentContext(windowMs: number = 30000): ConversationContext {
@@ -125,6 +123,11 @@ export class ContextManager {
     return this.context.contextItems.length + this.context.messages.length;
   }
 
+  getContextTokens(): number {
+    return this.context.contextItems.reduce((sum, item) => sum + this.estimateItemTokens(item), 0) +
+      this.context.messages.reduce((sum, msg) => sum + this.estimateMessageTokens(msg.message), 0);
+  }
+
   getContextDuration(): number {
     const now = Date.now();
     return now - this.context.startTime;
@@ -138,17 +141,47 @@ export class ContextManager {
     };
   }
 
-  private cleanupOldItems(currentTime: number = Date.now()): void {
-    const cutoffTime = currentTime - this.maxContextDuration;
-    
-    // 清理过期的上下文项目
-    this.context.contextItems = this.context.contextItems.filter(item => 
-      item.timestamp >= cutoffTime
-    );
-    
-    // 清理过期的消息
-    this.context.messages = this.context.messages.filter(msg => 
-      msg.timestamp >= cutoffTime
-    );
+  // 超出 token 预算时从最早的数据开始删除，最新的一项始终保留
+  private cleanupOldItems(): void {
+    let total = this.getContextTokens();
+
+    while (total > this.maxContextTokens && this.getContextSize() > 1) {
+      const oldestItem = this.context.contextItems[0];
+      const oldestMessage = this.context.messages[0];
+
+      if (oldestItem && (!oldestMessage || oldestItem.timestamp <= oldestMessage.timestamp)) {
+        total -= this.estimateItemTokens(oldestItem);
+        this.context.contextItems.shift();
+      } else {
+        total -= this.estimateMessageTokens(oldestMessage.message);
+        this.context.messages.shift();
+      }
+    }
   }
-}
\ No newline at end of file
+
+  private estimateItemTokens(item: ContextItem): number {
+    switch (item.type) {
+      case 'audio':
+        return estimateAudioTokens(item.data);
+      case 'image':
+        return estimateImageTokens(item.data);
+      default:
+        return estimateTextTokens(String(item.data ?? ''));
+    }
+  }
+
+  private estimateMessageTokens(message: ChatCompletionMessage): number {
+    return message.content.reduce((sum, part) => {
+      if (part.type === 'text') {
+        return sum + estimateTextTokens(part.text ?? '');
+      }
+      if (part.type === 'image_url' && part.image_url) {
+        return sum + estimateImageTokens(part.image_url.url);
+      }
+      if (part.type === 'input_audio' && part.input_audio) {
+        return sum + estimateAudioTokens(part.input_audio.data);
+      }
+      return sum;
+    }, 0);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * 上下文 token 预算测试套件
+ */
+
+import {
+  estimateAudioTokens,
+  estimateImageTokens,
+  estimateMessagesTokens,
+  fitMessagesToBudget,
+  readImageSize,
+  resolveContextLimit
+} from './contextBudget';
+import type { Message } from '../llm/LLM';
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`);
+  }
+}
+
+function toBase64(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function uint32(value: number, littleEndian = false): number[] {
+  const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+// 只包含文件头的 PNG，足够读取尺寸
+function pngDataUrl(width: number, height: number): string {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  const ihdr = [...uint32(13), 0x49, 0x48, 0x44, 0x52, ...uint32(width), ...uint32(height), 8, 6, 0, 0, 0];
+  return `data:image/png;base64,${toBase64([...signature, ...ihdr])}`;
+}
+
+// 16kHz 单声道 16 位 WAV：文件头后跟 seconds 秒的静音
+function wavBase64(seconds: number): string {
+  const byteRate = 16000 * 2;
+  const header = [
+    0x52, 0x49, 0x46, 0x46, ...uint32(36 + byteRate * seconds, true), 0x57, 0x41, 0x56, 0x45,
+    0x66, 0x6d, 0x74, 0x20, ...uint32(16, true), 1, 0, 1, 0, ...uint32(16000, true), ...uint32(byteRate, true), 2, 0, 16, 0,
+    0x64, 0x61, 0x74, 0x61, ...uint32(byteRate * seconds, true)
+  ];
+  return toBase64([...header, ...new Array(byteRate * seconds).fill(0)]);
+}
+
+const image = (url: string): Message['content'][number] => ({ type: 'image_url', image_url: { url } });
+const text = (value: string): Message['content'][number] => ({ type: 'text', text: value });
+
+// 测试用例
+export function runTests(): void {
+  console.log('📏 开始运行上下文预算测试...');
+
+  try {
+    // 测试 1: 从 PNG 文件头读取尺寸并按像素块估算
+    const screenshot = pngDataUrl(1280, 720);
+    const size = readImageSize(screenshot);
+    assert(size?.width === 1280 && size?.height === 720, `图片尺寸读取错误: ${JSON.stringify(size)}`);
+    assert(estimateImageTokens(screenshot) === 46 * 26 + 4, '图片 token 应按 28×28 像素块计算');
+    assert(estimateImageTokens('https://example.com/a.png') === 1200, '远程图片使用默认估算');
+    console.log('✅ 测试 1 通过');
+
+    // 测试 2: WAV 按文件头中的字节率计算时长
+    assert(estimateAudioTokens(wavBase64(2)) === 50, '2 秒语音约 50 个 token');
+    console.log('✅ 测试 2 通过');
+
+    // 测试 3: 较早的截图替换为占位，当前轮次不变
+    const messages: Message[] = [
+      { role: 'system', content: [text('你是一个助手')] },
+      { role: 'user', content: [text('看看这个'), image(screenshot)] },
+      { role: 'assistant', content: [text('好的')] },
+      { role: 'user', content: [text('再看看'), image(screenshot)] },
+      { role: 'assistant', content: [text('明白')] },
+      { role: 'user', content: [text('现在呢'), image(screenshot)] }
+    ];
+    const tokens = estimateMessagesTokens(messages);
+    const downgraded = fitMessagesToBudget(messages, { maxContextTokens: tokens - 1000, reserveOutputTokens: 0 });
+    assert(downgraded.downgradedMedia === 1 && downgraded.droppedMessages === 0, '只需要替换最早的一张图片');
+    assert(downgraded.messages[1].content[1].text === '[较早的图片已省略]', '最早的图片应该替换为占位');
+    assert(downgraded.messages[3] === messages[3] && downgraded.messages[5] === messages[5], '其余消息保持不变');
+    assert(messages[1].content[1].type === 'image_url', '不应该修改传入的消息');
+    assert(!downgraded.overBudget && downgraded.estimatedTokens <= downgraded.limit, '裁剪后应该在预算以内');
+    console.log('✅ 测试 3 通过');
+
+    // 测试 4: 仍然超出时删除最早的消息，保留 system，工具结果随调用一起删除
+    const toolRound: Message[] = [
+      { role: 'system', content: [text('你是一个助手')] },
+      { role: 'user', content: [text('画一个圆'.repeat(200))] },
+      {
+        role: 'assistant',
+        content: [],
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'draw_circle', arguments: '{}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: [text('{"isSuccess":true}')] },
+      { role: 'assistant', content: [text('画好了')] },
+      { role: 'user', content: [text('谢谢')] }
+    ];
+    const dropped = fitMessagesToBudget(toolRound, { maxContextTokens: 20, reserveOutputTokens: 0 });
+    const roles = dropped.messages.map(message => message.role).join(',');
+    assert(roles === 'system,user', `删除后的消息顺序不正确: ${roles}`);
+    assert(dropped.droppedMessages === 4, '工具调用与结果应该一起删除');
+    console.log('✅ 测试 4 通过');
+
+    // 测试 5: 按最长前缀匹配模型上限，显式配置优先
+    assert(resolveContextLimit('qwen3-omni-flash') === 65536, 'qwen3-omni 系列应该使用 64K 上限');
+    assert(resolveContextLimit('gpt-4o-mini') === 128000, 'gpt-4o 系列应该使用 128K 上限');
+    assert(resolveContextLimit('unknown-model') === 32768, '未知模型使用默认上限');
+    assert(resolveContextLimit('gpt-4o', 8000) === 8000, '显式配置应该优先');
+    console.log('✅ 测试 5 通过');
+
+    console.log('🎉 所有测试都通过了！上下文预算工作正常。');
+  } catch (error) {
+    console.error('❌ 测试失败:', error);
+    throw error;
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests();
+}
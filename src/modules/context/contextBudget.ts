@@ -0,0 +1,348 @@
+/**
+ * 上下文 token 预算
+ *
+ * 按内容类型估算每条消息的 token 数，每次调用模型前把消息裁剪到模型的上下文上限以内：
+ * 1. 从最早的消息开始，把图片 / 音频 / 视频替换为简短的文字占位
+ * 2. 仍然超出时，从最早的消息开始整条删除（保留 system 消息，工具调用与结果一起删除）
+ * 3. 当前轮次单独超出时，只保留当前轮次的最后一个媒体内容
+ *
+ * 当前轮次（上一轮最终回复之后的消息）在前两步中不会被改动。
+ * 估算只用于预算控制，不追求与供应商计费完全一致。
+ */
+
+import type { Message } from '../llm/LLM';
+
+type MessagePart = Message['content'][number];
+type MediaKind = 'image' | 'audio' | 'video';
+
+export interface ContextBudget {
+  maxContextTokens: number;      // 模型上下文上限
+  reserveOutputTokens?: number;  // 为模型回复预留的 token 数，默认 2048
+}
+
+export interface ContextBudgetResult {
+  messages: Message[];
+  estimatedTokens: number;  // 裁剪后的估算 token 数
+  originalTokens: number;   // 裁剪前的估算 token 数
+  limit: number;            // 可用于输入的 token 上限
+  downgradedMedia: number;  // 替换为文字占位的媒体数量
+  droppedMessages: number;  // 删除的消息数量
+  overBudget: boolean;      // 裁剪后仍然超出上限
+}
+
+// 各模型的上下文上限（按模型名前缀匹配，取最长的前缀），未列出的模型使用 DEFAULT_CONTEXT_TOKENS
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  'qwen-omni-turbo': 32768,
+  'qwen2.5-omni': 32768,
+  'qwen3-omni': 65536,
+  'qwen-vl': 32768,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1000000
+};
+
+export const DEFAULT_CONTEXT_TOKENS = 32768;
+const DEFAULT_RESERVE_OUTPUT_TOKENS = 2048;
+
+// 每条消息的角色、分隔符等固定开销
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// 视觉模型按 28×28 像素块计 1 个 token
+const IMAGE_PATCH_SIZE = 28;
+const IMAGE_BASE_TOKENS = 4;
+// 无法读取尺寸的图片（远程 URL、其他格式）按 1280×720 估算
+const DEFAULT_IMAGE_TOKENS = 1200;
+// 音频约每秒 25 个 token
+const AUDIO_TOKENS_PER_SECOND = 25;
+// 无法读取时长的音频按 16kbps 压缩音频估算字节率
+const DEFAULT_AUDIO_BYTES_PER_SECOND = 16000;
+const WAV_HEADER_BYTES = 44;
+// 视频片段无法在不解码的情况下得到帧数，按数秒的低帧率片段估算
+const DEFAULT_VIDEO_TOKENS = 4096;
+
+const MEDIA_PLACEHOLDERS: Record<MediaKind, string> = {
+  image: '[较早的图片已省略]',
+  audio: '[较早的语音已省略]',
+  video: '[较早的屏幕录像已省略]'
+};
+
+/**
+ * 模型的上下文上限，override 优先
+ */
+export function resolveContextLimit(model?: string, override?: number): number {
+  if (override && override > 0) {
+    return override;
+  }
+
+  const name = model?.toLowerCase() ?? '';
+  const prefix = Object.keys(MODEL_CONTEXT_LIMITS)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_LIMITS[prefix] : DEFAULT_CONTEXT_TOKENS;
+}
+
+/**
+ * 文本 token 估算：中日韩字符约 1 个 token，其余约 4 个字符 1 个 token
+ */
+export function estimateTextTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function stripDataUrl(source: string): string {
+  const comma = source.indexOf(',');
+  return source.startsWith('data:') && comma !== -1 ? source.slice(comma + 1) : source;
+}
+
+function decodeBase64Prefix(base64: string, maxBytes: number): Uint8Array | null {
+  try {
+    // base64 每 4 个字符对应 3 个字节
+    const chunk = base64.slice(0, Math.ceil(maxBytes / 3) * 4).replace(/[^A-Za-z0-9+/]/g, '');
+    const binary = atob(chunk.slice(0, chunk.length - (chunk.length % 4)));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor(base64.length * 3 / 4) - padding);
+}
+
+/**
+ * 从 PNG / JPEG 文件头读取图片尺寸，读取失败返回 null
+ */
+export function readImageSize(source: string): { width: number; height: number } | null {
+  const bytes = decodeBase64Prefix(stripDataUrl(source), 64 * 1024);
+  if (!bytes || bytes.length < 24) {
+    return null;
+  }
+
+  // PNG：IHDR 块中的宽高
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const view = new DataView(bytes.buffer);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG：查找 SOF 段中的宽高
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) {
+        return null;
+      }
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+          width: (bytes[offset + 7] << 8) | bytes[offset + 8]
+        };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+export function estimateImageTokens(url: string): number {
+  const size = url.startsWith('data:') || !/^https?:/i.test(url) ? readImageSize(url) : null;
+  if (!size || size.width === 0 || size.height === 0) {
+    return DEFAULT_IMAGE_TOKENS;
+  }
+  return Math.ceil(size.width / IMAGE_PATCH_SIZE) * Math.ceil(size.height / IMAGE_PATCH_SIZE) + IMAGE_BASE_TOKENS;
+}
+
+/**
+ * 音频 token 估算：WAV 按文件头中的字节率计算时长，其他格式按字节数估算
+ */
+export function estimateAudioTokens(data: string): number {
+  const base64 = stripDataUrl(data);
+  let byteLength = base64ByteLength(base64);
+  let bytesPerSecond = DEFAULT_AUDIO_BYTES_PER_SECOND;
+
+  const header = decodeBase64Prefix(base64, WAV_HEADER_BYTES);
+  if (header && header.length >= 32 && String.fromCharCode(...header.slice(0, 4)) === 'RIFF') {
+    const byteRate = new DataView(header.buffer).getUint32(28, true);
+    if (byteRate > 0) {
+      bytesPerSecond = byteRate;
+    }
+    byteLength -= WAV_HEADER_BYTES;
+  }
+
+  return Math.max(1, Math.ceil(byteLength / bytesPerSecond * AUDIO_TOKENS_PER_SECOND));
+}
+
+function mediaKindOf(part: MessagePart): MediaKind | null {
+  if (part.type === 'image_url') {
+    return 'image';
+  }
+  if (part.type === 'input_audio' || part.type === 'audio_url') {
+    return 'audio';
+  }
+  if (part.type === 'video_url') {
+    return 'video';
+  }
+  return null;
+}
+
+export function estimatePartTokens(part: MessagePart): number {
+  switch (part.type) {
+    case 'text':
+      return estimateTextTokens(part.text ?? '');
+    case 'image_url':
+      return part.image_url ? estimateImageTokens(part.image_url.url) : 0;
+    case 'input_audio':
+      return part.input_audio ? estimateAudioTokens(part.input_audio.data) : 0;
+    case 'audio_url':
+      return part.audio_url ? estimateAudioTokens(part.audio_url.url) : 0;
+    case 'video_url':
+      return DEFAULT_VIDEO_TOKENS;
+    default:
+      return 0;
+  }
+}
+
+export function estimateMessageTokens(message: Message): number {
+  const toolCallTokens = (message.tool_calls ?? []).reduce(
+    (sum, toolCall) => sum + estimateTextTokens(toolCall.function.name + toolCall.function.arguments),
+    0
+  );
+  return MESSAGE_OVERHEAD_TOKENS + toolCallTokens + message.content.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+}
+
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+// 当前轮次的起点：最后一条不带工具调用的 assistant 回复（上一轮的最终回复）之后的第一条用户消息
+function findCurrentRoundStart(messages: Message[]): number {
+  let start = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant' && !messages[i].tool_calls?.length) {
+      start = i + 1;
+      break;
+    }
+  }
+  while (start < messages.length && messages[start].role !== 'user') {
+    start++;
+  }
+  return start;
+}
+
+/**
+ * 把一条消息中的媒体替换为文字占位，释放够 tokensToFree 后停止
+ * keepIndex 指定的内容保留不动；相邻的同类占位合并为一个
+ */
+function downgradeMessageMedia(
+  message: Message,
+  tokensToFree: number,
+  keepIndex: number = -1
+): { message: Message; count: number; freed: number } {
+  let count = 0;
+  let freed = 0;
+  const content: MessagePart[] = [];
+  message.content.forEach((part, index) => {
+    const kind = mediaKindOf(part);
+    if (!kind || index === keepIndex || freed >= tokensToFree) {
+      content.push(part);
+      return;
+    }
+
+    const placeholder = MEDIA_PLACEHOLDERS[kind];
+    const previous = content[content.length - 1];
+    const merged = previous?.type === 'text' && previous.text === placeholder;
+    if (!merged) {
+      content.push({ type: 'text', text: placeholder });
+    }
+    freed += estimatePartTokens(part) - (merged ? 0 : estimateTextTokens(placeholder));
+    count++;
+  });
+
+  return { message: count > 0 ? { ...message, content } : message, count, freed };
+}
+
+/**
+ * 把消息裁剪到预算以内，不修改传入的消息
+ */
+export function fitMessagesToBudget(messages: Message[], budget: ContextBudget): ContextBudgetResult {
+  const limit = Math.max(1, budget.maxContextTokens - (budget.reserveOutputTokens ?? DEFAULT_RESERVE_OUTPUT_TOKENS));
+  const originalTokens = estimateMessagesTokens(messages);
+  const result = [...messages];
+  let total = originalTokens;
+  let downgradedMedia = 0;
+  let droppedMessages = 0;
+
+  const finish = (): ContextBudgetResult => ({
+    messages: result,
+    estimatedTokens: total,
+    originalTokens,
+    limit,
+    downgradedMedia,
+    droppedMessages,
+    overBudget: total > limit
+  });
+
+  if (total <= limit) {
+    return finish();
+  }
+
+  // 1. 从最早的消息开始替换历史中的媒体
+  const roundStart = findCurrentRoundStart(result);
+  for (let i = 0; i < roundStart && total > limit; i++) {
+    const downgraded = downgradeMessageMedia(result[i], total - limit);
+    if (downgraded.count > 0) {
+      result[i] = downgraded.message;
+      downgradedMedia += downgraded.count;
+      total -= downgraded.freed;
+    }
+  }
+
+  // 2. 从最早的消息开始整条删除，system 消息与当前轮次保留
+  let currentRoundStart = roundStart;
+  let index = 0;
+  while (total > limit && index < currentRoundStart) {
+    if (result[index].role === 'system') {
+      index++;
+      continue;
+    }
+
+    // 删除带工具调用的 assistant 消息时，紧随其后的工具结果一起删除
+    let end = index + 1;
+    while (end < currentRoundStart && result[end].role === 'tool') {
+      end++;
+    }
+    const removed = result.splice(index, end - index);
+    total -= estimateMessagesTokens(removed);
+    droppedMessages += removed.length;
+    currentRoundStart -= removed.length;
+  }
+
+  // 3. 当前轮次本身超出时，只保留当前轮次的最后一个媒体
+  let lastMedia = { message: -1, part: -1 };
+  for (let i = currentRoundStart; i < result.length; i++) {
+    result[i].content.forEach((part, partIndex) => {
+      if (mediaKindOf(part)) {
+        lastMedia = { message: i, part: partIndex };
+      }
+    });
+  }
+  for (let i = currentRoundStart; i < result.length && total > limit; i++) {
+    const downgraded = downgradeMessageMedia(result[i], total - limit, i === lastMedia.message ? lastMedia.part : -1);
+    if (downgraded.count > 0) {
+      result[i] = downgraded.message;
+      downgradedMedia += downgraded.count;
+      total -= downgraded.freed;
+    }
+  }
+
+  return finish();
+}
@@ -0,0 +1,147 @@
+/**
+ * 画布评估测试套件
+ * 验证画布比较的容差与匹配规则，并用离线 mock 服务跑通评估流程（通过率、工具错误与步数统计）
+ */
+
+import { matchCanvas, parseCanvasScenario, type CanvasScenario } from './canvasScenario'
+import { createMockBackend, formatCanvasEvalReport, runCanvasEval, type CanvasEvalBackend } from './canvasEvalRunner'
+import { BUILTIN_SCENARIOS } from './scenarios'
+import { createMockCompletionHandler } from '../mock/mockCompletionServer'
+import { createTextFixture, getMessageText, type StreamFixture } from '../mock/streamFixtures'
+import { BUILTIN_FIXTURES } from '../mock/fixtures'
+import type { CanvasSnapshot } from '../tools/canvasState'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const SNAPSHOT: CanvasSnapshot = {
+  backgroundColor: '#FFFFFF',
+  shapes: [
+    { id: 'circle_1', type: 'circle', color: '#F00', center: { x: 10.4, y: -5 }, radius: 8 },
+    { id: 'rect_1', type: 'rectangle', color: '#0000ff', opacity: 0.5, topLeft: { x: -20, y: 20 }, bottomRight: { x: 0, y: 0 } }
+  ]
+}
+
+// 左上角与右下角颠倒的矩形，工具会拒绝执行
+const INVALID_RECTANGLE_FIXTURE = createTextFixture(
+  'invalid-rectangle',
+  '<tool_calls>[{"name":"draw_rectangle","arguments":{"topLeftX":10,"topLeftY":-10,"bottomRightX":-10,"bottomRightY":10,"color":"#ff0000"}}]</tool_calls>',
+  { match: { lastRole: 'user', lastMessageIncludes: '反着画' } }
+)
+
+const INVALID_RECTANGLE_SCENARIO: CanvasScenario = {
+  id: 'invalid-rectangle',
+  prompt: '反着画一个矩形',
+  expected: { shapes: [{ type: 'rectangle', color: '#ff0000' }] }
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('📊 开始运行画布评估测试...')
+
+  try {
+    // 测试 1: 图形不要求顺序，颜色大小写与简写等价，坐标按容差比较
+    const loose = matchCanvas(SNAPSHOT, {
+      backgroundColor: '#fff',
+      shapes: [
+        { type: 'rectangle', color: ['blue', '#0000FF'], opacity: 0.5, topLeft: { x: -20, y: 20 }, bottomRight: { x: 0, y: 0 } },
+        { type: 'circle', color: '#ff0000', center: { x: 10, y: -5 }, radius: 8 }
+      ]
+    })
+    assert(loose.passed, `在容差内应该匹配: ${loose.mismatches.join('; ')}`)
+    const strict = matchCanvas(SNAPSHOT, { shapes: [{ type: 'circle', center: { x: 10, y: -5 } }] }, { position: 0.1 })
+    assert(!strict.passed && strict.mismatches.length === 3, '超出容差时应该报告缺少的图形和多余的图形')
+    const extra = matchCanvas(SNAPSHOT, { shapes: [{ type: 'rectangle', id: 'rect_1' }], allowExtraShapes: true })
+    assert(extra.passed, 'allowExtraShapes 时忽略多余的图形')
+    const wrongId = matchCanvas(SNAPSHOT, { shapes: [{ type: 'rectangle', id: 'rect_2' }], allowExtraShapes: true })
+    assert(!wrongId.passed && wrongId.mismatches[0].startsWith('缺少图形'), '指定 id 时必须是同一个图形')
+    const background = matchCanvas(SNAPSHOT, { backgroundColor: 'black', shapes: [], allowExtraShapes: true })
+    assert(!background.passed && background.mismatches[0].includes('背景颜色'), '背景颜色不一致时应该报告')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 两个期望图形都能匹配同一个实际图形时，回溯找到完整的分配
+    const ambiguous = matchCanvas(
+      {
+        backgroundColor: '#ffffff',
+        shapes: [
+          { id: 'a', type: 'circle', color: '#ff0000', center: { x: 0, y: 0 }, radius: 5 },
+          { id: 'b', type: 'circle', color: '#ff0000', center: { x: 0, y: 0 }, radius: 10 }
+        ]
+      },
+      { shapes: [{ type: 'circle', color: '#ff0000' }, { type: 'circle', radius: 5 }] }
+    )
+    assert(ambiguous.passed, '贪心匹配会把第一个期望图形分给 a，回溯后应该全部匹配')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 场景文件校验
+    BUILTIN_SCENARIOS.forEach(scenario => parseCanvasScenario(scenario, scenario.id))
+    let rejected = false
+    try {
+      parseCanvasScenario({ id: 'broken', prompt: '画图', expected: { shapes: [{ type: 'triangle' }] } })
+    } catch (error) {
+      rejected = (error as Error).message.includes('类型无效')
+    }
+    assert(rejected, '无效的图形类型应该被拒绝')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 通过 mock 后端运行评估，统计通过率、工具错误与步数；提示词变体与初始画布写入系统提示词
+    const systemPrompts: string[] = []
+    const fixtures: StreamFixture[] = [BUILTIN_FIXTURES[0], INVALID_RECTANGLE_FIXTURE, ...BUILTIN_FIXTURES.slice(1)]
+    const recordingBackend: CanvasEvalBackend = {
+      name: 'mock',
+      llmConfig: {
+        ...createMockBackend(fixtures).llmConfig,
+        fetch: createMockCompletionHandler({
+          fixtures,
+          speed: 0,
+          onRequest: body => systemPrompts.push(getMessageText(body.messages?.[0]))
+        })
+      }
+    }
+    const drawScenario = { ...BUILTIN_SCENARIOS[0], initialCanvas: { backgroundColor: '#ffffff', shapes: [] } }
+    const results: string[] = []
+    const [report] = await runCanvasEval({
+      scenarios: [drawScenario, INVALID_RECTANGLE_SCENARIO],
+      backends: [recordingBackend],
+      variants: [{ name: 'strict', canvasPrompt: { constraints: '只允许使用 draw_rectangle' } }],
+      onResult: result => results.push(result.scenarioId)
+    })
+    assert(report.total === 2 && report.passed === 1 && report.passRate === 0.5, '应该一个通过一个失败')
+    const [drawn, invalid] = report.results
+    assert(drawn.passed && drawn.stepCount === 2 && drawn.toolCallCount === 1 && drawn.failedToolCallCount === 0, '画矩形场景应该两步完成且没有工具错误')
+    assert(!invalid.passed && invalid.failedToolCallCount === 1, '无效矩形应该记为失败的工具调用')
+    assert(invalid.toolErrors[0]?.name === 'draw_rectangle' && invalid.toolErrors[0].error.includes('左上角'), '应该记录工具返回的错误信息')
+    assert(invalid.mismatches.some(mismatch => mismatch.startsWith('缺少图形')), '画布比较应该报告缺少的矩形')
+    assert(report.toolCallCount === 2 && report.failedToolCallCount === 1 && report.averageStepCount === 2, '报告应该汇总工具调用与步数')
+    assert(results.join(',') === 'draw-red-rectangle,invalid-rectangle', '每个场景完成后回调 onResult')
+    assert(systemPrompts.every(prompt => prompt.includes('只允许使用 draw_rectangle')), '提示词变体应该替换画布工具包的约束')
+    assert(systemPrompts[0].includes('当前画布状态') && !systemPrompts[2].includes('当前画布状态'), '只有带初始画布的场景写入画布状态')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 请求失败记为运行错误，多个组合时报告附带对比
+    const failing = createMockBackend([{ name: 'server-error', status: 500, error: { message: 'boom' }, events: [] }], 'broken')
+    const reports = await runCanvasEval({
+      scenarios: [BUILTIN_SCENARIOS[0]],
+      backends: [createMockBackend(BUILTIN_FIXTURES), failing]
+    })
+    assert(reports[0].passed === 1 && reports[1].erroredCount === 1 && reports[1].results[0].error !== undefined, '请求失败的场景应该记录错误')
+    const text = formatCanvasEvalReport(reports)
+    const ranking = text.split('📈 对比\n')[1]?.split('\n') ?? []
+    assert(text.includes('运行失败') && ranking[0]?.includes('mock / default: 通过率 100.0%') && ranking[1]?.includes('broken / default'), '文本报告应该包含失败原因与按通过率排序的对比')
+    console.log('✅ 测试 5 通过')
+
+    console.log('🎉 所有测试都通过了！画布评估工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,282 @@
+import type { AgentRunStopReason } from '../agent/Agent'
+import { HeadlessSession } from '../headless/HeadlessSession'
+import type { LLMConfig, ToolResponse } from '../llm/LLM'
+import { createMockCompletionHandler } from '../mock/mockCompletionServer'
+import type { StreamFixture } from '../mock/streamFixtures'
+import type { ToolPackPrompt } from '../tools/ToolRegistry'
+import { createCanvasState, type CanvasSnapshot } from '../tools/canvasState'
+import { createCanvasToolPack } from '../tools/canvasTools'
+import { isFailedToolResponse } from '../tools/toolCallScheduler'
+import { matchCanvas, shapesFromSnapshot, type CanvasScenario } from './canvasScenario'
+
+// 被评估的模型后端，llmConfig.fetch 可以接入离线 mock 服务或录制回放
+export interface CanvasEvalBackend {
+  name: string
+  llmConfig: LLMConfig
+}
+
+// 提示词变体：用于比较系统提示词与画布工具包提示词片段的改动
+export interface CanvasPromptVariant {
+  name: string
+  systemPrompt?: string
+  canvasPrompt?: ToolPackPrompt  // 覆盖画布工具包的背景说明 / 示例 / 约束，未指定的部分沿用默认值
+}
+
+export interface CanvasEvalOptions {
+  scenarios: CanvasScenario[]
+  backends: CanvasEvalBackend[]
+  variants?: CanvasPromptVariant[]  // 默认只评估 DEFAULT_PROMPT_VARIANT
+  systemPrompt?: string             // 变体没有指定系统提示词时使用
+  maxSteps?: number                 // 场景没有指定 maxSteps 时使用
+  onResult?: (result: CanvasScenarioResult) => void
+}
+
+export interface CanvasToolError {
+  name: string
+  error: string
+}
+
+export interface CanvasScenarioResult {
+  scenarioId: string
+  title?: string
+  backend: string
+  variant: string
+  passed: boolean
+  mismatches: string[]
+  stopReason: AgentRunStopReason | null
+  stepCount: number
+  toolCallCount: number
+  failedToolCallCount: number
+  toolErrors: CanvasToolError[]
+  reply: string
+  canvas: CanvasSnapshot
+  durationMs: number
+  error?: string  // 运行过程中抛出的错误（如请求失败）
+}
+
+export interface CanvasEvalReport {
+  backend: string
+  variant: string
+  total: number
+  passed: number
+  passRate: number
+  erroredCount: number
+  toolCallCount: number
+  failedToolCallCount: number
+  averageStepCount: number
+  averageDurationMs: number
+  results: CanvasScenarioResult[]
+}
+
+export const DEFAULT_EVAL_SYSTEM_PROMPT = '你是画布绘图助手，根据用户的指令调用画布工具完成绘制，完成后用一句话说明结果。'
+
+export const DEFAULT_PROMPT_VARIANT: CanvasPromptVariant = { name: 'default' }
+
+/**
+ * 用离线 mock 服务作为后端，便于在没有 API Key 时验证场景与评估流程本身
+ */
+export function createMockBackend(fixtures: StreamFixture[], name: string = 'mock'): CanvasEvalBackend {
+  return {
+    name,
+    llmConfig: {
+      apiKey: 'mock',
+      baseURL: 'http://mock.local/v1',
+      model: 'mock-model',
+      toolCallMode: 'text',
+      retryAttempts: 0,
+      fetch: createMockCompletionHandler({ fixtures, speed: 0 })
+    }
+  }
+}
+
+/**
+ * 初始画布写入系统提示词，模型才能知道已有图形的 id 与位置
+ */
+export function describeCanvasForPrompt(snapshot: CanvasSnapshot): string {
+  return `当前画布状态（JSON）：\n${JSON.stringify(snapshot, null, 2)}`
+}
+
+function readToolError(response: ToolResponse): string {
+  try {
+    const content = JSON.parse(response.content)
+    return String(content?.error ?? content?.reason ?? response.content)
+  } catch {
+    return response.content
+  }
+}
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * 在内存画布上运行一个场景：每个场景使用独立的会话与画布，互不影响
+ */
+export async function runCanvasScenario(
+  scenario: CanvasScenario,
+  backend: CanvasEvalBackend,
+  variant: CanvasPromptVariant = DEFAULT_PROMPT_VARIANT,
+  options: Pick<CanvasEvalOptions, 'systemPrompt' | 'maxSteps'> = {}
+): Promise<CanvasScenarioResult> {
+  const startedAt = Date.now()
+  const canvas = createCanvasState({
+    shapes: scenario.initialCanvas ? shapesFromSnapshot(scenario.initialCanvas) : [],
+    backgroundColor: scenario.initialCanvas?.backgroundColor
+  })
+  const canvasPack = createCanvasToolPack(() => canvas)
+  if (variant.canvasPrompt) {
+    canvasPack.prompt = { ...canvasPack.prompt, ...variant.canvasPrompt }
+  }
+
+  const systemPrompt = [
+    variant.systemPrompt ?? options.systemPrompt ?? DEFAULT_EVAL_SYSTEM_PROMPT,
+    scenario.initialCanvas ? describeCanvasForPrompt(scenario.initialCanvas) : ''
+  ].filter(Boolean).join('\n\n')
+
+  const session = new HeadlessSession({
+    agentConfig: {
+      systemPrompt,
+      llmConfig: backend.llmConfig,
+      maxSteps: scenario.maxSteps ?? options.maxSteps
+    },
+    canvas,
+    canvasTools: false,
+    toolPacks: [canvasPack]
+  })
+
+  const toolErrors: CanvasToolError[] = []
+  session.agent.on('toolCallCompleted', ({ toolCall, response }: { toolCall: { name: string }; response: ToolResponse }) => {
+    if (isFailedToolResponse(response)) {
+      toolErrors.push({ name: toolCall.name, error: readToolError(response) })
+    }
+  })
+  session.agent.on('toolCallFailed', ({ toolCall, error }: { toolCall: { name: string }; error: unknown }) => {
+    toolErrors.push({ name: toolCall.name, error: toMessage(error) })
+  })
+
+  const base = { scenarioId: scenario.id, title: scenario.title, backend: backend.name, variant: variant.name }
+  try {
+    const result = await session.run({ text: scenario.prompt, images: scenario.images })
+    const match = matchCanvas(result.canvas, scenario.expected, scenario.tolerance)
+    return {
+      ...base,
+      passed: match.passed,
+      mismatches: match.mismatches,
+      stopReason: result.summary?.stopReason ?? null,
+      stepCount: result.summary?.stepCount ?? 0,
+      toolCallCount: result.summary?.toolCallCount ?? result.toolCalls.length,
+      failedToolCallCount: result.summary?.failedToolCallCount ?? toolErrors.length,
+      toolErrors,
+      reply: result.text,
+      canvas: result.canvas,
+      durationMs: Date.now() - startedAt
+    }
+  } catch (error) {
+    const summary = session.agent.getLastRunSummary()
+    return {
+      ...base,
+      passed: false,
+      mismatches: [],
+      stopReason: summary?.stopReason ?? 'error',
+      stepCount: summary?.stepCount ?? 0,
+      toolCallCount: summary?.toolCallCount ?? 0,
+      failedToolCallCount: summary?.failedToolCallCount ?? toolErrors.length,
+      toolErrors,
+      reply: '',
+      canvas: canvas.getSnapshot(),
+      durationMs: Date.now() - startedAt,
+      error: toMessage(error)
+    }
+  } finally {
+    session.dispose()
+  }
+}
+
+export function summarizeCanvasResults(backend: string, variant: string, results: CanvasScenarioResult[]): CanvasEvalReport {
+  const total = results.length
+  const passed = results.filter(result => result.passed).length
+  const sum = (pick: (result: CanvasScenarioResult) => number) => results.reduce((acc, result) => acc + pick(result), 0)
+
+  return {
+    backend,
+    variant,
+    total,
+    passed,
+    passRate: total > 0 ? passed / total : 0,
+    erroredCount: results.filter(result => result.error !== undefined).length,
+    toolCallCount: sum(result => result.toolCallCount),
+    failedToolCallCount: sum(result => result.failedToolCallCount),
+    averageStepCount: total > 0 ? sum(result => result.stepCount) / total : 0,
+    averageDurationMs: total > 0 ? Math.round(sum(result => result.durationMs) / total) : 0,
+    results
+  }
+}
+
+/**
+ * 对每个后端 × 提示词变体依次运行全部场景，返回每个组合的报告
+ * 场景按顺序串行执行，避免并发请求触发供应商限流
+ */
+export async function runCanvasEval(options: CanvasEvalOptions): Promise<CanvasEvalReport[]> {
+  if (options.scenarios.length === 0) {
+    throw new Error('没有可运行的评估场景')
+  }
+  if (options.backends.length === 0) {
+    throw new Error('至少需要一个评估后端')
+  }
+
+  const variants = options.variants?.length ? options.variants : [DEFAULT_PROMPT_VARIANT]
+  const reports: CanvasEvalReport[] = []
+
+  for (const backend of options.backends) {
+    for (const variant of variants) {
+      console.log(`📊 评估 ${backend.name} / ${variant.name}：${options.scenarios.length} 个场景`)
+      const results: CanvasScenarioResult[] = []
+      for (const scenario of options.scenarios) {
+        const result = await runCanvasScenario(scenario, backend, variant, options)
+        results.push(result)
+        options.onResult?.(result)
+      }
+      reports.push(summarizeCanvasResults(backend.name, variant.name, results))
+    }
+  }
+
+  return reports
+}
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+/**
+ * 生成便于在终端阅读的文本报告；有多个组合时末尾附上对比表
+ */
+export function formatCanvasEvalReport(reports: CanvasEvalReport[]): string {
+  const lines: string[] = []
+
+  for (const report of reports) {
+    lines.push(`📊 ${report.backend} / ${report.variant}`)
+    for (const result of report.results) {
+      lines.push(
+        `  ${result.passed ? '✅' : '❌'} ${result.scenarioId}  步数 ${result.stepCount}  工具调用 ${result.toolCallCount}（失败 ${result.failedToolCallCount}）  ${result.durationMs}ms`
+      )
+      if (result.error) {
+        lines.push(`     - 运行失败: ${result.error}`)
+      }
+      result.mismatches.forEach(mismatch => lines.push(`     - ${mismatch}`))
+      result.toolErrors.forEach(toolError => lines.push(`     - 工具错误 ${toolError.name}: ${toolError.error}`))
+    }
+    lines.push(
+      `  通过 ${report.passed}/${report.total}（${formatPercent(report.passRate)}），工具调用 ${report.toolCallCount} 次（失败 ${report.failedToolCallCount} 次），平均步数 ${report.averageStepCount.toFixed(1)}，平均用时 ${report.averageDurationMs}ms`
+    )
+    lines.push('')
+  }
+
+  if (reports.length > 1) {
+    lines.push('📈 对比')
+    for (const report of [...reports].sort((a, b) => b.passRate - a.passRate)) {
+      lines.push(
+        `  ${report.backend} / ${report.variant}: 通过率 ${formatPercent(report.passRate)}，失败工具调用 ${report.failedToolCallCount}，平均步数 ${report.averageStepCount.toFixed(1)}`
+      )
+    }
+  }
+
+  return lines.join('\n').trimEnd()
+}
@@ -0,0 +1,212 @@
+/**
+ * 画布评估场景：一条指令、可选的初始画布与期望的最终画布
+ *
+ * 期望的图形不要求顺序，也不要求 id（指定 id 时必须一致，用于检查修改类指令是否改对了图形）；
+ * 坐标、半径与透明度按容差比较，颜色统一为小写并展开 #rgb 简写后比较
+ */
+
+import type { CanvasPoint, CanvasShape, CanvasSnapshot } from '../tools/canvasState'
+
+export interface ExpectedCanvasShape {
+  type: CanvasShape['type']
+  id?: string
+  color?: string | string[]  // 多个可接受的颜色，满足其一即可
+  opacity?: number           // 未指定时不检查；实际图形没有透明度时按 1 处理
+  topLeft?: CanvasPoint
+  bottomRight?: CanvasPoint
+  center?: CanvasPoint
+  radius?: number
+}
+
+export interface ExpectedCanvas {
+  backgroundColor?: string | string[]
+  shapes: ExpectedCanvasShape[]
+  allowExtraShapes?: boolean  // 是否允许画布上有期望之外的图形，默认 false
+}
+
+export interface CanvasTolerance {
+  position?: number  // 坐标允许的偏差，默认 1
+  radius?: number    // 半径允许的偏差，默认 1
+  opacity?: number   // 透明度允许的偏差，默认 0.05
+}
+
+export interface CanvasScenario {
+  id: string
+  title?: string
+  prompt: string
+  images?: string[]
+  initialCanvas?: CanvasSnapshot
+  expected: ExpectedCanvas
+  tolerance?: CanvasTolerance
+  maxSteps?: number
+  tags?: string[]
+}
+
+export interface CanvasMatchResult {
+  passed: boolean
+  mismatches: string[]
+}
+
+type SnapshotShape = CanvasSnapshot['shapes'][number]
+
+const DEFAULT_TOLERANCE: Required<CanvasTolerance> = {
+  position: 1,
+  radius: 1,
+  opacity: 0.05
+}
+
+export function normalizeColor(color: string): string {
+  const value = color.trim().toLowerCase()
+  const short = value.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/)
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : value
+}
+
+function colorMatches(actual: string, expected: string | string[]): boolean {
+  const candidates = Array.isArray(expected) ? expected : [expected]
+  return candidates.some(color => normalizeColor(color) === normalizeColor(actual))
+}
+
+function within(actual: number | undefined, expected: number, tolerance: number): boolean {
+  return actual !== undefined && Math.abs(actual - expected) <= tolerance
+}
+
+function pointWithin(actual: CanvasPoint | undefined, expected: CanvasPoint, tolerance: number): boolean {
+  return within(actual?.x, expected.x, tolerance) && within(actual?.y, expected.y, tolerance)
+}
+
+function shapeMatches(actual: SnapshotShape, expected: ExpectedCanvasShape, tolerance: Required<CanvasTolerance>): boolean {
+  if (actual.type !== expected.type) return false
+  if (expected.id !== undefined && actual.id !== expected.id) return false
+  if (expected.color !== undefined && !colorMatches(actual.color, expected.color)) return false
+  if (expected.opacity !== undefined && !within(actual.opacity ?? 1, expected.opacity, tolerance.opacity)) return false
+  if (expected.topLeft && !pointWithin(actual.topLeft, expected.topLeft, tolerance.position)) return false
+  if (expected.bottomRight && !pointWithin(actual.bottomRight, expected.bottomRight, tolerance.position)) return false
+  if (expected.center && !pointWithin(actual.center, expected.center, tolerance.position)) return false
+  if (expected.radius !== undefined && !within(actual.radius, expected.radius, tolerance.radius)) return false
+  return true
+}
+
+export function describeShape(shape: ExpectedCanvasShape | SnapshotShape): string {
+  const color = Array.isArray(shape.color) ? shape.color.join('/') : shape.color
+  const parts: string[] = [shape.type]
+  if (shape.id) parts.push(`id=${shape.id}`)
+  if (color) parts.push(`color=${color}`)
+  if (shape.opacity !== undefined) parts.push(`opacity=${shape.opacity}`)
+  if (shape.topLeft) parts.push(`topLeft=(${shape.topLeft.x}, ${shape.topLeft.y})`)
+  if (shape.bottomRight) parts.push(`bottomRight=(${shape.bottomRight.x}, ${shape.bottomRight.y})`)
+  if (shape.center) parts.push(`center=(${shape.center.x}, ${shape.center.y})`)
+  if (shape.radius !== undefined) parts.push(`radius=${shape.radius}`)
+  return parts.join(' ')
+}
+
+/**
+ * 为期望的图形分配互不重复的实际图形（回溯查找，图形数量很少）
+ * 返回每个期望图形对应的实际图形下标，无法全部匹配时返回匹配数最多的一种
+ */
+function assignShapes(actual: SnapshotShape[], expected: ExpectedCanvasShape[], tolerance: Required<CanvasTolerance>): Array<number | null> {
+  const candidates = expected.map(shape => actual.flatMap((candidate, index) => (shapeMatches(candidate, shape, tolerance) ? [index] : [])))
+  let best: Array<number | null> = expected.map(() => null)
+  let bestCount = 0
+
+  const search = (position: number, used: Set<number>, current: Array<number | null>, count: number): boolean => {
+    if (count + (expected.length - position) <= bestCount) return false
+    if (position === expected.length) {
+      best = [...current]
+      bestCount = count
+      return count === expected.length
+    }
+    for (const index of candidates[position]) {
+      if (used.has(index)) continue
+      used.add(index)
+      current.push(index)
+      const complete = search(position + 1, used, current, count + 1)
+      current.pop()
+      used.delete(index)
+      if (complete) return true
+    }
+    current.push(null)
+    const complete = search(position + 1, used, current, count)
+    current.pop()
+    return complete
+  }
+
+  search(0, new Set(), [], 0)
+  return best
+}
+
+/**
+ * 比较实际画布与期望画布，返回是否通过以及每一处不一致的说明
+ */
+export function matchCanvas(actual: CanvasSnapshot, expected: ExpectedCanvas, tolerance: CanvasTolerance = {}): CanvasMatchResult {
+  const limits = { ...DEFAULT_TOLERANCE, ...tolerance }
+  const mismatches: string[] = []
+
+  if (expected.backgroundColor !== undefined && !colorMatches(actual.backgroundColor, expected.backgroundColor)) {
+    const expectedColor = Array.isArray(expected.backgroundColor) ? expected.backgroundColor.join('/') : expected.backgroundColor
+    mismatches.push(`背景颜色为 ${actual.backgroundColor}，期望 ${expectedColor}`)
+  }
+
+  const assignment = assignShapes(actual.shapes, expected.shapes, limits)
+  assignment.forEach((index, position) => {
+    if (index === null) {
+      mismatches.push(`缺少图形: ${describeShape(expected.shapes[position])}`)
+    }
+  })
+
+  if (!expected.allowExtraShapes) {
+    const matched = new Set(assignment.filter((index): index is number => index !== null))
+    actual.shapes.forEach((shape, index) => {
+      if (!matched.has(index)) {
+        mismatches.push(`多余的图形: ${describeShape(shape)}`)
+      }
+    })
+  }
+
+  return { passed: mismatches.length === 0, mismatches }
+}
+
+/**
+ * 把快照还原为画布图形，用于创建场景的初始画布
+ */
+export function shapesFromSnapshot(snapshot: CanvasSnapshot): CanvasShape[] {
+  return snapshot.shapes.map(shape => {
+    if (shape.type === 'rectangle') {
+      if (!shape.topLeft || !shape.bottomRight) {
+        throw new Error(`矩形 ${shape.id} 缺少 topLeft 或 bottomRight`)
+      }
+      return { id: shape.id, type: 'rectangle', color: shape.color, opacity: shape.opacity, topLeft: { ...shape.topLeft }, bottomRight: { ...shape.bottomRight } }
+    }
+    if (!shape.center || shape.radius === undefined) {
+      throw new Error(`圆形 ${shape.id} 缺少 center 或 radius`)
+    }
+    return { id: shape.id, type: 'circle', color: shape.color, opacity: shape.opacity, center: { ...shape.center }, radius: shape.radius }
+  })
+}
+
+/**
+ * 校验从 JSON 读取的场景，缺少必要字段时抛出错误（source 用于错误信息中指明来源）
+ */
+export function parseCanvasScenario(raw: unknown, source: string = '场景'): CanvasScenario {
+  const scenario = raw as Partial<CanvasScenario> | null
+  if (!scenario || typeof scenario !== 'object') {
+    throw new Error(`${source} 不是有效的场景对象`)
+  }
+  if (typeof scenario.id !== 'string' || !scenario.id.trim()) {
+    throw new Error(`${source} 缺少 id`)
+  }
+  if (typeof scenario.prompt !== 'string' || !scenario.prompt.trim()) {
+    throw new Error(`${source}（${scenario.id}）缺少 prompt`)
+  }
+  if (!scenario.expected || !Array.isArray(scenario.expected.shapes)) {
+    throw new Error(`${source}（${scenario.id}）缺少 expected.shapes`)
+  }
+  scenario.expected.shapes.forEach((shape, index) => {
+    if (shape?.type !== 'rectangle' && shape?.type !== 'circle') {
+      throw new Error(`${source}（${scenario.id}）的第 ${index + 1} 个期望图形类型无效`)
+    }
+  })
+  if (scenario.initialCanvas) {
+    shapesFromSnapshot(scenario.initialCanvas)
+  }
+  return scenario as CanvasScenario
+}
@@ -0,0 +1,21 @@
+export { matchCanvas, normalizeColor, describeShape, shapesFromSnapshot, parseCanvasScenario } from './canvasScenario'
+export type { CanvasScenario, CanvasTolerance, CanvasMatchResult, ExpectedCanvas, ExpectedCanvasShape } from './canvasScenario'
+export {
+  runCanvasEval,
+  runCanvasScenario,
+  summarizeCanvasResults,
+  formatCanvasEvalReport,
+  createMockBackend,
+  describeCanvasForPrompt,
+  DEFAULT_EVAL_SYSTEM_PROMPT,
+  DEFAULT_PROMPT_VARIANT
+} from './canvasEvalRunner'
+export type {
+  CanvasEvalBackend,
+  CanvasPromptVariant,
+  CanvasEvalOptions,
+  CanvasEvalReport,
+  CanvasScenarioResult,
+  CanvasToolError
+} from './canvasEvalRunner'
+export { BUILTIN_SCENARIOS } from './scenarios'
@@ -0,0 +1,13 @@
+import type { CanvasScenario } from '../canvasScenario'
+import drawRedRectangle from './draw-red-rectangle.json'
+import drawTranslucentCircle from './draw-translucent-circle.json'
+import recolorExistingShape from './recolor-existing-shape.json'
+import clearAndSetBackground from './clear-and-set-background.json'
+
+// 内置评估场景：覆盖绘制、透明度、修改已有图形与清屏换背景
+export const BUILTIN_SCENARIOS: CanvasScenario[] = [
+  drawRedRectangle as CanvasScenario,
+  drawTranslucentCircle as CanvasScenario,
+  recolorExistingShape as CanvasScenario,
+  clearAndSetBackground as CanvasScenario
+]
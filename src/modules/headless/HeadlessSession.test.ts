@@ -0,0 +1,111 @@
+/**
+ * 无界面运行时测试套件
+ * 使用离线 mock 服务验证 Node 中的工具调用循环、注入的画布状态、对话历史存储与 WAV 输出
+ */
+
+import { HeadlessSession, DEFAULT_HISTORY_KEY } from './HeadlessSession'
+import { createMemoryStorage } from './storage'
+import { encodeWav, extractPcm16 } from './wavEncoder'
+import { createCanvasState } from '../tools/canvasState'
+import { createMockCompletionHandler } from '../mock/mockCompletionServer'
+import { createTextFixture, type StreamFixture } from '../mock/streamFixtures'
+import { BUILTIN_FIXTURES } from '../mock/fixtures'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 4 字节裸 PCM16（两个采样）
+const PCM_CHUNK = 'AQACAA=='
+
+function createSession(fixtures: StreamFixture[], options: { storage?: ReturnType<typeof createMemoryStorage>; canvas?: ReturnType<typeof createCanvasState> } = {}) {
+  return new HeadlessSession({
+    agentConfig: {
+      systemPrompt: '你是画布助手',
+      llmConfig: {
+        apiKey: 'test',
+        baseURL: 'http://mock.local/v1',
+        model: 'mock-model',
+        toolCallMode: 'text',
+        fetch: createMockCompletionHandler({ fixtures, speed: 0 })
+      }
+    },
+    ...options
+  })
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🖥️ 开始运行无界面运行时测试...')
+
+  try {
+    // 测试 1: 裸 PCM 与带 RIFF 头的片段都能合并为 WAV
+    const raw = new Uint8Array([1, 0, 2, 0]).buffer
+    const wav = encodeWav([raw, raw], 16000)!
+    const view = new DataView(wav.buffer)
+    assert(wav.byteLength === 44 + 8, 'WAV 长度应该是 44 字节头加全部 PCM')
+    assert(String.fromCharCode(...wav.slice(0, 4)) === 'RIFF' && view.getUint32(40, true) === 8, 'WAV 头应该记录 data 长度')
+    assert(view.getUint32(24, true) === 16000 && view.getUint16(22, true) === 1, '裸 PCM 使用指定的采样率与单声道')
+    const reparsed = extractPcm16(wav.slice().buffer)
+    assert(reparsed.sampleRate === 16000 && reparsed.pcm.byteLength === 8, '带 RIFF 头的片段应该取出 data 块与采样率')
+    assert(encodeWav([]) === null, '没有音频时返回 null')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 内存画布与 store 使用同一套校验
+    const canvas = createCanvasState()
+    const rect = canvas.addRectangle({ topLeft: { x: -10, y: 10 }, bottomRight: { x: 10, y: -10 }, color: '#00ff00' })
+    canvas.updateShapeStyle(rect.id, { opacity: 0.5 })
+    assert(canvas.getSnapshot().shapes[0].opacity === 0.5, '样式更新应该写回画布')
+    let rejected = false
+    try {
+      canvas.addCircle({ center: { x: 45, y: 0 }, radius: 10 })
+    } catch {
+      rejected = true
+    }
+    assert(rejected && canvas.shapes.length === 1, '超出边界的图形应该被拒绝')
+    canvas.clearCanvas()
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: Node 中完整运行工具调用循环，画布工具操作注入的画布
+    const drawing = createSession(BUILTIN_FIXTURES, { canvas })
+    const drawn = await drawing.run({ text: '画一个红色矩形' })
+    assert(drawn.toolCalls.length === 1 && drawn.toolCalls[0].name === 'draw_rectangle', '应该执行一次 draw_rectangle')
+    assert(canvas.shapes.length === 1 && canvas.shapes[0].color === '#ff0000', '矩形应该画在注入的画布上')
+    assert(drawn.canvas.shapes.length === 1, '结果中应该带上画布快照')
+    assert(drawn.text.endsWith('已经画好了一个红色矩形。') && !drawn.text.includes('<tool_calls>'), '回复文本不应该包含工具调用标签')
+    assert(drawn.summary?.stopReason === 'completed' && drawn.audio === null, '没有音频时 audio 为 null')
+    drawing.dispose()
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 返回音频写成 WAV，对话历史保存到注入的存储，新会话可以恢复
+    const storage = createMemoryStorage()
+    const greeting = createTextFixture('greeting', '你好', { audioChunks: [PCM_CHUNK, PCM_CHUNK, PCM_CHUNK] })
+    const first = createSession([greeting], { storage })
+    const spoken = await first.run({ text: '打个招呼' })
+    assert(spoken.text === '你好', '应该返回回复文本')
+    assert(spoken.audio !== null && spoken.audio.byteLength === 44 + 12, '三个音频片段应该合并为一个 WAV')
+    assert(storage.getItem(DEFAULT_HISTORY_KEY)?.includes('打个招呼') === true, '对话历史应该写入存储')
+    first.dispose()
+
+    const resumed = createSession([greeting], { storage })
+    const transcript = resumed.getTranscript()
+    assert(transcript.some(message => message.role === 'user' && message.content[0].text === '打个招呼'), '新会话应该恢复之前的对话')
+    assert(transcript[0].role === 'system' && transcript[0].content[0].text!.includes('draw_rectangle'), '恢复后系统提示词应该包含当前工具说明')
+    resumed.reset()
+    assert(storage.getItem(DEFAULT_HISTORY_KEY) === null && resumed.getTranscript().length === 1, 'reset 应该清空历史与存储，只保留系统提示词')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！无界面运行时工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
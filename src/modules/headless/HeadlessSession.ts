@@ -0,0 +1,126 @@
+import { Agent, type AgentConfig, type AgentRunSummary } from '../agent/Agent'
+import type { ChatCompletionMessage } from '../api/types'
+import { ToolRegistry, type ToolPack } from '../tools/ToolRegistry'
+import { createCanvasState, type CanvasSnapshot, type CanvasState } from '../tools/canvasState'
+import { createCanvasToolPack } from '../tools/canvasTools'
+import { createMemoryStorage, type KeyValueStorage } from './storage'
+import { DEFAULT_OUTPUT_SAMPLE_RATE, encodeWav } from './wavEncoder'
+
+export interface HeadlessSessionConfig {
+  agentConfig: AgentConfig
+  canvas?: CanvasState         // 画布工具操作的画布，默认使用内存画布
+  canvasTools?: boolean        // 是否注册画布工具包，默认 true
+  toolPacks?: ToolPack[]       // 额外注册的工具包
+  storage?: KeyValueStorage    // 对话历史的存储，默认只保存在内存中
+  historyKey?: string          // 对话历史在存储中的键
+  sampleRate?: number          // 裸 PCM 音频片段的采样率
+}
+
+export interface HeadlessTurnInput {
+  text?: string
+  images?: string[]  // data URL、base64 或 http(s) 地址
+  audio?: string     // data URL 或 base64（wav / mp3）
+  signal?: AbortSignal
+}
+
+export interface HeadlessToolCall {
+  id: string
+  name: string
+  arguments: unknown
+}
+
+export interface HeadlessTurnResult {
+  text: string                  // 口播文本（不含工具调用标签）
+  audio: Uint8Array | null      // 合并后的 WAV，模型没有返回音频时为 null
+  toolCalls: HeadlessToolCall[]
+  summary: AgentRunSummary | null
+  usage?: unknown
+  canvas: CanvasSnapshot
+  durationMs: number
+}
+
+export const DEFAULT_HISTORY_KEY = 'headless:conversationHistory'
+
+/**
+ * 无界面会话：在 Node 中运行 Agent 的完整工具调用循环，不依赖 Vue、Pinia 与 Web Audio
+ * 画布状态与对话历史存储都由调用方注入，便于脚本化的回归测试与批量评估
+ */
+export class HeadlessSession {
+  readonly agent: Agent
+  readonly registry: ToolRegistry
+  readonly canvas: CanvasState
+  private storage: KeyValueStorage
+  private historyKey: string
+  private sampleRate: number
+
+  constructor(config: HeadlessSessionConfig) {
+    this.canvas = config.canvas ?? createCanvasState()
+    this.storage = config.storage ?? createMemoryStorage()
+    this.historyKey = config.historyKey ?? DEFAULT_HISTORY_KEY
+    this.sampleRate = config.sampleRate ?? DEFAULT_OUTPUT_SAMPLE_RATE
+
+    this.agent = new Agent(config.agentConfig)
+    const savedHistory = this.storage.getItem(this.historyKey)
+    if (savedHistory && !this.agent.importHistory(savedHistory)) {
+      console.warn('⚠️ 无法恢复保存的对话历史，将从新对话开始')
+    }
+
+    // 先恢复历史再绑定注册表，系统提示词会按当前启用的工具包重新生成
+    this.registry = new ToolRegistry()
+    if (config.canvasTools !== false) {
+      this.registry.registerPack(createCanvasToolPack(() => this.canvas))
+    }
+    config.toolPacks?.forEach(pack => this.registry.registerPack(pack))
+    this.agent.setToolRegistry(this.registry)
+  }
+
+  async run(input: HeadlessTurnInput): Promise<HeadlessTurnResult> {
+    const startedAt = Date.now()
+    const audioChunks: ArrayBuffer[] = []
+    const toolCalls = new Map<string, HeadlessToolCall>()
+    let finalAudio: ArrayBuffer | undefined
+    let text = ''
+    let usage: unknown
+
+    for await (const response of this.agent.generate(input.text ?? '', input.images, input.audio, { signal: input.signal })) {
+      text += response.text
+      if (response.audioChunk) {
+        audioChunks.push(response.audioChunk)
+      } else if (response.audio) {
+        finalAudio = response.audio
+      }
+      // 同一个工具调用可能随多个回复片段出现，按 id 去重
+      response.toolCalls?.forEach(toolCall => {
+        toolCalls.set(toolCall.id, { id: toolCall.id, name: toolCall.name, arguments: toolCall.arguments })
+      })
+      usage = response.usage ?? usage
+    }
+
+    this.storage.setItem(this.historyKey, this.agent.exportHistory())
+
+    const audio = audioChunks.length > 0 ? audioChunks : finalAudio ? [finalAudio] : []
+    return {
+      text: text.trim(),
+      audio: encodeWav(audio, this.sampleRate),
+      toolCalls: Array.from(toolCalls.values()),
+      summary: this.agent.getLastRunSummary(),
+      usage,
+      canvas: this.canvas.getSnapshot(),
+      durationMs: Date.now() - startedAt
+    }
+  }
+
+  getTranscript(): ChatCompletionMessage[] {
+    return this.agent.getConversationHistory()
+  }
+
+  reset(): void {
+    this.agent.clearConversationHistory()
+    this.canvas.clearCanvas()
+    this.storage.removeItem(this.historyKey)
+  }
+
+  dispose(): void {
+    this.agent.dispose()
+  }
+}
@@ -0,0 +1,7 @@
+export { HeadlessSession, DEFAULT_HISTORY_KEY } from './HeadlessSession'
+export type { HeadlessSessionConfig, HeadlessTurnInput, HeadlessTurnResult, HeadlessToolCall } from './HeadlessSession'
+export { createMemoryStorage } from './storage'
+export type { KeyValueStorage } from './storage'
+export { encodeWav, extractPcm16, DEFAULT_OUTPUT_SAMPLE_RATE } from './wavEncoder'
+export { createCanvasState } from '../tools/canvasState'
+export type { CanvasState, CanvasSnapshot } from '../tools/canvasState'
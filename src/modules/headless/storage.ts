@@ -0,0 +1,23 @@
+/**
+ * 无界面运行时使用的键值存储，接口与 Web Storage 的 getItem / setItem / removeItem 一致
+ * 浏览器中可以直接传入 window.localStorage，Node 中使用内存存储或由调用方提供文件存储
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+export function createMemoryStorage(initial: Record<string, string> = {}): KeyValueStorage {
+  const items = new Map(Object.entries(initial))
+
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    }
+  }
+}
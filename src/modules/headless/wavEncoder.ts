@@ -0,0 +1,92 @@
+/**
+ * 把模型返回的音频片段合并为 WAV 文件（不依赖 AudioContext）
+ *
+ * 流式音频片段可能是裸 PCM16，也可能是带 RIFF 头的 WAV：
+ * 带头的片段取出 data 块并读取采样率，裸 PCM 使用默认采样率（与 AudioManager 一致为 24kHz）
+ */
+
+export const DEFAULT_OUTPUT_SAMPLE_RATE = 24000
+
+const RIFF = 0x52494646
+const WAVE = 0x57415645
+const FMT = 0x666d7420
+const DATA = 0x64617461
+const WAV_HEADER_BYTES = 44
+
+export interface PcmChunk {
+  pcm: Uint8Array
+  sampleRate?: number  // 仅带 RIFF 头的片段有
+}
+
+export function extractPcm16(buffer: ArrayBuffer): PcmChunk {
+  const view = new DataView(buffer)
+  const isRiff = view.byteLength >= 12 && view.getUint32(0, false) === RIFF && view.getUint32(8, false) === WAVE
+  if (!isRiff) {
+    return { pcm: new Uint8Array(buffer) }
+  }
+
+  let offset = 12
+  let sampleRate: number | undefined
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = view.getUint32(offset, false)
+    const chunkSize = view.getUint32(offset + 4, true)
+    const dataOffset = offset + 8
+
+    if (chunkId === FMT && chunkSize >= 16) {
+      const bitsPerSample = view.getUint16(dataOffset + 14, true)
+      if (bitsPerSample !== 16) {
+        throw new Error(`不支持 ${bitsPerSample} 位的音频片段，只支持 16 位 PCM`)
+      }
+      sampleRate = view.getUint32(dataOffset + 4, true)
+    }
+    if (chunkId === DATA) {
+      // 流式 WAV 的 data 长度可能写为 0 或 0xFFFFFFFF，按实际剩余长度截取
+      const end = Math.min(view.byteLength, dataOffset + (chunkSize || view.byteLength))
+      return { pcm: new Uint8Array(buffer.slice(dataOffset, end)), sampleRate }
+    }
+    offset += 8 + chunkSize
+  }
+
+  return { pcm: new Uint8Array(0), sampleRate }
+}
+
+/**
+ * 合并音频片段并写入 44 字节的 WAV 头（单声道 16 位 PCM），没有音频时返回 null
+ */
+export function encodeWav(chunks: ArrayBuffer[], sampleRate: number = DEFAULT_OUTPUT_SAMPLE_RATE): Uint8Array | null {
+  const pcmChunks = chunks.map(extractPcm16)
+  const rate = pcmChunks.find(chunk => chunk.sampleRate)?.sampleRate ?? sampleRate
+  const dataLength = pcmChunks.reduce((total, chunk) => total + chunk.pcm.byteLength, 0)
+  if (dataLength === 0) {
+    return null
+  }
+
+  const wav = new Uint8Array(WAV_HEADER_BYTES + dataLength)
+  const view = new DataView(wav.buffer)
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) {
+      view.setUint8(offset + i, tag.charCodeAt(i))
+    }
+  }
+
+  writeTag(0, 'RIFF')
+  view.setUint32(4, 36 + dataLength, true)
+  writeTag(8, 'WAVE')
+  writeTag(12, 'fmt ')
+  view.setUint32(16, 16, true)        // fmt 块长度
+  view.setUint16(20, 1, true)         // PCM
+  view.setUint16(22, 1, true)         // 单声道
+  view.setUint32(24, rate, true)
+  view.setUint32(28, rate * 2, true)  // 每秒字节数
+  view.setUint16(32, 2, true)         // 每个采样的字节数
+  view.setUint16(34, 16, true)        // 位深
+  writeTag(36, 'data')
+  view.setUint32(40, dataLength, true)
+
+  let offset = WAV_HEADER_BYTES
+  for (const chunk of pcmChunks) {
+    wav.set(chunk.pcm, offset)
+    offset += chunk.pcm.byteLength
+  }
+  return wav
+}
@@ -9,10 +9,26 @@ export type { VadConfig, VadState } from './vad/VadDetector'
 // Context module exports
 export { ContextManager } from './context/ContextManager'
 export type { ContextItem, ConversationContext } from './context/ContextManager'
+export {
+  fitMessagesToBudget,
+  resolveContextLimit,
+  estimateMessagesTokens,
+  MODEL_CONTEXT_LIMITS,
+  DEFAULT_CONTEXT_TOKENS
+} from './context/contextBudget'
+export type { ContextBudget, ContextBudgetResult } from './context/contextBudget'
 
 // Audio module exports
 export { AudioManager } from './audio'
 export { ScreenManager } from './screen'
+export {
+  DisplayCaptureSource,
+  CameraCaptureSource,
+  CanvasCaptureSource,
+  ImageCaptureSource,
+  SyntheticCaptureSource
+} from './screen'
+export type { ScreenCaptureSource, CaptureSourceKind, CapturedFrame } from './screen'
 export { LLM, ConversationHistory, AudioPlayer } from './llm'
 
 // Agent module exports
@@ -23,6 +39,6 @@ export type { AgentConfig, AgentMessage, AgentResponse } from './agent'
 export { ConversationManager } from './conversation'
 export type { ConversationMessage, ConversationSession } from './conversation'
 
-// Screenshot module exports
-export { ScreenshotManager } from './screenshot'
-export type { Screenshot, ScreenshotManagerConfig } from './screenshot'
\ No newline at end of file
+// Realtime module exports
+export { RealtimeClient } from './realtime'
+export type { RealtimeClientConfig, RealtimeConnectionState } from './realtime'
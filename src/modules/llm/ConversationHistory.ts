@@ -14,8 +14,12 @@ export interface ChatMessage {
   toolCallId?: string;
   audioData?: string; // base64 音频数据
   imageData?: string; // base64 图片数据
+  interrupted?: boolean; // 回复被用户打断，内容已截断为实际听到的部分
 }
 
+// 回复在用户听到任何内容之前就被打断时，历史中记录的助手消息内容
+export const INTERRUPTED_REPLY_PLACEHOLDER = '（回复被用户打断，没有说出任何内容）';
+
 export class ConversationHistory {
   private messages: ChatMessage[] = [];
   private maxHistorySize: number;
@@ -36,7 +40,7 @@ export class ConversationHistory {
     toolCallId?: string,
     audioData?: string, // base64 音频数据
     imageData?: string  // base64 图片数据
-  ): void {
+  ): ChatMessage {
     const message: ChatMessage = {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       role,
@@ -75,6 +79,8 @@ export class ConversationHistory {
         this.messages = this.messages.slice(-messagesToKeep);
       }
     }
+
+    return message;
   }
 
   getMessages(): ChatMessage[] {
@@ -194,6 +200,58 @@ export class ConversationHistory {
     this.addMessage('assistant', content, 'text', toolCalls);
   }
 
+  // 添加被打断的助手消息：内容是已截断的实际听到的部分，为空时记录占位内容，避免留下没有回复的用户轮次
+  addInterruptedAssistantMessage(content: string): ChatMessage {
+    const message = this.addMessage('assistant', content.trim() ? content : INTERRUPTED_REPLY_PLACEHOLDER);
+    message.interrupted = true;
+    return message;
+  }
+
+  // 将本轮最后一条助手消息截断为用户实际听到的内容，截断后为空且没有工具调用时记录占位内容
+  truncateLastAssistantMessage(content: string): ChatMessage | null {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      const message = this.messages[i];
+
+      if (message.role === 'assistant') {
+        message.content = content.trim() || message.toolCalls?.length ? content : INTERRUPTED_REPLY_PLACEHOLDER;
+        message.interrupted = true;
+        return message;
+      }
+
+      // 不跨越到上一轮对话
+      if (message.role === 'user' && message.type !== 'tool') {
+        break;
+      }
+    }
+
+    return null;
+  }
+
+  // 原地替换 system 消息内容（不清空历史），内容为空时移除
+  setSystemMessage(content: string): void {
+    const index = this.messages.findIndex(msg => msg.role === 'system');
+
+    if (!content.trim()) {
+      if (index !== -1) {
+        this.messages.splice(index, 1);
+      }
+      return;
+    }
+
+    if (index !== -1) {
+      this.messages[index].content = content;
+      return;
+    }
+
+    this.messages.unshift({
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      role: 'system',
+      content,
+      timestamp: Date.now(),
+      type: 'text'
+    });
+  }
+
   addUserMessage(content: string, audioData?: string, imageData?: string): void {
     const type = audioData ? 'audio' : (imageData ? 'image' : 'text');
     this.addMessage('user', content, type, undefined, undefined, audioData, imageData);
@@ -0,0 +1,375 @@
+/**
+ * LLM 工具调用模式测试套件
+ * 通过 LLMConfig.fetch 注入模拟的流式接口，验证原生 function calling 与文本标签解析两条路径
+ */
+
+import { LLM, type GenerationResult, type Message, type Tool } from './LLM'
+import { encodeSSE, SSE_DONE } from '../mock/streamFixtures'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+type MockResponse = any[] | Error | 'hang'
+
+// 流式响应：每次读取输出一个 SSE 事件，分片为 Error 时读取流的过程中失败
+function streamResponse(chunks: any[]): Response {
+  const encoder = new TextEncoder()
+  const events = [...chunks, SSE_DONE]
+  let index = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index >= events.length) {
+        controller.close()
+        return
+      }
+      const event = events[index++]
+      if (event instanceof Error) {
+        controller.error(event)
+        return
+      }
+      controller.enqueue(encoder.encode(encodeSSE(event)))
+    }
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+function errorResponse(error: Error & { status?: number; headers?: Record<string, string> }): Response {
+  return new Response(JSON.stringify({ error: { message: error.message } }), {
+    status: error.status ?? 500,
+    headers: { 'Content-Type': 'application/json', ...error.headers }
+  })
+}
+
+// 等到请求被中止才失败，用于模拟没有响应的服务端
+function hangUntilAborted(signal?: AbortSignal | null): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new Error('Request was aborted.')))
+  })
+}
+
+// 模拟 chat/completions 接口，通过 LLMConfig.fetch 注入：按调用顺序返回预设的流式分片，并记录请求体
+// 响应为 Error 时返回对应状态码的错误响应；分片为 Error 时在读取流的过程中失败；'hang' 时直到请求被中止才结束
+function createMockFetch(responses: MockResponse[]) {
+  const requests: any[] = []
+  let callIndex = 0
+
+  const fetch = async (_input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    requests.push(JSON.parse(String(init?.body)))
+    const response = responses[callIndex++] ?? []
+    if (response === 'hang') {
+      return hangUntilAborted(init?.signal)
+    }
+    return response instanceof Error ? errorResponse(response) : streamResponse(response)
+  }
+
+  return { fetch, requests }
+}
+
+function textChunk(content: string) {
+  return { choices: [{ delta: { content } }] }
+}
+
+function audioChunk(data: string) {
+  return { choices: [{ delta: { audio: { data } } }] }
+}
+
+function apiError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`${status} status code`), { status, headers })
+}
+
+function toolCallChunk(index: number, payload: { id?: string; name?: string; arguments?: string }) {
+  return {
+    choices: [{
+      delta: {
+        tool_calls: [{
+          index,
+          id: payload.id,
+          type: 'function',
+          function: { name: payload.name, arguments: payload.arguments }
+        }]
+      }
+    }]
+  }
+}
+
+function createLLM(toolCallMode: 'native' | 'text', responses: MockResponse[]) {
+  const mock = createMockFetch(responses)
+  const llm = new LLM({ apiKey: 'test', baseURL: 'http://localhost', model: 'mock-model', toolCallMode, fetch: mock.fetch })
+  return { llm, requests: mock.requests }
+}
+
+const calls: Array<Record<string, unknown>> = []
+const drawTool: Tool = {
+  name: 'draw_rectangle',
+  description: '绘制矩形',
+  parameters: {
+    type: 'object',
+    properties: {
+      topLeftX: { type: 'number', description: '左上角X' },
+      color: { type: 'string', description: '颜色' }
+    },
+    required: ['topLeftX']
+  },
+  handler: async (args: Record<string, unknown>) => {
+    calls.push(args)
+    return { isSuccess: true, data: { id: 'rect_001' } }
+  }
+}
+
+const userMessages: Message[] = [{ role: 'user', content: [{ type: 'text', text: '画一个矩形' }] }]
+
+async function collect(stream: AsyncGenerator<GenerationResult>): Promise<GenerationResult[]> {
+  const results: GenerationResult[] = []
+  for await (const result of stream) {
+    results.push(result)
+  }
+  return results
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🗺️ 开始运行 LLM 工具调用模式测试...')
+
+  try {
+    // 测试 1: 原生模式注入 tools 定义并累积流式 tool_calls 分片
+    const native = createLLM('native', [[
+      textChunk('好的'),
+      toolCallChunk(0, { id: 'call_abc', name: 'draw_rectangle', arguments: '{"topLe' }),
+      toolCallChunk(0, { arguments: 'ftX":-10,' }),
+      toolCallChunk(0, { arguments: '"color":"#ff0000"}' })
+    ]])
+    native.llm.registerTool(drawTool)
+    const nativeResults = await collect(native.llm.generate(userMessages, undefined, undefined, true))
+
+    const request = native.requests[0]
+    assert(Array.isArray(request.tools) && request.tools.length === 1, '原生模式应该注入 tools 定义')
+    assert(request.tools[0].function.name === 'draw_rectangle', 'tools 定义应该来自已注册的工具')
+    assert(request.tools[0].function.parameters.required[0] === 'topLeftX', 'tools 定义应该复用 JSON Schema 参数')
+    assert(request.tool_choice === 'auto', '原生模式应该设置 tool_choice')
+
+    const nativeToolResult = nativeResults.find(result => result.toolCalls)
+    assert(Boolean(nativeToolResult), '应该产出工具调用结果')
+    assert(nativeToolResult!.toolCalls!.length === 1, '应该有 1 个工具调用')
+    assert(nativeToolResult!.toolCalls![0].id === 'call_abc', '应该保留模型返回的调用 id')
+    assert(JSON.parse(nativeToolResult!.toolCalls![0].arguments).topLeftX === -10, '参数分片应该被正确拼接')
+    assert(nativeResults[nativeResults.length - 1].finished === true, '最后一个结果应该标记完成')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 原生模式工具执行后按协议发送 tool 消息
+    const followUp = createLLM('native', [[textChunk('已完成绘制')]])
+    followUp.llm.registerTool(drawTool)
+    calls.length = 0
+    const followUpResults = await collect(followUp.llm.processToolCalls(
+      nativeToolResult!.toolCalls!,
+      userMessages,
+      undefined,
+      '好的'
+    ))
+
+    assert(calls.length === 1 && calls[0].topLeftX === -10, '工具处理函数应该收到解析后的参数')
+    const sentMessages = followUp.requests[0].messages
+    const assistantMessage = sentMessages[sentMessages.length - 2]
+    const toolMessage = sentMessages[sentMessages.length - 1]
+    assert(assistantMessage.role === 'assistant' && assistantMessage.tool_calls[0].id === 'call_abc', 'assistant 消息应该携带 tool_calls')
+    assert(toolMessage.role === 'tool' && toolMessage.tool_call_id === 'call_abc', '工具结果应该以 tool 消息发送')
+    assert(followUpResults.some(result => result.toolResultsText), '应该上报工具结果汇总用于保存历史')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 原生模式下模型仍输出文本标签时回退到文本解析
+    const fallback = createLLM('native', [[
+      textChunk('<tool_calls>[{"name":"draw_rectangle","arguments":{"topLeftX":5}}]</tool_calls>')
+    ]])
+    fallback.llm.registerTool(drawTool)
+    const fallbackResults = await collect(fallback.llm.generate(userMessages, undefined, undefined, true))
+    const fallbackToolResult = fallbackResults.find(result => result.toolCalls)
+    assert(Boolean(fallbackToolResult), '应该回退到文本标签解析')
+    assert(JSON.parse(fallbackToolResult!.toolCalls![0].arguments).topLeftX === 5, '文本解析的参数应该正确')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 文本模式不注入 tools，忽略流中的 tool_calls 分片
+    const text = createLLM('text', [[
+      textChunk('我来画'),
+      toolCallChunk(0, { id: 'call_x', name: 'draw_rectangle', arguments: '{}' })
+    ]])
+    text.llm.registerTool(drawTool)
+    const textResults = await collect(text.llm.generate(userMessages, undefined, undefined, true))
+    assert(text.requests[0].tools === undefined, '文本模式不应该注入 tools 定义')
+    assert(!textResults.some(result => result.toolCalls), '文本模式不应该解析原生 tool_calls')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 未配置时按供应商选择默认模式
+    const byProvider = new LLM({ apiKey: 'test', baseURL: 'http://localhost', model: 'm', providerId: 'openai' })
+    const unknownProvider = new LLM({ apiKey: 'test', baseURL: 'http://localhost', model: 'm', providerId: 'custom' })
+    assert(byProvider.getToolCallMode() === 'native', 'openai 供应商默认使用原生模式')
+    assert(unknownProvider.getToolCallMode() === 'text', '未知供应商默认使用文本标签模式')
+    console.log('✅ 测试 5 通过')
+
+    // 测试 6: 文本模式下标签块闭合后提前执行工具，且标签不进入流式文本
+    const eager = createLLM('text', [[
+      textChunk('马上画<tool_calls>[{"name":"draw_rectangle","arguments":{"topLeftX":1}}]'),
+      textChunk('</tool_calls>'),
+      textChunk('这是后续的语音回复')
+    ]])
+    eager.llm.registerTool(drawTool)
+    calls.length = 0
+    const startedBeforeEnd: boolean[] = []
+    let streamedText = ''
+    let eagerToolCalls: GenerationResult['toolCalls']
+    for await (const result of eager.llm.generate(userMessages, undefined, undefined, true, {
+      eagerToolExecution: true,
+      toolHooks: { onStart: () => startedBeforeEnd.push(true) }
+    })) {
+      streamedText += result.text
+      if (result.text === '这是后续的语音回复') {
+        assert(startedBeforeEnd.length === 1, '工具应该在回复结束前开始执行')
+      }
+      if (result.toolCalls) {
+        eagerToolCalls = result.toolCalls
+      }
+    }
+    assert(streamedText === '马上画这是后续的语音回复', '流式文本不应该包含工具调用标签')
+    assert(Boolean(eagerToolCalls && eagerToolCalls.length === 1), '流结束后仍应该上报工具调用')
+    await collect(eager.llm.processToolCalls(eagerToolCalls!, userMessages, {
+      onStart: () => startedBeforeEnd.push(true)
+    }, '马上画'))
+    assert(calls.length === 1, '提前执行的工具不应该被重复执行')
+    assert(startedBeforeEnd.length === 1, '提前执行的工具不应该重复触发生命周期回调')
+    console.log('✅ 测试 6 通过')
+
+    // 测试 7: 引用同批次结果的调用不提前执行，等依赖完成后以解析后的参数执行
+    const referenced = createLLM('text', [[
+      textChunk('<tool_calls>[{"name":"draw_rectangle","arguments":{"topLeftX":1}},'),
+      textChunk('{"name":"draw_rectangle","arguments":{"topLeftX":2,"color":"$ref:0.id"}}]</tool_calls>')
+    ], [textChunk('完成')]])
+    referenced.llm.registerTool(drawTool)
+    calls.length = 0
+    let referencedToolCalls: GenerationResult['toolCalls']
+    for await (const result of referenced.llm.generate(userMessages, undefined, undefined, true, { eagerToolExecution: true })) {
+      if (result.toolCalls) {
+        referencedToolCalls = result.toolCalls
+      }
+    }
+    assert(calls.length === 1, '只有不含引用的调用应该提前执行')
+    await collect(referenced.llm.processToolCalls(referencedToolCalls!, userMessages))
+    assert(calls.length === 2 && calls[1].color === 'rect_001', '引用应该在依赖完成后替换为其结果')
+    console.log('✅ 测试 7 通过')
+
+    // 测试 8: 可重试的错误（503）按退避重试，成功后正常输出
+    const flaky = createLLM('text', [apiError(503), [textChunk('恢复了')]])
+    const flakyResults = await collect(flaky.llm.generate(userMessages))
+    assert(flaky.requests.length === 2, '503 应该重试一次')
+    assert(flakyResults.map(result => result.text).join('') === '恢复了', '重试成功后应该正常输出')
+    console.log('✅ 测试 8 通过')
+
+    // 测试 9: 音频已经开始输出后失败，不再重试
+    const midStream = createLLM('text', [[audioChunk('UklGRg=='), apiError(502)], [textChunk('不应该出现')]])
+    let midStreamError: unknown
+    try {
+      await collect(midStream.llm.generate(userMessages))
+    } catch (error) {
+      midStreamError = error
+    }
+    assert((midStreamError as { status?: number })?.status === 502, '输出音频后失败应该抛出原始错误')
+    assert(midStream.requests.length === 1, '输出音频后不应该重试')
+    console.log('✅ 测试 9 通过')
+
+    // 测试 10: 不可重试的错误直接切换到备用供应商，备用供应商使用自己的模型与默认音色
+    // 同一个 fetch 按请求地址区分：主供应商返回 401，备用供应商正常回复
+    const primary = createMockFetch([apiError(401)])
+    const backup = createMockFetch([[textChunk('备用回复')]])
+    const failover = new LLM({
+      apiKey: 'test',
+      baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+      model: 'qwen3-omni-flash',
+      providerId: 'aliyun',
+      voice: 'Cherry',
+      fallbackProviders: [{ providerId: 'openai', baseURL: 'https://api.openai.com/v1', apiKey: 'backup', model: 'gpt-4o-audio-preview' }],
+      fetch: (input, init) => {
+        const url = input instanceof Request ? input.url : String(input)
+        return url.startsWith('https://api.openai.com/v1') ? backup.fetch(input, init) : primary.fetch(input, init)
+      }
+    })
+    const failoverResults = await collect(failover.generate(userMessages))
+    assert(primary.requests.length === 1, '401 不应该在主供应商上重试')
+    assert(backup.requests[0]?.model === 'gpt-4o-audio-preview', '备用供应商应该使用自己的模型')
+    assert(backup.requests[0]?.audio?.voice === 'alloy', '主配置音色不可用时使用备用供应商的默认音色')
+    assert(failoverResults.map(result => result.text).join('') === '备用回复', '应该输出备用供应商的回复')
+    console.log('✅ 测试 10 通过')
+
+    // 测试 11: 超时后中止请求并重试
+    const hanging = createLLM('text', ['hang', [textChunk('超时后重试成功')]])
+    hanging.llm.updateConfig({ timeout: 50, retryAttempts: 1 })
+    const hangingResults = await collect(hanging.llm.generate(userMessages))
+    assert(hanging.requests.length === 2, '超时后应该重试')
+    assert(hangingResults.map(result => result.text).join('') === '超时后重试成功', '重试成功后应该正常输出')
+    console.log('✅ 测试 11 通过')
+
+    // 测试 12: 切换到备用供应商后，工具结果按实际回复的供应商的工具调用方式发送
+    const textPrimary = createMockFetch([apiError(401), apiError(401)])
+    const nativeBackup = createMockFetch([
+      [toolCallChunk(0, { id: 'call_backup', name: 'draw_rectangle', arguments: '{"topLeftX":3}' })],
+      [textChunk('备用供应商已完成')]
+    ])
+    const mixed = new LLM({
+      apiKey: 'test',
+      baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+      model: 'qwen3-omni-flash',
+      providerId: 'aliyun',
+      fallbackProviders: [{ providerId: 'openai', baseURL: 'https://api.openai.com/v1', apiKey: 'backup', model: 'gpt-4o' }],
+      fetch: (input, init) => {
+        const url = input instanceof Request ? input.url : String(input)
+        return url.startsWith('https://api.openai.com/v1') ? nativeBackup.fetch(input, init) : textPrimary.fetch(input, init)
+      }
+    })
+    mixed.registerTool(drawTool)
+    assert(mixed.getToolCallMode() === 'text', '主供应商使用文本标签模式')
+    const mixedResults = await collect(mixed.generate(userMessages, undefined, undefined, true))
+    const backupToolCalls = mixedResults.find(result => result.toolCalls)?.toolCalls
+    assert(backupToolCalls?.[0].id === 'call_backup', '应该解析备用供应商返回的原生工具调用')
+    await collect(mixed.processToolCalls(backupToolCalls!, userMessages))
+    const backupFollowUp = nativeBackup.requests[1].messages
+    assert(backupFollowUp[backupFollowUp.length - 1].role === 'tool' && backupFollowUp[backupFollowUp.length - 1].tool_call_id === 'call_backup', '工具结果应该按原生协议以 tool 消息发送')
+    console.log('✅ 测试 12 通过')
+
+    // 测试 13: Retry-After 超过等待上限时不提前重试，直接切换到备用供应商
+    const limited = createMockFetch([apiError(429, { 'retry-after': '30' }), [textChunk('不应该出现')]])
+    const limitedBackup = createMockFetch([[textChunk('备用供应商回复')]])
+    const rateLimited = new LLM({
+      apiKey: 'test',
+      baseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+      model: 'qwen3-omni-flash',
+      providerId: 'aliyun',
+      fallbackProviders: [{ providerId: 'openai', baseURL: 'https://api.openai.com/v1', apiKey: 'backup', model: 'gpt-4o' }],
+      fetch: (input, init) => {
+        const url = input instanceof Request ? input.url : String(input)
+        return url.startsWith('https://api.openai.com/v1') ? limitedBackup.fetch(input, init) : limited.fetch(input, init)
+      }
+    })
+    const startedAt = Date.now()
+    const rateLimitedResults = await collect(rateLimited.generate(userMessages))
+    assert(limited.requests.length === 1 && Date.now() - startedAt < 5000, '不应该在 Retry-After 之前重试主供应商')
+    assert(rateLimitedResults.map(result => result.text).join('') === '备用供应商回复', '应该输出备用供应商的回复')
+    console.log('✅ 测试 13 通过')
+
+    // 测试 14: 带 '=' 填充的音频片段逐个解码后拼接
+    const padded = createLLM('text', [[audioChunk('AQACAA=='), audioChunk('AwAEAA=='), textChunk('好')]])
+    const paddedResults = await collect(padded.llm.generate(userMessages))
+    const fullAudio = paddedResults.find(result => result.finished)?.audio
+    assert(fullAudio !== undefined && Array.from(new Uint8Array(fullAudio)).join(',') === '1,0,2,0,3,0,4,0', '完整音频应该是各片段字节的拼接')
+    console.log('✅ 测试 14 通过')
+
+    console.log('🎉 所有测试都通过了！原生与文本工具调用模式工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -1,6 +1,20 @@
 import OpenAI from 'openai';
-import { markRaw } from 'vue';
-import { parseToolCalls, hasToolCallTags, type ParsedToolCall } from '../tools/toolCallParser';
+import { parseToolCalls, hasToolCallTags, stripToolCallExamples, type ParsedToolCall } from '../tools/toolCallParser';
+import { StreamingToolCallParser } from '../tools/streamingToolCallParser';
+import { validateToolArguments, formatToolArgumentErrors } from '../tools/toolArgumentValidator';
+import { executeToolCallBatch, hasToolCallReferences } from '../tools/toolCallScheduler';
+import { fitMessagesToBudget, resolveContextLimit } from '../context/contextBudget';
+import { getProviderAdapter, type ProviderAdapter, type ToolCallDelta } from './providers';
+import {
+  computeBackoffDelay,
+  exceedsBackoffLimit,
+  getRetryAfterMs,
+  isRetriableError,
+  resolveRequestPolicy,
+  RequestTimeout,
+  waitForBackoff,
+  type RequestPolicy
+} from './requestPolicy';
 
 export interface LLMConfig {
   apiKey: string;
@@ -10,11 +24,38 @@ export interface LLMConfig {
   format?: string;
   temperature?: number;
   maxTokens?: number;
-  providerId?: string; // 供应商标识，用于特定格式处理
+  providerId?: string; // 供应商标识，用于选择供应商适配器（未注册时按 baseURL 识别）
+  toolCallMode?: ToolCallMode; // 工具调用方式，未配置时按供应商适配器的默认值
+  maxParallelToolCalls?: number; // 同一批次中最多同时执行的工具调用数，默认 4
+  maxContextTokens?: number; // 上下文 token 上限，未配置时按模型默认值；超出时先省略较早的图片/音频，再删除较早的消息
+  timeout?: number; // 请求超时（毫秒），对应 AppConfig.api.timeout，默认 30000
+  retryAttempts?: number; // 可重试错误的最大重试次数，对应 AppConfig.api.retryAttempts，默认 2
+  fallbackProviders?: LLMFallbackProvider[]; // 主供应商重试后仍失败时，按顺序尝试的备用供应商
+  fetch?: (input: string | URL | Request, init?: RequestInit) => Promise<Response>; // 自定义请求实现（如离线 mock 服务），未配置时使用全局 fetch
 }
 
+// 备用供应商：未指定的生成参数（温度、输出格式等）沿用主配置
+export interface LLMFallbackProvider {
+  providerId?: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  voice?: string; // 未指定且主配置的音色不在该供应商的音色列表中时，使用供应商默认音色
+  toolCallMode?: ToolCallMode;
+}
+
+// 一次请求的目标：主供应商或某个备用供应商
+interface RequestTarget {
+  config: LLMConfig;
+  provider: ProviderAdapter;
+  client: OpenAI;
+}
+
+// 工具调用方式：native 使用 OpenAI tools/tool_calls，text 解析回复中的 <tool_calls> 标签
+export type ToolCallMode = 'native' | 'text';
+
 export interface Message {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: Array<{
     type: 'text' | 'image_url' | 'input_audio' | 'video_url' | 'audio_url';
     text?: string;
@@ -42,6 +83,7 @@ export interface GenerationResult {
   usage?: any;
   toolCalls?: ToolCall[];
   toolResultsText?: string;
+  followUpMessages?: Message[]; // 工具结果汇总时附带：包含工具调用与结果的完整消息，用于发起下一步生成
 }
 
 export interface ToolSchemaProperty {
@@ -50,6 +92,12 @@ export interface ToolSchemaProperty {
   enum?: string[];
   properties?: Record<string, ToolSchemaProperty>;
   required?: string[];
+  items?: ToolSchemaProperty;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
   [key: string]: unknown;
 }
 
@@ -84,28 +132,39 @@ export interface ToolCallLifecycleHooks {
   onStart?: (toolCall: ToolCall) => void;
   onSuccess?: (toolCall: ToolCall, response: ToolResponse) => void;
   onError?: (toolCall: ToolCall, error: unknown) => void;
+  onSkip?: (toolCall: ToolCall, reason: string) => void;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal; // 中止后停止读取流，不再执行未开始的工具调用
+  eagerToolExecution?: boolean; // 文本标签模式下，标签块闭合后立即执行工具，无需等待回复结束
+  toolHooks?: ToolCallLifecycleHooks; // 提前执行工具时使用的生命周期回调
+  getToolCallSkipReason?: (toolCall: ToolCall) => string | undefined; // 执行前询问，返回原因则跳过该工具调用（如超出调用预算）
+  continueAfterToolCalls?: boolean; // processToolCalls 执行完工具后是否自动继续生成，默认 true；由调用方驱动多步循环时设为 false
 }
 
 export class LLM {
   private openai: OpenAI;
   private config: LLMConfig;
+  private provider: ProviderAdapter;
+  private fallbackClients: Map<string, OpenAI> = new Map();
   private tools: Map<string, Tool> = new Map();
+  // 流式阶段提前启动的工具执行，按工具调用 id 索引，由 processToolCalls 消费
+  private eagerToolExecutions: Map<string, Promise<ToolResponse>> = new Map();
+  // 最近一次回复所用供应商（主供应商失败后为备用供应商）的工具调用方式，processToolCalls 按它组织工具结果消息
+  private lastToolCallMode: ToolCallMode | null = null;
 
   constructor(config: LLMConfig) {
     this.config = {
-      voice: 'Cherry', // 默认音色
       format: 'wav', // 默认音频格式
       temperature: 0.9, // 默认温度
       maxTokens: undefined, // 默认无限制
       ...config
     };
+    this.provider = getProviderAdapter(this.config.providerId, this.config.baseURL);
 
     try {
-      this.openai = markRaw(new OpenAI({
-        apiKey: this.config.apiKey,
-        baseURL: this.config.baseURL,
-        dangerouslyAllowBrowser: true
-      }));
+      this.openai = this.createClient(this.config.apiKey, this.config.baseURL);
     } catch (error) {
       console.error('❌ OpenAI客户端初始化失败:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -113,148 +172,191 @@ export class LLM {
     }
   }
 
-  async *generate(messages: Message[], images?: string[], audioData?: string, enableTools: boolean = false): AsyncGenerator<GenerationResult> {
-    // 构建消息数组
-    const processedMessages: OpenAI.Chat.ChatCompletionMessageParam[] = messages.map(msg => {
-      const contentParts: OpenAI.Chat.ChatCompletionContentPart[] = [];
+  async *generate(
+    messages: Message[],
+    images?: string[],
+    audioData?: string,
+    enableTools: boolean = false,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<GenerationResult> {
+    if (options.signal?.aborted) {
+      return;
+    }
 
-      for (const item of msg.content) {
-        if (item.type === 'text' && item.text) {
-          contentParts.push({ type: 'text', text: item.text });
-          continue;
-        }
+    messages = this.applyContextBudget(messages);
 
-        if (item.type === 'image_url' && item.image_url) {
-          contentParts.push({ type: 'image_url', image_url: { url: item.image_url.url } });
-          continue;
-        }
+    const policy = resolveRequestPolicy({ timeout: this.config.timeout, retryAttempts: this.config.retryAttempts });
+    const targets = this.getRequestTargets();
+    let lastError: unknown;
 
-        // 处理输入音频，进行规范化（支持 wav/mp3，数据为base64）
-        if (item.type === 'input_audio' && (item as any).input_audio) {
-          const src = (item as any).input_audio as { data: string; format?: string };
-          const normalized = this.normalizeInputAudio(src.data, (src.format || 'wav'));
-          if (normalized) {
-            contentParts.push({
-              type: 'input_audio',
-              input_audio: normalized
-            } as unknown as OpenAI.Chat.ChatCompletionContentPartInputAudio);
+    for (let targetIndex = 0; targetIndex < targets.length; targetIndex++) {
+      const target = targets[targetIndex];
+      if (targetIndex > 0) {
+        console.warn(`🔀 切换到备用供应商: ${target.provider.name}（${target.config.model}）`);
+      }
+
+      for (let attempt = 0; attempt <= policy.retryAttempts; attempt++) {
+        const progress = { emitted: false };
+        try {
+          yield* this.streamCompletion(target, messages, images, audioData, enableTools, options, policy, progress);
+          return;
+        } catch (error) {
+          if (options.signal?.aborted) {
+            console.log('⏹️ LLM 请求已中止');
+            return;
           }
-          continue;
-        }
+          lastError = error;
 
-        if (item.type === 'input_audio' && item.input_audio) {
-          // 检查是否为硅基流动供应商，如果是则转换为 audio_url 格式
-          if (this.isSiliconFlowProvider()) {
-            console.log('🎵 LLM: 硅基流动供应商，转换 input_audio 为 audio_url 格式')
-            const audioUrl = `data:audio/mpeg;base64,${item.input_audio.data}`
-            contentParts.push({
-              type: 'audio_url',
-              audio_url: { url: audioUrl }
-            } as any);
-          } else {
-            // 其他供应商使用原有的 input_audio 格式
-            const normalizedAudio = this.normalizeInputAudio(item.input_audio.data, item.input_audio.format);
-            if (normalizedAudio) {
-              contentParts.push({
-                type: 'input_audio',
-                input_audio: normalizedAudio
-              } as unknown as OpenAI.Chat.ChatCompletionContentPartInputAudio);
-            }
+          // 已经播放或展示的内容无法撤回，重试会导致重复输出
+          if (progress.emitted) {
+            console.error('❌ 回复输出过程中请求失败，已输出内容，不再重试:', error);
+            throw this.normalizeRequestError(error);
+          }
+          if (!isRetriableError(error) || attempt === policy.retryAttempts) {
+            console.error(`❌ OpenAI API调用失败（${target.provider.name}）:`, error);
+            break;
           }
-        }
 
-        if (item.type === 'audio_url' && item.audio_url) {
-          console.log('🎵 LLM: 检测到 audio_url 类型，直接转发给 OpenAI')
-          contentParts.push({
-            type: 'audio_url',
-            audio_url: { url: item.audio_url.url }
-          } as any);
-          continue;
-        }
+          const retryAfterMs = getRetryAfterMs(error);
+          if (exceedsBackoffLimit(retryAfterMs, policy)) {
+            console.warn(`⏭️ ${target.provider.name} 要求 ${retryAfterMs}ms 后重试，超过等待上限，不再重试该供应商`);
+            break;
+          }
 
-        // 处理视频类型，直接转发 video_url
-        if (item.type === 'video_url' && item.video_url) {
-          console.log('🎬 LLM: 检测到 video_url 类型，直接转发给 OpenAI')
-          contentParts.push({
-            type: 'video_url',
-            video_url: { url: item.video_url.url }
-          } as any);
-          continue;
+          const delay = computeBackoffDelay(attempt, policy, retryAfterMs);
+          console.warn(`🔁 LLM 请求失败，${delay}ms 后第 ${attempt + 1} 次重试:`, error instanceof Error ? error.message : error);
+          await waitForBackoff(delay, options.signal);
+          if (options.signal?.aborted) {
+            return;
+          }
         }
       }
+    }
+
+    throw this.normalizeRequestError(lastError);
+  }
+
+  // 向单个供应商发起一次流式请求；progress.emitted 记录是否已经向调用方输出内容
+  private async *streamCompletion(
+    target: RequestTarget,
+    messages: Message[],
+    images: string[] | undefined,
+    audioData: string | undefined,
+    enableTools: boolean,
+    options: GenerateOptions,
+    policy: RequestPolicy,
+    progress: { emitted: boolean }
+  ): AsyncGenerator<GenerationResult> {
+    const { config, provider } = target;
+
+    // 构建消息数组
+    const processedMessages: OpenAI.Chat.ChatCompletionMessageParam[] = messages.map((msg, index) => {
+      // 原生工具调用的结果消息
+      if (msg.role === 'tool') {
+        return {
+          role: 'tool',
+          tool_call_id: msg.tool_call_id ?? '',
+          content: msg.content.map(item => item.text ?? '').join('')
+        } as OpenAI.Chat.ChatCompletionToolMessageParam;
+      }
+
+      // 按供应商适配器转换内容（音频格式、audio_url、video_url 等差异由适配器处理）
+      const contentParts = msg.content
+        .map(item => provider.convertContentPart(item))
+        .filter((part): part is NonNullable<typeof part> => part !== null) as OpenAI.Chat.ChatCompletionContentPart[];
 
       if (contentParts.length === 0) {
         contentParts.push({ type: 'text', text: '' });
       }
 
+      // 只有紧跟 tool 结果消息的 assistant 才携带 tool_calls，历史中的文本模式工具调用不转发
+      if (msg.role === 'assistant' && msg.tool_calls?.length && messages[index + 1]?.role === 'tool') {
+        return {
+          role: 'assistant',
+          content: contentParts.map(part => (part.type === 'text' ? part.text : '')).join(''),
+          tool_calls: msg.tool_calls
+        } as OpenAI.Chat.ChatCompletionAssistantMessageParam;
+      }
+
       return {
         role: msg.role,
         content: contentParts
       } as OpenAI.Chat.ChatCompletionMessageParam;
     });
 
-    // 如果提供了图像，添加到用户消息中
-    if (images && images.length > 0) {
-      const lastMessage = processedMessages[processedMessages.length - 1];
-      if (lastMessage.role === 'user') {
-        for (const imageUrl of images) {
-          (lastMessage.content as OpenAI.Chat.ChatCompletionContentPart[]).push({
-            type: 'image_url',
-            image_url: { url: imageUrl }
-          });
-        }
-      }
-    }
-
-    // 如果提供了音频数据，添加到用户消息中
-    if (audioData) {
-      const lastMessage = processedMessages[processedMessages.length - 1];
-      if (lastMessage.role === 'user') {
-        const normalizedAudio = this.normalizeInputAudio(audioData, 'wav');
-        if (normalizedAudio) {
-          (lastMessage.content as OpenAI.Chat.ChatCompletionContentPart[]).push({
-            type: 'input_audio',
-            input_audio: normalizedAudio
-          } as unknown as OpenAI.Chat.ChatCompletionContentPartInputAudio);
+    // 如果提供了图像或音频数据，添加到用户消息中
+    const extraParts: Message['content'] = [
+      ...(images ?? []).map(url => ({ type: 'image_url' as const, image_url: { url } })),
+      ...(audioData ? [{ type: 'input_audio' as const, input_audio: { data: audioData, format: 'wav' } }] : [])
+    ];
+    const lastMessage = processedMessages[processedMessages.length - 1];
+    if (extraParts.length > 0 && lastMessage?.role === 'user') {
+      for (const part of extraParts) {
+        const converted = provider.convertContentPart(part);
+        if (converted) {
+          (lastMessage.content as OpenAI.Chat.ChatCompletionContentPart[]).push(converted as OpenAI.Chat.ChatCompletionContentPart);
         }
       }
     }
 
     // 创建请求参数
     const params: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
-        model: this.config.model,
+        model: config.model,
         messages: processedMessages,
         stream: true,
         stream_options: { include_usage: true },
-        modalities: ['text', 'audio'],
-        audio: {
-          voice: this.config.voice || 'Cherry',
-          format: (this.config.format || 'wav') as 'wav' | 'mp3'
-        },
-        temperature: this.config.temperature
+        temperature: config.temperature
       };
+    provider.applyOutputOptions(params, { voice: config.voice, format: config.format });
+
+    // 原生模式注入 OpenAI 工具定义；文本模式由 parseToolCalls 解析回复中的标签
+    const toolCallMode = config.toolCallMode ?? provider.toolCallMode;
+    this.lastToolCallMode = toolCallMode;
+    const useNativeTools = enableTools && this.tools.size > 0 && toolCallMode === 'native';
+    if (useNativeTools) {
+      params.tools = this.buildNativeToolDefinitions();
+      params.tool_choice = 'auto';
+    }
 
-    // 注意：不再注入 OpenAI 工具定义，改用文本解析方式
+    // 发送请求并处理流，超时由 RequestTimeout 中止请求
+    const timeout = new RequestTimeout(policy.timeout, options.signal);
+    try {
+      yield* this.consumeStream(target, params, enableTools, useNativeTools, options, timeout, progress);
+    } finally {
+      timeout.clear();
+    }
+  }
 
-    // 发送请求并处理流
+  private async *consumeStream(
+    target: RequestTarget,
+    params: OpenAI.Chat.ChatCompletionCreateParamsStreaming,
+    enableTools: boolean,
+    useNativeTools: boolean,
+    options: GenerateOptions,
+    timeout: RequestTimeout,
+    progress: { emitted: boolean }
+  ): AsyncGenerator<GenerationResult> {
     let response;
     try {
-      response = await this.openai.chat.completions.create(params);
+      response = await target.client.chat.completions.create(params, { signal: timeout.signal });
     } catch (error) {
-      console.error('❌ OpenAI API调用失败:', error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('Cannot read private member') || errorMessage.includes('__classPrivateFieldGet')) {
-        throw new Error('OpenAI客户端库兼容性问题，请检查浏览器环境或更新依赖版本');
-      }
-      throw error;
+      throw timeout.timedOut ? timeout.error() : error;
     }
 
     let aggregatedText = '';
     const audioChunks: string[] = [];
     let usageStats: any = null;
-    // 注意：不再使用流式工具调用解析，改用文本解析
+    // 原生模式下按 index 累积流式 delta.tool_calls
+    const nativeToolCalls = new Map<number, ToolCall>();
+    // 文本标签模式下增量解析，标签内容不输出到展示文本
+    const streamingParser = enableTools && this.tools.size > 0 && !useNativeTools
+      ? new StreamingToolCallParser()
+      : null;
+    if (streamingParser) {
+      this.eagerToolExecutions.clear();
+    }
 
-    for await (const chunk of response) {
+    for await (const chunk of this.readStream(response, options.signal, timeout)) {
       // 增加调试日志
       // console.log('🔍 LLM chunk received:', {
       //   hasChoices: chunk.choices && chunk.choices.length > 0,
@@ -264,113 +366,38 @@ export class LLM {
       //   deltaContent: chunk.choices?.[0]?.delta?.content
       // })
 
-      if (chunk.choices && chunk.choices.length > 0) {
-        const choice = chunk.choices[0];
-
-        let textDelta = '';
-        const chunkAudioParts: string[] = [];
-
-        // 注意：移除流式工具调用检测，改用文本解析方式
-
-        // 直接处理 delta.content（对于标准 OpenAI Chat Completion 格式）
-        let processedDelta = false;
-        if (choice.delta && choice.delta.content !== undefined && choice.delta.content !== null) {
-          // 即使 content 为空字符串也要处理，因为这可能是第一个 chunk
-          textDelta = choice.delta.content;
-          processedDelta = true;
-          // console.log('📝 Text delta extracted:', { content: textDelta, length: textDelta.length, isEmpty: textDelta === '' });
+      const decoded = target.provider.decodeStreamChunk(chunk);
+      if (decoded) {
+        if (useNativeTools && decoded.toolCallDeltas.length > 0) {
+          this.accumulateNativeToolCalls(nativeToolCalls, decoded.toolCallDeltas);
         }
 
-        const processContent = (content: any) => {
-          if (!content) return;
-
-          if (typeof content === 'string') {
-            textDelta += content;
-            return;
-          }
+        audioChunks.push(...decoded.audio);
+        const audioChunkBuffer = decoded.audio.length > 0
+          ? this.decodeAudioChunks(decoded.audio)
+          : undefined;
 
-          if (Array.isArray(content)) {
-            for (const contentItem of content) {
-              const contentType = contentItem?.type;
-
-              // 处理嵌套的text字段
-              let contentText: string | undefined;
-              if (contentItem?.text) {
-                if (typeof contentItem.text === 'string') {
-                  contentText = contentItem.text;
-                } else if (Array.isArray(contentItem.text)) {
-                  // 处理嵌套的text数组结构
-                  for (const nestedItem of contentItem.text) {
-                    if (typeof nestedItem === 'string') {
-                      contentText = (contentText || '') + nestedItem;
-                    } else if (nestedItem?.type === 'text' && typeof nestedItem.text === 'string') {
-                      contentText = (contentText || '') + nestedItem.text;
-                    }
-                  }
-                }
-              } else {
-                contentText = typeof contentItem?.output_text === 'string'
-                  ? contentItem.output_text
-                  : undefined;
-              }
-
-              if ((contentType === 'text' || contentType === 'output_text') && typeof contentText === 'string') {
-                textDelta += contentText;
-              }
-
-              const audioPayload = contentItem?.input_audio ?? contentItem?.audio ?? contentItem?.output_audio;
-              if ((contentType === 'input_audio' || contentType === 'audio' || contentType === 'output_audio') && audioPayload?.data) {
-                const audioData = audioPayload.data as string;
-                audioChunks.push(audioData);
-                chunkAudioParts.push(audioData);
-              }
-            }
-          }
-        };
+        // 输出结果：即使文本是空字符串也要输出（第一个 chunk）
+        aggregatedText += decoded.text;
 
-        // 如果没有处理过 delta.content，尝试其他方式（用于非标准格式）
-        if (!processedDelta) {
-          processContent(choice.delta?.content as any);
-          if (!textDelta && !chunkAudioParts.length) {
-            const messageContent = (choice as any)?.message?.content;
-            if (messageContent) {
-              processContent(messageContent as any);
-            }
-          }
+        let visibleText = decoded.text;
+        let startedEagerTools = false;
+        if (streamingParser && visibleText) {
+          const parsed = streamingParser.push(visibleText);
+          visibleText = parsed.text;
+          parsed.toolCalls.forEach(toolCall => this.startEagerToolExecution(toolCall, options));
+          startedEagerTools = parsed.toolCalls.length > 0;
         }
 
-        const deltaAudio = (choice.delta as any)?.audio;
-        if (deltaAudio?.data) {
-          audioChunks.push(deltaAudio.data);
-          chunkAudioParts.push(deltaAudio.data);
-        }
-
-        const audioChunkBuffer = chunkAudioParts.length > 0
-          ? this.base64ToArrayBuffer(chunkAudioParts.join(''))
-          : undefined;
-
-        // 输出结果：即使 textDelta 是空字符串也要输出（第一个 chunk）
-        if (textDelta !== undefined || audioChunkBuffer) {
-          if (textDelta && textDelta !== '') {
-            aggregatedText += textDelta;
-          }
-
-          // console.log('📤 LLM yielding result:', {
-          //   textDelta,
-          //   textDeltaLength: textDelta?.length || 0,
-          //   aggregatedTextLength: aggregatedText.length,
-          //   hasAudioChunk: !!audioChunkBuffer,
-          //   toolCallsCount: toolCalls.length,
-          //   isEmpty: textDelta === '',
-          //   isUndefined: textDelta === undefined
-          // });
-
-          yield {
-            text: textDelta || '',
-            audioChunk: audioChunkBuffer,
-            finished: false
-          };
+        // 已输出文本、音频或已提前执行工具后，失败时不能再重试
+        if (visibleText || audioChunkBuffer || (startedEagerTools && options.eagerToolExecution)) {
+          progress.emitted = true;
         }
+        yield {
+          text: visibleText,
+          audioChunk: audioChunkBuffer,
+          finished: false
+        };
       }
 
       if (chunk.usage) {
@@ -378,31 +405,75 @@ export class LLM {
       }
     }
 
-    const audioBuffer = audioChunks.length > 0 ? this.base64ToArrayBuffer(audioChunks.join('')) : undefined;
+    // 中止时不输出结束标记；流式阶段已解析的工具调用（可能已提前执行）交给调用方记录，未执行的由 processToolCalls 按取消跳过
+    if (options.signal?.aborted) {
+      console.log('⏹️ LLM 流已中止', { aggregatedTextLength: aggregatedText.length });
+      const parsedToolCalls = streamingParser?.getToolCalls() ?? [];
+      if (parsedToolCalls.length > 0) {
+        yield {
+          text: '',
+          finished: false,
+          toolCalls: parsedToolCalls.map(tc => ({
+            id: tc.id,
+            name: tc.name,
+            arguments: JSON.stringify(tc.arguments)
+          }))
+        };
+      }
+      return;
+    }
+
+    // 输出增量解析器暂存的文本
+    if (streamingParser) {
+      const flushed = streamingParser.flush();
+      flushed.toolCalls.forEach(toolCall => this.startEagerToolExecution(toolCall, options));
+      if (flushed.text) {
+        yield { text: flushed.text, finished: false };
+      }
+    }
+
+    const audioBuffer = audioChunks.length > 0 ? this.decodeAudioChunks(audioChunks) : undefined;
 
-    // 使用文本解析方式检测工具调用
-    let toolCallsToProcess: ParsedToolCall[] = [];
-    if (enableTools && this.tools.size > 0 && hasToolCallTags(aggregatedText)) {
+    // 优先使用原生工具调用，未返回时回退到文本标签解析
+    let compatibleToolCalls: ToolCall[] = [];
+    if (useNativeTools && nativeToolCalls.size > 0) {
+      compatibleToolCalls = this.finalizeNativeToolCalls(nativeToolCalls);
+      console.log('🔧 原生工具调用解析结果:', {
+        toolCallsCount: compatibleToolCalls.length,
+        toolNames: compatibleToolCalls.map(tc => tc.name)
+      });
+    } else if (streamingParser && streamingParser.getToolCalls().length > 0) {
+      // 增量解析已得到的工具调用（id 与提前执行的工具一致）
+      compatibleToolCalls = streamingParser.getToolCalls().map(tc => ({
+        id: tc.id,
+        name: tc.name,
+        arguments: JSON.stringify(tc.arguments)
+      }));
+      console.log('🔧 流式解析工具调用结果:', {
+        toolCallsCount: compatibleToolCalls.length,
+        toolNames: compatibleToolCalls.map(tc => tc.name)
+      });
+    } else if (enableTools && this.tools.size > 0 && hasToolCallTags(aggregatedText)) {
       console.log('🔧 检测到工具调用标签，开始解析文本:', aggregatedText.substring(0, 200) + '...');
       const parseResult = parseToolCalls(aggregatedText);
-      toolCallsToProcess = parseResult.toolCalls;
+      const toolCallsToProcess: ParsedToolCall[] = parseResult.toolCalls;
       
       console.log('🔧 文本解析结果:', {
         toolCallsCount: toolCallsToProcess.length,
         toolNames: toolCallsToProcess.map(tc => tc.name),
         cleanedTextLength: parseResult.cleanedText.length
       });
-    }
 
-    // 如果有工具调用，处理工具调用
-    if (toolCallsToProcess.length > 0) {
       // 转换为兼容的 ToolCall 格式
-      const compatibleToolCalls: ToolCall[] = toolCallsToProcess.map(tc => ({
+      compatibleToolCalls = toolCallsToProcess.map(tc => ({
         id: tc.id,
         name: tc.name,
         arguments: JSON.stringify(tc.arguments)
       }));
-      
+    }
+
+    // 如果有工具调用，处理工具调用
+    if (compatibleToolCalls.length > 0) {
       console.log('🔧 发送工具调用结果:', {
         toolCallsCount: compatibleToolCalls.length,
         toolCallsDetail: compatibleToolCalls.map(tc => ({
@@ -432,125 +503,195 @@ export class LLM {
     };
   }
 
-  private base64ToArrayBuffer(base64: string): ArrayBuffer {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+  // 在流式阶段提前执行工具，结果由 processToolCalls 按 id 取用
+  private startEagerToolExecution(parsed: ParsedToolCall, options: GenerateOptions): void {
+    if (!options.eagerToolExecution || options.signal?.aborted) {
+      return;
     }
-    return bytes.buffer;
-  }
 
-  private normalizeInputAudio(rawAudio: string | undefined, declaredFormat?: string): { data: string; format: string } | null {
-    if (!rawAudio) {
-      return null;
+    const toolCall: ToolCall = {
+      id: parsed.id,
+      name: parsed.name,
+      arguments: JSON.stringify(parsed.arguments)
+    };
+
+    // 引用同批次结果的调用需要等依赖完成后解析参数，留给 processToolCalls 执行
+    if (hasToolCallReferences(parsed.arguments)) {
+      return;
     }
 
-    let trimmed = rawAudio.trim();
-    if (!trimmed) {
-      return null;
+    // 被拒绝的调用不提前执行，留给 processToolCalls 统一记录跳过结果
+    if (options.getToolCallSkipReason?.(toolCall)) {
+      return;
     }
 
-    let format = declaredFormat?.trim().toLowerCase();
+    console.log(`⚡ 流式阶段提前执行工具: ${toolCall.name}`);
+    options.toolHooks?.onStart?.(toolCall);
 
-    // 处理各种可能的音频数据格式
-    const dataUrlMatch = trimmed.match(/^data:(?:audio\/([a-z0-9+.-]+)|;base64),(.+)$/i);
-    if (dataUrlMatch) {
-      if (dataUrlMatch[1]) {
-        // 格式: data:audio/wav;base64,...
-        format = dataUrlMatch[1].toLowerCase();
-      } else {
-        // 格式: data:;base64,...
-        format = declaredFormat?.trim().toLowerCase() || 'wav';
+    const execution = this.executeToolCall(toolCall).then(
+      response => {
+        options.toolHooks?.onSuccess?.(toolCall, response);
+        return response;
+      },
+      error => {
+        console.error(`❌ 工具调用执行失败: ${toolCall.name}`, error);
+        options.toolHooks?.onError?.(toolCall, error);
+        return {
+          tool_call_id: toolCall.id,
+          name: toolCall.name,
+          content: JSON.stringify({ error: error instanceof Error ? error.message : String(error) })
+        } as ToolResponse;
       }
-      trimmed = dataUrlMatch[2];
-    } else if (/^[A-Za-z0-9+/=]+$/.test(trimmed)) {
-      // 格式: 纯base64字符串（没有data:前缀）
-      format = declaredFormat?.trim().toLowerCase() || 'wav';
-      // trimmed 保持不变，已经是base64数据
-    }
-
-    const normalizedFormat = this.normalizeAudioFormat(format)
+    );
 
-    if (!trimmed) {
-      return null;
-    }
+    this.eagerToolExecutions.set(toolCall.id, execution);
+  }
 
-    if (!normalizedFormat) {
-      return null;
-    }
+  getToolCallMode(): ToolCallMode {
+    return this.config.toolCallMode ?? this.provider.toolCallMode;
+  }
 
-    const payloadData = trimmed.startsWith('data:')
-      ? trimmed
-      : this.shouldAddAudioDataPrefix()
-        ? `data:;base64,${trimmed}`
-        : trimmed; // 本地供应商或其他供应商直接使用 base64 数据
+  getProvider(): ProviderAdapter {
+    return this.provider;
+  }
 
-    return {
-      data: payloadData,
-      format: normalizedFormat
-    };
+  // 由已注册工具生成 OpenAI tools 定义（与文本模式共用同一份 JSON Schema，描述中去掉标签示例）
+  private buildNativeToolDefinitions(): OpenAI.Chat.ChatCompletionTool[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: stripToolCallExamples(tool.description),
+        parameters: tool.parameters as unknown as Record<string, unknown>
+      }
+    }));
   }
 
-  private normalizeAudioFormat(format?: string): 'wav' | 'mp3' | null {
-    if (!format) {
-      return 'wav'
+  // 累积流式 tool_calls 分片：首个分片带 id/name，后续分片追加 arguments
+  private accumulateNativeToolCalls(
+    accumulated: Map<number, ToolCall>,
+    deltas: ToolCallDelta[]
+  ): void {
+    for (const delta of deltas) {
+      const index = delta.index ?? accumulated.size;
+      const existing = accumulated.get(index) ?? { id: '', name: '', arguments: '' };
+
+      if (delta.id) {
+        existing.id = delta.id;
+      }
+      if (delta.function?.name) {
+        existing.name += delta.function.name;
+      }
+      if (delta.function?.arguments) {
+        existing.arguments += delta.function.arguments;
+      }
+
+      accumulated.set(index, existing);
     }
+  }
 
-    const normalized = format.trim().toLowerCase()
+  private finalizeNativeToolCalls(accumulated: Map<number, ToolCall>): ToolCall[] {
+    return Array.from(accumulated.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, toolCall]) => ({
+        id: toolCall.id || `call_${Date.now()}_${index}`,
+        name: toolCall.name,
+        arguments: toolCall.arguments.trim() || '{}'
+      }))
+      .filter(toolCall => toolCall.name);
+  }
 
-    if (normalized === 'wav' || normalized === 'audio/wav' || normalized === 'x-wav' || normalized === 'wave') {
-      return 'wav'
-    }
+  // 按 token 预算裁剪消息，避免多轮截图累积后请求超出模型上下文
+  private applyContextBudget(messages: Message[]): Message[] {
+    const result = fitMessagesToBudget(messages, {
+      maxContextTokens: resolveContextLimit(this.config.model, this.config.maxContextTokens),
+      reserveOutputTokens: this.config.maxTokens
+    });
 
-    if (normalized === 'mp3' || normalized === 'audio/mp3' || normalized === 'mpeg') {
-      return 'mp3'
+    if (result.downgradedMedia > 0 || result.droppedMessages > 0) {
+      console.log(`📏 上下文超出预算，已省略 ${result.downgradedMedia} 个较早的媒体、删除 ${result.droppedMessages} 条较早的消息:`, {
+        before: result.originalTokens,
+        after: result.estimatedTokens,
+        limit: result.limit
+      });
+    }
+    if (result.overBudget) {
+      console.warn(`⚠️ 当前轮次内容仍然超出上下文预算: ${result.estimatedTokens} / ${result.limit}`);
     }
 
-    return null
+    return result.messages;
   }
 
-  // 检查是否为硅基流动供应商
-  private isSiliconFlowProvider(): boolean {
-    const baseURL = this.config.baseURL?.toLowerCase() || '';
-    const providerId = this.config.providerId?.toLowerCase();
-
-    // 硅基流动相关的 URL 模式
-    const siliconFlowPatterns = [
-      'api.siliconflow.cn',
-      'siliconflow.cn',
-      'api.siliconflow.com',
-      'siliconflow.com'
-    ];
-
-    // 通过 providerId 检测
-    if (providerId === 'siliconflow' || providerId === 'silicon-flow') {
-      return true;
+  // 读取流式响应，中止时静默结束（OpenAI SDK 会在中止时抛出异常）
+  // 只在等待下一个分片时计算超时，调用方处理分片（如播放音频）的时间不计入
+  private async *readStream<T>(stream: AsyncIterable<T>, signal?: AbortSignal, timeout?: RequestTimeout): AsyncGenerator<T> {
+    try {
+      for await (const chunk of stream) {
+        if (signal?.aborted) {
+          return;
+        }
+        timeout?.pause();
+        yield chunk;
+        timeout?.touch();
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+      throw timeout?.timedOut ? timeout.error() : error;
     }
 
-    // 通过 baseURL 检测
-    return siliconFlowPatterns.some(pattern => baseURL.includes(pattern));
+    // SDK 在请求被中止时可能直接结束迭代，超时需要按失败处理
+    if (timeout?.timedOut && !signal?.aborted) {
+      throw timeout.error();
+    }
   }
 
-  // 检查是否需要为音频数据添加 data: 前缀
-  private shouldAddAudioDataPrefix(): boolean {
-    // 检查是否为阿里云 DashScope
-    const baseURL = this.config.baseURL?.toLowerCase() || '';
-    const providerId = this.config.providerId?.toLowerCase();
+  private createClient(apiKey: string, baseURL: string): OpenAI {
+    // 重试由 requestPolicy 统一处理，关闭 SDK 内置的重试
+    return new OpenAI({
+      apiKey,
+      baseURL,
+      maxRetries: 0,
+      dangerouslyAllowBrowser: true,
+      fetch: this.config.fetch
+    });
+  }
 
-    // 阿里云相关的 URL 模式
-    const aliyunPatterns = [
-      'dashscope.aliyuncs.com',
-      'dashscope-intl.aliyuncs.com'
-    ];
+  private getRequestTargets(): RequestTarget[] {
+    const primary: RequestTarget = { config: this.config, provider: this.provider, client: this.openai };
+    const fallbacks = (this.config.fallbackProviders ?? []).map(fallback => {
+      const provider = getProviderAdapter(fallback.providerId, fallback.baseURL);
+      const inheritedVoice = provider.voices.some(voice => voice.value === this.config.voice) ? this.config.voice : undefined;
+      const key = `${fallback.baseURL}|${fallback.apiKey}`;
+      if (!this.fallbackClients.has(key)) {
+        this.fallbackClients.set(key, this.createClient(fallback.apiKey, fallback.baseURL));
+      }
+      return {
+        config: { ...this.config, ...fallback, voice: fallback.voice ?? inheritedVoice, fallbackProviders: undefined },
+        provider,
+        client: this.fallbackClients.get(key)!
+      };
+    });
+    return [primary, ...fallbacks];
+  }
 
-    // 通过 providerId 检测
-    if (providerId === 'aliyun') {
-      return true;
+  private normalizeRequestError(error: unknown): unknown {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('Cannot read private member') || errorMessage.includes('__classPrivateFieldGet')) {
+      return new Error('OpenAI客户端库兼容性问题，请检查浏览器环境或更新依赖版本');
     }
+    return error;
+  }
 
-    // 通过 baseURL 检测
-    return aliyunPatterns.some(pattern => baseURL.includes(pattern));
+  // 每个片段单独解码后拼接：片段末尾可能带 '=' 填充，直接拼接 base64 字符串会导致解码失败
+  private decodeAudioChunks(chunks: string[]): ArrayBuffer {
+    const binaryString = chunks.map(chunk => atob(chunk)).join('');
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
   }
 
   // 注册工具
@@ -564,6 +705,15 @@ export class LLM {
     tools.forEach(tool => this.registerTool(tool));
   }
 
+  // 移除工具
+  unregisterTool(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) {
+      console.log(`🔧 工具已移除: ${name}`);
+    }
+    return removed;
+  }
+
   // 执行工具调用
   private async executeToolCall(toolCall: ToolCall): Promise<ToolResponse> {
     const tool = this.tools.get(toolCall.name);
@@ -573,13 +723,38 @@ export class LLM {
 
     try {
       // 解析参数
-      let args;
-      try {
-        args = JSON.parse(toolCall.arguments);
-      } catch {
-        args = {};
+      let rawArgs: unknown = {};
+      if (toolCall.arguments && toolCall.arguments.trim()) {
+        try {
+          rawArgs = JSON.parse(toolCall.arguments);
+        } catch {
+          const error = `工具 ${toolCall.name} 的参数不是合法的 JSON：${toolCall.arguments}\n请输出合法的 JSON 对象后重新调用。`;
+          console.warn(`⚠️ 工具参数解析失败: ${toolCall.name}`, toolCall.arguments);
+          return {
+            tool_call_id: toolCall.id,
+            name: toolCall.name,
+            content: JSON.stringify({ isSuccess: false, error, data: null })
+          };
+        }
       }
 
+      // 按 JSON Schema 校验并规范化参数，校验失败时不执行处理函数，直接把错误反馈给模型
+      const validation = validateToolArguments(tool.parameters, rawArgs);
+      if (!validation.valid) {
+        console.warn(`⚠️ 工具参数校验失败: ${toolCall.name}`, validation.errors);
+        return {
+          tool_call_id: toolCall.id,
+          name: toolCall.name,
+          content: JSON.stringify({
+            isSuccess: false,
+            error: formatToolArgumentErrors(toolCall.name, validation.errors),
+            data: null,
+            validationErrors: validation.errors
+          })
+        };
+      }
+
+      const args = validation.value;
       console.log(`🔧 执行工具调用: ${toolCall.name}`, args);
       const result = await tool.handler(args);
 
@@ -603,33 +778,60 @@ export class LLM {
     toolCalls: ToolCall[],
     originalMessages: Message[],
     hooks?: ToolCallLifecycleHooks,
-    originalAssistantContent?: string
+    originalAssistantContent?: string,
+    options: GenerateOptions = {}
   ): AsyncGenerator<GenerationResult> {
     if (!toolCalls || toolCalls.length === 0) {
       return;
     }
 
-    // 执行所有工具调用
-    const toolResponses: ToolResponse[] = [];
-    for (const toolCall of toolCalls) {
+    const skipToolCall = (toolCall: ToolCall, reason: string): ToolResponse => {
+      console.log(`⏭️ 跳过工具调用: ${toolCall.name}`, reason);
+      hooks?.onSkip?.(toolCall, reason);
+      return {
+        tool_call_id: toolCall.id,
+        name: toolCall.name,
+        content: JSON.stringify({ skipped: true, reason })
+      };
+    };
+
+    // 执行所有工具调用：互不依赖的调用并发执行，引用同批次结果的调用等待依赖完成，结果保持原始顺序
+    // 中止或被调用方拒绝时跳过尚未开始的工具调用
+    const toolResponses = await executeToolCallBatch(toolCalls, async (toolCall) => {
+      // 流式阶段已提前执行的工具直接取结果（生命周期回调已触发）
+      const eagerExecution = this.eagerToolExecutions.get(toolCall.id);
+      if (eagerExecution) {
+        this.eagerToolExecutions.delete(toolCall.id);
+        return eagerExecution;
+      }
+
+      const skipReason = options.signal?.aborted
+        ? '响应已取消，未执行'
+        : options.getToolCallSkipReason?.(toolCall);
+      if (skipReason) {
+        return skipToolCall(toolCall, skipReason);
+      }
+
       hooks?.onStart?.(toolCall);
       try {
         const response = await this.executeToolCall(toolCall);
-        toolResponses.push(response);
         hooks?.onSuccess?.(toolCall, response);
+        return response;
       } catch (error) {
         console.error(`❌ 工具调用执行失败: ${toolCall.name}`, error);
-        const fallbackResponse: ToolResponse = {
+        hooks?.onError?.(toolCall, error);
+        return {
           tool_call_id: toolCall.id,
           name: toolCall.name,
           content: JSON.stringify({
             error: error instanceof Error ? error.message : String(error)
           })
         };
-        toolResponses.push(fallbackResponse);
-        hooks?.onError?.(toolCall, error);
       }
-    }
+    }, {
+      concurrency: this.config.maxParallelToolCalls,
+      onUnresolved: skipToolCall
+    });
 
     // 添加包含工具调用的assistant消息
     // 使用原始的assistant响应内容，而不是描述性文本
@@ -650,9 +852,13 @@ export class LLM {
     };
 
     // 🔧 合并所有工具调用结果到单条 user 消息
+    const isAborted = Boolean(options.signal?.aborted);
+    const isNativeMode = (this.lastToolCallMode ?? this.getToolCallMode()) === 'native';
     const aggregatedToolResults = toolResponses.map(response => {
       return `工具调用结果 [${response.name}]: ${response.content}`;
-    }).join('\n\n如果没问题，请以一句简单结束语总结。(下次调用请依然使用<tool_calls></tool_calls>标签，并确保标签内内容正确。');
+    }).join(isAborted || isNativeMode
+      ? '\n\n'
+      : '\n\n如果没问题，请以一句简单结束语总结。(下次调用请依然使用<tool_calls></tool_calls>标签，并确保标签内内容正确。');
 
     const aggregatedToolMessage: Message = {
       role: 'user',
@@ -662,9 +868,18 @@ export class LLM {
       }]
     };
 
+    // 原生模式按协议逐条返回 tool 消息，文本模式使用合并后的 user 消息
+    const toolResultMessages: Message[] = isNativeMode
+      ? toolResponses.map(response => ({
+        role: 'tool' as const,
+        tool_call_id: response.tool_call_id,
+        content: [{ type: 'text' as const, text: response.content }]
+      }))
+      : [aggregatedToolMessage];
+
     // 🔧 确保消息顺序正确：验证并修复消息流
     const validatedMessages = this.validateAndFixMessageOrder(
-      [...originalMessages, assistantMessage, aggregatedToolMessage]
+      [...originalMessages, assistantMessage, ...toolResultMessages]
     );
 
     console.log('🔧 工具调用处理完成', {
@@ -681,16 +896,23 @@ export class LLM {
       yield {
         text: '',
         finished: false,
-        toolResultsText: aggregatedToolResults
+        toolResultsText: aggregatedToolResults,
+        followUpMessages: validatedMessages
       };
     }
 
+    // 已中止：工具结果已上报用于保存历史，不再继续生成
+    // 调用方自行驱动多步循环时，也在此处交还控制权
+    if (isAborted || options.continueAfterToolCalls === false) {
+      return;
+    }
+
     // 🔥 关键修复：工具调用完成后，LLM生成的后续内容应该作为新的assistant消息
     // 而不是与之前的消息合并，以确保消息顺序的正确性
     let hasYieldedFirstResult = false;
     
     // 继续对话，保持工具调用支持以实现 ReAct 循环
-    for await (const result of this.generate(validatedMessages, undefined, undefined, true)) {
+    for await (const result of this.generate(validatedMessages, undefined, undefined, true, options)) {
       // 📝 如果这是第一个结果且包含文本内容，标记为新的assistant消息开始
       if (!hasYieldedFirstResult && result.text && result.text.trim()) {
         hasYieldedFirstResult = true;
@@ -816,7 +1038,7 @@ export class LLM {
         continue;
       }
       // 检查是否有连续的相同角色
-      if (prev.role === curr.role) {
+      if (prev.role === curr.role && curr.role !== 'tool') {
         return false;
       }
     }
@@ -825,15 +1047,13 @@ export class LLM {
 
   updateConfig(config: Partial<LLMConfig>): void {
     this.config = { ...this.config, ...config };
+    this.provider = getProviderAdapter(this.config.providerId, this.config.baseURL);
+    this.fallbackClients.clear();
 
     // 如果API Key或BaseURL有变化，重新创建OpenAI实例
-    if (config.apiKey || config.baseURL) {
+    if (config.apiKey || config.baseURL || config.fetch) {
       try {
-        this.openai = markRaw(new OpenAI({
-          apiKey: this.config.apiKey,
-          baseURL: this.config.baseURL,
-          dangerouslyAllowBrowser: true
-        }));
+        this.openai = this.createClient(this.config.apiKey, this.config.baseURL);
       } catch (error) {
         console.error('❌ OpenAI客户端重新初始化失败:', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1,4 +1,5 @@
 import { LLM, type Tool } from './LLM';
+import type { ToolPack } from '../tools/ToolRegistry';
 
 // 测试工具示例
 export const testTool: Tool = {
@@ -182,4 +183,12 @@ async function demonstrateToolCalls() {
 }
 
 // 导出所有工具
-export const defaultTools = [testTool, calculatorTool, getCurrentTimeTool];
\ No newline at end of file
+export const defaultTools = [testTool, calculatorTool, getCurrentTimeTool];
+
+// 测试工具包：用于验证工具调用链路
+export const testToolPack: ToolPack = {
+  namespace: 'test',
+  title: '测试工具',
+  description: '弹出提示框，验证工具调用是否生效',
+  tools: [testTool]
+};
\ No newline at end of file
@@ -1,4 +1,16 @@
-export { LLM, type LLMConfig, type Message, type GenerationResult } from './LLM';
+export { LLM, type LLMConfig, type LLMFallbackProvider, type Message, type GenerationResult, type ToolCallMode } from './LLM';
+export { DEFAULT_REQUEST_POLICY, isRetriableError, computeBackoffDelay, exceedsBackoffLimit, type RequestPolicy } from './requestPolicy';
 export { ConversationHistory, type ChatMessage } from './ConversationHistory';
-export { ScreenshotManager, type Screenshot } from './ScreenshotManager';
 export { AudioPlayer, type AudioPlayerConfig } from './AudioPlayer';
+export {
+  getProviderAdapter,
+  registerProviderAdapter,
+  listProviderAdapters,
+  supportsVideoInput,
+  CUSTOM_PROVIDER_ID,
+  OpenAICompatibleAdapter,
+  DashScopeAdapter,
+  SiliconFlowAdapter,
+  type ProviderAdapter,
+  type ProviderVoice
+} from './providers';
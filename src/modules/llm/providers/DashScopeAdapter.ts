@@ -0,0 +1,28 @@
+import { OpenAICompatibleAdapter, type OpenAICompatibleAdapterOptions } from './ProviderAdapter';
+import { QWEN_OMNI_VOICES } from './voices';
+
+/**
+ * 阿里云 DashScope（百炼）兼容模式
+ * input_audio.data 需要带 data: 前缀，支持 video_url 视频输入
+ */
+export class DashScopeAdapter extends OpenAICompatibleAdapter {
+  constructor(options: Partial<OpenAICompatibleAdapterOptions> = {}) {
+    super({
+      id: 'aliyun',
+      name: '阿里云',
+      defaultBaseURL: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+      defaultModel: 'qwen3-omni-flash',
+      baseURLPatterns: ['dashscope.aliyuncs.com', 'dashscope-intl.aliyuncs.com'],
+      inputModalities: ['text', 'image', 'audio', 'video'],
+      toolCallMode: 'text',
+      voices: QWEN_OMNI_VOICES,
+      defaultVoice: 'Cherry',
+      realtime: { url: 'wss://dashscope.aliyuncs.com/api-ws/v1/realtime', model: 'qwen3-omni-flash-realtime' },
+      ...options
+    });
+  }
+
+  protected formatAudioData(base64: string): string {
+    return `data:;base64,${base64}`;
+  }
+}
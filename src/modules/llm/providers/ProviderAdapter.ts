@@ -0,0 +1,318 @@
+import type OpenAI from 'openai';
+import type { Message, ToolCallMode } from '../LLM';
+
+export type MessagePart = Message['content'][number];
+export type InputModality = 'text' | 'image' | 'audio' | 'video';
+export type OutputModality = 'text' | 'audio';
+export type AudioFormat = 'wav' | 'mp3';
+
+export interface ProviderVoice {
+  value: string;  // 请求中使用的音色标识
+  label: string;  // 界面显示名称
+}
+
+// 请求内容片段：在 OpenAI 标准类型之外，部分供应商还接受 audio_url / video_url
+export type RequestContentPart =
+  | OpenAI.Chat.ChatCompletionContentPart
+  | { type: 'audio_url'; audio_url: { url: string } }
+  | { type: 'video_url'; video_url: { url: string } };
+
+// 流式工具调用分片（OpenAI delta.tool_calls 格式）
+export interface ToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// 从一个流式分片中解出的文本、音频与工具调用
+export interface DecodedStreamChunk {
+  text: string;
+  audio: string[];  // base64 音频片段
+  toolCallDeltas: ToolCallDelta[];
+}
+
+// 流式分片中的 choice：部分供应商会在 delta 中返回音频、数组形式的内容，或把内容放在 message 中
+type CompatibleChunkChoice = Omit<OpenAI.Chat.ChatCompletionChunk.Choice, 'delta'> & {
+  delta?: Omit<OpenAI.Chat.ChatCompletionChunk.Choice.Delta, 'content'> & {
+    content?: unknown;
+    audio?: { data?: string };
+  };
+  message?: { content?: unknown };
+};
+
+export interface AudioOutputOptions {
+  voice?: string;
+  format?: string;
+}
+
+/**
+ * 供应商适配器：描述一个 OpenAI 兼容后端的能力，并负责请求内容的格式转换与流式响应的解析
+ * 接入新的后端（如本地 vLLM）只需要实现一个适配器并注册，不需要修改 LLM.generate
+ */
+export interface ProviderAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly defaultBaseURL: string;
+  readonly defaultModel: string;
+  readonly inputModalities: InputModality[];
+  readonly outputModalities: OutputModality[];
+  readonly toolCallMode: ToolCallMode;  // 未在 LLMConfig 中指定时使用的工具调用方式
+  readonly voices: ProviderVoice[];
+  readonly defaultVoice: string;
+  readonly inputAudioFormats: AudioFormat[];
+  readonly realtime?: ProviderRealtimeEndpoint;  // 实时 WebSocket 接口，服务端VAD需要
+
+  // 是否识别为该供应商的地址（providerId 未匹配时按 baseURL 选择适配器）
+  matchesBaseURL(baseURL: string): boolean;
+  // 转换消息内容，返回 null 表示该供应商不接受此内容
+  convertContentPart(part: MessagePart): RequestContentPart | null;
+  // 写入输出模态、音色等请求参数
+  applyOutputOptions(params: OpenAI.Chat.ChatCompletionCreateParamsStreaming, options: AudioOutputOptions): void;
+  // 解析流式分片，没有 choices 时返回 null
+  decodeStreamChunk(chunk: OpenAI.Chat.ChatCompletionChunk): DecodedStreamChunk | null;
+}
+
+// 供应商的实时 WebSocket 接口（服务端VAD轮次检测）
+export interface ProviderRealtimeEndpoint {
+  url: string;
+  model: string;
+}
+
+export interface OpenAICompatibleAdapterOptions {
+  id: string;
+  name: string;
+  defaultBaseURL?: string;
+  defaultModel?: string;
+  baseURLPatterns?: string[];
+  inputModalities?: InputModality[];
+  outputModalities?: OutputModality[];
+  toolCallMode?: ToolCallMode;
+  voices?: ProviderVoice[];
+  defaultVoice?: string;
+  inputAudioFormats?: AudioFormat[];
+  realtime?: ProviderRealtimeEndpoint;
+}
+
+const AUDIO_FORMAT_ALIASES: Record<string, AudioFormat> = {
+  'wav': 'wav',
+  'audio/wav': 'wav',
+  'x-wav': 'wav',
+  'wave': 'wav',
+  'mp3': 'mp3',
+  'audio/mp3': 'mp3',
+  'mpeg': 'mp3'
+};
+
+export function normalizeAudioFormat(format?: string): AudioFormat | null {
+  if (!format) {
+    return 'wav';
+  }
+  return AUDIO_FORMAT_ALIASES[format.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * 标准 OpenAI 兼容适配器，其他供应商在此基础上覆盖差异部分
+ */
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly defaultBaseURL: string;
+  readonly defaultModel: string;
+  readonly inputModalities: InputModality[];
+  readonly outputModalities: OutputModality[];
+  readonly toolCallMode: ToolCallMode;
+  readonly voices: ProviderVoice[];
+  readonly defaultVoice: string;
+  readonly inputAudioFormats: AudioFormat[];
+  readonly realtime?: ProviderRealtimeEndpoint;
+  private baseURLPatterns: string[];
+
+  constructor(options: OpenAICompatibleAdapterOptions) {
+    this.id = options.id;
+    this.name = options.name;
+    this.defaultBaseURL = options.defaultBaseURL ?? '';
+    this.defaultModel = options.defaultModel ?? '';
+    this.baseURLPatterns = options.baseURLPatterns ?? [];
+    this.inputModalities = options.inputModalities ?? ['text', 'image', 'audio'];
+    this.outputModalities = options.outputModalities ?? ['text', 'audio'];
+    this.toolCallMode = options.toolCallMode ?? 'text';
+    this.voices = options.voices ?? [];
+    this.defaultVoice = options.defaultVoice ?? this.voices[0]?.value ?? '';
+    this.inputAudioFormats = options.inputAudioFormats ?? ['wav', 'mp3'];
+    this.realtime = options.realtime;
+  }
+
+  matchesBaseURL(baseURL: string): boolean {
+    const normalized = baseURL.toLowerCase();
+    return this.baseURLPatterns.some(pattern => normalized.includes(pattern));
+  }
+
+  convertContentPart(part: MessagePart): RequestContentPart | null {
+    switch (part.type) {
+      case 'text':
+        return part.text ? { type: 'text', text: part.text } : null;
+      case 'image_url':
+        return part.image_url && this.accepts('image')
+          ? { type: 'image_url', image_url: { url: part.image_url.url } }
+          : null;
+      case 'input_audio':
+        return part.input_audio && this.accepts('audio')
+          ? this.convertInputAudio(part.input_audio.data, part.input_audio.format)
+          : null;
+      case 'audio_url':
+        return part.audio_url && this.accepts('audio')
+          ? { type: 'audio_url', audio_url: { url: part.audio_url.url } }
+          : null;
+      case 'video_url':
+        return part.video_url && this.accepts('video')
+          ? { type: 'video_url', video_url: { url: part.video_url.url } }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  applyOutputOptions(params: OpenAI.Chat.ChatCompletionCreateParamsStreaming, options: AudioOutputOptions): void {
+    if (!this.outputModalities.includes('audio')) {
+      return;
+    }
+    params.modalities = ['text', 'audio'];
+    params.audio = {
+      voice: (options.voice || this.defaultVoice) as OpenAI.Chat.ChatCompletionAudioParam['voice'],
+      format: (normalizeAudioFormat(options.format) ?? 'wav') as OpenAI.Chat.ChatCompletionAudioParam['format']
+    };
+  }
+
+  decodeStreamChunk(chunk: OpenAI.Chat.ChatCompletionChunk): DecodedStreamChunk | null {
+    const choice: CompatibleChunkChoice | undefined = chunk.choices?.[0];
+    if (!choice) {
+      return null;
+    }
+
+    const decoded: DecodedStreamChunk = { text: '', audio: [], toolCallDeltas: [] };
+
+    const deltaToolCalls = choice.delta?.tool_calls;
+    if (Array.isArray(deltaToolCalls)) {
+      decoded.toolCallDeltas = deltaToolCalls;
+    }
+
+    // 标准 OpenAI Chat Completion 格式：delta.content 为字符串（即使为空字符串也视为已处理）
+    const content = choice.delta?.content;
+    if (typeof content === 'string') {
+      decoded.text = content;
+    } else {
+      // 非标准格式：content 为数组，或内容放在 message 中
+      this.decodeContent(content, decoded);
+      if (!decoded.text && decoded.audio.length === 0 && choice.message?.content) {
+        this.decodeContent(choice.message.content, decoded);
+      }
+    }
+
+    if (choice.delta?.audio?.data) {
+      decoded.audio.push(choice.delta.audio.data);
+    }
+
+    return decoded;
+  }
+
+  protected accepts(modality: InputModality): boolean {
+    if (this.inputModalities.includes(modality)) {
+      return true;
+    }
+    console.warn(`⚠️ 供应商 ${this.name} 不支持 ${modality} 输入，已忽略该内容`);
+    return false;
+  }
+
+  protected convertInputAudio(rawAudio: string, declaredFormat?: string): RequestContentPart | null {
+    const normalized = this.normalizeInputAudio(rawAudio, declaredFormat);
+    if (!normalized) {
+      return null;
+    }
+    return {
+      type: 'input_audio',
+      input_audio: {
+        data: normalized.data.startsWith('data:') ? normalized.data : this.formatAudioData(normalized.data),
+        format: normalized.format
+      }
+    } as unknown as OpenAI.Chat.ChatCompletionContentPartInputAudio;
+  }
+
+  // 供应商对 input_audio.data 的格式要求，默认直接使用 base64 数据
+  protected formatAudioData(base64: string): string {
+    return base64;
+  }
+
+  // 解析 data URL / 纯 base64 音频，规范化格式（支持 wav / mp3）
+  protected normalizeInputAudio(rawAudio: string | undefined, declaredFormat?: string): { data: string; format: AudioFormat } | null {
+    let trimmed = rawAudio?.trim() ?? '';
+    if (!trimmed) {
+      return null;
+    }
+
+    let format = declaredFormat?.trim().toLowerCase();
+
+    const dataUrlMatch = trimmed.match(/^data:(?:audio\/([a-z0-9+.-]+))?;base64,(.+)$/i);
+    if (dataUrlMatch) {
+      // 格式: data:audio/wav;base64,... 或 data:;base64,...
+      format = dataUrlMatch[1] ? dataUrlMatch[1].toLowerCase() : format || 'wav';
+      trimmed = dataUrlMatch[2];
+    } else if (/^[A-Za-z0-9+/=]+$/.test(trimmed)) {
+      // 格式: 纯base64字符串（没有data:前缀）
+      format = format || 'wav';
+    }
+
+    const normalizedFormat = normalizeAudioFormat(format);
+    if (!trimmed || !normalizedFormat || !this.inputAudioFormats.includes(normalizedFormat)) {
+      return null;
+    }
+
+    return { data: trimmed, format: normalizedFormat };
+  }
+
+  private decodeContent(content: any, decoded: DecodedStreamChunk): void {
+    if (!content) {
+      return;
+    }
+
+    if (typeof content === 'string') {
+      decoded.text += content;
+      return;
+    }
+
+    if (!Array.isArray(content)) {
+      return;
+    }
+
+    for (const contentItem of content) {
+      const contentType = contentItem?.type;
+
+      // 处理嵌套的text字段
+      let contentText: string | undefined;
+      if (contentItem?.text) {
+        if (typeof contentItem.text === 'string') {
+          contentText = contentItem.text;
+        } else if (Array.isArray(contentItem.text)) {
+          // 处理嵌套的text数组结构
+          for (const nestedItem of contentItem.text) {
+            if (typeof nestedItem === 'string') {
+              contentText = (contentText || '') + nestedItem;
+            } else if (nestedItem?.type === 'text' && typeof nestedItem.text === 'string') {
+              contentText = (contentText || '') + nestedItem.text;
+            }
+          }
+        }
+      } else if (typeof contentItem?.output_text === 'string') {
+        contentText = contentItem.output_text;
+      }
+
+      if ((contentType === 'text' || contentType === 'output_text') && typeof contentText === 'string') {
+        decoded.text += contentText;
+      }
+
+      const audioPayload = contentItem?.input_audio ?? contentItem?.audio ?? contentItem?.output_audio;
+      if ((contentType === 'input_audio' || contentType === 'audio' || contentType === 'output_audio') && audioPayload?.data) {
+        decoded.audio.push(audioPayload.data as string);
+      }
+    }
+  }
+}
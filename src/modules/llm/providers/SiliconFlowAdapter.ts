@@ -0,0 +1,37 @@
+import { OpenAICompatibleAdapter, type OpenAICompatibleAdapterOptions, type RequestContentPart } from './ProviderAdapter';
+import { QWEN_OMNI_VOICES } from './voices';
+
+const AUDIO_MIME_TYPES = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg'
+} as const;
+
+/**
+ * 硅基流动：不接受 input_audio，音频以 data URL 形式通过 audio_url 发送
+ */
+export class SiliconFlowAdapter extends OpenAICompatibleAdapter {
+  constructor(options: Partial<OpenAICompatibleAdapterOptions> = {}) {
+    super({
+      id: 'siliconflow',
+      name: '硅基流动',
+      defaultBaseURL: 'https://api.siliconflow.cn/v1',
+      defaultModel: 'Qwen/Qwen3-Omni-30B-A3B-Instruct',
+      baseURLPatterns: ['siliconflow.cn', 'siliconflow.com'],
+      toolCallMode: 'text',
+      voices: QWEN_OMNI_VOICES,
+      defaultVoice: 'Cherry',
+      ...options
+    });
+  }
+
+  protected convertInputAudio(rawAudio: string, declaredFormat?: string): RequestContentPart | null {
+    const normalized = this.normalizeInputAudio(rawAudio, declaredFormat);
+    if (!normalized) {
+      return null;
+    }
+    return {
+      type: 'audio_url',
+      audio_url: { url: `data:${AUDIO_MIME_TYPES[normalized.format]};base64,${normalized.data}` }
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { OpenAICompatibleAdapter, type ProviderAdapter } from './ProviderAdapter';
+import { DashScopeAdapter } from './DashScopeAdapter';
+import { SiliconFlowAdapter } from './SiliconFlowAdapter';
+import { OPENAI_VOICES, QWEN_OMNI_VOICES } from './voices';
+
+export const CUSTOM_PROVIDER_ID = 'custom';
+
+// 未识别的供应商按通用 OpenAI 兼容接口处理；自定义地址通常部署的是 Qwen-Omni，沿用其音色
+const customProviderAdapter = new OpenAICompatibleAdapter({
+  id: CUSTOM_PROVIDER_ID,
+  name: '自定义',
+  toolCallMode: 'text',
+  voices: QWEN_OMNI_VOICES,
+  defaultVoice: 'Cherry'
+});
+
+const adapters = new Map<string, ProviderAdapter>();
+const aliases = new Map<string, string>();
+
+/**
+ * 注册供应商适配器，相同 id 的适配器会被替换
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter, adapterAliases: string[] = []): void {
+  adapters.set(adapter.id.toLowerCase(), adapter);
+  adapterAliases.forEach(alias => aliases.set(alias.toLowerCase(), adapter.id.toLowerCase()));
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * 按 providerId 选择适配器；未注册的 id（包括 custom）再按 baseURL 识别，仍未匹配时使用通用适配器
+ */
+export function getProviderAdapter(providerId?: string, baseURL?: string): ProviderAdapter {
+  const id = providerId?.toLowerCase() ?? '';
+  const registered = adapters.get(aliases.get(id) ?? id);
+  if (registered && registered !== customProviderAdapter) {
+    return registered;
+  }
+
+  if (baseURL) {
+    const matched = listProviderAdapters().find(adapter => adapter.matchesBaseURL(baseURL));
+    if (matched) {
+      return matched;
+    }
+  }
+
+  return customProviderAdapter;
+}
+
+export function supportsVideoInput(providerId?: string, baseURL?: string): boolean {
+  return getProviderAdapter(providerId, baseURL).inputModalities.includes('video');
+}
+
+registerProviderAdapter(new DashScopeAdapter(), ['dashscope']);
+registerProviderAdapter(new SiliconFlowAdapter(), ['silicon-flow']);
+registerProviderAdapter(new OpenAICompatibleAdapter({
+  id: 'openai',
+  name: 'OpenAI',
+  defaultBaseURL: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-audio-preview',
+  baseURLPatterns: ['api.openai.com'],
+  toolCallMode: 'native',
+  voices: OPENAI_VOICES,
+  defaultVoice: 'alloy'
+}));
+registerProviderAdapter(customProviderAdapter);
+
+export { OpenAICompatibleAdapter, normalizeAudioFormat } from './ProviderAdapter';
+export type {
+  ProviderAdapter,
+  ProviderVoice,
+  OpenAICompatibleAdapterOptions,
+  ProviderRealtimeEndpoint,
+  InputModality,
+  OutputModality,
+  AudioFormat,
+  RequestContentPart,
+  DecodedStreamChunk,
+  ToolCallDelta,
+  AudioOutputOptions
+} from './ProviderAdapter';
+export { DashScopeAdapter } from './DashScopeAdapter';
+export { SiliconFlowAdapter } from './SiliconFlowAdapter';
+export { QWEN_OMNI_VOICES, OPENAI_VOICES } from './voices';
@@ -0,0 +1,117 @@
+/**
+ * 供应商适配器测试套件
+ */
+
+import type OpenAI from 'openai';
+import {
+  getProviderAdapter,
+  registerProviderAdapter,
+  supportsVideoInput,
+  OpenAICompatibleAdapter,
+  type RequestContentPart
+} from './index';
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`);
+  }
+}
+
+const audioPart = (data: string, format: string = 'wav') => ({ type: 'input_audio' as const, input_audio: { data, format } });
+const videoPart = { type: 'video_url' as const, video_url: { url: 'data:video/webm;base64,AAAA' } };
+
+function isInputAudioPart(part: RequestContentPart | null): part is OpenAI.Chat.ChatCompletionContentPartInputAudio {
+  return part?.type === 'input_audio';
+}
+
+function isAudioUrlPart(part: RequestContentPart | null): part is Extract<RequestContentPart, { type: 'audio_url' }> {
+  return part?.type === 'audio_url';
+}
+
+// 构造流式分片；choices 允许包含供应商的非标准字段
+function streamChunk(choices: unknown[]): OpenAI.Chat.ChatCompletionChunk {
+  return {
+    id: 'chunk',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'm',
+    choices: choices as OpenAI.Chat.ChatCompletionChunk.Choice[]
+  };
+}
+
+function createParams(): OpenAI.Chat.ChatCompletionCreateParamsStreaming {
+  return { model: 'm', messages: [], stream: true };
+}
+
+// 测试用例
+export function runTests(): void {
+  console.log('🔌 开始运行供应商适配器测试...');
+
+  try {
+    // 测试 1: 按 providerId、别名与 baseURL 选择适配器
+    assert(getProviderAdapter('aliyun').id === 'aliyun', '按 id 选择阿里云适配器');
+    assert(getProviderAdapter('silicon-flow').id === 'siliconflow', '别名应该映射到硅基流动');
+    assert(getProviderAdapter('custom', 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1').id === 'aliyun', '自定义供应商按 baseURL 识别');
+    assert(getProviderAdapter('custom', 'http://localhost:8000/v1').id === 'custom', '未识别的地址使用通用适配器');
+    assert(getProviderAdapter('openai').toolCallMode === 'native', 'OpenAI 默认使用原生工具调用');
+    console.log('✅ 测试 1 通过');
+
+    // 测试 2: 各供应商的音频格式
+    const dashScope = getProviderAdapter('aliyun').convertContentPart(audioPart('UklGRg=='));
+    assert(isInputAudioPart(dashScope) && dashScope.input_audio.data === 'data:;base64,UklGRg==', 'DashScope 音频需要 data: 前缀');
+    const generic = getProviderAdapter('custom').convertContentPart(audioPart('data:audio/mp3;base64,SUQz'));
+    assert(isInputAudioPart(generic) && generic.input_audio.data === 'SUQz' && generic.input_audio.format === 'mp3', '通用适配器使用纯 base64 并识别格式');
+    const siliconFlow = getProviderAdapter('siliconflow').convertContentPart(audioPart('UklGRg=='));
+    assert(isAudioUrlPart(siliconFlow) && siliconFlow.audio_url.url === 'data:audio/wav;base64,UklGRg==', '硅基流动使用 audio_url');
+    assert(getProviderAdapter('aliyun').convertContentPart(audioPart('AAAA', 'ogg')) === null, '不支持的音频格式应该被忽略');
+    console.log('✅ 测试 2 通过');
+
+    // 测试 3: 视频输入按供应商能力转发
+    assert(getProviderAdapter('aliyun').convertContentPart(videoPart)?.type === 'video_url', '阿里云支持视频输入');
+    assert(getProviderAdapter('siliconflow').convertContentPart(videoPart) === null, '硅基流动不发送视频');
+    assert(supportsVideoInput('aliyun') && !supportsVideoInput('siliconflow'), 'supportsVideoInput 与适配器一致');
+    console.log('✅ 测试 3 通过');
+
+    // 测试 4: 流式分片解析
+    const adapter = getProviderAdapter('aliyun');
+    const standard = adapter.decodeStreamChunk(streamChunk([{ delta: { content: '你好', audio: { data: 'QUJD' } } }]));
+    assert(standard?.text === '你好' && standard.audio.join('') === 'QUJD', '标准分片应该解析出文本与音频');
+    const nested = adapter.decodeStreamChunk(streamChunk([
+      { delta: { content: [{ type: 'text', text: [{ type: 'text', text: '嵌套' }] }, { type: 'audio', audio: { data: 'REVG' } }] } }
+    ]));
+    assert(nested?.text === '嵌套' && nested.audio[0] === 'REVG', '数组形式的内容应该解析出文本与音频');
+    const toolChunk = adapter.decodeStreamChunk(streamChunk([{ delta: { tool_calls: [{ index: 0, id: 'call_1' }] } }]));
+    assert(toolChunk?.toolCallDeltas[0]?.id === 'call_1', '应该透传工具调用分片');
+    assert(adapter.decodeStreamChunk(streamChunk([])) === null, '没有 choices 的分片返回 null');
+    console.log('✅ 测试 4 通过');
+
+    // 测试 5: 注册新的后端只需要一个适配器
+    registerProviderAdapter(new OpenAICompatibleAdapter({
+      id: 'vllm',
+      name: '本地 vLLM',
+      baseURLPatterns: ['localhost:8000'],
+      outputModalities: ['text'],
+      toolCallMode: 'native'
+    }));
+    const local = getProviderAdapter(undefined, 'http://localhost:8000/v1');
+    assert(local.id === 'vllm' && local.toolCallMode === 'native', '注册后应该按地址选择新适配器');
+    const textOnly = createParams();
+    local.applyOutputOptions(textOnly, { voice: 'Cherry' });
+    assert(textOnly.modalities === undefined && textOnly.audio === undefined, '只输出文本的后端不请求音频');
+    const withAudio = createParams();
+    getProviderAdapter('openai').applyOutputOptions(withAudio, {});
+    assert(withAudio.audio?.voice === 'alloy' && withAudio.modalities?.includes('audio') === true, '未指定音色时使用供应商默认音色');
+    console.log('✅ 测试 5 通过');
+
+    console.log('🎉 所有测试都通过了！供应商适配器工作正常。');
+  } catch (error) {
+    console.error('❌ 测试失败:', error);
+    throw error;
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests();
+}
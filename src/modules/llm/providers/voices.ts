@@ -0,0 +1,34 @@
+import type { ProviderVoice } from './ProviderAdapter';
+
+// Qwen-Omni 系列模型的音色
+export const QWEN_OMNI_VOICES: ProviderVoice[] = [
+  { value: 'Cherry', label: '芊悦' },
+  { value: 'Ethan', label: '晨煦' },
+  { value: 'Nofish', label: '不吃鱼' },
+  { value: 'Jennifer', label: '詹妮弗' },
+  { value: 'Ryan', label: '甜茶' },
+  { value: 'Katerina', label: '卡捷琳娜' },
+  { value: 'Elias', label: '墨讲师' },
+  { value: 'Jada', label: '上海-阿珍' },
+  { value: 'Dylan', label: '北京-晓东' },
+  { value: 'Sunny', label: '四川-晴儿' },
+  { value: 'Li', label: '南京-老李' },
+  { value: 'Marcus', label: '陕西-秦川' },
+  { value: 'Roy', label: '闽南-阿杰' },
+  { value: 'Peter', label: '天津-李彼得' },
+  { value: 'Rocky', label: '粤语-阿强' },
+  { value: 'Kiki', label: '粤语-阿清' },
+  { value: 'Eric', label: '四川-程川' }
+];
+
+// OpenAI 音频模型的音色
+export const OPENAI_VOICES: ProviderVoice[] = [
+  { value: 'alloy', label: 'Alloy' },
+  { value: 'ash', label: 'Ash' },
+  { value: 'ballad', label: 'Ballad' },
+  { value: 'coral', label: 'Coral' },
+  { value: 'echo', label: 'Echo' },
+  { value: 'sage', label: 'Sage' },
+  { value: 'shimmer', label: 'Shimmer' },
+  { value: 'verse', label: 'Verse' }
+];
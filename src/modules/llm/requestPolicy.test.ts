@@ -0,0 +1,84 @@
+/**
+ * LLM 请求重试策略测试套件
+ */
+
+import {
+  computeBackoffDelay,
+  exceedsBackoffLimit,
+  getRetryAfterMs,
+  isRetriableError,
+  resolveRequestPolicy,
+  createTimeoutError,
+  RequestTimeout
+} from './requestPolicy';
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`);
+  }
+}
+
+const withStatus = (status: number, headers?: Record<string, string>) =>
+  Object.assign(new Error(`${status}`), { status, headers });
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🔁 开始运行请求重试策略测试...');
+
+  try {
+    // 测试 1: 区分可重试与不可重试的错误
+    assert(isRetriableError(withStatus(429)) && isRetriableError(withStatus(503)), '限流与服务端错误应该重试');
+    assert(!isRetriableError(withStatus(400)) && !isRetriableError(withStatus(401)), '请求错误与鉴权错误不应该重试');
+    assert(!isRetriableError(withStatus(409)), '冲突错误重试也不会成功，不应该重试');
+    assert(isRetriableError(createTimeoutError(1000)), '超时应该重试');
+    assert(isRetriableError(Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' })), '网络错误应该重试');
+    assert(isRetriableError(new TypeError('Failed to fetch')), '浏览器网络错误应该重试');
+    assert(!isRetriableError(new Error('工具未找到')) && !isRetriableError(null), '普通错误不应该重试');
+    console.log('✅ 测试 1 通过');
+
+    // 测试 2: 指数退避、抖动与上限
+    const policy = resolveRequestPolicy({ timeout: 1000, retryAttempts: undefined });
+    assert(policy.timeout === 1000 && policy.retryAttempts === 2, '未指定的字段使用默认值');
+    assert(computeBackoffDelay(0, policy, null, () => 1) === 500, '第一次重试等待 initialBackoffMs');
+    assert(computeBackoffDelay(2, policy, null, () => 1) === 2000, '每次重试等待时间翻倍');
+    assert(computeBackoffDelay(2, policy, null, () => 0) === 1000, '抖动不低于一半');
+    assert(computeBackoffDelay(10, policy, null, () => 1) === 8000, '等待时间不超过 maxBackoffMs');
+    console.log('✅ 测试 2 通过');
+
+    // 测试 3: 优先使用 Retry-After
+    const retryAfter = getRetryAfterMs(withStatus(429, { 'retry-after': '3' }));
+    assert(retryAfter === 3000, 'Retry-After 秒数应该换算为毫秒');
+    assert(computeBackoffDelay(0, policy, retryAfter, () => 1) === 3000, '等待时间不少于 Retry-After');
+    assert(getRetryAfterMs(withStatus(503)) === null, '没有 Retry-After 时返回 null');
+    const longRetryAfter = getRetryAfterMs(withStatus(429, { 'retry-after': '30' }));
+    assert(computeBackoffDelay(0, policy, longRetryAfter, () => 1) === 30000, 'Retry-After 不受 maxBackoffMs 限制');
+    assert(exceedsBackoffLimit(longRetryAfter, policy) && !exceedsBackoffLimit(retryAfter, policy) && !exceedsBackoffLimit(null, policy), 'Retry-After 超过上限时应该切换供应商');
+    console.log('✅ 测试 3 通过');
+
+    // 测试 4: 超时后中止，外部中止同步传递
+    const timeout = new RequestTimeout(20);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert(timeout.timedOut && timeout.signal.aborted, '超时后应该中止请求');
+    const parent = new AbortController();
+    const linked = new RequestTimeout(1000, parent.signal);
+    parent.abort();
+    assert(linked.signal.aborted && !linked.timedOut, '外部中止不应该视为超时');
+    const paused = new RequestTimeout(20);
+    paused.pause();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert(!paused.timedOut, '暂停期间不计时');
+    paused.clear();
+    console.log('✅ 测试 4 通过');
+
+    console.log('🎉 所有测试都通过了！请求重试策略工作正常。');
+  } catch (error) {
+    console.error('❌ 测试失败:', error);
+    throw error;
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests();
+}
@@ -0,0 +1,185 @@
+/**
+ * LLM 请求的超时与重试策略
+ *
+ * - 超时：建立请求、或流式响应中两个分片之间超过 timeout 毫秒视为超时（不限制整段回复的总时长）
+ * - 重试：429 / 5xx / 网络错误 / 超时按指数退避重试；服务端返回 Retry-After 时按其完整等待，
+ *   超过 maxBackoffMs 时不再在该供应商上重试，直接切换到备用供应商
+ * - 已经向调用方输出内容（文本、音频或已开始执行的工具）后不再重试，避免重复播放与重复执行
+ */
+
+export interface RequestPolicy {
+  timeout: number;           // 单次请求的超时时间（毫秒），0 表示不限制
+  retryAttempts: number;     // 同一供应商的最大重试次数
+  initialBackoffMs: number;  // 第一次重试前的等待时间
+  maxBackoffMs: number;      // 单次等待的上限，Retry-After 超过该值时切换备用供应商
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeout: 30000,
+  retryAttempts: 2,
+  initialBackoffMs: 500,
+  maxBackoffMs: 8000
+};
+
+export const REQUEST_TIMEOUT_CODE = 'ETIMEDOUT';
+
+const RETRIABLE_STATUS = new Set([408, 425, 429]);
+const NETWORK_ERROR_CODES = new Set([REQUEST_TIMEOUT_CODE, 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE']);
+const NETWORK_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+export function resolveRequestPolicy(overrides: Partial<RequestPolicy> = {}): RequestPolicy {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => typeof value === 'number' && value >= 0)
+  ) as Partial<RequestPolicy>;
+  return { ...DEFAULT_REQUEST_POLICY, ...defined };
+}
+
+export function createTimeoutError(timeout: number): Error {
+  return Object.assign(new Error(`LLM 请求超时（${timeout}ms 内没有收到响应）`), { code: REQUEST_TIMEOUT_CODE });
+}
+
+/**
+ * 是否值得重试：限流、服务端错误、网络错误与超时
+ */
+export function isRetriableError(error: unknown): boolean {
+  const candidate = error as { status?: unknown; code?: unknown; name?: unknown; message?: unknown } | null;
+  if (!candidate || typeof candidate !== 'object') {
+    return false;
+  }
+
+  if (typeof candidate.status === 'number') {
+    return RETRIABLE_STATUS.has(candidate.status) || candidate.status >= 500;
+  }
+  if (typeof candidate.code === 'string' && NETWORK_ERROR_CODES.has(candidate.code)) {
+    return true;
+  }
+  if (typeof candidate.name === 'string' && NETWORK_ERROR_NAMES.has(candidate.name)) {
+    return true;
+  }
+  // 浏览器 fetch 的网络错误
+  return candidate instanceof TypeError && /fetch|network/i.test(String(candidate.message));
+}
+
+/**
+ * 从错误的响应头中读取 Retry-After（秒或 HTTP 日期），没有时返回 null
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | null {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  let value: string | null | undefined;
+  if (headers && typeof (headers as Headers).get === 'function') {
+    value = (headers as Headers).get('retry-after');
+  } else if (headers && typeof headers === 'object') {
+    value = (headers as Record<string, string | undefined>)['retry-after'];
+  }
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * 第 attempt 次重试（从 0 开始）前的等待时间：指数退避加随机抖动，不超过 maxBackoffMs
+ * 服务端返回的 Retry-After 不受上限约束，等待时间不少于它
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RequestPolicy,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.initialBackoffMs * 2 ** attempt;
+  const jittered = Math.min(policy.maxBackoffMs, exponential * (0.5 + random() * 0.5));
+  return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+}
+
+/**
+ * Retry-After 是否超过等待上限：超过时不在该供应商上提前重试，改为切换备用供应商
+ */
+export function exceedsBackoffLimit(retryAfterMs: number | null, policy: RequestPolicy): boolean {
+  return retryAfterMs !== null && retryAfterMs > policy.maxBackoffMs;
+}
+
+/**
+ * 等待指定时间，signal 中止时立即结束
+ */
+export function waitForBackoff(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted || ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * 单次请求的超时控制：外部 signal 中止时同步中止；等待下一个分片前调用 touch() 重新计时
+ */
+export class RequestTimeout {
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private expired = false;
+
+  constructor(private timeout: number, private parentSignal?: AbortSignal) {
+    if (parentSignal?.aborted) {
+      this.controller.abort();
+    } else {
+      parentSignal?.addEventListener('abort', this.handleParentAbort, { once: true });
+    }
+    this.touch();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  touch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (this.timeout > 0 && !this.controller.signal.aborted) {
+      this.timer = setTimeout(() => {
+        this.expired = true;
+        this.controller.abort();
+      }, this.timeout);
+    }
+  }
+
+  error(): Error {
+    return createTimeoutError(this.timeout);
+  }
+
+  // 调用方处理分片期间暂停计时，只统计等待供应商响应的时间
+  pause(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  clear(): void {
+    this.pause();
+    this.parentSignal?.removeEventListener('abort', this.handleParentAbort);
+  }
+
+  private handleParentAbort = () => {
+    this.clear();
+    this.controller.abort();
+  };
+}
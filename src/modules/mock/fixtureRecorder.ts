@@ -0,0 +1,138 @@
+/**
+ * Fixture 录制器：包装真实的 fetch，把 /chat/completions 的流式响应原样返回给调用方，
+ * 同时记录每个 SSE 事件及其间隔，响应结束后生成 StreamFixture
+ *
+ * 只记录请求摘要（模型、最后一条消息），不会记录 API Key 与请求头。
+ */
+
+import {
+  SSE_DONE,
+  getMessageText,
+  parseSSE,
+  type CompletionRequestBody,
+  type FixtureMatch,
+  type StreamFixture,
+  type StreamFixtureEvent
+} from './streamFixtures';
+
+export interface FixtureRecorderOptions {
+  fetch?: typeof fetch;
+  // 生成 fixture 名称，默认 recording-<序号>
+  nameFor?: (body: CompletionRequestBody, index: number) => string;
+  onFixture: (fixture: StreamFixture) => void | Promise<void>;
+}
+
+// 回放时按最后一条消息的开头匹配，同一次录制中的多轮请求各自对应自己的响应
+function createMatch(body: CompletionRequestBody): FixtureMatch | undefined {
+  const last = body.messages?.[body.messages.length - 1];
+  const text = getMessageText(last).trim().slice(0, 40);
+  if (!last?.role || !text) {
+    return undefined;
+  }
+  return { lastRole: last.role as FixtureMatch['lastRole'], lastMessageIncludes: text };
+}
+
+function summarizeRequest(body: CompletionRequestBody): StreamFixture['request'] {
+  const last = body.messages?.[body.messages.length - 1];
+  return {
+    model: body.model,
+    lastRole: last?.role,
+    lastMessage: getMessageText(last).slice(0, 200)
+  };
+}
+
+async function readRequestBody(request: Request): Promise<CompletionRequestBody> {
+  try {
+    return await request.clone().json() as CompletionRequestBody;
+  } catch {
+    return {};
+  }
+}
+
+// 逐块读取 SSE 响应，记录事件与间隔
+async function recordEvents(stream: ReadableStream<Uint8Array>): Promise<StreamFixtureEvent[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const events: StreamFixtureEvent[] = [];
+  let buffer = '';
+  let lastEventAt = Date.now();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() + '\n\n' : decoder.decode(value, { stream: true });
+    const parsed = parseSSE(buffer);
+    buffer = parsed.rest;
+
+    const now = Date.now();
+    parsed.events.forEach((data, index) => {
+      events.push(index === 0 && events.length > 0 ? { delayMs: now - lastEventAt, data } : { data });
+    });
+    if (parsed.events.length > 0) {
+      lastEventAt = now;
+    }
+
+    if (done) {
+      return events;
+    }
+  }
+}
+
+export function createFixtureRecorder(options: FixtureRecorderOptions): (input: string | URL | Request, init?: RequestInit) => Promise<Response> {
+  const upstreamFetch = options.fetch ?? fetch;
+  let count = 0;
+
+  return async (input, init) => {
+    const request = input instanceof Request ? input : new Request(input, init);
+    if (request.method !== 'POST' || !new URL(request.url).pathname.endsWith('/chat/completions')) {
+      return upstreamFetch(request);
+    }
+
+    const body = await readRequestBody(request);
+    const response = await upstreamFetch(request);
+    const index = ++count;
+    const name = options.nameFor?.(body, index) ?? `recording-${index}`;
+    const base: StreamFixture = {
+      name,
+      match: createMatch(body),
+      events: [],
+      recordedAt: new Date().toISOString(),
+      request: summarizeRequest(body)
+    };
+
+    // 错误响应记录为 status + error，回放时返回相同的错误
+    if (!response.ok) {
+      const text = await response.clone().text();
+      let error: StreamFixture['error'];
+      try {
+        error = (JSON.parse(text) as { error?: StreamFixture['error'] }).error;
+      } catch {
+        error = undefined;
+      }
+      await options.onFixture({ ...base, status: response.status, error: error ?? { message: text || response.statusText } });
+      return response;
+    }
+
+    if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      console.warn(`⚠️ 跳过非流式响应的录制: ${name}`);
+      return response;
+    }
+
+    const [forClient, forRecorder] = response.body.tee();
+    recordEvents(forRecorder)
+      .then(events => {
+        if (!events.some(event => event.data === SSE_DONE)) {
+          console.warn(`⚠️ 录制的响应 ${name} 没有结束标记，可能被中断`);
+        }
+        return options.onFixture({ ...base, events });
+      })
+      .catch(error => {
+        console.error(`❌ 录制 ${name} 失败:`, error);
+      });
+
+    return new Response(forClient, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
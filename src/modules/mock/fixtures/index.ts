@@ -0,0 +1,11 @@
+import type { StreamFixture } from '../streamFixtures';
+import toolResultSummary from './tool-result-summary.json';
+import drawRectangle from './draw-rectangle.json';
+import greeting from './greeting.json';
+
+// 内置 fixture，按匹配优先级排列：工具结果总结 → 画矩形的工具调用 → 默认问候
+export const BUILTIN_FIXTURES: StreamFixture[] = [
+  toolResultSummary as StreamFixture,
+  drawRectangle as StreamFixture,
+  greeting as StreamFixture
+];
@@ -0,0 +1,15 @@
+export {
+  SSE_DONE,
+  encodeSSE,
+  parseSSE,
+  selectFixture,
+  createTextFixture,
+  collectFixtureText,
+  type StreamFixture,
+  type StreamFixtureEvent,
+  type FixtureMatch,
+  type TextFixtureOptions
+} from './streamFixtures';
+export { createMockCompletionHandler, FIXTURE_HEADER, type MockCompletionServerOptions } from './mockCompletionServer';
+export { createFixtureRecorder, type FixtureRecorderOptions } from './fixtureRecorder';
+export { BUILTIN_FIXTURES } from './fixtures';
@@ -0,0 +1,169 @@
+/**
+ * 离线 mock 服务测试套件
+ * 通过 LLMConfig.fetch直接调用 mock 处理函数，端到端验证 SSE 回放、LLM 音频路径、
+ * Agent 工具调用循环与录制器
+ */
+
+import { LLM, type GenerationResult } from '../llm/LLM';
+import { Agent, type AgentRunSummary } from '../agent/Agent';
+import { createMockCompletionHandler, FIXTURE_HEADER } from './mockCompletionServer';
+import { createFixtureRecorder } from './fixtureRecorder';
+import { BUILTIN_FIXTURES } from './fixtures';
+import {
+  SSE_DONE,
+  collectFixtureText,
+  createTextFixture,
+  parseSSE,
+  selectFixture,
+  type StreamFixture
+} from './streamFixtures';
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`);
+  }
+}
+
+const BASE_URL = 'http://mock.local/v1';
+
+function postCompletion(handler: ReturnType<typeof createMockCompletionHandler>, body: unknown, headers: Record<string, string> = {}) {
+  return handler(new Request(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  }));
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🧪 开始运行离线 mock 服务测试...');
+
+  try {
+    // 测试 1: SSE 回放与解析一致，缺少结束标记时自动补上
+    const fixture = createTextFixture('hello', '你好，世界', { chunkSize: 2, audioChunks: ['AAAA'] });
+    const withoutDone: StreamFixture = { ...fixture, name: 'no-done', events: fixture.events.slice(0, -1) };
+    const handler = createMockCompletionHandler({ fixtures: [withoutDone], speed: 0 });
+    const response = await postCompletion(handler, { model: 'mock-model', stream: true, messages: [] });
+    assert(response.headers.get('content-type') === 'text/event-stream', '流式请求应该返回 SSE');
+    const { events, rest } = parseSSE(await response.text());
+    assert(rest === '' && events.length === fixture.events.length, '回放的事件数应该与 fixture 一致');
+    assert(events[events.length - 1] === SSE_DONE, '应该补上 [DONE]');
+    assert(collectFixtureText({ name: 'replayed', events: events.map(data => ({ data })) }) === '你好，世界', '文本增量应该原样回放');
+    console.log('✅ 测试 1 通过');
+
+    // 测试 2: 按请求头、匹配条件选择 fixture，没有匹配时返回 404，错误 fixture 返回对应状态码
+    const toolFollowUp = { messages: [{ role: 'user', content: [{ type: 'text', text: '工具调用结果 [draw_rectangle]: ok' }] }] };
+    assert(selectFixture(BUILTIN_FIXTURES, toolFollowUp)?.name === 'tool-result-summary', '工具结果应该匹配总结回复');
+    assert(selectFixture(BUILTIN_FIXTURES, { messages: [{ role: 'user', content: '画一个矩形' }] })?.name === 'draw-rectangle', '画图请求应该匹配工具调用');
+    assert(selectFixture(BUILTIN_FIXTURES, { messages: [{ role: 'user', content: '你好' }] })?.name === 'greeting', '其他请求使用默认回复');
+    assert(selectFixture(BUILTIN_FIXTURES, toolFollowUp, 'greeting')?.name === 'greeting', '指定名称时优先使用');
+    const strict = createMockCompletionHandler({ fixtures: [{ ...fixture, match: { model: 'other' } }], speed: 0 });
+    assert((await postCompletion(strict, { model: 'mock-model', messages: [] })).status === 404, '没有匹配时返回 404');
+    const limited = createMockCompletionHandler({
+      fixtures: [{ name: 'rate-limited', status: 429, error: { message: '请求过于频繁' }, events: [] }],
+      speed: 0
+    });
+    const limitedResponse = await postCompletion(limited, { messages: [] });
+    assert(limitedResponse.status === 429, '错误 fixture 应该返回对应状态码');
+    assert((await limitedResponse.json()).error.message === '请求过于频繁', '错误信息应该使用 OpenAI 格式');
+    const named = await postCompletion(handler, { stream: false, messages: [] }, { [FIXTURE_HEADER]: 'no-done' });
+    assert((await named.json()).choices[0].message.content === '你好，世界', '非流式请求返回合并后的回复');
+    console.log('✅ 测试 2 通过');
+
+    // 测试 3: LLM 通过 OpenAI SDK 消费 mock 流，文本、音频与 usage 都能完整解析
+    const llm = new LLM({
+      apiKey: 'sk-mock-secret',
+      baseURL: BASE_URL,
+      model: 'mock-model',
+      toolCallMode: 'text',
+      fetch: createMockCompletionHandler({ fixtures: BUILTIN_FIXTURES, speed: 0 })
+    });
+    const results: GenerationResult[] = [];
+    for await (const result of llm.generate([{ role: 'user', content: [{ type: 'text', text: '你好' }] }])) {
+      results.push(result);
+    }
+    const text = results.map(result => result.text).join('');
+    assert(text === '你好，我是离线助手。', `文本应该完整输出，实际: ${text}`);
+    assert(results.filter(result => result.audioChunk).length === 2, '应该输出两个音频片段');
+    assert(results.some(result => result.usage?.total_tokens === 30), '应该带上 usage');
+    console.log('✅ 测试 3 通过');
+
+    // 测试 4: Agent 工具调用循环：画矩形 → 执行工具 → 收到结果后总结，历史记录完整
+    const requests: string[] = [];
+    const agent = new Agent({
+      systemPrompt: '你是画布助手',
+      llmConfig: {
+        apiKey: 'sk-mock-secret',
+        baseURL: BASE_URL,
+        model: 'mock-model',
+        toolCallMode: 'text',
+        fetch: createMockCompletionHandler({
+          fixtures: BUILTIN_FIXTURES,
+          speed: 0,
+          onRequest: (_body, selected) => requests.push(selected?.name ?? 'none')
+        })
+      }
+    });
+    const calls: Array<Record<string, unknown>> = [];
+    agent.registerTools([{
+      name: 'draw_rectangle',
+      description: '绘制矩形',
+      parameters: { type: 'object', properties: {} },
+      handler: async (args: Record<string, unknown>) => {
+        calls.push(args);
+        return { isSuccess: true, data: { id: 'rect_001' } };
+      }
+    }]);
+    let summary: AgentRunSummary | null = null;
+    agent.on('runCompleted', (result: AgentRunSummary) => {
+      summary = result;
+    });
+    let spoken = '';
+    for await (const chunk of agent.generate('画一个红色矩形')) {
+      spoken += chunk.text;
+    }
+    assert(requests.join(',') === 'draw-rectangle,tool-result-summary', `应该依次回放工具调用与总结，实际: ${requests.join(',')}`);
+    assert(calls.length === 1 && calls[0].color === '#ff0000' && calls[0].topLeftX === -15, '工具参数应该从 <tool_calls> 文本中解析');
+    assert(!spoken.includes('<tool_calls>') && spoken.endsWith('已经画好了一个红色矩形。'), '口播文本不应该包含标签');
+    assert(summary!.stopReason === 'completed' && summary!.executedToolCallCount === 1, '应该执行一次工具后正常结束');
+    const history = agent.getConversationHistory();
+    assert(history.some(message => message.role === 'user' && message.content[0].text === '画一个红色矩形'), '历史中应该有用户输入');
+    assert(history[history.length - 1].content[0].text === '已经画好了一个红色矩形。', '最后一条历史应该是总结回复');
+    console.log('✅ 测试 4 通过');
+
+    // 测试 5: 录制器透传响应并生成可回放的 fixture，不保存 API Key
+    const recorded: StreamFixture[] = [];
+    const recorder = createFixtureRecorder({
+      fetch: createMockCompletionHandler({ fixtures: BUILTIN_FIXTURES, speed: 0 }),
+      onFixture: recordedFixture => {
+        recorded.push(recordedFixture);
+      }
+    });
+    const recordingLLM = new LLM({ apiKey: 'sk-mock-secret', baseURL: BASE_URL, model: 'mock-model', toolCallMode: 'text', fetch: recorder });
+    let passedThrough = '';
+    for await (const result of recordingLLM.generate([{ role: 'user', content: [{ type: 'text', text: '你好' }] }])) {
+      passedThrough += result.text;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert(passedThrough === '你好，我是离线助手。', '录制时应该把响应原样返回给调用方');
+    assert(recorded.length === 1 && recorded[0].name === 'recording-1', '应该生成一个 fixture');
+    assert(recorded[0].match?.lastMessageIncludes === '你好', '录制的 fixture 应该按最后一条消息匹配');
+    assert(collectFixtureText(recorded[0]) === '你好，我是离线助手。', '录制的事件应该包含全部文本增量');
+    assert(!JSON.stringify(recorded[0]).includes('sk-mock-secret'), 'fixture 中不应该包含 API Key');
+    const replay = createMockCompletionHandler({ fixtures: recorded, speed: 0 });
+    const replayed = parseSSE(await (await postCompletion(replay, { stream: true, messages: [{ role: 'user', content: '你好' }] })).text());
+    assert(replayed.events.length === recorded[0].events.length, '录制的 fixture 应该可以直接回放');
+    console.log('✅ 测试 5 通过');
+
+    console.log('🎉 所有测试都通过了！离线 mock 服务工作正常。');
+  } catch (error) {
+    console.error('❌ 测试失败:', error);
+    throw error;
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests();
+}
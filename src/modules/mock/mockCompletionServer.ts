@@ -0,0 +1,158 @@
+/**
+ * 离线的 OpenAI 兼容 mock 服务：回放 fixture 中录制的 /chat/completions 流式响应
+ *
+ * createMockCompletionHandler 返回一个 (Request) => Promise<Response> 处理函数：
+ * - 测试中直接作为 OpenAI 客户端的 fetch 使用，无需监听端口
+ * - scripts/mock-server.ts 把它挂到 Node HTTP 服务器上，供浏览器中的应用使用
+ */
+
+import {
+  SSE_DONE,
+  encodeSSE,
+  getMessageText,
+  selectFixture,
+  type CompletionRequestBody,
+  type StreamFixture
+} from './streamFixtures';
+
+export const FIXTURE_HEADER = 'x-mock-fixture';
+
+export interface MockCompletionServerOptions {
+  fixtures: StreamFixture[];
+  speed?: number;  // 回放速度倍数，0 表示忽略录制的间隔，默认 1
+  onRequest?: (body: CompletionRequestBody, fixture: StreamFixture | null) => void;
+}
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*'
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+  });
+}
+
+function errorResponse(status: number, message: string, type: string = 'mock_error', code?: string): Response {
+  return jsonResponse(status, { error: { message, type, code: code ?? null } });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// 把 fixture 回放为 SSE 流，缺少结束标记时自动补上
+function createEventStream(fixture: StreamFixture, speed: number, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const events = fixture.events.some(event => event.data === SSE_DONE)
+    ? fixture.events
+    : [...fixture.events, { data: SSE_DONE }];
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= events.length || signal?.aborted) {
+        controller.close();
+        return;
+      }
+      const event = events[index++];
+      await sleep(speed > 0 ? (event.delayMs ?? 0) / speed : 0, signal);
+      controller.enqueue(encoder.encode(encodeSSE(event.data)));
+    }
+  });
+}
+
+// 非流式请求：把 fixture 中的文本增量合并为一条完整回复
+function createCompletionBody(fixture: StreamFixture, model?: string) {
+  let content = '';
+  let usage: unknown = null;
+  for (const event of fixture.events) {
+    const data = event.data as { choices?: Array<{ delta?: { content?: unknown } }>; usage?: unknown } | string;
+    if (typeof data !== 'object' || !data) {
+      continue;
+    }
+    const delta = data.choices?.[0]?.delta?.content;
+    if (typeof delta === 'string') {
+      content += delta;
+    }
+    usage = data.usage ?? usage;
+  }
+
+  return {
+    id: `chatcmpl-mock-${fixture.name}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: model ?? 'mock-model',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage
+  };
+}
+
+export function createMockCompletionHandler(options: MockCompletionServerOptions): (input: string | URL | Request, init?: RequestInit) => Promise<Response> {
+  const speed = options.speed ?? 1;
+
+  return async (input, init) => {
+    const request = input instanceof Request ? input : new Request(input, init);
+    const { pathname } = new URL(request.url);
+
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+
+    if (request.method === 'GET' && pathname.endsWith('/models')) {
+      const models = Array.from(new Set(options.fixtures.map(fixture => fixture.match?.model ?? 'mock-model')));
+      return jsonResponse(200, { object: 'list', data: models.map(id => ({ id, object: 'model', owned_by: 'mock' })) });
+    }
+
+    if (request.method !== 'POST' || !pathname.endsWith('/chat/completions')) {
+      return errorResponse(404, `mock 服务不支持 ${request.method} ${pathname}`, 'not_found');
+    }
+
+    let body: CompletionRequestBody;
+    try {
+      body = await request.json() as CompletionRequestBody;
+    } catch {
+      return errorResponse(400, '请求体不是合法的 JSON', 'invalid_request_error');
+    }
+
+    const fixture = selectFixture(options.fixtures, body, request.headers.get(FIXTURE_HEADER));
+    options.onRequest?.(body, fixture);
+
+    if (!fixture) {
+      const lastMessage = getMessageText(body.messages?.[body.messages.length - 1]).slice(0, 80);
+      return errorResponse(404, `没有匹配的 fixture（最后一条消息: ${lastMessage || '空'}）`, 'fixture_not_found');
+    }
+
+    if (fixture.status && fixture.status !== 200) {
+      const error = fixture.error ?? { message: `fixture ${fixture.name} 模拟的错误` };
+      return errorResponse(fixture.status, error.message, error.type, error.code);
+    }
+
+    if (body.stream !== true) {
+      return jsonResponse(200, createCompletionBody(fixture, body.model));
+    }
+
+    return new Response(createEventStream(fixture, speed, request.signal), {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Chat Completion 流式响应 fixture
+ *
+ * 一个 fixture 记录一次 /chat/completions 流式响应中的全部 SSE 事件（文本增量、音频片段、usage、
+ * <tool_calls> 文本等）以及事件之间的间隔，由 mock 服务器按原样回放。
+ * 只使用 Web 标准 API，浏览器、Node 与测试中都可以直接使用。
+ */
+
+export const SSE_DONE = '[DONE]';
+
+export interface StreamFixtureEvent {
+  delayMs?: number;  // 距上一个事件的间隔
+  data: unknown;     // 分片 JSON，或结束标记 '[DONE]'
+}
+
+// 按请求内容选择 fixture，所有条件都满足时匹配
+export interface FixtureMatch {
+  model?: string;
+  lastRole?: 'system' | 'user' | 'assistant' | 'tool';
+  lastMessageIncludes?: string;  // 最后一条消息的文本包含该字符串
+}
+
+export interface StreamFixture {
+  name: string;
+  description?: string;
+  match?: FixtureMatch;
+  status?: number;  // 非 200 时返回错误响应，用于模拟限流、服务端错误等
+  error?: { message: string; type?: string; code?: string };
+  events: StreamFixtureEvent[];
+  recordedAt?: string;
+  request?: { model?: string; lastRole?: string; lastMessage?: string };
+}
+
+// 请求体中与选择 fixture 相关的部分
+export interface CompletionRequestBody {
+  model?: string;
+  stream?: boolean;
+  messages?: Array<{ role?: string; content?: unknown }>;
+}
+
+export function encodeSSE(data: unknown): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * 解析 SSE 文本，返回每个事件的 data（JSON 会被解析，'[DONE]' 原样返回）
+ * 最后一个不完整的事件保留在 rest 中，用于增量解析
+ */
+export function parseSSE(text: string): { events: unknown[]; rest: string } {
+  const blocks = text.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: unknown[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) {
+      continue;
+    }
+    try {
+      events.push(data === SSE_DONE ? SSE_DONE : JSON.parse(data));
+    } catch {
+      events.push(data);
+    }
+  }
+
+  return { events, rest };
+}
+
+export function getMessageText(message?: { content?: unknown }): string {
+  const content = message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part && typeof part === 'object' && typeof (part as { text?: unknown }).text === 'string'
+        ? (part as { text: string }).text
+        : ''))
+      .join('');
+  }
+  return '';
+}
+
+function matches(match: FixtureMatch, body: CompletionRequestBody): boolean {
+  const last = body.messages?.[body.messages.length - 1];
+  if (match.model && match.model !== body.model) {
+    return false;
+  }
+  if (match.lastRole && match.lastRole !== last?.role) {
+    return false;
+  }
+  if (match.lastMessageIncludes && !getMessageText(last).includes(match.lastMessageIncludes)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 选择要回放的 fixture：指定名称时按名称查找；否则取第一个条件匹配的 fixture，
+ * 都不匹配时取第一个没有匹配条件的 fixture
+ */
+export function selectFixture(
+  fixtures: StreamFixture[],
+  body: CompletionRequestBody,
+  name?: string | null
+): StreamFixture | null {
+  if (name) {
+    return fixtures.find(fixture => fixture.name === name) ?? null;
+  }
+  return fixtures.find(fixture => fixture.match && matches(fixture.match, body))
+    ?? fixtures.find(fixture => !fixture.match)
+    ?? null;
+}
+
+export interface TextFixtureOptions {
+  description?: string;
+  match?: FixtureMatch;
+  chunkSize?: number;      // 每个文本增量的字符数，默认 4
+  audioChunks?: string[];  // 与文本交替输出的 base64 音频片段
+  delayMs?: number;        // 事件间隔，默认 20
+  usage?: Record<string, number>;
+}
+
+/**
+ * 按文本生成 fixture：role 分片、文本增量（可与音频片段交替）、usage 与结束标记
+ */
+export function createTextFixture(name: string, text: string, options: TextFixtureOptions = {}): StreamFixture {
+  const chunkSize = Math.max(1, options.chunkSize ?? 4);
+  const delayMs = options.delayMs ?? 20;
+  const characters = Array.from(text);
+  const textDeltas: string[] = [];
+  for (let i = 0; i < characters.length; i += chunkSize) {
+    textDeltas.push(characters.slice(i, i + chunkSize).join(''));
+  }
+
+  const audioChunks = options.audioChunks ?? [];
+  const deltaCount = Math.max(textDeltas.length, audioChunks.length);
+  const events: StreamFixtureEvent[] = [{ data: { choices: [{ index: 0, delta: { role: 'assistant', content: '' } }] } }];
+  for (let i = 0; i < deltaCount; i++) {
+    if (textDeltas[i] !== undefined) {
+      events.push({ delayMs, data: { choices: [{ index: 0, delta: { content: textDeltas[i] } }] } });
+    }
+    if (audioChunks[i] !== undefined) {
+      events.push({ delayMs, data: { choices: [{ index: 0, delta: { audio: { data: audioChunks[i] } } }] } });
+    }
+  }
+  events.push({ delayMs, data: { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] } });
+  events.push({
+    data: {
+      choices: [],
+      usage: options.usage ?? {
+        prompt_tokens: 0,
+        completion_tokens: characters.length,
+        total_tokens: characters.length
+      }
+    }
+  });
+  events.push({ data: SSE_DONE });
+
+  return { name, description: options.description, match: options.match, events };
+}
+
+/**
+ * 拼接 fixture 中的文本增量，便于断言
+ */
+export function collectFixtureText(fixture: StreamFixture): string {
+  return fixture.events
+    .map(event => (event.data as { choices?: Array<{ delta?: { content?: unknown } }> })?.choices?.[0]?.delta?.content)
+    .filter((content): content is string => typeof content === 'string')
+    .join('');
+}
@@ -0,0 +1,250 @@
+/**
+ * RealtimeClient 测试套件
+ * 通过 createSocket 注入模拟的 WebSocket，验证会话配置、事件排队、服务端事件分发、断线重连与密钥传递
+ */
+
+import { RealtimeClient, type RealtimeApiKeyTransport, type RealtimeConnectionState, type RealtimeSocket } from './RealtimeClient'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// 模拟 WebSocket：由测试手动触发 open / message / close
+class FakeSocket implements RealtimeSocket {
+  readyState = 0
+  onopen: ((event: any) => void) | null = null
+  onclose: ((event: any) => void) | null = null
+  onerror: ((event: any) => void) | null = null
+  onmessage: ((event: any) => void) | null = null
+  sent: any[] = []
+  closedByClient = false
+
+  constructor(public url: string) {}
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data))
+  }
+
+  // 与浏览器一致：close() 之后 onclose 异步触发，由测试调用 finishClose() 模拟
+  close(): void {
+    this.closedByClient = true
+    this.readyState = 2
+  }
+
+  open(): void {
+    this.readyState = 1
+    this.onopen?.({})
+  }
+
+  receive(event: unknown): void {
+    this.onmessage?.({ data: typeof event === 'string' ? event : JSON.stringify(event) })
+  }
+
+  finishClose(code: number = 1006): void {
+    this.readyState = 3
+    this.onclose?.({ code, reason: '' })
+  }
+}
+
+function createClient(options: { reconnectInterval?: number } = {}) {
+  const sockets: FakeSocket[] = []
+  const storeCalls: string[] = []
+  const store: RealtimeConnectionState = {
+    reconnectAttempts: 0,
+    setConnected: connected => storeCalls.push(`connected:${connected}`),
+    setConnecting: () => {},
+    setConnectionError: () => {},
+    setSessionConfig: config => storeCalls.push(`session:${config?.turn_detection?.type ?? 'none'}`),
+    incrementReconnectAttempts: () => storeCalls.push('increment'),
+    resetReconnectAttempts: () => storeCalls.push('reset')
+  }
+  const client = new RealtimeClient({
+    url: 'ws://mock.local/realtime',
+    model: 'mock-model',
+    session: { voice: 'Cherry' },
+    reconnectInterval: options.reconnectInterval ?? 5,
+    maxReconnectAttempts: 2,
+    connectionStore: store,
+    createSocket: url => {
+      const socket = new FakeSocket(url)
+      sockets.push(socket)
+      return socket
+    }
+  })
+  return { client, sockets, storeCalls }
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🔌 开始运行 RealtimeClient 测试...')
+
+  try {
+    // 测试 1: 建连后先发送 session.update，再按顺序发送离线期间排队的事件
+    {
+      const { client, sockets } = createClient()
+      client.commitAudio()
+      client.updateSession({ instructions: '简短回答' })
+      client.createResponse()
+
+      const connecting = client.connect()
+      assert(sockets.length === 1 && sockets[0].url === 'ws://mock.local/realtime?model=mock-model', '应该用带模型参数的地址创建 socket')
+      sockets[0].open()
+      await connecting
+
+      const types = sockets[0].sent.map(event => event.type)
+      assert(types.join(',') === 'session.update,input_audio_buffer.commit,response.create', `排队事件应该在 session.update 之后发送: ${types.join(',')}`)
+      assert(sockets[0].sent[0].session.voice === 'Cherry' && sockets[0].sent[0].session.instructions === '简短回答', 'session.update 应该带上合并后的会话配置')
+      assert(client.isConnected(), '应该处于已连接状态')
+      client.dispose()
+      console.log('✅ 测试 1 通过')
+    }
+
+    // 测试 2: 服务端事件按 type 分发，无效消息被忽略，会话事件同步到连接 store
+    {
+      const { client, sockets, storeCalls } = createClient()
+      const connecting = client.connect()
+      sockets[0].open()
+      await connecting
+
+      const deltas: string[] = []
+      const all: string[] = []
+      const unsubscribe = client.onServerEvent('response.text.delta', event => deltas.push(event.delta))
+      client.on('serverEvent', event => all.push(event.type))
+
+      sockets[0].receive({ type: 'response.text.delta', event_id: 'e1', response_id: 'r', item_id: 'i', output_index: 0, content_index: 0, delta: '你好' })
+      sockets[0].receive('not json')
+      sockets[0].receive({ type: 'session.updated', event_id: 'e2', session: { turn_detection: { type: 'server_vad' } } })
+      unsubscribe()
+      sockets[0].receive({ type: 'response.text.delta', event_id: 'e3', response_id: 'r', item_id: 'i', output_index: 0, content_index: 0, delta: '忽略' })
+
+      assert(deltas.join('') === '你好', '取消订阅前应该收到类型化的事件')
+      assert(all.join(',') === 'response.text.delta,session.updated,response.text.delta', 'serverEvent 应该收到全部有效事件')
+      assert(storeCalls.includes('session:server_vad'), 'session.updated 应该同步到连接 store')
+      client.dispose()
+      console.log('✅ 测试 2 通过')
+    }
+
+    // 测试 3: 意外断开后自动重连，重连成功后重新发送 session.update
+    {
+      const { client, sockets, storeCalls } = createClient()
+      const events: string[] = []
+      client.on('disconnected', () => events.push('disconnected'))
+      client.on('reconnecting', ({ attempt }) => events.push(`reconnecting:${attempt}`))
+      client.on('connected', () => events.push('connected'))
+
+      const connecting = client.connect()
+      sockets[0].open()
+      await connecting
+      sockets[0].finishClose(1006)
+      assert(!client.isConnected(), '断开后应该处于未连接状态')
+
+      await wait(20)
+      assert(sockets.length === 2, '应该创建新的 socket 重连')
+      sockets[1].open()
+      assert(events.join(',') === 'connected,disconnected,reconnecting:1,connected', `生命周期事件顺序不正确: ${events.join(',')}`)
+      assert(sockets[1].sent[0]?.type === 'session.update', '重连后应该重新同步会话配置')
+      assert(storeCalls.filter(call => call === 'increment').length === 1 && storeCalls[storeCalls.length - 1] === 'reset', '重连成功后应该重置重连次数')
+      client.dispose()
+      console.log('✅ 测试 3 通过')
+    }
+
+    // 测试 4: disconnect 后立即重新连接，旧 socket 迟到的 onclose 不影响新连接
+    {
+      const { client, sockets } = createClient()
+      const first = client.connect()
+      sockets[0].open()
+      await first
+
+      client.disconnect()
+      assert(sockets[0].closedByClient, 'disconnect 应该关闭 socket')
+      const second = client.connect()
+      sockets[1].open()
+      await second
+
+      sockets[0].finishClose(1000)
+      await wait(20)
+      assert(client.isConnected(), '旧 socket 的 onclose 不应该断开新连接')
+      assert(sockets.length === 2, '旧 socket 的 onclose 不应该触发重连')
+      client.commitAudio()
+      assert(sockets[1].sent[sockets[1].sent.length - 1].type === 'input_audio_buffer.commit', '事件应该发送到新 socket')
+      client.dispose()
+      console.log('✅ 测试 4 通过')
+    }
+
+    // 测试 5: 连接尚未建立时断开并重连，旧连接的 Promise 被拒绝而不是一直挂起
+    {
+      const { client, sockets } = createClient()
+      const stale = client.connect()
+      client.disconnect()
+      const current = client.connect()
+      sockets[0].finishClose(1000)
+      let rejected = false
+      await stale.catch(() => {
+        rejected = true
+      })
+      sockets[1].open()
+      await current
+      assert(rejected && client.isConnected(), '旧连接的 Promise 应该被拒绝，新连接正常建立')
+      client.dispose()
+      console.log('✅ 测试 5 通过')
+    }
+
+    // 测试 6: 建连过程中重复调用 connect 复用同一个连接，不会创建多余的 socket
+    {
+      const { client, sockets } = createClient()
+      const first = client.connect()
+      const second = client.connect()
+      assert(first === second && sockets.length === 1, '建连中再次 connect 应该返回同一个 Promise')
+      sockets[0].open()
+      await Promise.all([first, second])
+      assert(client.isConnected() && sockets.length === 1, '只应该建立一个连接')
+      client.dispose()
+      console.log('✅ 测试 6 通过')
+    }
+
+    // 测试 7: 密钥默认通过子协议传递，只有显式选择 query 时才写入 URL
+    {
+      const created: Array<{ url: string; protocols?: string | string[]; headers?: Record<string, string> }> = []
+      const connectWith = async (apiKeyTransport?: RealtimeApiKeyTransport) => {
+        const client = new RealtimeClient({
+          url: 'ws://mock.local/realtime',
+          apiKey: 'sk-test',
+          apiKeyTransport,
+          createSocket: (url, protocols, headers) => {
+            created.push({ url, protocols, headers })
+            const socket = new FakeSocket(url)
+            setTimeout(() => socket.open(), 0)
+            return socket
+          }
+        })
+        await client.connect()
+        client.dispose()
+      }
+
+      await connectWith()
+      await connectWith('header')
+      await connectWith('query')
+
+      const [subprotocol, header, query] = created
+      assert(!subprotocol.url.includes('sk-test') && Array.isArray(subprotocol.protocols) && subprotocol.protocols.includes('openai-insecure-api-key.sk-test'), '默认应该通过子协议传递密钥')
+      assert(!header.url.includes('sk-test') && header.headers?.Authorization === 'Bearer sk-test', 'header 模式应该使用 Authorization 请求头')
+      assert(query.url === 'ws://mock.local/realtime?api_key=sk-test' && query.protocols === undefined, 'query 模式才把密钥写入 URL')
+      console.log('✅ 测试 7 通过')
+    }
+
+    console.log('🎉 所有测试都通过了！RealtimeClient 工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
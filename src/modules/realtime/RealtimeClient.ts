@@ -0,0 +1,480 @@
+/**
+ * RealtimeClient - 实时全双工 WebSocket 客户端
+ *
+ * 按照 src/types/websocket.ts 中定义的事件协议与服务端通信：
+ * - 连接建立后发送 session.update 配置会话
+ * - 流式追加麦克风 PCM16 音频与截图到输入缓冲区
+ * - 将服务端事件按 type 分发为类型化事件
+ * - 异常断开时按配置自动重连，并把连接状态同步到连接 store
+ *
+ * WebSocket 实现可注入，便于在 Node 环境中对接本地 mock 服务端进行测试
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import type {
+  ClientEvent,
+  ServerEvent,
+  SessionConfig,
+  ResponseCreateEvent
+} from '@/types/websocket'
+
+// 连接 store 中被客户端驱动的部分（与 useConnectionStore 的动作保持一致）
+export interface RealtimeConnectionState {
+  readonly reconnectAttempts: number
+  setConnected: (connected: boolean) => void
+  setConnecting: (connecting: boolean) => void
+  setConnectionError: (error: string | null) => void
+  setSessionConfig: (config: SessionConfig | undefined) => void
+  incrementReconnectAttempts: () => void
+  resetReconnectAttempts: () => void
+}
+
+// 最小化的 WebSocket 接口，浏览器 WebSocket 与 ws 库均满足
+export interface RealtimeSocket {
+  readyState: number
+  onopen: ((event: any) => void) | null
+  onclose: ((event: any) => void) | null
+  onerror: ((event: any) => void) | null
+  onmessage: ((event: any) => void) | null
+  send: (data: string) => void
+  close: (code?: number, reason?: string) => void
+}
+
+// headers 只在密钥通过请求头传递时提供，需要支持自定义请求头的实现（如 Node 的 ws）
+export type RealtimeSocketFactory = (url: string, protocols?: string | string[], headers?: Record<string, string>) => RealtimeSocket
+
+// 密钥的传递方式：
+// - 'subprotocol'：放在 Sec-WebSocket-Protocol 中（openai-insecure-api-key.<key>），浏览器 WebSocket 无法设置请求头时使用
+// - 'header'：Authorization 请求头，需要注入支持请求头的 createSocket
+// - 'query'：api_key URL 参数，只用于不接受其他鉴权方式的服务端，密钥会出现在代理与服务端的访问日志中
+export type RealtimeApiKeyTransport = 'subprotocol' | 'header' | 'query'
+
+export interface RealtimeClientConfig {
+  url: string
+  apiKey?: string
+  apiKeyTransport?: RealtimeApiKeyTransport  // 默认 'subprotocol'
+  model?: string
+  protocols?: string | string[]
+  session?: Partial<SessionConfig>
+  reconnectInterval?: number
+  maxReconnectAttempts?: number
+  connectionStore?: RealtimeConnectionState
+  createSocket?: RealtimeSocketFactory
+}
+
+export type ServerEventType = ServerEvent['type']
+export type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>
+
+// 分发给上层的客户端事件：除服务端事件 type 外，还包括以下连接生命周期事件
+// 'connected' | 'disconnected' | 'reconnecting' | 'serverEvent' | 'error'
+
+const SOCKET_OPEN = 1
+
+const DEFAULT_SESSION: SessionConfig = {
+  modalities: ['text', 'audio'],
+  input_audio_format: 'pcm16',
+  output_audio_format: 'pcm24',
+  turn_detection: null
+}
+
+function generateEventId(): string {
+  return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+function defaultSocketFactory(url: string, protocols?: string | string[], headers?: Record<string, string>): RealtimeSocket {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error('当前环境不支持 WebSocket，请通过 createSocket 注入实现')
+  }
+  if (headers) {
+    throw new Error('浏览器 WebSocket 无法设置请求头，请改用 subprotocol 传递密钥或注入 createSocket')
+  }
+  return new WebSocket(url, protocols) as unknown as RealtimeSocket
+}
+
+export class RealtimeClient extends EventEmitter {
+  private config: RealtimeClientConfig
+  private socket: RealtimeSocket | null = null
+  private connecting: Promise<void> | null = null
+  private session: SessionConfig
+  private pendingEvents: ClientEvent[] = []
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectAttempts = 0
+  private manuallyClosed = false
+  private connected = false
+
+  constructor(config: RealtimeClientConfig) {
+    super()
+    this.config = {
+      reconnectInterval: 2000,
+      maxReconnectAttempts: 5,
+      ...config
+    }
+    this.session = { ...DEFAULT_SESSION, ...config.session }
+  }
+
+  // 建立连接，连接成功（socket open）后 resolve；正在建连时返回同一个 Promise，不会重复创建 socket
+  connect(): Promise<void> {
+    if (this.socket && this.connected) {
+      return Promise.resolve()
+    }
+
+    if (this.connecting) {
+      return this.connecting
+    }
+
+    this.manuallyClosed = false
+    this.clearReconnectTimer()
+    this.config.connectionStore?.setConnecting(true)
+    this.config.connectionStore?.setConnectionError(null)
+
+    const connecting = this.openSocket()
+    this.connecting = connecting
+    const clearConnecting = () => {
+      if (this.connecting === connecting) {
+        this.connecting = null
+      }
+    }
+    connecting.then(clearConnecting, clearConnecting)
+    return connecting
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false
+      let socket: RealtimeSocket
+
+      try {
+        const factory = this.config.createSocket ?? defaultSocketFactory
+        socket = factory(this.buildUrl(), this.buildProtocols(), this.buildHeaders())
+      } catch (error) {
+        this.config.connectionStore?.setConnecting(false)
+        reject(error)
+        return
+      }
+
+      this.socket = socket
+
+      const settle = (error?: Error) => {
+        if (settled) {
+          return
+        }
+        settled = true
+        if (error) {
+          reject(error)
+        } else {
+          resolve()
+        }
+      }
+
+      // 断开后重新连接时，旧 socket 迟到的事件只结束它自己的 Promise，不能影响当前连接
+      const isStale = () => this.socket !== socket
+
+      socket.onopen = () => {
+        if (isStale()) {
+          settle(new Error('Realtime 连接已被替换'))
+          return
+        }
+
+        console.log('🔌 Realtime 连接已建立')
+        this.connected = true
+        this.reconnectAttempts = 0
+        this.config.connectionStore?.setConnecting(false)
+        this.config.connectionStore?.setConnected(true)
+        this.config.connectionStore?.resetReconnectAttempts()
+
+        // 建连后先同步会话配置，再发送离线期间排队的事件
+        this.sendEvent({ event_id: generateEventId(), type: 'session.update', session: this.session })
+        this.flushPendingEvents()
+
+        this.emit('connected')
+        settle()
+      }
+
+      socket.onmessage = (event: { data: unknown }) => {
+        if (isStale()) {
+          return
+        }
+        this.handleMessage(event.data)
+      }
+
+      socket.onerror = (event: unknown) => {
+        const error = new Error('Realtime WebSocket 连接错误')
+        if (isStale()) {
+          settle(error)
+          return
+        }
+
+        console.error('❌ Realtime 连接错误:', event)
+        this.config.connectionStore?.setConnectionError(error.message)
+        this.emit('error', error)
+        settle(error)
+      }
+
+      socket.onclose = (event: { code?: number; reason?: string }) => {
+        const error = new Error(`Realtime 连接关闭: ${event?.code ?? 'unknown'}`)
+        if (isStale()) {
+          settle(error)
+          return
+        }
+
+        const wasConnected = this.connected
+        this.connected = false
+        this.socket = null
+        this.config.connectionStore?.setConnecting(false)
+        this.config.connectionStore?.setConnected(false)
+
+        console.log('🔌 Realtime 连接已关闭', { code: event?.code, reason: event?.reason })
+        this.emit('disconnected', { code: event?.code, reason: event?.reason })
+        settle(error)
+
+        if (!this.manuallyClosed && (wasConnected || this.reconnectAttempts > 0)) {
+          this.scheduleReconnect()
+        }
+      }
+    })
+  }
+
+  // 主动断开，不触发重连
+  disconnect(): void {
+    this.manuallyClosed = true
+    this.clearReconnectTimer()
+    this.pendingEvents = []
+    this.connecting = null
+
+    if (this.socket) {
+      this.socket.close(1000, 'client disconnect')
+      this.socket = null
+    }
+
+    this.connected = false
+    this.config.connectionStore?.setConnecting(false)
+    this.config.connectionStore?.setConnected(false)
+  }
+
+  isConnected(): boolean {
+    return this.connected && this.socket?.readyState === SOCKET_OPEN
+  }
+
+  getSession(): SessionConfig {
+    return { ...this.session }
+  }
+
+  // 更新会话配置（会与当前配置合并）
+  updateSession(session: Partial<SessionConfig>): void {
+    this.session = { ...this.session, ...session }
+    this.sendOrQueue({ event_id: generateEventId(), type: 'session.update', session: this.session })
+  }
+
+  // 追加 PCM16 音频：支持原始字节或 AudioRecorder 输出的 base64 字符串
+  appendAudio(audio: ArrayBuffer | Int16Array | string): void {
+    if (!this.isConnected()) {
+      // 实时音频在断线期间没有意义，直接丢弃
+      return
+    }
+
+    const payload = typeof audio === 'string'
+      ? audio
+      : bytesToBase64(audio instanceof Int16Array
+        ? new Uint8Array(audio.buffer, audio.byteOffset, audio.byteLength)
+        : new Uint8Array(audio))
+
+    if (!payload) {
+      return
+    }
+
+    this.sendEvent({ event_id: generateEventId(), type: 'input_audio_buffer.append', audio: payload })
+  }
+
+  commitAudio(): void {
+    this.sendOrQueue({ event_id: generateEventId(), type: 'input_audio_buffer.commit' })
+  }
+
+  clearAudio(): void {
+    this.sendOrQueue({ event_id: generateEventId(), type: 'input_audio_buffer.clear' })
+  }
+
+  // 追加截图：接受 data URL 或纯 base64 JPEG
+  appendImage(image: string): void {
+    const trimmed = image?.trim()
+    if (!trimmed || !this.isConnected()) {
+      return
+    }
+
+    const payload = trimmed.startsWith('data:') ? trimmed.split(',')[1] ?? '' : trimmed
+    if (!payload) {
+      return
+    }
+
+    this.sendEvent({ event_id: generateEventId(), type: 'input_image_buffer.append', image: payload })
+  }
+
+  createResponse(response?: Partial<ResponseCreateEvent['response']>): void {
+    this.sendOrQueue({
+      event_id: generateEventId(),
+      type: 'response.create',
+      response: {
+        modalities: this.session.modalities,
+        ...response
+      }
+    })
+  }
+
+  cancelResponse(): void {
+    this.sendOrQueue({ event_id: generateEventId(), type: 'response.cancel' })
+  }
+
+  // 类型化的服务端事件订阅，返回取消订阅函数
+  onServerEvent<T extends ServerEventType>(type: T, handler: (event: ServerEventOf<T>) => void): () => void {
+    this.on(type, handler)
+    return () => {
+      this.off(type, handler)
+    }
+  }
+
+  private buildUrl(): string {
+    const params: string[] = []
+    if (this.config.model) {
+      params.push(`model=${encodeURIComponent(this.config.model)}`)
+    }
+    if (this.config.apiKey && this.config.apiKeyTransport === 'query') {
+      params.push(`api_key=${encodeURIComponent(this.config.apiKey)}`)
+    }
+
+    if (params.length === 0) {
+      return this.config.url
+    }
+
+    const separator = this.config.url.includes('?') ? '&' : '?'
+    return `${this.config.url}${separator}${params.join('&')}`
+  }
+
+  private buildProtocols(): string | string[] | undefined {
+    const { apiKey, apiKeyTransport = 'subprotocol', protocols } = this.config
+    if (!apiKey || apiKeyTransport !== 'subprotocol') {
+      return protocols
+    }
+
+    const base = protocols === undefined ? ['realtime'] : ([] as string[]).concat(protocols)
+    return [...base, `openai-insecure-api-key.${apiKey}`]
+  }
+
+  private buildHeaders(): Record<string, string> | undefined {
+    if (!this.config.apiKey || this.config.apiKeyTransport !== 'header') {
+      return undefined
+    }
+
+    return { Authorization: `Bearer ${this.config.apiKey}` }
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') {
+      console.warn('⚠️ Realtime 忽略非文本消息')
+      return
+    }
+
+    let event: ServerEvent
+    try {
+      event = JSON.parse(raw)
+    } catch (error) {
+      console.warn('⚠️ Realtime 消息解析失败:', raw)
+      return
+    }
+
+    if (!event || typeof event.type !== 'string') {
+      console.warn('⚠️ Realtime 收到无效事件:', event)
+      return
+    }
+
+    if (event.type === 'session.created' || event.type === 'session.updated') {
+      this.config.connectionStore?.setSessionConfig({
+        ...this.session,
+        turn_detection: event.session.turn_detection
+      })
+    }
+
+    if (event.type === 'error') {
+      console.error('❌ Realtime 服务端错误:', event.error)
+      this.config.connectionStore?.setConnectionError(event.error.message)
+    }
+
+    this.emit('serverEvent', event)
+    this.emit(event.type, event)
+  }
+
+  private sendOrQueue(event: ClientEvent): void {
+    if (this.isConnected()) {
+      this.sendEvent(event)
+      return
+    }
+
+    this.pendingEvents.push(event)
+  }
+
+  private sendEvent(event: ClientEvent): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      return
+    }
+
+    try {
+      this.socket.send(JSON.stringify(event))
+    } catch (error) {
+      console.error('❌ Realtime 发送事件失败:', event.type, error)
+      this.emit('error', error)
+    }
+  }
+
+  private flushPendingEvents(): void {
+    const events = this.pendingEvents
+    this.pendingEvents = []
+    // 会话配置已在建连时同步，排队中的 session.update 无需重复发送
+    events
+      .filter(event => event.type !== 'session.update')
+      .forEach(event => this.sendEvent(event))
+  }
+
+  private scheduleReconnect(): void {
+    const maxAttempts = this.config.maxReconnectAttempts ?? 5
+    if (this.reconnectAttempts >= maxAttempts) {
+      const message = `Realtime 重连失败，已达到最大重试次数 ${maxAttempts}`
+      console.error(`❌ ${message}`)
+      this.config.connectionStore?.setConnectionError(message)
+      this.emit('error', new Error(message))
+      return
+    }
+
+    this.reconnectAttempts++
+    this.config.connectionStore?.incrementReconnectAttempts()
+
+    const delay = this.config.reconnectInterval ?? 2000
+    console.log(`🔄 Realtime 将在 ${delay}ms 后重连（第 ${this.reconnectAttempts}/${maxAttempts} 次）`)
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay })
+
+    this.clearReconnectTimer()
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect().catch(error => {
+        console.warn('🔄 Realtime 重连尝试失败:', error)
+      })
+    }, delay)
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
+  dispose(): void {
+    this.disconnect()
+    this.removeAllListeners()
+  }
+}
@@ -0,0 +1,10 @@
+export { RealtimeClient } from './RealtimeClient'
+export type {
+  RealtimeApiKeyTransport,
+  RealtimeClientConfig,
+  RealtimeConnectionState,
+  RealtimeSocket,
+  RealtimeSocketFactory,
+  ServerEventType,
+  ServerEventOf
+} from './RealtimeClient'
@@ -0,0 +1,85 @@
+/**
+ * 画面采集源测试套件
+ * 合成画面源不依赖浏览器 API，可以直接在 Node.js 中运行
+ */
+
+import { SyntheticCaptureSource } from './ScreenCaptureSource'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🎥 开始运行画面采集源测试...')
+
+  try {
+    // 测试 1: 启动与停止
+    const source = new SyntheticCaptureSource({ width: 1920, height: 1080, frames: ['AAAA', 'BBBB'] })
+    const events: string[] = []
+    source.on('started', () => events.push('started'))
+    source.on('stopped', () => events.push('stopped'))
+    source.on('ended', () => events.push('ended'))
+    assert(source.kind === 'synthetic' && source.stream === null, '合成画面源没有实时画面流')
+    assert(!source.isActive && source.getFrameSize() === null, '启动前不应该有画面')
+    await source.start()
+    await source.start()
+    assert(source.isActive, '启动后应该处于激活状态')
+    assert(source.getFrameSize()?.width === 1920, '应该返回画面尺寸')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 按顺序循环输出画面
+    const first = await source.captureFrames()
+    const second = await source.captureFrames()
+    const third = await source.captureFrames()
+    assert(first.length === 1 && first[0].kind === 'full', '默认输出整屏截图')
+    assert(first[0].data === 'AAAA' && second[0].data === 'BBBB' && third[0].data === 'AAAA', '画面应该按顺序循环')
+    assert(first[0].width === 1920 && first[0].height === 1080, '整屏截图尺寸应该与画面一致')
+    assert(source.capturedCount === 3, '应该记录已截取的帧数')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 截图计划与真实画面源一致
+    const planned = new SyntheticCaptureSource({
+      width: 3840,
+      height: 2160,
+      frames: (plan, index) => `${plan.kind}-${index}`
+    })
+    await planned.start()
+    const focus = await planned.captureFrames(0.8, { mode: 'focus', region: { x: 0.5, y: 0.25, width: 0.25, height: 0.5 } })
+    assert(focus.map(frame => frame.data).join(',') === 'overview-0,region-0', 'focus 模式应该输出概览与区域两张图片')
+    assert(focus[0].width === 1024 && focus[1].width === 960 && focus[1].height === 1080, '输出尺寸应该来自截图计划')
+    const generated = new SyntheticCaptureSource()
+    await generated.start()
+    const [frame] = await generated.captureFrames()
+    assert(atob(frame.data) === 'synthetic-frame-0-full' && frame.width === 1280, '没有指定画面时生成默认画面')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 画面源结束后不能再截图
+    source.end()
+    assert(!source.isActive, '结束后不再激活')
+    let threw = false
+    try {
+      await source.captureFrames()
+    } catch {
+      threw = true
+    }
+    assert(threw, '未启动时截图应该报错')
+    await source.start()
+    source.stop()
+    assert(events.join(',') === 'started,ended,started,stopped', `事件顺序不正确: ${events.join(',')}`)
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！画面采集源工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
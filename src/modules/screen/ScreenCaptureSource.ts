@@ -0,0 +1,457 @@
+/**
+ * 画面采集源
+ *
+ * MultiModalService 与 ScreenManager（RunOmniService）都通过 ScreenCaptureSource 获取画面，
+ * 截图、区域裁剪与视频片段录制不再关心画面来自哪里：
+ * - display：屏幕共享（getDisplayMedia）
+ * - camera：摄像头（getUserMedia）
+ * - canvas：页面中的画布，例如画布工具的绘制结果或叠加层
+ * - upload：用户上传的图片
+ * - synthetic：不依赖浏览器的合成画面，用于在 Node.js 中测试截图 → Agent 的完整流程
+ *
+ * 事件：
+ * - 'started'
+ * - 'stopped'
+ * - 'ended'  画面源自行结束（例如用户在浏览器中停止共享）
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { planFrameCapture, renderFramePlans, type FrameCapturePlan, type FrameCropOptions, type FrameOverlay } from './frameCrop'
+
+export type CaptureSourceKind = 'display' | 'camera' | 'canvas' | 'upload' | 'synthetic'
+
+export interface CapturedFrame {
+  kind: FrameCapturePlan['kind']
+  data: string // base64，不含 data URL 前缀
+  width: number
+  height: number
+}
+
+export interface ScreenCaptureSource extends EventEmitter {
+  readonly kind: CaptureSourceKind
+  readonly isActive: boolean
+  // 实时画面流，用于录制视频片段；图片类画面源为 null
+  readonly stream: MediaStream | null
+  start(): Promise<void>
+  stop(): void
+  getFrameSize(): { width: number; height: number } | null
+  // 按截图模式输出整屏、选定区域或"概览 + 区域"两张图片，overlay 绘制在每张图片上（例如坐标网格）
+  captureFrames(quality?: number, cropOptions?: FrameCropOptions, mimeType?: string, overlay?: FrameOverlay): Promise<CapturedFrame[]>
+}
+
+interface DrawableFrame {
+  source: CanvasImageSource
+  width: number
+  height: number
+}
+
+/**
+ * 可以绘制到 canvas 的画面源，截图统一由 planFrameCapture + renderFramePlans 完成
+ */
+export abstract class DrawableCaptureSource extends EventEmitter implements ScreenCaptureSource {
+  abstract readonly kind: CaptureSourceKind
+  abstract readonly isActive: boolean
+  abstract readonly stream: MediaStream | null
+  abstract start(): Promise<void>
+  abstract stop(): void
+  protected abstract getDrawable(): DrawableFrame | null
+
+  getFrameSize(): { width: number; height: number } | null {
+    const drawable = this.isActive ? this.getDrawable() : null
+    return drawable ? { width: drawable.width, height: drawable.height } : null
+  }
+
+  async captureFrames(
+    quality: number = 0.8,
+    cropOptions: FrameCropOptions = {},
+    mimeType: string = 'image/jpeg',
+    overlay?: FrameOverlay
+  ): Promise<CapturedFrame[]> {
+    const drawable = this.isActive ? this.getDrawable() : null
+    if (!drawable) {
+      throw new Error(`画面源未启动: ${this.kind}`)
+    }
+
+    const plans = planFrameCapture(drawable.width, drawable.height, cropOptions)
+    const images = renderFramePlans(
+      drawable.source,
+      plans,
+      quality,
+      mimeType,
+      overlay && ((context, plan) => overlay(context, plan, drawable.width, drawable.height))
+    )
+    return plans.map((plan, index) => ({
+      kind: plan.kind,
+      data: images[index],
+      width: plan.outputWidth,
+      height: plan.outputHeight
+    }))
+  }
+}
+
+/**
+ * 基于 MediaStream 的画面源：流接到隐藏的 video 元素上，截图时从 video 取帧
+ */
+abstract class MediaStreamCaptureSource extends DrawableCaptureSource {
+  private mediaStream: MediaStream | null = null
+  private videoElement: HTMLVideoElement | null = null
+
+  protected abstract acquireStream(): Promise<MediaStream>
+
+  get isActive(): boolean {
+    return this.mediaStream !== null && this.mediaStream.active
+  }
+
+  get stream(): MediaStream | null {
+    return this.mediaStream
+  }
+
+  async start(): Promise<void> {
+    if (this.isActive) {
+      return
+    }
+    this.stop()
+
+    const mediaStream = await this.acquireStream()
+    const video = document.createElement('video')
+    video.autoplay = true
+    video.muted = true
+    video.playsInline = true
+    video.style.display = 'none'
+    document.body.appendChild(video)
+    video.srcObject = mediaStream
+
+    // 等待元数据加载完成，保证截图时 videoWidth / videoHeight 可用
+    if (video.readyState < 1) {
+      await new Promise(resolve => {
+        video.onloadedmetadata = resolve
+      })
+    }
+    video.play().catch(error => console.warn(`🎥 画面源播放失败 (${this.kind}):`, error))
+
+    mediaStream.getVideoTracks().forEach(track => {
+      track.addEventListener('ended', this.handleTrackEnded)
+    })
+
+    this.mediaStream = mediaStream
+    this.videoElement = video
+    this.emit('started')
+  }
+
+  stop(): void {
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => {
+        track.removeEventListener('ended', this.handleTrackEnded)
+        track.stop()
+      })
+      this.mediaStream = null
+    }
+
+    if (this.videoElement) {
+      this.videoElement.srcObject = null
+      this.videoElement.remove()
+      this.videoElement = null
+      this.emit('stopped')
+    }
+  }
+
+  protected getDrawable(): DrawableFrame | null {
+    const video = this.videoElement
+    if (!video || video.videoWidth === 0 || video.videoHeight === 0) {
+      return null
+    }
+    return { source: video, width: video.videoWidth, height: video.videoHeight }
+  }
+
+  private handleTrackEnded = () => {
+    console.log(`🎥 画面源已结束: ${this.kind}`)
+    this.stop()
+    this.emit('ended')
+  }
+}
+
+const DEFAULT_DISPLAY_CONSTRAINTS = {
+  video: {
+    cursor: 'always',
+    displaySurface: 'window'
+  }
+} as DisplayMediaStreamOptions
+
+/**
+ * 屏幕共享
+ */
+export class DisplayCaptureSource extends MediaStreamCaptureSource {
+  readonly kind = 'display'
+
+  constructor(private constraints: DisplayMediaStreamOptions = DEFAULT_DISPLAY_CONSTRAINTS) {
+    super()
+  }
+
+  protected acquireStream(): Promise<MediaStream> {
+    return navigator.mediaDevices.getDisplayMedia(this.constraints)
+  }
+}
+
+export interface CameraCaptureOptions {
+  deviceId?: string
+  facingMode?: 'user' | 'environment'
+  width?: number
+  height?: number
+  frameRate?: number
+}
+
+export interface CameraDevice {
+  deviceId: string
+  label: string
+}
+
+/**
+ * 列出可用的摄像头；未授权摄像头权限前浏览器不会返回设备名称
+ */
+export async function listCameraDevices(): Promise<CameraDevice[]> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return []
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `摄像头 ${index + 1}`
+    }))
+}
+
+/**
+ * 摄像头
+ */
+export class CameraCaptureSource extends MediaStreamCaptureSource {
+  readonly kind = 'camera'
+
+  constructor(private options: CameraCaptureOptions = {}) {
+    super()
+  }
+
+  protected acquireStream(): Promise<MediaStream> {
+    const { deviceId, facingMode, width = 1280, height = 720, frameRate = 15 } = this.options
+    return navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: facingMode ?? 'user' }),
+        width: { ideal: width },
+        height: { ideal: height },
+        frameRate: { ideal: frameRate }
+      }
+    })
+  }
+}
+
+/**
+ * 页面中的画布
+ */
+export class CanvasCaptureSource extends DrawableCaptureSource {
+  readonly kind = 'canvas'
+  private active = false
+  private canvasStream: MediaStream | null = null
+
+  constructor(private canvas: HTMLCanvasElement, private frameRate: number = 5) {
+    super()
+  }
+
+  get isActive(): boolean {
+    return this.active
+  }
+
+  // 首次访问时才创建画布流，只截图时不产生额外开销
+  get stream(): MediaStream | null {
+    if (this.active && !this.canvasStream && typeof this.canvas.captureStream === 'function') {
+      this.canvasStream = this.canvas.captureStream(this.frameRate)
+    }
+    return this.canvasStream
+  }
+
+  async start(): Promise<void> {
+    if (this.active) {
+      return
+    }
+    this.active = true
+    this.emit('started')
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return
+    }
+    this.canvasStream?.getTracks().forEach(track => track.stop())
+    this.canvasStream = null
+    this.active = false
+    this.emit('stopped')
+  }
+
+  protected getDrawable(): DrawableFrame | null {
+    if (this.canvas.width === 0 || this.canvas.height === 0) {
+      return null
+    }
+    return { source: this.canvas, width: this.canvas.width, height: this.canvas.height }
+  }
+}
+
+/**
+ * 用户上传的图片，可以随时用 setImage 替换
+ */
+export class ImageCaptureSource extends DrawableCaptureSource {
+  readonly kind = 'upload'
+  readonly stream = null
+  private image: HTMLImageElement | null = null
+  private active = false
+
+  constructor(private input: Blob | string | null = null) {
+    super()
+  }
+
+  get isActive(): boolean {
+    return this.active && this.image !== null
+  }
+
+  async start(): Promise<void> {
+    if (!this.input) {
+      throw new Error('请先选择要上传的图片')
+    }
+    if (!this.image) {
+      this.image = await this.decode(this.input)
+    }
+    this.active = true
+    this.emit('started')
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return
+    }
+    this.active = false
+    this.emit('stopped')
+  }
+
+  // 替换图片；data 可以是文件、data URL 或不带前缀的 JPEG base64
+  async setImage(input: Blob | string): Promise<void> {
+    this.input = input
+    this.image = await this.decode(input)
+  }
+
+  protected getDrawable(): DrawableFrame | null {
+    if (!this.image) {
+      return null
+    }
+    return { source: this.image, width: this.image.naturalWidth, height: this.image.naturalHeight }
+  }
+
+  private async decode(input: Blob | string): Promise<HTMLImageElement> {
+    const objectUrl = typeof input === 'string' ? null : URL.createObjectURL(input)
+    const src = objectUrl ?? (input as string)
+
+    try {
+      const img = new Image()
+      await new Promise((resolve, reject) => {
+        img.onload = resolve
+        img.onerror = () => reject(new Error('图片解码失败'))
+        img.src = src.startsWith('data:') || src.startsWith('blob:') ? src : `data:image/jpeg;base64,${src}`
+      })
+      return img
+    } finally {
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl)
+      }
+    }
+  }
+}
+
+export interface SyntheticCaptureOptions {
+  width?: number
+  height?: number
+  // 固定的画面序列（base64，按顺序循环），或者按截图计划生成画面
+  frames?: string[] | ((plan: FrameCapturePlan, frameIndex: number) => string)
+}
+
+/**
+ * 合成画面源：不访问任何浏览器 API，截图计划与真实画面源一致，
+ * 但图片数据直接取自 frames（不会真的裁剪像素，也不绘制叠加层）
+ */
+export class SyntheticCaptureSource extends EventEmitter implements ScreenCaptureSource {
+  readonly kind = 'synthetic'
+  readonly stream = null
+  private active = false
+  private frameIndex = 0
+  private width: number
+  private height: number
+  private frames: SyntheticCaptureOptions['frames']
+
+  constructor(options: SyntheticCaptureOptions = {}) {
+    super()
+    this.width = options.width ?? 1280
+    this.height = options.height ?? 720
+    this.frames = options.frames
+  }
+
+  get isActive(): boolean {
+    return this.active
+  }
+
+  // 已经截取的帧数
+  get capturedCount(): number {
+    return this.frameIndex
+  }
+
+  async start(): Promise<void> {
+    if (this.active) {
+      return
+    }
+    this.active = true
+    this.emit('started')
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return
+    }
+    this.active = false
+    this.emit('stopped')
+  }
+
+  // 模拟画面源自行结束
+  end(): void {
+    if (!this.active) {
+      return
+    }
+    this.active = false
+    this.emit('ended')
+  }
+
+  getFrameSize(): { width: number; height: number } | null {
+    return this.active ? { width: this.width, height: this.height } : null
+  }
+
+  async captureFrames(_quality?: number, cropOptions: FrameCropOptions = {}): Promise<CapturedFrame[]> {
+    if (!this.active) {
+      throw new Error(`画面源未启动: ${this.kind}`)
+    }
+
+    const index = this.frameIndex++
+    const plans = planFrameCapture(this.width, this.height, cropOptions)
+    return plans.map(plan => ({
+      kind: plan.kind,
+      data: this.renderFrame(plan, index),
+      width: plan.outputWidth,
+      height: plan.outputHeight
+    }))
+  }
+
+  private renderFrame(plan: FrameCapturePlan, index: number): string {
+    if (typeof this.frames === 'function') {
+      return this.frames(plan, index)
+    }
+    if (this.frames && this.frames.length > 0) {
+      return this.frames[index % this.frames.length]
+    }
+    return btoa(`synthetic-frame-${index}-${plan.kind}`)
+  }
+}
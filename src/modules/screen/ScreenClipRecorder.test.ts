@@ -0,0 +1,113 @@
+/**
+ * 屏幕视频片段录制测试套件
+ * 使用模拟录制器：每次 start 后写入一个分片，stop 时再写入一个分片
+ */
+
+import {
+  pickClipMimeType,
+  ScreenClipRecorder,
+  type ClipMediaRecorder,
+  type ClipRecorderFactory
+} from './ScreenClipRecorder'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+class FakeRecorder implements ClipMediaRecorder {
+  state: 'inactive' | 'recording' | 'paused' = 'inactive'
+  ondataavailable: ((event: { data: Blob }) => void) | null = null
+  onstop: (() => void) | null = null
+
+  constructor(public readonly id: number, public readonly mimeType: string) {}
+
+  start(): void {
+    this.state = 'recording'
+    this.ondataavailable?.({ data: new Blob([`start-${this.id};`]) })
+  }
+
+  stop(): void {
+    this.state = 'inactive'
+    this.ondataavailable?.({ data: new Blob([`stop-${this.id}`]) })
+    this.onstop?.()
+  }
+}
+
+function createFactory() {
+  const recorders: FakeRecorder[] = []
+  const factory: ClipRecorderFactory = (_stream, options) => {
+    const recorder = new FakeRecorder(recorders.length, options.mimeType)
+    recorders.push(recorder)
+    return recorder
+  }
+  return { factory, recorders }
+}
+
+const decodeClip = (data: string) => atob(data.slice(data.indexOf(',') + 1))
+
+const fakeStream = {} as MediaStream
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🎬 开始运行屏幕视频片段录制测试...')
+
+  try {
+    // 测试 1: 录制格式选择
+    assert(pickClipMimeType(() => true) === 'video/mp4;codecs=avc1', '支持 MP4 时优先使用 MP4')
+    assert(pickClipMimeType(type => type.startsWith('video/webm')) === 'video/webm;codecs=vp9', '不支持 MP4 时退回 WebM')
+    assert(pickClipMimeType(() => false) === null, '都不支持时返回 null')
+    assert(pickClipMimeType(() => { throw new Error('unsupported') }) === null, '检测抛错时视为不支持')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 未开始录制时没有片段；开始后立即启动一个槽位，半个周期后启动第二个
+    const { factory, recorders } = createFactory()
+    const recorder = new ScreenClipRecorder({ clipDuration: 200, mimeType: 'video/webm;codecs=vp8' }, factory)
+    assert(await recorder.captureClip() === null, '未开始录制时应该返回 null')
+    recorder.start(fakeStream)
+    assert(recorder.isRecording && recorder.activeStream === fakeStream, '应该记录当前的屏幕流')
+    assert(recorders.length === 1 && recorders[0].state === 'recording', '应该立即启动第一个槽位')
+    await sleep(130)
+    assert(recorders.length === 2, '半个周期后应该启动第二个槽位')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 导出录制时间最长的槽位，并立即重新开始录制
+    const clip = await recorder.captureClip()
+    assert(clip !== null && clip.mimeType === 'video/webm', '片段类型应该去掉 codecs 参数')
+    assert(clip!.data.startsWith('data:video/webm;base64,'), '片段应该是 data URL')
+    assert(decodeClip(clip!.data) === 'start-0;stop-0', '应该导出最早启动的槽位的完整数据')
+    assert(clip!.durationMs >= 100 && clip!.bytes === 'start-0;stop-0'.length, '片段时长与大小应该正确')
+    assert(recorders.length === 3 && recorders[2].state === 'recording', '导出后应该重新启动该槽位')
+    const next = await recorder.captureClip()
+    assert(decodeClip(next!.data) === 'start-1;stop-1', '下一次应该导出另一个槽位')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 修改配置时重新开始录制；停止后释放全部录制器
+    const countBefore = recorders.length
+    recorder.updateConfig({ clipDuration: 200 })
+    assert(recorders.length === countBefore, '配置未变化时不应该重新开始录制')
+    recorder.updateConfig({ clipDuration: 400 })
+    assert(recorders.length === countBefore + 1, '配置变化时应该重新开始录制')
+    recorder.stop()
+    assert(!recorder.isRecording, '停止后不再录制')
+    assert(recorders.every(item => item.state === 'inactive'), '停止后所有录制器都应该结束')
+    await sleep(250)
+    assert(recorders.length === countBefore + 1, '停止后不应该再启动新的槽位')
+    assert(await recorder.captureClip() === null, '停止后应该返回 null')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！屏幕视频片段录制工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
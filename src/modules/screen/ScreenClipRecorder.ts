@@ -0,0 +1,286 @@
+/**
+ * 屏幕视频片段录制
+ *
+ * 在屏幕共享流上持续录制，发送请求时取出最近一段画面编码成短视频，
+ * 以 video_url 的形式附加到消息中，让模型获得连续的时间上下文。
+ *
+ * MediaRecorder 的输出不能从中间截断（缺少文件头），因此使用两个交错的录制槽位：
+ * 每个槽位每 clipDuration 毫秒重新开始一次录制，两个槽位相差半个周期启动。
+ * 取片段时选择录制时间更长的槽位停止并导出，保证片段长度在 clipDuration / 2 到 clipDuration 之间，
+ * 并且总是以当前画面结束。导出后该槽位立即重新开始录制。
+ *
+ * 事件：
+ * - 'clipCaptured' (clip: ScreenClip)
+ * - 'error' (error: Error)
+ */
+
+import { EventEmitter } from 'eventemitter3'
+
+export interface ScreenClip {
+  data: string        // data URL
+  mimeType: string
+  durationMs: number
+  bytes: number
+}
+
+export interface ScreenClipRecorderConfig {
+  clipDuration?: number        // 片段最长时长（毫秒），默认 6000
+  videoBitsPerSecond?: number  // 视频码率，默认 1 Mbps
+  mimeType?: string            // 指定录制格式，默认按 PREFERRED_CLIP_MIME_TYPES 自动选择
+}
+
+// 录制器的最小接口，便于在测试中替换 MediaRecorder
+export interface ClipMediaRecorder {
+  readonly state: 'inactive' | 'recording' | 'paused'
+  ondataavailable: ((event: { data: Blob }) => void) | null
+  onstop: (() => void) | null
+  start(timeslice?: number): void
+  stop(): void
+}
+
+export type ClipRecorderFactory = (
+  stream: MediaStream,
+  options: { mimeType: string; videoBitsPerSecond: number }
+) => ClipMediaRecorder
+
+interface RecorderSlot {
+  recorder: ClipMediaRecorder
+  chunks: Blob[]
+  startedAt: number
+  restartTimer: ReturnType<typeof setTimeout> | null
+}
+
+// 优先使用 MP4（供应商普遍支持），浏览器不支持时退回 WebM
+export const PREFERRED_CLIP_MIME_TYPES = [
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm'
+]
+
+const DEFAULT_CLIP_DURATION = 6000
+const DEFAULT_VIDEO_BITS_PER_SECOND = 1_000_000
+// 录制数据的分片间隔，停止时只需要等待最后一个分片
+const RECORDER_TIMESLICE = 1000
+
+/**
+ * 选择浏览器支持的录制格式，都不支持时返回 null
+ */
+export function pickClipMimeType(isTypeSupported: (mimeType: string) => boolean): string | null {
+  return PREFERRED_CLIP_MIME_TYPES.find(mimeType => {
+    try {
+      return isTypeSupported(mimeType)
+    } catch {
+      return false
+    }
+  }) ?? null
+}
+
+/**
+ * 当前环境是否可以录制屏幕视频片段
+ */
+export function isClipRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && pickClipMimeType(type => MediaRecorder.isTypeSupported(type)) !== null
+}
+
+async function blobToDataUrl(blob: Blob, mimeType: string): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize))
+  }
+  // data URL 中只保留基础类型，去掉 codecs 参数
+  return `data:${mimeType.split(';')[0]};base64,${btoa(binary)}`
+}
+
+const defaultRecorderFactory: ClipRecorderFactory = (stream, options) => {
+  return new MediaRecorder(stream, options) as unknown as ClipMediaRecorder
+}
+
+export class ScreenClipRecorder extends EventEmitter {
+  private config: Required<ScreenClipRecorderConfig>
+  private createRecorder: ClipRecorderFactory
+  private stream: MediaStream | null = null
+  private slots: RecorderSlot[] = []
+  private staggerTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(config: ScreenClipRecorderConfig = {}, createRecorder: ClipRecorderFactory = defaultRecorderFactory) {
+    super()
+
+    this.config = {
+      clipDuration: config.clipDuration ?? DEFAULT_CLIP_DURATION,
+      videoBitsPerSecond: config.videoBitsPerSecond ?? DEFAULT_VIDEO_BITS_PER_SECOND,
+      mimeType: config.mimeType ?? ''
+    }
+    this.createRecorder = createRecorder
+  }
+
+  get isRecording(): boolean {
+    return this.stream !== null
+  }
+
+  get activeStream(): MediaStream | null {
+    return this.stream
+  }
+
+  get mimeType(): string {
+    if (this.config.mimeType) {
+      return this.config.mimeType
+    }
+    return (typeof MediaRecorder !== 'undefined' && pickClipMimeType(type => MediaRecorder.isTypeSupported(type))) || 'video/webm'
+  }
+
+  start(stream: MediaStream): void {
+    if (this.stream) {
+      this.stop()
+    }
+
+    this.stream = stream
+    this.slots = [this.startSlot()]
+    // 第二个槽位延后半个周期启动
+    this.staggerTimer = setTimeout(() => {
+      this.staggerTimer = null
+      if (this.stream) {
+        this.slots.push(this.startSlot())
+      }
+    }, this.config.clipDuration / 2)
+
+    console.log(`🎬 屏幕片段录制已启动，片段时长: ${this.config.clipDuration}ms, 格式: ${this.mimeType}`)
+  }
+
+  stop(): void {
+    if (this.staggerTimer) {
+      clearTimeout(this.staggerTimer)
+      this.staggerTimer = null
+    }
+
+    this.slots.forEach(slot => this.disposeSlot(slot))
+    this.slots = []
+    this.stream = null
+  }
+
+  /**
+   * 导出最近一段画面，没有可用录制时返回 null
+   */
+  async captureClip(): Promise<ScreenClip | null> {
+    if (!this.stream || this.slots.length === 0) {
+      return null
+    }
+
+    const now = Date.now()
+    const slot = this.slots.reduce((longest, candidate) => (candidate.startedAt < longest.startedAt ? candidate : longest))
+    const durationMs = now - slot.startedAt
+
+    try {
+      const blob = await this.finishSlot(slot)
+      if (blob.size === 0) {
+        return null
+      }
+
+      const mimeType = blob.type || this.mimeType
+      const data = await blobToDataUrl(blob, mimeType)
+      const clip: ScreenClip = {
+        data,
+        mimeType: mimeType.split(';')[0],
+        durationMs,
+        bytes: blob.size
+      }
+      this.emit('clipCaptured', clip)
+      console.log(`🎬 已导出屏幕片段: ${(durationMs / 1000).toFixed(1)}s, ${(blob.size / 1024).toFixed(0)}KB`)
+      return clip
+    } catch (error) {
+      console.warn('🎬 导出屏幕片段失败:', error)
+      this.emit('error', error)
+      return null
+    } finally {
+      // 导出的槽位重新开始录制
+      if (this.stream) {
+        const index = this.slots.indexOf(slot)
+        if (index !== -1) {
+          this.slots[index] = this.startSlot()
+        }
+      }
+    }
+  }
+
+  updateConfig(config: ScreenClipRecorderConfig): void {
+    const nextConfig = {
+      clipDuration: config.clipDuration ?? this.config.clipDuration,
+      videoBitsPerSecond: config.videoBitsPerSecond ?? this.config.videoBitsPerSecond,
+      mimeType: config.mimeType ?? this.config.mimeType
+    }
+    const changed = (Object.keys(nextConfig) as Array<keyof typeof nextConfig>)
+      .some(key => nextConfig[key] !== this.config[key])
+    this.config = nextConfig
+
+    // 正在录制时按新的配置重新开始
+    if (changed && this.stream) {
+      this.start(this.stream)
+    }
+  }
+
+  private startSlot(): RecorderSlot {
+    const recorder = this.createRecorder(this.stream!, {
+      mimeType: this.mimeType,
+      videoBitsPerSecond: this.config.videoBitsPerSecond
+    })
+    const slot: RecorderSlot = { recorder, chunks: [], startedAt: Date.now(), restartTimer: null }
+
+    recorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) {
+        slot.chunks.push(event.data)
+      }
+    }
+    recorder.start(RECORDER_TIMESLICE)
+
+    // 录满一个周期后丢弃旧数据重新开始
+    slot.restartTimer = setTimeout(() => {
+      const index = this.slots.indexOf(slot)
+      if (index === -1 || !this.stream) {
+        return
+      }
+      this.disposeSlot(slot)
+      this.slots[index] = this.startSlot()
+    }, this.config.clipDuration)
+
+    return slot
+  }
+
+  private finishSlot(slot: RecorderSlot): Promise<Blob> {
+    if (slot.restartTimer) {
+      clearTimeout(slot.restartTimer)
+      slot.restartTimer = null
+    }
+
+    return new Promise((resolve) => {
+      const recorder = slot.recorder
+      const complete = () => resolve(new Blob(slot.chunks, { type: this.mimeType }))
+      if (recorder.state === 'inactive') {
+        complete()
+        return
+      }
+      // stop 之后会先触发最后一次 dataavailable，再触发 stop
+      recorder.onstop = complete
+      recorder.stop()
+    })
+  }
+
+  private disposeSlot(slot: RecorderSlot): void {
+    if (slot.restartTimer) {
+      clearTimeout(slot.restartTimer)
+      slot.restartTimer = null
+    }
+
+    slot.recorder.ondataavailable = null
+    slot.recorder.onstop = null
+    if (slot.recorder.state !== 'inactive') {
+      try {
+        slot.recorder.stop()
+      } catch (error) {
+        console.warn('🎬 停止录制失败:', error)
+      }
+    }
+  }
+}
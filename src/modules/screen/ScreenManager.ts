@@ -9,6 +9,8 @@ import type {
   RegionOfInterest,
   ScreenPermission
 } from '@/types/screen'
+import { normalizeRegion } from './frameCrop'
+import { DisplayCaptureSource, type ScreenCaptureSource } from './ScreenCaptureSource'
 
 export class ScreenManager extends EventEmitter {
   private config: ScreenConfig
@@ -22,14 +24,20 @@ export class ScreenManager extends EventEmitter {
     totalCaptures: 0
   }
   private captureTimer: number | null = null
-  private videoElement: HTMLVideoElement | null = null
+  private source: ScreenCaptureSource | null
+  // 未指定画面源时，每次开始捕获都按捕获选项创建新的屏幕共享画面源
+  private ownsSource: boolean
   private canvasElement: HTMLCanvasElement | null = null
   private context: CanvasRenderingContext2D | null = null
   private displays: DisplayInfo[] = []
+  private regionOfInterest: RegionOfInterest | null = null
 
-  constructor(config: Partial<ScreenConfig> = {}) {
+  constructor(config: Partial<ScreenConfig> = {}, source?: ScreenCaptureSource) {
     super()
 
+    this.source = source ?? null
+    this.ownsSource = !source
+
     this.config = {
       width: 1920,
       height: 1080,
@@ -45,12 +53,7 @@ export class ScreenManager extends EventEmitter {
   }
 
   async initialize(): Promise<void> {
-    // 创建视频元素
-    this.videoElement = document.createElement('video')
-    this.videoElement.autoplay = true
-    this.videoElement.muted = true
-
-    // 创建Canvas元素
+    // 创建Canvas元素（用于压缩与缩放图片）
     this.canvasElement = document.createElement('canvas')
     this.canvasElement.width = this.config.width
     this.canvasElement.height = this.config.height
@@ -70,51 +73,23 @@ export class ScreenManager extends EventEmitter {
 
     console.log('🖥️ Starting screen capture...')
     try {
-      // 检查多屏幕支持
-      const multiScreenSupported = await this.isMultiScreenSupported()
-      console.log('Multi-screen support:', multiScreenSupported)
-
-      // 检查权限
-      const permission = await this.checkScreenPermission()
-      console.log('🖥️ Screen permission check result:', permission)
-      if (permission.reason === 'denied') {
-        throw new Error(`Screen capture permission denied: ${permission.reason}`)
+      if (this.ownsSource) {
+        this.source?.stop()
+        this.source = new DisplayCaptureSource(await this.buildDisplayOptions(options) as DisplayMediaStreamOptions)
       }
 
-      // 构建捕获选项 - 设置 displaySurface 为 monitor 以显示所有屏幕
-      const captureOptions: ScreenCaptureOptions = {
-        video: {
-          cursor: 'always',
-          displaySurface: 'monitor',
-          logicalSurface: true,
-          ...options?.video
-        },
-        audio: false,
-        preferCurrentTab: false,
-        selfBrowserSurface: 'exclude',
-        systemAudio: 'exclude',
-        ...options
-      }
-
-      console.log('Screen capture options:', JSON.stringify(captureOptions, null, 2))
-      console.log('Available displays:', this.displays)
-
-      // 获取媒体流
-      const stream = await navigator.mediaDevices.getDisplayMedia(captureOptions as any)
-
-      // 设置视频源
-      if (this.videoElement) {
-        this.videoElement.srcObject = stream
-      }
+      const source = this.source!
+      await source.start()
 
       // 创建屏幕流对象
-      const videoTrack = stream.getVideoTracks()[0]
+      const stream = source.stream
+      const videoTrack = stream?.getVideoTracks()[0] ?? null
       const screenStream: ScreenStream = {
-        id: stream.id,
+        id: stream?.id ?? `${source.kind}_source`,
         active: true,
         videoTrack,
         audioTrack: null,
-        settings: videoTrack.getSettings()
+        settings: videoTrack?.getSettings() ?? {}
       }
 
       // 更新状态
@@ -122,10 +97,8 @@ export class ScreenManager extends EventEmitter {
       this.captureState.isPaused = false
       this.captureState.currentStream = screenStream
 
-      // 监听轨道结束事件
-      videoTrack.onended = () => {
-        this.stopCapture()
-      }
+      // 画面源自行结束时（例如用户停止共享）停止捕获
+      source.once('ended', this.handleSourceEnded)
 
       // 开始定时截屏
       this.startCaptureTimer()
@@ -141,6 +114,42 @@ export class ScreenManager extends EventEmitter {
     }
   }
 
+  // 构建屏幕共享选项 - 设置 displaySurface 为 monitor 以显示所有屏幕
+  private async buildDisplayOptions(options?: Partial<ScreenCaptureOptions>): Promise<ScreenCaptureOptions> {
+    // 检查多屏幕支持
+    const multiScreenSupported = await this.isMultiScreenSupported()
+    console.log('Multi-screen support:', multiScreenSupported)
+
+    // 检查权限
+    const permission = await this.checkScreenPermission()
+    console.log('🖥️ Screen permission check result:', permission)
+    if (permission.reason === 'denied') {
+      throw new Error(`Screen capture permission denied: ${permission.reason}`)
+    }
+
+    const captureOptions: ScreenCaptureOptions = {
+      video: {
+        cursor: 'always',
+        displaySurface: 'monitor',
+        logicalSurface: true,
+        ...options?.video
+      },
+      audio: false,
+      preferCurrentTab: false,
+      selfBrowserSurface: 'exclude',
+      systemAudio: 'exclude',
+      ...options
+    }
+
+    console.log('Screen capture options:', JSON.stringify(captureOptions, null, 2))
+    console.log('Available displays:', this.displays)
+    return captureOptions
+  }
+
+  private handleSourceEnded = () => {
+    this.stopCapture()
+  }
+
   stopCapture(): void {
     if (!this.captureState.isCapturing) {
       return
@@ -149,24 +158,10 @@ export class ScreenManager extends EventEmitter {
     // 停止定时器
     this.stopCaptureTimer()
 
-    // 清理媒体流
-    if (this.captureState.currentStream) {
-      const { videoTrack, audioTrack } = this.captureState.currentStream
-
-      if (videoTrack) {
-        videoTrack.stop()
-      }
-
-      if (audioTrack) {
-        audioTrack.stop()
-      }
-
-      // 清理视频元素
-      if (this.videoElement && this.videoElement.srcObject) {
-        const tracks = (this.videoElement.srcObject as MediaStream).getTracks()
-        tracks.forEach(track => track.stop())
-        this.videoElement.srcObject = null
-      }
+    // 停止画面源
+    if (this.source) {
+      this.source.off('ended', this.handleSourceEnded)
+      this.source.stop()
     }
 
     // 更新状态
@@ -198,46 +193,25 @@ export class ScreenManager extends EventEmitter {
   }
 
   async takeScreenshot(): Promise<ScreenshotData> {
-    if (!this.videoElement || !this.canvasElement || !this.context) {
-      throw new Error('Screen manager not initialized')
+    if (!this.source || !this.source.isActive) {
+      throw new Error('Screen capture is not active')
     }
 
     try {
       console.log('📸 Taking screenshot...')
-      // 等待视频加载
-      if (this.videoElement.readyState < 2) {
-        await new Promise((resolve) => {
-          this.videoElement!.onloadedmetadata = resolve
-        })
-      }
-
-      // 计算缩放比例
-      const videoWidth = this.videoElement.videoWidth
-      const videoHeight = this.videoElement.videoHeight
-      const scaleX = this.config.width / videoWidth
-      const scaleY = this.config.height / videoHeight
-      const scale = Math.min(scaleX, scaleY)
-
-      // 计算绘制尺寸
-      const drawWidth = videoWidth * scale
-      const drawHeight = videoHeight * scale
-      const drawX = (this.config.width - drawWidth) / 2
-      const drawY = (this.config.height - drawHeight) / 2
-
-      // 清空画布
-      this.context.clearRect(0, 0, this.config.width, this.config.height)
-
-      // 绘制图像
-      this.context.drawImage(
-        this.videoElement,
-        drawX, drawY, drawWidth, drawHeight
-      )
-
-      // 获取图像数据
-      const imageData = this.canvasElement.toDataURL(
-        `image/${this.config.format}`,
-        this.config.quality
+      // 设置了感兴趣区域时只截取该区域，输出最长边不超过配置的截图尺寸
+      const maxSize = Math.max(this.config.width, this.config.height)
+      const [frame] = await this.source.captureFrames(
+        this.config.quality,
+        {
+          mode: this.regionOfInterest ? 'region' : 'full',
+          region: this.regionOfInterest,
+          fullMaxSize: maxSize,
+          regionMaxSize: maxSize
+        },
+        `image/${this.config.format}`
       )
+      const imageData = `data:image/${this.config.format};base64,${frame.data}`
 
       console.log('📸 Screenshot captured, size:', imageData.length)
 
@@ -246,8 +220,8 @@ export class ScreenManager extends EventEmitter {
         id: `screenshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         image: imageData,
         format: this.config.format,
-        width: this.config.width,
-        height: this.config.height,
+        width: frame.width,
+        height: frame.height,
         timestamp: Date.now(),
         size: Math.round(imageData.length * 0.75) // 估算Base64编码后的字节大小
       }
@@ -413,6 +387,36 @@ export class ScreenManager extends EventEmitter {
     this.emit('configUpdated', this.config)
   }
 
+  getSource(): ScreenCaptureSource | null {
+    return this.source
+  }
+
+  // 切换画面源，正在捕获时立即改用新的画面源；传入 null 恢复默认的屏幕共享
+  async setSource(source: ScreenCaptureSource | null): Promise<void> {
+    const wasCapturing = this.captureState.isCapturing
+    if (wasCapturing) {
+      this.stopCapture()
+    }
+
+    this.source = source
+    this.ownsSource = !source
+    this.emit('sourceChanged', source?.kind ?? 'display')
+
+    if (wasCapturing) {
+      await this.startCapture()
+    }
+  }
+
+  // 设置截图区域（相对坐标），传入 null 恢复整屏截图
+  setRegionOfInterest(region: RegionOfInterest | null): void {
+    this.regionOfInterest = normalizeRegion(region)
+    this.emit('regionOfInterestChanged', this.regionOfInterest)
+  }
+
+  getRegionOfInterest(): RegionOfInterest | null {
+    return this.regionOfInterest ? { ...this.regionOfInterest } : null
+  }
+
   private async updateDisplayInfo(): Promise<void> {
     try {
       // 获取屏幕信息
@@ -489,11 +493,6 @@ export class ScreenManager extends EventEmitter {
     this.stopCapture()
     this.stopCaptureTimer()
 
-    if (this.videoElement) {
-      this.videoElement.remove()
-      this.videoElement = null
-    }
-
     if (this.canvasElement) {
       this.canvasElement.remove()
       this.canvasElement = null
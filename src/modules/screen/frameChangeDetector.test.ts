@@ -0,0 +1,103 @@
+/**
+ * 截图帧变化检测测试套件
+ */
+
+import {
+  FrameChangeDetector,
+  compareFrameSignatures,
+  computeLuminanceSignature,
+  getChangeThresholds
+} from './frameChangeDetector'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const WIDTH = 128
+const HEIGHT = 128
+
+// 生成纯色背景的 RGBA 像素，可在指定矩形区域内绘制另一种颜色，noise 模拟 JPEG 压缩噪声
+function createFrame(
+  background: number,
+  rect?: { x: number; y: number; width: number; height: number; value: number },
+  noise = 0
+): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inRect = rect && x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height
+      const jitter = noise ? ((x * 7 + y * 13) % (noise * 2 + 1)) - noise : 0
+      const value = (inRect ? rect.value : background) + jitter
+      const offset = (y * WIDTH + x) * 4
+      pixels[offset] = value
+      pixels[offset + 1] = value
+      pixels[offset + 2] = value
+      pixels[offset + 3] = 255
+    }
+  }
+  return pixels
+}
+
+const signatureOf = (pixels: Uint8ClampedArray) => computeLuminanceSignature(pixels, WIDTH, HEIGHT, 16)
+
+// 测试用例
+export function runTests(): void {
+  console.log('🗺️ 开始运行截图帧变化检测测试...')
+
+  try {
+    // 测试 1: 亮度签名按块求平均
+    const signature = signatureOf(createFrame(200, { x: 0, y: 0, width: 8, height: 4, value: 0 }))
+    assert(signature.luminance.length === 256, '签名长度应该为网格格子数')
+    assert(Math.abs(signature.luminance[0] - 100) < 0.01, '左上角格子应该是半黑半白的平均亮度')
+    assert(Math.abs(signature.luminance[1] - 200) < 0.01, '其他格子应该保持背景亮度')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 压缩噪声不算变化，局部内容变化按块统计
+    const base = signatureOf(createFrame(120))
+    const noisy = compareFrameSignatures(base, signatureOf(createFrame(120, undefined, 3)), 4)
+    assert(noisy.changedRatio === 0, '轻微噪声在块平均后不应该产生变化块')
+    const popup = compareFrameSignatures(base, signatureOf(createFrame(120, { x: 0, y: 0, width: 32, height: 32, value: 250 })), 4)
+    assert(Math.abs(popup.changedRatio - 16 / 256) < 1e-9, '新出现的窗口应该覆盖 16 个变化块')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 检测器丢弃未变化的帧，并以最后保留的帧为基准累计缓慢变化
+    const detector = new FrameChangeDetector({ sensitivity: 0.7, gridSize: 16 })
+    assert(detector.evaluate(base).changed, '第一帧应该保留')
+    assert(!detector.evaluate(signatureOf(createFrame(120, undefined, 2))).changed, '几乎相同的帧应该被丢弃')
+    assert(!detector.evaluate(signatureOf(createFrame(126))).changed, '轻微整体亮度变化不应该保留')
+    assert(detector.evaluate(signatureOf(createFrame(132))).changed, '相对最后保留的帧累计变化足够大时应该保留')
+    assert(detector.evaluate(signatureOf(createFrame(132, { x: 64, y: 64, width: 16, height: 16, value: 0 }))).changed, '局部新内容应该保留')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 灵敏度决定阈值，关闭检测或重置后总是保留
+    const high = getChangeThresholds(1)
+    const low = getChangeThresholds(0)
+    assert(high.blockThreshold < low.blockThreshold && high.minChangedRatio < low.minChangedRatio, '灵敏度越高阈值越低')
+    const smallChange = signatureOf(createFrame(120, { x: 0, y: 0, width: 8, height: 8, value: 200 }))
+    const strict = new FrameChangeDetector({ sensitivity: 0.2, gridSize: 16 })
+    strict.evaluate(base)
+    assert(!strict.evaluate(smallChange).changed, '低灵敏度应该忽略单个小区域变化')
+    const sensitive = new FrameChangeDetector({ sensitivity: 0.9, gridSize: 16 })
+    sensitive.evaluate(base)
+    assert(sensitive.evaluate(smallChange).changed, '高灵敏度应该保留单个小区域变化')
+    strict.updateConfig({ enabled: false })
+    assert(strict.evaluate(base).changed, '关闭检测后每一帧都应该保留')
+    strict.updateConfig({ enabled: true })
+    strict.reset()
+    assert(strict.evaluate(base).changed, '重置后的第一帧应该保留')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！截图帧变化检测工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
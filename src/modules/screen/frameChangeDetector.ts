@@ -0,0 +1,211 @@
+/**
+ * 截图帧变化检测
+ *
+ * 把截图缩小为 gridSize × gridSize 的亮度网格（每格为对应区域的平均亮度），
+ * 与上一张保留的截图逐格比较：亮度差超过阈值的格子视为变化块，
+ * 变化块占比达到阈值时才认为画面发生了变化。
+ * 画面几乎没有变化的截图不会进入截图缓冲区，避免把重复的图片发给模型。
+ *
+ * sensitivity 取值 0 ~ 1，越大越敏感（越小的变化也会保留截图）。
+ */
+
+export interface FrameSignature {
+  gridSize: number
+  luminance: number[]  // 长度为 gridSize * gridSize，取值 0 ~ 255
+}
+
+export interface FrameDifference {
+  changedRatio: number      // 变化块占比
+  meanDifference: number    // 平均亮度差
+  maxDifference: number     // 最大单格亮度差
+}
+
+export interface FrameChangeDetectorConfig {
+  enabled?: boolean      // 是否丢弃未变化的截图，默认 true
+  sensitivity?: number   // 灵敏度 0 ~ 1，默认 0.7
+  gridSize?: number      // 亮度网格边长，默认 32
+}
+
+export interface FrameChangeDecision {
+  changed: boolean
+  difference: FrameDifference | null  // 第一帧或未启用检测时为 null
+}
+
+const DEFAULT_SENSITIVITY = 0.7
+const DEFAULT_GRID_SIZE = 32
+// 解码截图时使用的中间分辨率（网格边长的倍数），再按块求平均，避免浏览器直接缩小时漏掉细小变化
+const DECODE_SCALE = 8
+
+function clampSensitivity(sensitivity: number): number {
+  if (!Number.isFinite(sensitivity)) {
+    return DEFAULT_SENSITIVITY
+  }
+  return Math.min(1, Math.max(0, sensitivity))
+}
+
+/**
+ * 由 RGBA 像素数据计算亮度网格签名
+ */
+export function computeLuminanceSignature(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  gridSize: number = DEFAULT_GRID_SIZE
+): FrameSignature {
+  if (width <= 0 || height <= 0) {
+    throw new Error('截图尺寸无效，无法计算亮度签名')
+  }
+
+  const sums = new Array(gridSize * gridSize).fill(0)
+  const counts = new Array(gridSize * gridSize).fill(0)
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(gridSize - 1, Math.floor((y * gridSize) / height))
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(gridSize - 1, Math.floor((x * gridSize) / width))
+      const offset = (y * width + x) * 4
+      // ITU-R BT.601 亮度
+      const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2]
+      const cell = row * gridSize + column
+      sums[cell] += luminance
+      counts[cell]++
+    }
+  }
+
+  return {
+    gridSize,
+    luminance: sums.map((sum, index) => (counts[index] > 0 ? sum / counts[index] : 0))
+  }
+}
+
+/**
+ * 比较两个亮度签名，blockThreshold 为判定单格变化的亮度差
+ */
+export function compareFrameSignatures(
+  previous: FrameSignature,
+  current: FrameSignature,
+  blockThreshold: number
+): FrameDifference {
+  if (previous.gridSize !== current.gridSize) {
+    // 网格尺寸不同无法逐格比较，视为完全变化
+    return { changedRatio: 1, meanDifference: 255, maxDifference: 255 }
+  }
+
+  let changedBlocks = 0
+  let totalDifference = 0
+  let maxDifference = 0
+  current.luminance.forEach((value, index) => {
+    const difference = Math.abs(value - previous.luminance[index])
+    totalDifference += difference
+    maxDifference = Math.max(maxDifference, difference)
+    if (difference > blockThreshold) {
+      changedBlocks++
+    }
+  })
+
+  const cellCount = current.luminance.length || 1
+  return {
+    changedRatio: changedBlocks / cellCount,
+    meanDifference: totalDifference / cellCount,
+    maxDifference
+  }
+}
+
+/**
+ * 把灵敏度换算为判定阈值：灵敏度越高，单格亮度差阈值与变化块占比阈值越低
+ */
+export function getChangeThresholds(sensitivity: number): { blockThreshold: number; minChangedRatio: number } {
+  const insensitivity = 1 - clampSensitivity(sensitivity)
+  return {
+    blockThreshold: 2 + insensitivity * 30,
+    minChangedRatio: insensitivity * insensitivity * 0.05
+  }
+}
+
+export class FrameChangeDetector {
+  private config: Required<FrameChangeDetectorConfig>
+  private lastSignature: FrameSignature | null = null
+
+  constructor(config: FrameChangeDetectorConfig = {}) {
+    this.config = {
+      enabled: config.enabled ?? true,
+      sensitivity: clampSensitivity(config.sensitivity ?? DEFAULT_SENSITIVITY),
+      gridSize: config.gridSize ?? DEFAULT_GRID_SIZE
+    }
+  }
+
+  get gridSize(): number {
+    return this.config.gridSize
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled
+  }
+
+  /**
+   * 判断新截图相对上一张保留的截图是否有变化；有变化时记住新截图作为比较基准
+   */
+  evaluate(signature: FrameSignature): FrameChangeDecision {
+    if (!this.config.enabled || !this.lastSignature) {
+      this.lastSignature = signature
+      return { changed: true, difference: null }
+    }
+
+    const { blockThreshold, minChangedRatio } = getChangeThresholds(this.config.sensitivity)
+    const difference = compareFrameSignatures(this.lastSignature, signature, blockThreshold)
+    const changed = difference.changedRatio > 0 && difference.changedRatio >= minChangedRatio
+
+    if (changed) {
+      this.lastSignature = signature
+    }
+    return { changed, difference }
+  }
+
+  updateConfig(config: FrameChangeDetectorConfig): void {
+    const gridSize = config.gridSize ?? this.config.gridSize
+    if (gridSize !== this.config.gridSize) {
+      this.lastSignature = null
+    }
+
+    this.config = {
+      enabled: config.enabled ?? this.config.enabled,
+      sensitivity: clampSensitivity(config.sensitivity ?? this.config.sensitivity),
+      gridSize
+    }
+  }
+
+  // 清空比较基准（例如截图缓冲区被清空或重新开始屏幕捕获时）
+  reset(): void {
+    this.lastSignature = null
+  }
+}
+
+/**
+ * 在浏览器中解码 base64 截图并计算亮度签名
+ */
+export async function computeImageSignature(
+  image: string,
+  gridSize: number = DEFAULT_GRID_SIZE,
+  mimeType: string = 'image/jpeg'
+): Promise<FrameSignature> {
+  const source = image.startsWith('data:') ? image : `data:${mimeType};base64,${image}`
+  const img = new Image()
+  await new Promise((resolve, reject) => {
+    img.onload = resolve
+    img.onerror = () => reject(new Error('截图解码失败'))
+    img.src = source
+  })
+
+  const size = gridSize * DECODE_SCALE
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('无法获取画布上下文')
+  }
+
+  context.drawImage(img, 0, 0, size, size)
+  const { data } = context.getImageData(0, 0, size, size)
+  return computeLuminanceSignature(data, size, size, gridSize)
+}
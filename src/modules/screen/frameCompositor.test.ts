@@ -0,0 +1,67 @@
+/**
+ * 屏幕与摄像头画面合成测试套件
+ */
+
+import { describeFrameComposite, isCompositeEnabled, planFrameComposite } from './frameCompositor'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const screen = { width: 1920, height: 1080 }
+const camera = { width: 1280, height: 720 }
+
+// 测试用例
+export function runTests(): void {
+  console.log('🖼️ 开始运行画面合成测试...')
+
+  try {
+    // 测试 1: 画中画默认放在右下角
+    const pip = planFrameComposite(screen, camera, { layout: 'pip' })
+    assert(pip.width === 1920 && pip.height === 1080, '画中画合成后尺寸与屏幕一致')
+    assert(pip.camera.width === 480 && pip.camera.height === 270, '画中画宽度默认为屏幕宽度的 25%')
+    assert(pip.camera.x === 1920 - 480 - 22 && pip.camera.y === 1080 - 270 - 22, '画中画应该位于右下角并留出边距')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 位置与比例
+    const topLeft = planFrameComposite(screen, camera, { layout: 'pip', pipPosition: 'top-left', pipScale: 0.9 })
+    assert(topLeft.camera.x === 22 && topLeft.camera.y === 22, '画中画应该位于左上角')
+    assert(topLeft.camera.width === 960, '画中画比例不应该超过 50%')
+    const portrait = planFrameComposite(screen, { width: 720, height: 1280 }, { layout: 'pip', pipScale: 0.5 })
+    assert(portrait.camera.height === 540 && portrait.camera.width === 304, '竖屏摄像头画面应该按高度限制')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 左右并排时摄像头缩放到与屏幕同高
+    const sideBySide = planFrameComposite(screen, { width: 640, height: 480 }, { layout: 'side-by-side' })
+    assert(sideBySide.camera.x === 1920 && sideBySide.camera.width === 1440 && sideBySide.camera.height === 1080, '摄像头画面应该放在右侧并与屏幕同高')
+    assert(sideBySide.width === 3360 && sideBySide.height === 1080, '合成画面宽度为两者之和')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 开关与说明文字
+    assert(!isCompositeEnabled({ layout: 'none' }) && !isCompositeEnabled(undefined), 'none 表示不合成')
+    assert(isCompositeEnabled({ layout: 'pip' }), 'pip 表示启用合成')
+    assert(describeFrameComposite({ layout: 'pip', pipPosition: 'top-right' }).includes('右上角'), '说明文字应该包含画中画位置')
+    assert(describeFrameComposite({ layout: 'side-by-side' }).includes('右侧为摄像头'), '说明文字应该描述左右布局')
+    let threw = false
+    try {
+      planFrameComposite({ width: 0, height: 0 }, camera, { layout: 'pip' })
+    } catch {
+      threw = true
+    }
+    assert(threw, '画面尺寸无效时应该报错')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！画面合成工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,156 @@
+/**
+ * 屏幕与摄像头画面合成
+ *
+ * 把屏幕截图与摄像头画面合成为一张图片后再进入截图缓冲区，每次请求少发送一张图片：
+ * - pip：以屏幕画面为底，摄像头画面缩小后放在一个角落
+ * - side-by-side：左侧屏幕、右侧摄像头，摄像头画面缩放到与屏幕同高
+ *
+ * 布局计算与绘制分离，planFrameComposite 不依赖浏览器 API。
+ */
+
+import type { PixelRect } from './frameCrop'
+
+export type CompositeLayout = 'none' | 'pip' | 'side-by-side'
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+export interface FrameCompositeOptions {
+  layout: CompositeLayout
+  pipPosition?: PipPosition  // 画中画位置，默认右下角
+  pipScale?: number          // 画中画宽度占屏幕宽度的比例，0.1 ~ 0.5，默认 0.25
+}
+
+export interface FrameCompositePlan {
+  width: number
+  height: number
+  screen: PixelRect
+  camera: PixelRect
+}
+
+interface FrameSize {
+  width: number
+  height: number
+}
+
+const DEFAULT_PIP_SCALE = 0.25
+const MIN_PIP_SCALE = 0.1
+const MAX_PIP_SCALE = 0.5
+// 画中画与画面边缘的间距，占屏幕短边的比例
+const PIP_MARGIN_RATIO = 0.02
+
+const PIP_POSITION_LABELS: Record<PipPosition, string> = {
+  'top-left': '左上角',
+  'top-right': '右上角',
+  'bottom-left': '左下角',
+  'bottom-right': '右下角'
+}
+
+export function isCompositeEnabled(options?: FrameCompositeOptions | null): options is FrameCompositeOptions {
+  return !!options && options.layout !== 'none'
+}
+
+/**
+ * 计算合成画面的尺寸以及屏幕、摄像头画面各自的位置
+ */
+export function planFrameComposite(screen: FrameSize, camera: FrameSize, options: FrameCompositeOptions): FrameCompositePlan {
+  if (screen.width <= 0 || screen.height <= 0 || camera.width <= 0 || camera.height <= 0) {
+    throw new Error('画面尺寸无效，无法合成')
+  }
+
+  const screenRect: PixelRect = { x: 0, y: 0, width: screen.width, height: screen.height }
+
+  if (options.layout === 'side-by-side') {
+    const cameraWidth = Math.max(1, Math.round(camera.width * screen.height / camera.height))
+    return {
+      width: screen.width + cameraWidth,
+      height: screen.height,
+      screen: screenRect,
+      camera: { x: screen.width, y: 0, width: cameraWidth, height: screen.height }
+    }
+  }
+
+  const scale = Math.min(MAX_PIP_SCALE, Math.max(MIN_PIP_SCALE, options.pipScale ?? DEFAULT_PIP_SCALE))
+  let insetWidth = Math.max(1, Math.round(screen.width * scale))
+  let insetHeight = Math.max(1, Math.round(insetWidth * camera.height / camera.width))
+  // 竖屏摄像头画面过高时按高度限制
+  const maxInsetHeight = Math.round(screen.height * MAX_PIP_SCALE)
+  if (insetHeight > maxInsetHeight) {
+    insetHeight = maxInsetHeight
+    insetWidth = Math.max(1, Math.round(insetHeight * camera.width / camera.height))
+  }
+
+  const margin = Math.round(Math.min(screen.width, screen.height) * PIP_MARGIN_RATIO)
+  const position = options.pipPosition ?? 'bottom-right'
+  const x = position.endsWith('left') ? margin : screen.width - insetWidth - margin
+  const y = position.startsWith('top') ? margin : screen.height - insetHeight - margin
+
+  return {
+    width: screen.width,
+    height: screen.height,
+    screen: screenRect,
+    camera: { x, y, width: insetWidth, height: insetHeight }
+  }
+}
+
+/**
+ * 给模型的合成画面说明
+ */
+export function describeFrameComposite(options: FrameCompositeOptions): string {
+  if (options.layout === 'side-by-side') {
+    return '画面说明：图片左侧为屏幕画面，右侧为摄像头拍到的画面。'
+  }
+  const position = PIP_POSITION_LABELS[options.pipPosition ?? 'bottom-right']
+  return `画面说明：图片为屏幕画面，${position}的小窗为摄像头拍到的画面。`
+}
+
+function decodeImage(data: string): Promise<HTMLImageElement> {
+  const img = new Image()
+  return new Promise((resolve, reject) => {
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('图片解码失败'))
+    img.src = data.startsWith('data:') ? data : `data:image/jpeg;base64,${data}`
+  })
+}
+
+/**
+ * 在浏览器中合成两张图片，返回 base64 JPEG（不含 data URL 前缀）
+ */
+export async function composeFrames(
+  screen: { data: string; width: number; height: number },
+  camera: { data: string; width: number; height: number },
+  options: FrameCompositeOptions,
+  quality: number = 0.8
+): Promise<{ data: string; width: number; height: number }> {
+  const plan = planFrameComposite(screen, camera, options)
+  const [screenImage, cameraImage] = await Promise.all([decodeImage(screen.data), decodeImage(camera.data)])
+
+  const canvas = document.createElement('canvas')
+  canvas.width = plan.width
+  canvas.height = plan.height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('无法获取画布上下文')
+  }
+
+  context.fillStyle = '#000'
+  context.fillRect(0, 0, plan.width, plan.height)
+  context.drawImage(screenImage, plan.screen.x, plan.screen.y, plan.screen.width, plan.screen.height)
+
+  // 画中画加一圈描边，便于模型区分两路画面
+  if (options.layout === 'pip') {
+    const border = Math.max(2, Math.round(plan.camera.width * 0.01))
+    context.fillStyle = '#fff'
+    context.fillRect(
+      plan.camera.x - border,
+      plan.camera.y - border,
+      plan.camera.width + border * 2,
+      plan.camera.height + border * 2
+    )
+  }
+  context.drawImage(cameraImage, plan.camera.x, plan.camera.y, plan.camera.width, plan.camera.height)
+
+  return {
+    data: canvas.toDataURL('image/jpeg', quality).split(',')[1],
+    width: plan.width,
+    height: plan.height
+  }
+}
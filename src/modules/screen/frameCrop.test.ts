@@ -0,0 +1,72 @@
+/**
+ * 截图区域裁剪测试套件
+ */
+
+import { fitWithin, normalizeRegion, planFrameCapture, resolveRegionRect } from './frameCrop'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 测试用例
+export function runTests(): void {
+  console.log('🗺️ 开始运行截图区域裁剪测试...')
+
+  try {
+    // 测试 1: 规范化相对坐标区域
+    const reversed = normalizeRegion({ x: 0.8, y: 0.6, width: -0.3, height: -0.2 })!
+    assert(Math.abs(reversed.x - 0.5) < 1e-9 && Math.abs(reversed.width - 0.3) < 1e-9, '反向拖拽的区域应该转换为正宽高')
+    const clamped = normalizeRegion({ x: 0.9, y: -0.1, width: 0.5, height: 0.5 })!
+    assert(Math.abs(clamped.width - 0.1) < 1e-9 && clamped.y === 0 && Math.abs(clamped.height - 0.4) < 1e-9, '超出画面的部分应该被裁掉')
+    assert(normalizeRegion({ x: 0.5, y: 0.5, width: 0.001, height: 0.3 }) === null, '过小的区域应该视为无效')
+    assert(normalizeRegion(null) === null, '空区域返回 null')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 相对坐标换算为像素区域与等比缩放
+    const rect = resolveRegionRect({ x: 0.5, y: 0.25, width: 0.25, height: 0.5 }, 3840, 2160)
+    assert(rect.x === 1920 && rect.y === 540 && rect.width === 960 && rect.height === 1080, '4K 画面中的区域像素应该正确')
+    const fitted = fitWithin(3840, 2160, 1024)
+    assert(fitted.width === 1024 && fitted.height === 576, '应该按最长边等比缩小')
+    assert(fitWithin(800, 600, 1024).width === 800, '小于上限时不应该放大')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 各截图模式的输出计划
+    const region = { x: 0.5, y: 0.25, width: 0.25, height: 0.5 }
+    const full = planFrameCapture(3840, 2160, { mode: 'full', region })
+    assert(full.length === 1 && full[0].kind === 'full' && full[0].outputWidth === 3840, 'full 模式输出整屏原图')
+    const regionOnly = planFrameCapture(3840, 2160, { mode: 'region', region })
+    assert(regionOnly.length === 1 && regionOnly[0].kind === 'region' && regionOnly[0].outputWidth === 960, 'region 模式按原始分辨率输出区域')
+    const focus = planFrameCapture(3840, 2160, { mode: 'focus', region })
+    assert(focus.map(plan => plan.kind).join(',') === 'overview,region', 'focus 模式先输出概览再输出区域')
+    assert(focus[0].outputWidth === 1024 && focus[0].outputHeight === 576, '概览应该缩小为低分辨率')
+    assert(focus[1].source.x === 1920 && focus[1].outputHeight === 1080, '区域裁剪应该保持高分辨率')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 没有有效区域时退化为整屏
+    const fallback = planFrameCapture(1920, 1080, { mode: 'focus', region: null })
+    assert(fallback.length === 1 && fallback[0].kind === 'full', '没有区域时 focus 模式应该退化为整屏')
+    const limited = planFrameCapture(3840, 2160, { mode: 'region', region: { x: 0, y: 0, width: 1, height: 1 }, regionMaxSize: 2048 })
+    assert(limited[0].outputWidth === 2048, '区域裁剪应该受最长边上限限制')
+    let threw = false
+    try {
+      planFrameCapture(0, 0)
+    } catch {
+      threw = true
+    }
+    assert(threw, '画面尺寸无效时应该报错')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！截图区域裁剪工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,178 @@
+/**
+ * 截图区域裁剪
+ *
+ * 感兴趣区域（RegionOfInterest）使用相对坐标（0 ~ 1，相对于整个画面的宽高），
+ * 与屏幕分辨率无关，切换显示器或窗口大小后仍然有效。
+ *
+ * 截图模式：
+ * - full：整个画面（默认）
+ * - region：只发送选定区域，按原始分辨率裁剪
+ * - focus：发送低分辨率的整屏概览 + 选定区域的高分辨率裁剪，
+ *   适合大屏幕上整屏缩小后文字无法辨认的场景
+ */
+
+import type { CaptureFocusMode, RegionOfInterest } from '@/types/screen'
+
+export interface FrameCropOptions {
+  mode?: CaptureFocusMode
+  region?: RegionOfInterest | null
+  overviewMaxSize?: number  // focus 模式下整屏概览的最长边，默认 1024
+  regionMaxSize?: number    // 裁剪区域的最长边上限，默认 2048
+  fullMaxSize?: number      // full 模式下整屏截图的最长边上限，默认不限制
+}
+
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface FrameCapturePlan {
+  kind: 'full' | 'overview' | 'region'
+  source: PixelRect          // 在原始画面中的取样区域
+  outputWidth: number
+  outputHeight: number
+}
+
+// 截图叠加层：每张输出图片绘制完成后调用，frameWidth / frameHeight 为原始画面尺寸
+export type FrameOverlay = (context: CanvasRenderingContext2D, plan: FrameCapturePlan, frameWidth: number, frameHeight: number) => void
+
+/**
+ * 按顺序组合多个叠加层，没有叠加层时返回 undefined
+ */
+export function combineFrameOverlays(...overlays: Array<FrameOverlay | undefined>): FrameOverlay | undefined {
+  const active = overlays.filter((overlay): overlay is FrameOverlay => !!overlay)
+  if (active.length === 0) {
+    return undefined
+  }
+  return (context, plan, frameWidth, frameHeight) => {
+    active.forEach(overlay => overlay(context, plan, frameWidth, frameHeight))
+  }
+}
+
+const MIN_REGION_SIZE = 0.02
+const DEFAULT_OVERVIEW_MAX_SIZE = 1024
+const DEFAULT_REGION_MAX_SIZE = 2048
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * 规范化相对坐标区域：裁剪到画面范围内，过小或无效的区域返回 null
+ */
+export function normalizeRegion(region: RegionOfInterest | null | undefined): RegionOfInterest | null {
+  if (!region) {
+    return null
+  }
+
+  const values = [region.x, region.y, region.width, region.height]
+  if (values.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+    return null
+  }
+
+  // 允许反向拖拽得到的负宽高
+  const left = clamp01(Math.min(region.x, region.x + region.width))
+  const top = clamp01(Math.min(region.y, region.y + region.height))
+  const right = clamp01(Math.max(region.x, region.x + region.width))
+  const bottom = clamp01(Math.max(region.y, region.y + region.height))
+
+  if (right - left < MIN_REGION_SIZE || bottom - top < MIN_REGION_SIZE) {
+    return null
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * 把相对坐标区域换算为原始画面中的像素区域
+ */
+export function resolveRegionRect(region: RegionOfInterest, frameWidth: number, frameHeight: number): PixelRect {
+  const x = Math.round(region.x * frameWidth)
+  const y = Math.round(region.y * frameHeight)
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(frameWidth - x, Math.round(region.width * frameWidth))),
+    height: Math.max(1, Math.min(frameHeight - y, Math.round(region.height * frameHeight)))
+  }
+}
+
+/**
+ * 等比缩放到最长边不超过 maxSize（不放大）
+ */
+export function fitWithin(width: number, height: number, maxSize?: number): { width: number; height: number } {
+  if (!maxSize || Math.max(width, height) <= maxSize) {
+    return { width, height }
+  }
+
+  const scale = maxSize / Math.max(width, height)
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  }
+}
+
+/**
+ * 根据截图模式生成一帧需要输出的图片列表
+ * 没有有效区域时 region / focus 模式退化为 full
+ */
+export function planFrameCapture(frameWidth: number, frameHeight: number, options: FrameCropOptions = {}): FrameCapturePlan[] {
+  if (frameWidth <= 0 || frameHeight <= 0) {
+    throw new Error('画面尺寸无效，无法截图')
+  }
+
+  const fullRect: PixelRect = { x: 0, y: 0, width: frameWidth, height: frameHeight }
+  const region = normalizeRegion(options.region)
+  const mode = region ? options.mode ?? 'full' : 'full'
+
+  const createPlan = (kind: FrameCapturePlan['kind'], source: PixelRect, maxSize?: number): FrameCapturePlan => {
+    const output = fitWithin(source.width, source.height, maxSize)
+    return { kind, source, outputWidth: output.width, outputHeight: output.height }
+  }
+
+  if (mode === 'full' || !region) {
+    return [createPlan('full', fullRect, options.fullMaxSize)]
+  }
+
+  const regionPlan = createPlan(
+    'region',
+    resolveRegionRect(region, frameWidth, frameHeight),
+    options.regionMaxSize ?? DEFAULT_REGION_MAX_SIZE
+  )
+
+  if (mode === 'region') {
+    return [regionPlan]
+  }
+
+  return [
+    createPlan('overview', fullRect, options.overviewMaxSize ?? DEFAULT_OVERVIEW_MAX_SIZE),
+    regionPlan
+  ]
+}
+
+/**
+ * 按截图计划把画面绘制为 base64 图片（不含 data URL 前缀）
+ */
+export function renderFramePlans(
+  source: CanvasImageSource,
+  plans: FrameCapturePlan[],
+  quality: number = 0.8,
+  mimeType: string = 'image/jpeg',
+  overlay?: (context: CanvasRenderingContext2D, plan: FrameCapturePlan) => void
+): string[] {
+  return plans.map(plan => {
+    const canvas = document.createElement('canvas')
+    canvas.width = plan.outputWidth
+    canvas.height = plan.outputHeight
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('无法获取画布上下文')
+    }
+
+    const { x, y, width, height } = plan.source
+    context.drawImage(source, x, y, width, height, 0, 0, plan.outputWidth, plan.outputHeight)
+    overlay?.(context, plan)
+    return canvas.toDataURL(mimeType, quality).split(',')[1]
+  })
+}
@@ -0,0 +1,111 @@
+/**
+ * 图片发送预算测试套件
+ * 使用模拟编码器：编码结果长度与像素数和质量成正比
+ */
+
+import {
+  applyImageBudget,
+  fitToPixelBudget,
+  resolveImageBudget,
+  type BudgetImage,
+  type EncodeTarget,
+  type ImageBudget
+} from './imageBudget'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 每像素约 0.2 个 base64 字符（质量 1 时）
+function createEncoder(options: { webpSupported?: boolean } = {}) {
+  const targets: EncodeTarget[] = []
+  const encode = async (_image: BudgetImage, target: EncodeTarget): Promise<string> => {
+    targets.push(target)
+    const mimeType = target.mimeType === 'image/webp' && !options.webpSupported ? 'image/jpeg' : target.mimeType
+    const length = Math.round(target.width * target.height * 0.2 * target.quality)
+    return `data:${mimeType};base64,${'A'.repeat(length)}`
+  }
+  return { encode, targets }
+}
+
+function createImage(width: number, height: number, bytes: number): BudgetImage {
+  return { data: 'B'.repeat(bytes), width, height }
+}
+
+const budget = (overrides: Partial<ImageBudget>): ImageBudget => resolveImageBudget(undefined, {
+  maxImages: 4,
+  maxTotalBytes: 1_000_000,
+  maxImageBytes: 1_000_000,
+  maxPixelsPerImage: 10_000_000,
+  maxTotalPixels: 40_000_000,
+  ...overrides
+})
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🗺️ 开始运行图片发送预算测试...')
+
+  try {
+    // 测试 1: 供应商预算与像素缩放
+    assert(resolveImageBudget('openai').preferredMimeType === 'image/webp', 'OpenAI 默认使用 WebP')
+    assert(resolveImageBudget('unknown').maxImages === 4, '未知供应商使用默认预算')
+    assert(resolveImageBudget('aliyun', { maxImages: 2 }).maxImages === 2, '配置可以覆盖供应商预算')
+    const fitted = fitToPixelBudget(3840, 2160, 1920 * 1080)
+    assert(fitted.width === 1920 && fitted.height === 1080, '应该等比缩小到像素预算内')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 满足预算的图片原样发送
+    const small = createEncoder()
+    const passthrough = await applyImageBudget([createImage(800, 600, 5000)], budget({}), small.encode)
+    assert(small.targets.length === 0 && !passthrough.images[0].reencoded, '满足预算的图片不应该重新编码')
+    assert(passthrough.images[0].data === 'B'.repeat(5000), '原图数据应该保持不变')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 超出字节预算时先降质量再缩小分辨率
+    const encoder = createEncoder()
+    const result = await applyImageBudget(
+      [createImage(3840, 2160, 900_000)],
+      budget({ maxImageBytes: 150_000, maxPixelsPerImage: 1920 * 1080 }),
+      encoder.encode
+    )
+    const image = result.images[0]
+    assert(image.reencoded && image.bytes <= 150_000, '重新编码后应该满足单张字节预算')
+    assert(encoder.targets[0].width === 1920 && encoder.targets[0].quality === 0.85, '应该先缩放到像素预算并使用最高质量')
+    assert(encoder.targets.some(target => target.width === 1920 && target.quality === 0.45), '应该先尝试降低质量')
+    assert(image.width < 1920, '降到最低质量仍超出时应该缩小分辨率')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 总预算放不下时丢弃最旧的图片；WebP 不可用时退回 JPEG
+    const frames = [0, 1, 2, 3, 4].map(index => createImage(1280, 720, 140_000 + index))
+    const limited = await applyImageBudget(frames, budget({ maxImages: 3, maxTotalBytes: 300_000, maxImageBytes: 150_000, minQuality: 0.8, minLongEdge: 1280 }), createEncoder().encode)
+    assert(limited.images.length === 2 && limited.droppedCount === 3, '应该自动减少发送的张数')
+    assert(limited.images[0].data === frames[0].data, '应该保留优先级最高（最新）的图片')
+    assert(limited.totalBytes <= 300_000, '总字节数不应该超过预算')
+    const webp = await applyImageBudget(
+      [createImage(1280, 720, 400_000)],
+      budget({ maxImageBytes: 150_000, preferredMimeType: 'image/webp' }),
+      createEncoder().encode
+    )
+    assert(!webp.images[0].data.startsWith('data:'), '退回 JPEG 时应该返回纯 base64')
+    const webpSupported = await applyImageBudget(
+      [createImage(1280, 720, 400_000)],
+      budget({ maxImageBytes: 150_000, preferredMimeType: 'image/webp' }),
+      createEncoder({ webpSupported: true }).encode
+    )
+    assert(webpSupported.images[0].data.startsWith('data:image/webp;base64,'), 'WebP 图片应该带 data URL 前缀')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！图片发送预算工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
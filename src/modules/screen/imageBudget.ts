@@ -0,0 +1,254 @@
+/**
+ * 图片发送预算
+ *
+ * 在构建请求内容之前，根据供应商的图片限制自动决定每次请求发送的图片：
+ * - 张数：超过 maxImages 或总字节预算时，从优先级最低（最旧）的图片开始丢弃
+ * - 分辨率：单张像素数不超过 maxPixelsPerImage，且全部图片的总像素不超过 maxTotalPixels
+ * - 编码：超出预算的图片按 preferredMimeType 重新编码，质量从 maxQuality 逐步降低到 minQuality，
+ *   仍然超出字节预算时继续缩小分辨率
+ *
+ * 字节数按 base64 字符串长度计算，即实际放进请求体的大小。
+ * 已经满足预算的图片原样发送，不会重新编码。
+ */
+
+export type ImageMimeType = 'image/jpeg' | 'image/webp'
+
+export interface ImageBudget {
+  maxImages: number          // 每次请求最多发送的图片数
+  maxTotalBytes: number      // 全部图片的 base64 总长度上限
+  maxImageBytes: number      // 单张图片的 base64 长度上限
+  maxPixelsPerImage: number  // 单张图片的最大像素数（宽 × 高）
+  maxTotalPixels: number     // 全部图片的总像素上限，近似控制图片 token 数
+  minQuality: number
+  maxQuality: number
+  minLongEdge: number        // 缩小分辨率时最长边的下限
+  preferredMimeType: ImageMimeType
+}
+
+export interface BudgetImage {
+  data: string      // base64（可以带 data URL 前缀）
+  width: number
+  height: number
+}
+
+export interface EncodeTarget {
+  width: number
+  height: number
+  quality: number
+  mimeType: ImageMimeType
+}
+
+// 把图片按目标尺寸与质量重新编码，返回 data URL（编码器不支持目标格式时可以返回其他格式）或 JPEG base64
+export type ImageEncoder = (image: BudgetImage, target: EncodeTarget) => Promise<string>
+
+export interface BudgetedImage {
+  data: string               // 非 JPEG 时为带前缀的 data URL，JPEG 为纯 base64
+  width: number
+  height: number
+  bytes: number
+  reencoded: boolean
+}
+
+export interface ImageBudgetResult {
+  images: BudgetedImage[]
+  droppedCount: number
+  totalBytes: number
+  totalPixels: number
+}
+
+export const DEFAULT_IMAGE_BUDGET: ImageBudget = {
+  maxImages: 4,
+  maxTotalBytes: 4 * 1024 * 1024,
+  maxImageBytes: 1024 * 1024,
+  maxPixelsPerImage: 1280 * 28 * 28,
+  maxTotalPixels: 4 * 1280 * 28 * 28,
+  minQuality: 0.4,
+  maxQuality: 0.85,
+  minLongEdge: 480,
+  preferredMimeType: 'image/jpeg'
+}
+
+// 各供应商的图片预算，未列出的供应商使用 DEFAULT_IMAGE_BUDGET
+export const PROVIDER_IMAGE_BUDGETS: Record<string, Partial<ImageBudget>> = {
+  aliyun: {
+    maxImages: 6,
+    maxTotalBytes: 8 * 1024 * 1024,
+    maxImageBytes: 2 * 1024 * 1024,
+    maxTotalPixels: 6 * 1280 * 28 * 28
+  },
+  siliconflow: {
+    maxImages: 4,
+    maxTotalBytes: 4 * 1024 * 1024,
+    maxImageBytes: 1024 * 1024
+  },
+  openai: {
+    maxImages: 8,
+    maxTotalBytes: 16 * 1024 * 1024,
+    maxImageBytes: 4 * 1024 * 1024,
+    maxPixelsPerImage: 2048 * 768,
+    maxTotalPixels: 8 * 2048 * 768,
+    preferredMimeType: 'image/webp'
+  }
+}
+
+const QUALITY_STEP = 0.1
+const SCALE_STEP = 0.75
+
+export function resolveImageBudget(providerId?: string, overrides: Partial<ImageBudget> = {}): ImageBudget {
+  return {
+    ...DEFAULT_IMAGE_BUDGET,
+    ...PROVIDER_IMAGE_BUDGETS[providerId?.toLowerCase() ?? ''],
+    ...overrides
+  }
+}
+
+export function stripDataUrlPrefix(data: string): string {
+  const commaIndex = data.startsWith('data:') ? data.indexOf(',') : -1
+  return commaIndex === -1 ? data : data.slice(commaIndex + 1)
+}
+
+function getMimeType(data: string): string {
+  const match = /^data:([^;,]+)/.exec(data)
+  return match ? match[1] : 'image/jpeg'
+}
+
+/**
+ * 等比缩放到像素数不超过 maxPixels（不放大）
+ */
+export function fitToPixelBudget(width: number, height: number, maxPixels: number): { width: number; height: number } {
+  if (width * height <= maxPixels) {
+    return { width, height }
+  }
+
+  const scale = Math.sqrt(maxPixels / (width * height))
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale))
+  }
+}
+
+function toBudgetedImage(data: string, width: number, height: number, mimeType: string, reencoded: boolean): BudgetedImage {
+  const payload = stripDataUrlPrefix(data)
+  return {
+    data: mimeType === 'image/jpeg' ? payload : `data:${mimeType};base64,${payload}`,
+    width,
+    height,
+    bytes: payload.length,
+    reencoded
+  }
+}
+
+// 在单张预算内编码一张图片：先降质量，再缩小分辨率；无法满足时返回 null
+async function fitImage(
+  image: BudgetImage,
+  budget: ImageBudget,
+  maxBytes: number,
+  maxPixels: number,
+  encode: ImageEncoder
+): Promise<BudgetedImage | null> {
+  const originalBytes = stripDataUrlPrefix(image.data).length
+  if (originalBytes <= maxBytes && image.width * image.height <= maxPixels) {
+    return toBudgetedImage(image.data, image.width, image.height, getMimeType(image.data), false)
+  }
+
+  let { width, height } = fitToPixelBudget(image.width, image.height, maxPixels)
+  while (true) {
+    for (let quality = budget.maxQuality; quality >= budget.minQuality - 1e-9; quality -= QUALITY_STEP) {
+      const target: EncodeTarget = { width, height, quality: Math.round(quality * 100) / 100, mimeType: budget.preferredMimeType }
+      const encoded = await encode(image, target)
+      if (stripDataUrlPrefix(encoded).length <= maxBytes) {
+        return toBudgetedImage(encoded, width, height, getMimeType(encoded), true)
+      }
+    }
+
+    const longEdge = Math.max(width, height)
+    if (longEdge <= budget.minLongEdge) {
+      return null
+    }
+
+    const scale = Math.max(SCALE_STEP, budget.minLongEdge / longEdge)
+    width = Math.max(1, Math.round(width * scale))
+    height = Math.max(1, Math.round(height * scale))
+  }
+}
+
+/**
+ * 按预算处理一组图片，images 按优先级从高到低排列（最新的截图在前）
+ */
+export async function applyImageBudget(
+  images: BudgetImage[],
+  budget: ImageBudget,
+  encode: ImageEncoder
+): Promise<ImageBudgetResult> {
+  let count = Math.min(images.length, Math.max(0, budget.maxImages))
+
+  while (count > 0) {
+    const maxBytes = Math.min(budget.maxImageBytes, Math.floor(budget.maxTotalBytes / count))
+    const maxPixels = Math.min(budget.maxPixelsPerImage, Math.floor(budget.maxTotalPixels / count))
+
+    const fitted: BudgetedImage[] = []
+    for (const image of images.slice(0, count)) {
+      const result = await fitImage(image, budget, maxBytes, maxPixels, encode)
+      if (!result) {
+        break
+      }
+      fitted.push(result)
+    }
+
+    if (fitted.length === count) {
+      return {
+        images: fitted,
+        droppedCount: images.length - count,
+        totalBytes: fitted.reduce((sum, image) => sum + image.bytes, 0),
+        totalPixels: fitted.reduce((sum, image) => sum + image.width * image.height, 0)
+      }
+    }
+
+    // 平均分配的预算放不下全部图片，丢弃优先级最低的一张后重新分配
+    count--
+  }
+
+  return { images: [], droppedCount: images.length, totalBytes: 0, totalPixels: 0 }
+}
+
+/**
+ * 浏览器中基于 canvas 的图片编码器；不支持 WebP 编码的浏览器会退回 JPEG
+ */
+export function createCanvasImageEncoder(): ImageEncoder {
+  const decoded = new Map<string, HTMLImageElement>()
+
+  const decode = async (data: string): Promise<HTMLImageElement> => {
+    const cached = decoded.get(data)
+    if (cached) {
+      return cached
+    }
+
+    const img = new Image()
+    await new Promise((resolve, reject) => {
+      img.onload = resolve
+      img.onerror = () => reject(new Error('图片解码失败'))
+      img.src = data.startsWith('data:') ? data : `data:image/jpeg;base64,${data}`
+    })
+    decoded.set(data, img)
+    return img
+  }
+
+  return async (image, target) => {
+    const img = await decode(image.data)
+    const canvas = document.createElement('canvas')
+    canvas.width = target.width
+    canvas.height = target.height
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('无法获取画布上下文')
+    }
+
+    context.drawImage(img, 0, 0, target.width, target.height)
+    let dataUrl = canvas.toDataURL(target.mimeType, target.quality)
+    if (!dataUrl.startsWith(`data:${target.mimeType}`)) {
+      dataUrl = canvas.toDataURL('image/jpeg', target.quality)
+    }
+    return dataUrl
+  }
+}
@@ -1,3 +1,108 @@
 export { ScreenManager } from './ScreenManager'
 export type * from '@/types/screen'
-export { ScreenManager as default } from './ScreenManager'
\ No newline at end of file
+export {
+  FrameChangeDetector,
+  computeLuminanceSignature,
+  compareFrameSignatures,
+  computeImageSignature
+} from './frameChangeDetector'
+export type {
+  FrameSignature,
+  FrameDifference,
+  FrameChangeDetectorConfig,
+  FrameChangeDecision
+} from './frameChangeDetector'
+export {
+  normalizeRegion,
+  resolveRegionRect,
+  fitWithin,
+  planFrameCapture,
+  renderFramePlans,
+  combineFrameOverlays
+} from './frameCrop'
+export type { FrameCropOptions, FrameCapturePlan, FrameOverlay, PixelRect } from './frameCrop'
+export {
+  DEFAULT_IMAGE_BUDGET,
+  PROVIDER_IMAGE_BUDGETS,
+  resolveImageBudget,
+  applyImageBudget,
+  fitToPixelBudget,
+  createCanvasImageEncoder
+} from './imageBudget'
+export type {
+  ImageBudget,
+  ImageMimeType,
+  BudgetImage,
+  BudgetedImage,
+  ImageBudgetResult,
+  ImageEncoder,
+  EncodeTarget
+} from './imageBudget'
+export {
+  ScreenClipRecorder,
+  PREFERRED_CLIP_MIME_TYPES,
+  pickClipMimeType,
+  isClipRecordingSupported
+} from './ScreenClipRecorder'
+export type {
+  ScreenClip,
+  ScreenClipRecorderConfig,
+  ClipMediaRecorder,
+  ClipRecorderFactory
+} from './ScreenClipRecorder'
+export {
+  DrawableCaptureSource,
+  DisplayCaptureSource,
+  CameraCaptureSource,
+  CanvasCaptureSource,
+  ImageCaptureSource,
+  SyntheticCaptureSource,
+  listCameraDevices
+} from './ScreenCaptureSource'
+export type {
+  ScreenCaptureSource,
+  CaptureSourceKind,
+  CapturedFrame,
+  CameraCaptureOptions,
+  CameraDevice,
+  SyntheticCaptureOptions
+} from './ScreenCaptureSource'
+export {
+  planFrameComposite,
+  describeFrameComposite,
+  composeFrames,
+  isCompositeEnabled
+} from './frameCompositor'
+export type {
+  CompositeLayout,
+  PipPosition,
+  FrameCompositeOptions,
+  FrameCompositePlan
+} from './frameCompositor'
+export {
+  resolveGridSize,
+  columnLabel,
+  cellLabel,
+  locateGridCell,
+  gridCellToRegion,
+  planGridOverlay,
+  buildScreenGridPromptSegment,
+  createGridOverlay
+} from './screenGrid'
+export type { ScreenGridOptions, GridCellLabel, GridOverlayPlan } from './screenGrid'
+export {
+  SCREEN_COORDINATE_MIN,
+  SCREEN_COORDINATE_MAX,
+  toOutputPoint,
+  planArrowHead,
+  createAnnotationOverlay
+} from './screenAnnotations'
+export type {
+  ScreenPoint,
+  ScreenAnnotation,
+  HighlightAnnotation,
+  ArrowAnnotation,
+  LabelAnnotation
+} from './screenAnnotations'
+
+export { ScreenManager as default } from './ScreenManager'
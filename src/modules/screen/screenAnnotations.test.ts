@@ -0,0 +1,72 @@
+/**
+ * 屏幕标注测试套件
+ */
+
+import { planArrowHead, toOutputPoint } from './screenAnnotations'
+import { combineFrameOverlays, planFrameCapture, type FrameOverlay } from './frameCrop'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-6
+
+// 测试用例
+export function runTests(): void {
+  console.log('🖍️ 开始运行屏幕标注测试...')
+
+  try {
+    // 测试 1: 整屏截图缩小后标注坐标按比例换算
+    const [full] = planFrameCapture(3840, 2160, { fullMaxSize: 1920 })
+    const center = toOutputPoint({ x: 50, y: 50 }, full, 3840, 2160)
+    const corner = toOutputPoint({ x: 100, y: 0 }, full, 3840, 2160)
+    assert(center.x === 960 && center.y === 540, '屏幕中心应该对应缩小后图片的中心')
+    assert(corner.x === 1920 && corner.y === 0, '右上角应该对应图片右上角')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 区域裁剪图中的标注位置与整屏一致
+    const [, region] = planFrameCapture(1920, 1080, {
+      mode: 'focus',
+      region: { x: 0.5, y: 0.5, width: 0.5, height: 0.5 }
+    })
+    const inside = toOutputPoint({ x: 75, y: 75 }, region, 1920, 1080)
+    const outside = toOutputPoint({ x: 25, y: 25 }, region, 1920, 1080)
+    assert(inside.x === 480 && inside.y === 270, '区域内的标注应该换算到裁剪图坐标')
+    assert(outside.x < 0 && outside.y < 0, '区域外的标注落在裁剪图之外')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 箭头头部两翼对称地位于终点后方
+    const head = planArrowHead({ x: 0, y: 0 }, { x: 100, y: 0 }, 10)
+    assert(head !== null, '起点与终点不同时应该有箭头头部')
+    const [left, right] = head!
+    assert(left.x < 100 && right.x < 100 && near(left.x, right.x), '两翼应该在终点后方且对称')
+    assert(near(left.y, -right.y) && left.y !== 0, '两翼应该分居箭头两侧')
+    assert(near(Math.hypot(100 - left.x, left.y), 10), '两翼到终点的距离等于头部长度')
+    assert(planArrowHead({ x: 5, y: 5 }, { x: 5, y: 5 }, 10) === null, '起点与终点重合时没有头部')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 叠加层按顺序组合
+    const order: string[] = []
+    const overlay = (name: string): FrameOverlay => (_context, _plan, frameWidth) => {
+      order.push(`${name}:${frameWidth}`)
+    }
+    assert(combineFrameOverlays(undefined, undefined) === undefined, '没有叠加层时返回 undefined')
+    const combined = combineFrameOverlays(overlay('grid'), undefined, overlay('annotations'))!
+    combined({} as CanvasRenderingContext2D, full, 3840, 2160)
+    assert(order.join(',') === 'grid:3840,annotations:3840', `叠加层顺序不正确: ${order.join(',')}`)
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！屏幕标注工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,161 @@
+/**
+ * 屏幕标注
+ *
+ * 屏幕标注工具（高亮区域、箭头、文字说明）的坐标使用屏幕相对坐标：
+ * 原点在屏幕左上角，x 向右、y 向下，范围 0 ~ 100，与截图坐标网格一致。
+ *
+ * 标注一方面由 ScreenAnnotationOverlay 显示在页面上方的透明叠加层中，
+ * 另一方面作为截图叠加层绘制进之后截取的画面，模型可以在下一张截图里看到自己画的标注。
+ */
+
+import type { FrameCapturePlan, FrameOverlay } from './frameCrop'
+
+export interface ScreenPoint {
+  x: number  // 0 ~ 100
+  y: number  // 0 ~ 100
+}
+
+interface AnnotationBase {
+  id: string
+  color: string
+}
+
+export interface HighlightAnnotation extends AnnotationBase {
+  type: 'highlight'
+  topLeft: ScreenPoint
+  bottomRight: ScreenPoint
+  label?: string
+}
+
+export interface ArrowAnnotation extends AnnotationBase {
+  type: 'arrow'
+  from: ScreenPoint
+  to: ScreenPoint
+  label?: string
+}
+
+export interface LabelAnnotation extends AnnotationBase {
+  type: 'label'
+  position: ScreenPoint
+  text: string
+}
+
+export type ScreenAnnotation = HighlightAnnotation | ArrowAnnotation | LabelAnnotation
+
+export const SCREEN_COORDINATE_MIN = 0
+export const SCREEN_COORDINATE_MAX = 100
+
+// 箭头头部长度占画面短边的比例
+const ARROW_HEAD_RATIO = 0.025
+const ARROW_HEAD_ANGLE = Math.PI / 7
+
+/**
+ * 屏幕相对坐标换算为输出图片中的像素坐标
+ * 输出图片可能是整屏截图，也可能是区域裁剪图（plan.source 为取样区域）
+ */
+export function toOutputPoint(point: ScreenPoint, plan: FrameCapturePlan, frameWidth: number, frameHeight: number): ScreenPoint {
+  const { source } = plan
+  return {
+    x: (point.x / 100 * frameWidth - source.x) * plan.outputWidth / source.width,
+    y: (point.y / 100 * frameHeight - source.y) * plan.outputHeight / source.height
+  }
+}
+
+/**
+ * 箭头头部两翼的端点；起点与终点重合时返回 null
+ */
+export function planArrowHead(from: ScreenPoint, to: ScreenPoint, size: number): [ScreenPoint, ScreenPoint] | null {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  if (dx === 0 && dy === 0) {
+    return null
+  }
+
+  const angle = Math.atan2(dy, dx)
+  const wing = (offset: number): ScreenPoint => ({
+    x: to.x - size * Math.cos(angle + offset),
+    y: to.y - size * Math.sin(angle + offset)
+  })
+  return [wing(ARROW_HEAD_ANGLE), wing(-ARROW_HEAD_ANGLE)]
+}
+
+function drawTag(context: CanvasRenderingContext2D, text: string, x: number, y: number, color: string, fontSize: number): void {
+  const padding = Math.round(fontSize * 0.3)
+  const width = context.measureText(text).width + padding * 2
+  const height = fontSize + padding * 2
+  // 标签不超出图片边界
+  const left = Math.min(Math.max(0, x), Math.max(0, context.canvas.width - width))
+  const top = Math.min(Math.max(0, y), Math.max(0, context.canvas.height - height))
+
+  context.fillStyle = color
+  context.fillRect(left, top, width, height)
+  context.fillStyle = '#fff'
+  context.fillText(text, left + padding, top + padding)
+}
+
+/**
+ * 把标注绘制到截图上，作为 captureFrames 的叠加层使用
+ */
+export function createAnnotationOverlay(annotations: ScreenAnnotation[]): FrameOverlay {
+  return (context, plan, frameWidth, frameHeight) => {
+    const shortEdge = Math.min(plan.outputWidth, plan.outputHeight)
+    const lineWidth = Math.max(2, Math.round(shortEdge / 240))
+    const fontSize = Math.max(12, Math.round(shortEdge / 40))
+    const map = (point: ScreenPoint) => toOutputPoint(point, plan, frameWidth, frameHeight)
+
+    context.save()
+    context.lineWidth = lineWidth
+    context.lineJoin = 'round'
+    context.lineCap = 'round'
+    context.font = `bold ${fontSize}px sans-serif`
+    context.textBaseline = 'top'
+
+    annotations.forEach(annotation => {
+      context.strokeStyle = annotation.color
+      context.fillStyle = annotation.color
+
+      if (annotation.type === 'highlight') {
+        const topLeft = map(annotation.topLeft)
+        const bottomRight = map(annotation.bottomRight)
+        const width = bottomRight.x - topLeft.x
+        const height = bottomRight.y - topLeft.y
+        context.globalAlpha = 0.18
+        context.fillRect(topLeft.x, topLeft.y, width, height)
+        context.globalAlpha = 1
+        context.strokeRect(topLeft.x, topLeft.y, width, height)
+        if (annotation.label) {
+          drawTag(context, annotation.label, topLeft.x, topLeft.y - fontSize * 1.6, annotation.color, fontSize)
+        }
+        return
+      }
+
+      if (annotation.type === 'arrow') {
+        const from = map(annotation.from)
+        const to = map(annotation.to)
+        context.beginPath()
+        context.moveTo(from.x, from.y)
+        context.lineTo(to.x, to.y)
+        context.stroke()
+
+        const head = planArrowHead(from, to, Math.max(lineWidth * 4, shortEdge * ARROW_HEAD_RATIO))
+        if (head) {
+          context.beginPath()
+          context.moveTo(to.x, to.y)
+          context.lineTo(head[0].x, head[0].y)
+          context.lineTo(head[1].x, head[1].y)
+          context.closePath()
+          context.fill()
+        }
+        if (annotation.label) {
+          drawTag(context, annotation.label, from.x, from.y, annotation.color, fontSize)
+        }
+        return
+      }
+
+      const position = map(annotation.position)
+      drawTag(context, annotation.text, position.x, position.y, annotation.color, fontSize)
+    })
+
+    context.restore()
+  }
+}
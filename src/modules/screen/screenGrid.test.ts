@@ -0,0 +1,75 @@
+/**
+ * 截图坐标网格测试套件
+ */
+
+import {
+  buildScreenGridPromptSegment,
+  cellLabel,
+  gridCellToRegion,
+  locateGridCell,
+  planGridOverlay,
+  resolveGridSize
+} from './screenGrid'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const fullFrame = { x: 0, y: 0, width: 1920, height: 1080 }
+
+// 测试用例
+export function runTests(): void {
+  console.log('🔢 开始运行坐标网格测试...')
+
+  try {
+    // 测试 1: 格子编号与相对坐标互相换算
+    assert(cellLabel(0, 0) === 'A1' && cellLabel(2, 3) === 'C4', '列用字母、行用数字编号')
+    assert(locateGridCell(0.25, 0.35) === 'C4', '相对坐标应该落在对应格子中')
+    assert(locateGridCell(1, 1) === 'J10' && locateGridCell(-0.2, 0) === 'A1', '超出范围的坐标应该归到边缘格子')
+    const region = gridCellToRegion('c4')
+    assert(region !== null && region.x === 0.2 && Math.abs(region.y - 0.3) < 1e-9 && region.width === 0.1, '格子编号应该换算为屏幕区域')
+    assert(gridCellToRegion('K1') === null && gridCellToRegion('A11') === null && gridCellToRegion('hello') === null, '无效编号返回 null')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 网格尺寸限制
+    const size = resolveGridSize({ columns: 40, rows: 1 })
+    assert(size.columns === 26 && size.rows === 2, '网格列数不超过 26，行数不少于 2')
+    assert(resolveGridSize().columns === 10 && resolveGridSize().rows === 10, '默认 10 × 10')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 整屏截图缩小后网格线按比例绘制，不画边框
+    const full = planGridOverlay(1920, 1080, fullFrame, 960, 540, { columns: 4, rows: 3 })
+    assert(full.verticalLines.join(',') === '240,480,720', `竖线位置不正确: ${full.verticalLines.join(',')}`)
+    assert(full.horizontalLines.join(',') === '180,360', `横线位置不正确: ${full.horizontalLines.join(',')}`)
+    assert(full.labels.length === 12 && full.labels[5].text === 'B2', '每个格子都应该有编号')
+    assert(full.labels[5].x === 240 && full.labels[5].y === 180, '编号应该位于格子左上角')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 区域裁剪图中的网格与整屏一致
+    const crop = planGridOverlay(1920, 1080, { x: 960, y: 0, width: 960, height: 540 }, 960, 540, { columns: 4, rows: 2 })
+    assert(crop.verticalLines.join(',') === '480', '裁剪区域内只有一条竖线')
+    assert(crop.horizontalLines.length === 0, '裁剪区域底边与网格线重合时不绘制')
+    assert(crop.labels.map(label => label.text).join(',') === 'C1,D1', '裁剪图中的编号应该与整屏一致')
+    assert(crop.labels[0].x === 0 && crop.labels[1].x === 480, '编号位置应该换算到裁剪图坐标')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 系统提示词说明
+    const segment = buildScreenGridPromptSegment({ columns: 16, rows: 9 })
+    assert(segment.includes('16×9') && segment.includes('A–P') && segment.includes('1–9'), '提示词应该说明网格的列与行')
+    assert(segment.includes('左上角'), '提示词应该说明坐标原点')
+    console.log('✅ 测试 5 通过')
+
+    console.log('🎉 所有测试都通过了！坐标网格工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,185 @@
+/**
+ * 截图坐标网格
+ *
+ * 在截图上叠加带编号的网格，并在系统提示词中说明网格规则，让用户和模型可以用同一套坐标描述屏幕位置：
+ * - 列从左到右编号 A、B、C…，行从上到下编号 1、2、3…，格子编号如 "C4"
+ * - 更精确的位置使用相对坐标 (x, y)：原点在屏幕左上角，x 向右、y 向下，范围 0 ~ 100
+ *
+ * 网格定义在整屏的相对坐标上，区域裁剪图中的网格线与格子编号和整屏一致。
+ */
+
+import type { FrameOverlay, PixelRect } from './frameCrop'
+import type { RegionOfInterest } from '@/types/screen'
+
+export interface ScreenGridOptions {
+  enabled: boolean
+  columns?: number  // 列数，默认 10
+  rows?: number     // 行数，默认 10
+}
+
+export interface GridCellLabel {
+  text: string
+  x: number  // 标签左上角在输出图片中的位置
+  y: number
+}
+
+export interface GridOverlayPlan {
+  verticalLines: number[]    // 竖线在输出图片中的 x 坐标
+  horizontalLines: number[]  // 横线在输出图片中的 y 坐标
+  labels: GridCellLabel[]
+  fontSize: number
+  lineWidth: number
+}
+
+const DEFAULT_GRID_SIZE = 10
+const MIN_GRID_SIZE = 2
+const MAX_GRID_SIZE = 26
+const MIN_FONT_SIZE = 10
+const MAX_FONT_SIZE = 28
+
+export function resolveGridSize(options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}): { columns: number; rows: number } {
+  const clamp = (value: number | undefined) => Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(value ?? DEFAULT_GRID_SIZE)))
+  return { columns: clamp(options.columns), rows: clamp(options.rows) }
+}
+
+// 列编号：0 → A，25 → Z
+export function columnLabel(index: number): string {
+  return String.fromCharCode(65 + index)
+}
+
+export function cellLabel(column: number, row: number): string {
+  return `${columnLabel(column)}${row + 1}`
+}
+
+/**
+ * 相对坐标（0 ~ 1）所在的格子编号
+ */
+export function locateGridCell(x: number, y: number, options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}): string {
+  const { columns, rows } = resolveGridSize(options)
+  const column = Math.min(columns - 1, Math.max(0, Math.floor(x * columns)))
+  const row = Math.min(rows - 1, Math.max(0, Math.floor(y * rows)))
+  return cellLabel(column, row)
+}
+
+/**
+ * 格子编号对应的区域（相对坐标），编号无效时返回 null；用于把模型给出的位置换算回屏幕区域
+ */
+export function gridCellToRegion(label: string, options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}): RegionOfInterest | null {
+  const match = /^([A-Za-z])(\d{1,2})$/.exec(label.trim())
+  if (!match) {
+    return null
+  }
+
+  const { columns, rows } = resolveGridSize(options)
+  const column = match[1].toUpperCase().charCodeAt(0) - 65
+  const row = Number(match[2]) - 1
+  if (column >= columns || row < 0 || row >= rows) {
+    return null
+  }
+
+  return { x: column / columns, y: row / rows, width: 1 / columns, height: 1 / rows }
+}
+
+/**
+ * 计算网格在一张输出图片中的绘制位置
+ * source 为这张图片在整屏画面中的取样区域，整屏截图时就是整个画面
+ */
+export function planGridOverlay(
+  frameWidth: number,
+  frameHeight: number,
+  source: PixelRect,
+  outputWidth: number,
+  outputHeight: number,
+  options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}
+): GridOverlayPlan {
+  const { columns, rows } = resolveGridSize(options)
+  const scaleX = outputWidth / source.width
+  const scaleY = outputHeight / source.height
+  const cellWidth = frameWidth / columns * scaleX
+  const cellHeight = frameHeight / rows * scaleY
+
+  // 整屏坐标换算到输出图片坐标，只保留落在输出图片内的网格线（不含整屏边框）
+  const collectLines = (count: number, frameSize: number, offset: number, scale: number, outputSize: number): number[] => {
+    const lines: number[] = []
+    for (let index = 1; index < count; index++) {
+      const position = Math.round((index * frameSize / count - offset) * scale)
+      if (position > 0 && position < outputSize) {
+        lines.push(position)
+      }
+    }
+    return lines
+  }
+
+  const labels: GridCellLabel[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      // 格子中心在输出图片内时才标注编号，标签贴在格子可见部分的左上角
+      const centerX = ((column + 0.5) * frameWidth / columns - source.x) * scaleX
+      const centerY = ((row + 0.5) * frameHeight / rows - source.y) * scaleY
+      if (centerX < 0 || centerX > outputWidth || centerY < 0 || centerY > outputHeight) {
+        continue
+      }
+      labels.push({
+        text: cellLabel(column, row),
+        x: Math.max(0, Math.round((column * frameWidth / columns - source.x) * scaleX)),
+        y: Math.max(0, Math.round((row * frameHeight / rows - source.y) * scaleY))
+      })
+    }
+  }
+
+  const fontSize = Math.round(Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.min(cellWidth, cellHeight) * 0.18)))
+  return {
+    verticalLines: collectLines(columns, frameWidth, source.x, scaleX, outputWidth),
+    horizontalLines: collectLines(rows, frameHeight, source.y, scaleY, outputHeight),
+    labels,
+    fontSize,
+    lineWidth: Math.max(1, Math.round(Math.min(outputWidth, outputHeight) / 800))
+  }
+}
+
+/**
+ * 系统提示词中的网格说明
+ */
+export function buildScreenGridPromptSegment(options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}): string {
+  const { columns, rows } = resolveGridSize(options)
+  const lastColumn = columnLabel(columns - 1)
+  return `屏幕截图坐标网格：截图上叠加了 ${columns}×${rows} 的网格，列从左到右依次为 A–${lastColumn}，行从上到下依次为 1–${rows}，每个格子左上角标注了编号（例如 C4 表示 C 列第 4 行）。` +
+    `描述或引用屏幕上的位置时请使用格子编号，例如"右上角的按钮在 ${lastColumn}1"；需要更精确时使用相对坐标 (x, y)：原点在屏幕左上角，x 向右、y 向下，范围 0–100。` +
+    '区域高清裁剪图中的网格线和编号与整屏截图一致。注意这套屏幕坐标与画布工具的坐标系不同。'
+}
+
+/**
+ * 把网格绘制到截图上，作为 captureFrames 的叠加层使用
+ */
+export function createGridOverlay(options: Pick<ScreenGridOptions, 'columns' | 'rows'> = {}): FrameOverlay {
+  return (context, plan, frameWidth, frameHeight) => {
+    const grid = planGridOverlay(frameWidth, frameHeight, plan.source, plan.outputWidth, plan.outputHeight, options)
+
+    context.save()
+    context.lineWidth = grid.lineWidth
+    context.strokeStyle = 'rgba(255, 0, 80, 0.55)'
+    context.beginPath()
+    grid.verticalLines.forEach(x => {
+      context.moveTo(x + 0.5, 0)
+      context.lineTo(x + 0.5, plan.outputHeight)
+    })
+    grid.horizontalLines.forEach(y => {
+      context.moveTo(0, y + 0.5)
+      context.lineTo(plan.outputWidth, y + 0.5)
+    })
+    context.stroke()
+
+    // 编号加半透明底色，保证在任何背景上都清晰可读
+    context.font = `bold ${grid.fontSize}px sans-serif`
+    context.textBaseline = 'top'
+    const padding = Math.round(grid.fontSize * 0.2)
+    grid.labels.forEach(label => {
+      const width = context.measureText(label.text).width
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)'
+      context.fillRect(label.x, label.y, width + padding * 2, grid.fontSize + padding * 2)
+      context.fillStyle = '#fff'
+      context.fillText(label.text, label.x + padding, label.y + padding)
+    })
+    context.restore()
+  }
+}
@@ -1,2 +0,0 @@
-export { ScreenshotManager } from './ScreenshotManager'
-export type { Screenshot, ScreenshotManagerConfig } from './ScreenshotManager'
\ No newline at end of file
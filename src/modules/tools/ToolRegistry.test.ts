@@ -0,0 +1,134 @@
+/**
+ * 工具注册表测试套件
+ */
+
+import { ToolRegistry, type ToolPack, type ToolPackInfo } from './ToolRegistry'
+import type { Tool } from '../llm/LLM'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+function createTool(name: string, description: string): Tool {
+  return {
+    name,
+    description,
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: '图形 id' },
+        opacity: { type: ['number', 'string'], description: '透明度', default: 1 }
+      },
+      required: ['id']
+    },
+    handler: async () => ({ isSuccess: true })
+  }
+}
+
+const shapesPack: ToolPack = {
+  namespace: 'shapes',
+  title: '图形',
+  tools: [
+    createTool('draw_shape', '绘制图形。示例：<tool_calls>[{"name":"draw_shape","arguments":{"id":"a"}}]</tool_calls>'),
+    createTool('delete_shape', '删除图形')
+  ],
+  prompt: {
+    instructions: '画布原点位于中心。',
+    examples: '## 图形例子\n<tool_calls>[{"name":"draw_shape","arguments":{"id":"a"}}]</tool_calls>',
+    constraints: '⚠️ 坐标范围为 -50 到 50'
+  }
+}
+
+const notesPack: ToolPack = {
+  namespace: 'notes',
+  title: '便签',
+  tools: [createTool('add_note', '添加便签')],
+  enabledByDefault: false
+}
+
+// 测试用例
+export function runTests(): void {
+  console.log('🗺️ 开始运行工具注册表测试...')
+
+  try {
+    // 测试 1: 注册工具包并按默认启用状态汇总活动工具
+    const registry = new ToolRegistry()
+    const changes: ToolPackInfo[][] = []
+    registry.on('changed', (packs: ToolPackInfo[]) => changes.push(packs))
+    registry.registerPack(shapesPack)
+    registry.registerPack(notesPack)
+    assert(changes.length === 2, '每次注册都应该发出 changed 事件')
+    assert(registry.getActiveTools().map(tool => tool.name).join(',') === 'draw_shape,delete_shape', '默认禁用的工具包不应该生效')
+    assert(registry.getPacks()[1].enabled === false && registry.getPacks()[1].toolNames[0] === 'add_note', '工具包信息应该包含启用状态与工具名')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 命名空间与工具名称冲突时拒绝注册
+    let duplicateNamespace = false
+    try {
+      registry.registerPack({ namespace: 'shapes', title: '重复', tools: [] })
+    } catch {
+      duplicateNamespace = true
+    }
+    let duplicateTool = ''
+    try {
+      registry.registerPack({ namespace: 'other', title: '冲突', tools: [createTool('add_note', '重复')] })
+    } catch (error) {
+      duplicateTool = (error as Error).message
+    }
+    assert(duplicateNamespace, '重复的命名空间应该被拒绝')
+    assert(duplicateTool.includes('notes'), '工具名称冲突时应该指出已注册的工具包')
+    assert(!registry.hasPack('other'), '注册失败的工具包不应该保留')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 提示词段落由启用的工具包生成
+    const segment = registry.buildSystemPromptSegment()
+    assert(segment.startsWith('画布原点位于中心。'), '工具包说明应该位于段落开头')
+    assert(segment.includes('- draw_shape：绘制图形') && segment.includes('  - id（必填）：图形 id 类型：string'), '应该列出工具与参数说明')
+    assert(segment.includes('类型：number | string，默认值：1'), '应该包含联合类型与默认值')
+    assert(segment.indexOf('# 工具调用方式') < segment.indexOf('## 图形例子'), '示例应该跟在调用方式之后')
+    assert(segment.trim().endsWith('⚠️ 坐标范围为 -50 到 50'), '约束条件应该位于段落末尾')
+    assert(!segment.includes('add_note'), '禁用的工具包不应该出现在提示词中')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 运行时启用/禁用工具包
+    registry.enablePack('notes')
+    assert(registry.buildSystemPromptSegment().includes('- add_note：添加便签'), '启用后提示词应该包含新工具')
+    registry.disablePack('shapes')
+    assert(registry.getActiveTools().map(tool => tool.name).join(',') === 'add_note', '禁用后工具不应该生效')
+    registry.disablePack('notes')
+    assert(registry.buildSystemPromptSegment() === '', '没有启用的工具时提示词段落为空')
+    assert(registry.unregisterPack('notes') && !registry.hasPack('notes'), '应该可以移除工具包')
+    let unknownPack = false
+    try {
+      registry.enablePack('missing')
+    } catch {
+      unknownPack = true
+    }
+    assert(unknownPack, '启用未注册的工具包应该报错')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 原生 function calling 模式下不包含 <tool_calls> 标签格式与示例
+    const nativeRegistry = new ToolRegistry()
+    nativeRegistry.registerPack(shapesPack)
+    const textSegment = nativeRegistry.buildSystemPromptSegment('text')
+    const nativeSegment = nativeRegistry.buildSystemPromptSegment('native')
+    assert(textSegment.includes('<tool_calls>') && textSegment.includes('## 图形例子'), '文本标签模式应该包含标签格式与示例')
+    assert(!nativeSegment.includes('tool_calls') && !nativeSegment.includes('## 图形例子'), '原生模式不应该出现标签格式与示例')
+    assert(nativeSegment.includes('- draw_shape：绘制图形。\n') && nativeSegment.includes('重新调用工具'), '原生模式应该保留工具说明并按原生方式描述修正')
+    assert(nativeSegment.trim().endsWith('⚠️ 坐标范围为 -50 到 50'), '原生模式应该保留约束条件')
+    console.log('✅ 测试 5 通过')
+
+    console.log('🎉 所有测试都通过了！工具注册表工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
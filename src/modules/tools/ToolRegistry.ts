@@ -0,0 +1,255 @@
+/**
+ * 工具注册表
+ *
+ * 工具以"工具包"（ToolPack）为单位按命名空间注册，例如 canvas、test。
+ * 每个会话持有独立的注册表实例，可在运行时启用/禁用工具包；
+ * 系统提示词中的工具说明段落根据当前启用的工具包重新生成。
+ *
+ * 事件：
+ * - 'changed' (packs: ToolPackInfo[])  工具包注册、移除或启用状态变化
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import type { Tool, ToolCallMode, ToolSchemaProperty } from '../llm/LLM'
+import { stripToolCallExamples } from './toolCallParser'
+
+export interface ToolPackPrompt {
+  instructions?: string  // 放在工具列表之前的背景说明（如画布坐标系）
+  examples?: string      // 工具调用示例（<tool_calls> 标签格式，只在文本标签模式下使用）
+  constraints?: string   // 放在提示词末尾的约束条件
+}
+
+export interface ToolPack {
+  namespace: string          // 命名空间，唯一标识工具包
+  title: string              // 展示名称
+  description?: string
+  tools: Tool[]
+  prompt?: ToolPackPrompt
+  enabledByDefault?: boolean // 注册后是否默认启用，默认 true
+}
+
+export interface ToolPackInfo {
+  namespace: string
+  title: string
+  description?: string
+  enabled: boolean
+  toolNames: string[]
+}
+
+function formatDefaultValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (typeof value === 'string') {
+    return value
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+
+  try {
+    return JSON.stringify(value)
+  } catch {
+    return String(value)
+  }
+}
+
+function formatNestedProperties(schema: ToolSchemaProperty): string {
+  if (!schema.properties) {
+    return ''
+  }
+
+  const nested = Object.entries(schema.properties)
+    .map(([key, value]) => {
+      const typeText = Array.isArray(value.type) ? value.type.join(' | ') : value.type
+      const defaultText = value.default !== undefined ? `，默认值：${formatDefaultValue(value.default)}` : ''
+      return `${key}:${typeText}${defaultText}`
+    })
+    .join(', ')
+
+  return nested ? `（对象字段：${nested}）` : ''
+}
+
+export function formatParameterSummary(tool: Tool, name: string, schema: ToolSchemaProperty): string {
+  const types = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type
+  const requiredMark = tool.parameters.required?.includes(name) ? '（必填）' : '（可选）'
+  const nested = formatNestedProperties(schema)
+  const defaultText = schema.default !== undefined ? `，默认值：${formatDefaultValue(schema.default)}` : ''
+  return `  - ${name}${requiredMark}：${schema.description} 类型：${types}${nested}${defaultText}`
+}
+
+export function describeTool(tool: Tool, toolCallMode: ToolCallMode = 'text'): string {
+  const description = toolCallMode === 'native' ? stripToolCallExamples(tool.description) : tool.description
+  const lines = [`- ${tool.name}：${description}`]
+  const parameterEntries = Object.entries(tool.parameters.properties || {})
+  if (parameterEntries.length > 0) {
+    lines.push('  参数说明：')
+    for (const [name, schema] of parameterEntries) {
+      lines.push(formatParameterSummary(tool, name, schema as ToolSchemaProperty))
+    }
+  }
+
+  if (tool.parameters.anyOf && tool.parameters.anyOf.length > 0) {
+    const combos = tool.parameters.anyOf
+      .map((combo, index) => `    • 方案 ${index + 1}：${combo.required?.join('、') || ''}`)
+      .join('\n')
+    if (combos) {
+      lines.push('  参数组合要求：')
+      lines.push(combos)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+const TOOL_CALL_FORMAT = `# 工具调用方式
+所有工具调用必须以 <tool_calls> 开始，以 </tool_calls> 结束：
+<tool_calls>[{...}]</tool_calls>`
+
+const TOOL_LOOP_GUIDE: Record<ToolCallMode, string> = {
+  text: `# 结束循环
+当你收到工具调用结果后，如果有错误可以根据反馈重新生成<tool_calls>标签，修正工具调用。
+如果没有错误，生成一句结束语总结。
+## 结束语示例
+操作已完成！`,
+  native: `# 结束循环
+当你收到工具调用结果后，如果有错误可以根据反馈重新调用工具，修正参数。
+如果没有错误，生成一句结束语总结。
+## 结束语示例
+操作已完成！`
+}
+
+/**
+ * 根据工具包生成系统提示词中的工具说明段落
+ * 原生 function calling 模式下工具通过 tools 参数发送，不包含 <tool_calls> 标签格式与示例
+ */
+export function buildToolPromptSegment(packs: ToolPack[], toolCallMode: ToolCallMode = 'text'): string {
+  const activePacks = packs.filter(pack => pack.tools.length > 0)
+  if (activePacks.length === 0) {
+    return ''
+  }
+
+  const collect = (key: keyof ToolPackPrompt) => activePacks
+    .map(pack => pack.prompt?.[key]?.trim())
+    .filter((text): text is string => Boolean(text))
+
+  const toolSummary = activePacks
+    .flatMap(pack => pack.tools)
+    .map(tool => describeTool(tool, toolCallMode))
+    .join('\n\n')
+
+  const sections = [
+    ...collect('instructions'),
+    `可用工具：\n${toolSummary}`,
+    ...(toolCallMode === 'text' ? [[TOOL_CALL_FORMAT, ...collect('examples')].join('\n')] : []),
+    TOOL_LOOP_GUIDE[toolCallMode],
+    ...collect('constraints')
+  ]
+
+  return sections.join('\n\n')
+}
+
+export class ToolRegistry extends EventEmitter {
+  private packs = new Map<string, { pack: ToolPack; enabled: boolean }>()
+
+  registerPack(pack: ToolPack): void {
+    const namespace = pack.namespace.trim()
+    if (!namespace) {
+      throw new Error('工具包必须提供命名空间')
+    }
+    if (this.packs.has(namespace)) {
+      throw new Error(`工具包已注册: ${namespace}`)
+    }
+
+    // 工具名称在全部工具包中必须唯一，模型按名称调用工具
+    for (const tool of pack.tools) {
+      const owner = this.findPackByToolName(tool.name)
+      if (owner) {
+        throw new Error(`工具名称冲突: ${tool.name} 已在工具包 ${owner} 中注册`)
+      }
+    }
+
+    this.packs.set(namespace, { pack: { ...pack, namespace }, enabled: pack.enabledByDefault ?? true })
+    console.log(`🧰 工具包注册成功: ${namespace}（${pack.tools.length} 个工具）`)
+    this.emitChanged()
+  }
+
+  unregisterPack(namespace: string): boolean {
+    const removed = this.packs.delete(namespace)
+    if (removed) {
+      console.log(`🧰 工具包已移除: ${namespace}`)
+      this.emitChanged()
+    }
+    return removed
+  }
+
+  hasPack(namespace: string): boolean {
+    return this.packs.has(namespace)
+  }
+
+  setPackEnabled(namespace: string, enabled: boolean): void {
+    const entry = this.packs.get(namespace)
+    if (!entry) {
+      throw new Error(`工具包未注册: ${namespace}`)
+    }
+    if (entry.enabled === enabled) {
+      return
+    }
+
+    entry.enabled = enabled
+    console.log(`🧰 工具包 ${namespace} 已${enabled ? '启用' : '禁用'}`)
+    this.emitChanged()
+  }
+
+  enablePack(namespace: string): void {
+    this.setPackEnabled(namespace, true)
+  }
+
+  disablePack(namespace: string): void {
+    this.setPackEnabled(namespace, false)
+  }
+
+  isPackEnabled(namespace: string): boolean {
+    return this.packs.get(namespace)?.enabled ?? false
+  }
+
+  getPacks(): ToolPackInfo[] {
+    return Array.from(this.packs.values()).map(({ pack, enabled }) => ({
+      namespace: pack.namespace,
+      title: pack.title,
+      description: pack.description,
+      enabled,
+      toolNames: pack.tools.map(tool => tool.name)
+    }))
+  }
+
+  getActivePacks(): ToolPack[] {
+    return Array.from(this.packs.values())
+      .filter(entry => entry.enabled)
+      .map(entry => entry.pack)
+  }
+
+  getActiveTools(): Tool[] {
+    return this.getActivePacks().flatMap(pack => pack.tools)
+  }
+
+  // 当前启用的工具包对应的系统提示词段落，没有启用的工具时为空字符串
+  buildSystemPromptSegment(toolCallMode: ToolCallMode = 'text'): string {
+    return buildToolPromptSegment(this.getActivePacks(), toolCallMode)
+  }
+
+  private findPackByToolName(name: string): string | undefined {
+    for (const { pack } of this.packs.values()) {
+      if (pack.tools.some(tool => tool.name === name)) {
+        return pack.namespace
+      }
+    }
+    return undefined
+  }
+
+  private emitChanged(): void {
+    this.emit('changed', this.getPacks())
+  }
+}
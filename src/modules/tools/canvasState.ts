@@ -0,0 +1,360 @@
+/**
+ * 坐标画布的状态与操作（不依赖 Vue / Pinia）
+ *
+ * 浏览器中由 Pinia 的 canvas store 持有状态并复用这里的操作；
+ * 无界面运行时使用 createCanvasState() 创建内存中的画布，注入给画布工具。
+ */
+
+export type CanvasPoint = {
+  x: number
+  y: number
+}
+
+export type CanvasShape = RectangleShape | CircleShape
+
+export interface RectangleShape {
+  id: string
+  type: 'rectangle'
+  topLeft: CanvasPoint
+  bottomRight: CanvasPoint
+  color: string
+  opacity?: number
+}
+
+export interface CircleShape {
+  id: string
+  type: 'circle'
+  center: CanvasPoint
+  radius: number
+  color: string
+  opacity?: number
+}
+
+export interface CanvasSnapshot {
+  backgroundColor: string
+  shapes: Array<{
+    id: string
+    type: CanvasShape['type']
+    color: string
+    opacity?: number
+    topLeft?: CanvasPoint
+    bottomRight?: CanvasPoint
+    center?: CanvasPoint
+    radius?: number
+  }>
+}
+
+export const CANVAS_MIN = -50
+export const CANVAS_MAX = 50
+
+const DEFAULT_RECT_COLOR = '#2563eb'
+const DEFAULT_CIRCLE_COLOR = '#dc2626'
+export const DEFAULT_CANVAS_BACKGROUND = '#ffffff'
+
+// 画布工具需要的状态与操作，Pinia store 与 createCanvasState() 都满足该接口
+export interface CanvasState {
+  readonly shapes: CanvasShape[]
+  readonly backgroundColor: string
+  addRectangle(args: { topLeft: CanvasPoint; bottomRight: CanvasPoint; color?: string; opacity?: number }): RectangleShape
+  addCircle(args: { center: CanvasPoint; radius: number; color?: string; opacity?: number }): CircleShape
+  updateShapeColor(id: string, color: string): CanvasShape
+  updateShapeStyle(id: string, updates: { color?: string; opacity?: number }): CanvasShape
+  updateRectangle(id: string, updates: { topLeft?: CanvasPoint; bottomRight?: CanvasPoint }): RectangleShape
+  updateCircle(id: string, updates: { center?: CanvasPoint; radius?: number }): CircleShape
+  removeShape(id: string): void
+  setBackgroundColor(color: string): string
+  clearCanvas(): void
+  getSnapshot(): CanvasSnapshot
+  showOverlay(): void
+}
+
+// 读写画布状态的方式：store 中对应 ref，内存画布中对应普通变量
+export interface CanvasStateAccess {
+  getShapes(): CanvasShape[]
+  setShapes(shapes: CanvasShape[]): void
+  getBackgroundColor(): string
+  setBackgroundColor(color: string): void
+}
+
+// 校验数值参数，画布操作与 store 中的浮层位置共用
+export function ensureNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
+    throw new Error(`${name} 必须是一个有效的数字`)
+  }
+  return value
+}
+
+function ensureWithinBounds(point: CanvasPoint, label: string): void {
+  if (point.x < CANVAS_MIN || point.x > CANVAS_MAX || point.y < CANVAS_MIN || point.y > CANVAS_MAX) {
+    throw new Error(`${label} 坐标 (${point.x}, ${point.y}) 超出了画布范围（${CANVAS_MIN} 到 ${CANVAS_MAX}）`)
+  }
+}
+
+function createShapeId(prefix: string): string {
+  const randomNumber = Math.floor(Math.random() * 1000)
+  return `${prefix}_${randomNumber}`
+}
+
+export function createCanvasOperations(access: CanvasStateAccess) {
+  const findShapeIndex = (id: string): number => {
+    const index = access.getShapes().findIndex(shape => shape.id === id)
+    if (index === -1) {
+      throw new Error(`未找到ID为 ${id} 的图形`)
+    }
+    return index
+  }
+
+  const replaceShape = <T extends CanvasShape>(index: number, shape: T): T => {
+    const shapes = access.getShapes()
+    access.setShapes([...shapes.slice(0, index), shape, ...shapes.slice(index + 1)])
+    return shape
+  }
+
+  const getSnapshot = (): CanvasSnapshot => ({
+    backgroundColor: access.getBackgroundColor(),
+    shapes: access.getShapes().map(shape => {
+      if (shape.type === 'rectangle') {
+        return {
+          id: shape.id,
+          type: shape.type,
+          color: shape.color,
+          opacity: shape.opacity,
+          topLeft: { ...shape.topLeft },
+          bottomRight: { ...shape.bottomRight }
+        }
+      }
+
+      return {
+        id: shape.id,
+        type: shape.type,
+        color: shape.color,
+        opacity: shape.opacity,
+        center: { ...shape.center },
+        radius: shape.radius
+      }
+    })
+  })
+
+  const addRectangle = (args: {
+    topLeft: CanvasPoint
+    bottomRight: CanvasPoint
+    color?: string
+    opacity?: number
+  }): RectangleShape => {
+    const topLeft = {
+      x: ensureNumber(args.topLeft?.x, 'topLeft.x'),
+      y: ensureNumber(args.topLeft?.y, 'topLeft.y')
+    }
+    const bottomRight = {
+      x: ensureNumber(args.bottomRight?.x, 'bottomRight.x'),
+      y: ensureNumber(args.bottomRight?.y, 'bottomRight.y')
+    }
+
+    if (topLeft.x >= bottomRight.x || topLeft.y <= bottomRight.y) {
+      throw new Error('矩形坐标无效：需要 topLeft.x < bottomRight.x 且 topLeft.y > bottomRight.y')
+    }
+
+    ensureWithinBounds(topLeft, '左上角')
+    ensureWithinBounds(bottomRight, '右下角')
+
+    const rectangle: RectangleShape = {
+      id: createShapeId('rect'),
+      type: 'rectangle',
+      topLeft,
+      bottomRight,
+      color: args.color || DEFAULT_RECT_COLOR,
+      opacity: args.opacity
+    }
+
+    access.setShapes([...access.getShapes(), rectangle])
+    return rectangle
+  }
+
+  const addCircle = (args: { center: CanvasPoint; radius: number; color?: string; opacity?: number }): CircleShape => {
+    const center = {
+      x: ensureNumber(args.center?.x, 'center.x'),
+      y: ensureNumber(args.center?.y, 'center.y')
+    }
+    const radius = ensureNumber(args.radius, 'radius')
+
+    if (radius <= 0) {
+      throw new Error('圆形半径必须大于 0')
+    }
+
+    ensureWithinBounds(center, '圆心')
+
+    if (center.x - radius < CANVAS_MIN || center.x + radius > CANVAS_MAX || center.y - radius < CANVAS_MIN || center.y + radius > CANVAS_MAX) {
+      throw new Error('圆形超出了画布边界，请调整中心坐标或半径')
+    }
+
+    const circle: CircleShape = {
+      id: createShapeId('circle'),
+      type: 'circle',
+      center,
+      radius,
+      color: args.color || DEFAULT_CIRCLE_COLOR,
+      opacity: args.opacity
+    }
+
+    access.setShapes([...access.getShapes(), circle])
+    return circle
+  }
+
+  const updateShapeColor = (id: string, color: string): CanvasShape => {
+    if (!color || typeof color !== 'string') {
+      throw new Error('颜色必须是有效的字符串')
+    }
+
+    const index = findShapeIndex(id)
+    return replaceShape(index, { ...access.getShapes()[index], color } as CanvasShape)
+  }
+
+  const updateShapeStyle = (id: string, updates: { color?: string; opacity?: number }): CanvasShape => {
+    if (!updates.color && updates.opacity === undefined) {
+      throw new Error('必须提供颜色或透明度参数')
+    }
+
+    if (updates.color && (typeof updates.color !== 'string' || !updates.color.trim())) {
+      throw new Error('颜色必须是有效的字符串')
+    }
+
+    if (updates.opacity !== undefined && (typeof updates.opacity !== 'number' || updates.opacity < 0 || updates.opacity > 1)) {
+      throw new Error('透明度必须是0到1之间的数字')
+    }
+
+    const index = findShapeIndex(id)
+    return replaceShape(index, {
+      ...access.getShapes()[index],
+      ...(updates.color && { color: updates.color.trim() }),
+      ...(updates.opacity !== undefined && { opacity: updates.opacity })
+    } as CanvasShape)
+  }
+
+  const updateRectangle = (id: string, updates: { topLeft?: CanvasPoint; bottomRight?: CanvasPoint }): RectangleShape => {
+    const index = findShapeIndex(id)
+    const shape = access.getShapes()[index]
+    if (shape.type !== 'rectangle') {
+      throw new Error(`图形 ${id} 不是矩形类型`)
+    }
+
+    const topLeft = updates.topLeft || shape.topLeft
+    const bottomRight = updates.bottomRight || shape.bottomRight
+
+    const validatedTopLeft = {
+      x: ensureNumber(topLeft.x, 'topLeft.x'),
+      y: ensureNumber(topLeft.y, 'topLeft.y')
+    }
+    const validatedBottomRight = {
+      x: ensureNumber(bottomRight.x, 'bottomRight.x'),
+      y: ensureNumber(bottomRight.y, 'bottomRight.y')
+    }
+
+    if (validatedTopLeft.x >= validatedBottomRight.x || validatedTopLeft.y <= validatedBottomRight.y) {
+      throw new Error('矩形坐标无效：需要 topLeft.x < bottomRight.x 且 topLeft.y > bottomRight.y')
+    }
+
+    ensureWithinBounds(validatedTopLeft, '左上角')
+    ensureWithinBounds(validatedBottomRight, '右下角')
+
+    return replaceShape(index, {
+      ...shape,
+      topLeft: validatedTopLeft,
+      bottomRight: validatedBottomRight
+    })
+  }
+
+  const updateCircle = (id: string, updates: { center?: CanvasPoint; radius?: number }): CircleShape => {
+    const index = findShapeIndex(id)
+    const shape = access.getShapes()[index]
+    if (shape.type !== 'circle') {
+      throw new Error(`图形 ${id} 不是圆形类型`)
+    }
+
+    const center = updates.center || shape.center
+    const radius = updates.radius !== undefined ? updates.radius : shape.radius
+
+    const validatedCenter = {
+      x: ensureNumber(center.x, 'center.x'),
+      y: ensureNumber(center.y, 'center.y')
+    }
+    const validatedRadius = ensureNumber(radius, 'radius')
+
+    if (validatedRadius <= 0) {
+      throw new Error('圆形半径必须大于 0')
+    }
+
+    ensureWithinBounds(validatedCenter, '圆心')
+
+    if (validatedCenter.x - validatedRadius < CANVAS_MIN || validatedCenter.x + validatedRadius > CANVAS_MAX ||
+        validatedCenter.y - validatedRadius < CANVAS_MIN || validatedCenter.y + validatedRadius > CANVAS_MAX) {
+      throw new Error('圆形超出了画布边界，请调整中心坐标或半径')
+    }
+
+    return replaceShape(index, {
+      ...shape,
+      center: validatedCenter,
+      radius: validatedRadius
+    })
+  }
+
+  const removeShape = (id: string): void => {
+    findShapeIndex(id)
+    access.setShapes(access.getShapes().filter(shape => shape.id !== id))
+  }
+
+  const setBackgroundColor = (color: string): string => {
+    if (!color || typeof color !== 'string') {
+      throw new Error('背景色必须是有效的字符串')
+    }
+
+    access.setBackgroundColor(color)
+    return access.getBackgroundColor()
+  }
+
+  const clearCanvas = (): void => {
+    access.setShapes([])
+  }
+
+  return {
+    addRectangle,
+    addCircle,
+    updateShapeColor,
+    updateShapeStyle,
+    updateRectangle,
+    updateCircle,
+    removeShape,
+    setBackgroundColor,
+    clearCanvas,
+    getSnapshot
+  }
+}
+
+/**
+ * 内存中的画布，用于无界面运行时与测试（showOverlay 不做任何事）
+ */
+export function createCanvasState(initial: { shapes?: CanvasShape[]; backgroundColor?: string } = {}): CanvasState {
+  let shapes = initial.shapes ?? []
+  let backgroundColor = initial.backgroundColor ?? DEFAULT_CANVAS_BACKGROUND
+
+  const operations = createCanvasOperations({
+    getShapes: () => shapes,
+    setShapes: next => {
+      shapes = next
+    },
+    getBackgroundColor: () => backgroundColor,
+    setBackgroundColor: color => {
+      backgroundColor = color
+    }
+  })
+
+  return {
+    get shapes() {
+      return shapes
+    },
+    get backgroundColor() {
+      return backgroundColor
+    },
+    ...operations,
+    showOverlay: () => {}
+  }
+}
@@ -1,21 +1,25 @@
-import type { Tool, ToolSchemaProperty } from '@/modules/llm/LLM'
-import { useCanvasStore } from '@/stores/canvas'
+import type { Tool } from '../llm/LLM'
+import type { ToolPack } from './ToolRegistry'
+import type { CanvasState } from './canvasState'
 
+export type CanvasResolver = () => CanvasState
+
+// 参数在执行前已由 validateToolArguments 按 schema 校验：数字字符串已转换为数字，可选参数已填充默认值
 type DrawRectangleArgs = {
-  topLeftX?: number | string
-  topLeftY?: number | string
-  bottomRightX?: number | string
-  bottomRightY?: number | string
+  topLeftX: number
+  topLeftY: number
+  bottomRightX: number
+  bottomRightY: number
   color?: string
-  opacity?: number | string
+  opacity?: number
 }
 
 type DrawCircleArgs = {
-  centerX?: number | string
-  centerY?: number | string
-  radius?: number | string
+  centerX: number
+  centerY: number
+  radius: number
   color?: string
-  opacity?: number | string
+  opacity?: number
 }
 
 const DEFAULT_RECTANGLE = {
@@ -37,82 +41,6 @@ const DEFAULT_SHAPE_COLOR = '#ff9800'
 
 const DEFAULT_BACKGROUND_COLOR = '#ffffff'
 
-function normalizeOpacity(value: unknown, label: string): number {
-  console.log(`🔍 normalizeOpacity - ${label}:`, { value, type: typeof value })
-
-  if (value === undefined || value === null || value === '') {
-    console.log(`✅ 使用默认透明度 ${label}: 1.0`)
-    return 1.0
-  }
-
-  if (typeof value === 'number') {
-    if (value >= 0 && value <= 1) {
-      console.log(`✅ 直接使用透明度 ${label}: ${value}`)
-      return value
-    }
-  }
-
-  if (typeof value === 'string') {
-    const parsed = Number(value)
-    if (!Number.isNaN(parsed) && Number.isFinite(parsed) && parsed >= 0 && parsed <= 1) {
-      console.log(`✅ 字符串转透明度 ${label}: ${value} -> ${parsed}`)
-      return parsed
-    }
-  }
-
-  const errorMsg = `${label} 必须是 0 到 1 之间的数字，当前值: ${JSON.stringify(value)}`
-  console.log(`❌ normalizeOpacity 失败: ${errorMsg}`)
-  throw new Error(errorMsg)
-}
-
-function normalizeNumber(value: unknown, label: string): number {
-  console.log(`🔍 normalizeNumber - ${label}:`, { value, type: typeof value })
-
-  const isEmptyString = typeof value === 'string' && value.trim() === ''
-  if (value === undefined || value === null || value === '' || isEmptyString) {
-    const errorMsg = `${label} 必须提供有效的数值，不能为空`
-    console.log(`❌ normalizeNumber 失败: ${errorMsg}`)
-    throw new Error(errorMsg)
-  }
-
-  if (typeof value === 'number') {
-    console.log(`✅ 直接使用数字 ${label}: ${value}`)
-    return value
-  }
-
-  if (typeof value === 'string') {
-    const parsed = Number(value)
-    if (!Number.isNaN(parsed) && Number.isFinite(parsed)) {
-      console.log(`✅ 字符串转数字 ${label}: ${value} -> ${parsed}`)
-      return parsed
-    }
-  }
-
-  const errorMsg = `${label} 必须是一个有效的数字，当前值: ${JSON.stringify(value)}`
-  console.log(`❌ normalizeNumber 失败: ${errorMsg}`)
-  throw new Error(errorMsg)
-}
-
-function resolveRectangleCoordinates(args: DrawRectangleArgs): {
-  topLeft: { x: number; y: number },
-  bottomRight: { x: number; y: number }
-} {
-  console.log(`📍 resolveRectangleCoordinates:`, { args })
-
-  const topLeft = {
-    x: normalizeNumber(args.topLeftX, 'topLeftX'),
-    y: normalizeNumber(args.topLeftY, 'topLeftY')
-  }
-  
-  const bottomRight = {
-    x: normalizeNumber(args.bottomRightX, 'bottomRightX'),
-    y: normalizeNumber(args.bottomRightY, 'bottomRightY')
-  }
-  
-  console.log(`✅ 坐标解析完成: topLeft=${JSON.stringify(topLeft)}, bottomRight=${JSON.stringify(bottomRight)}`)
-  return { topLeft, bottomRight }
-}
-
 function createSuccessResponse(data: Record<string, unknown>) {
   const response = {
     isSuccess: true,
@@ -133,7 +61,7 @@ function createErrorResponse(error: string) {
   return response
 }
 
-export const drawRectangleTool: Tool = {
+const createDrawRectangleTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'draw_rectangle',
   description:
     '在 100×100 坐标画布上绘制矩形。坐标范围 -50 到 50。示例：<tool_calls>[{"name":"draw_rectangle","arguments":{"topLeftX":-15,"topLeftY":20,"bottomRightX":15,"bottomRightY":-10,"color":"#3388ff","opacity":1.0}}]</tool_calls>',
@@ -141,22 +69,22 @@ export const drawRectangleTool: Tool = {
     type: 'object',
     properties: {
       topLeftX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '左上角的 x 坐标（范围 -50 到 50），默认 -10',
         default: DEFAULT_RECTANGLE.topLeft.x
       },
       topLeftY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '左上角的 y 坐标（范围 -50 到 50），默认 10',
         default: DEFAULT_RECTANGLE.topLeft.y
       },
       bottomRightX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '右下角的 x 坐标（范围 -50 到 50），默认 10',
         default: DEFAULT_RECTANGLE.bottomRight.x
       },
       bottomRightY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '右下角的 y 坐标（范围 -50 到 50），默认 -10',
         default: DEFAULT_RECTANGLE.bottomRight.y
       },
@@ -166,8 +94,10 @@ export const drawRectangleTool: Tool = {
         default: DEFAULT_RECTANGLE.color
       },
       opacity: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '透明度（0-1），1.0 为完全不透明，默认 1.0',
+        minimum: 0,
+        maximum: 1,
         default: DEFAULT_RECTANGLE.opacity
       }
     },
@@ -179,9 +109,9 @@ export const drawRectangleTool: Tool = {
     console.log(`🟦 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
-      console.log(`🟦 解析坐标...`)
-      const { topLeft, bottomRight } = resolveRectangleCoordinates(args)
+      const store = resolveCanvas()
+      const topLeft = { x: args.topLeftX, y: args.topLeftY }
+      const bottomRight = { x: args.bottomRightX, y: args.bottomRightY }
 
       if (topLeft.x >= bottomRight.x || topLeft.y <= bottomRight.y) {
         const errorMsg = '矩形坐标无效：左上角必须位于右下角的左上方'
@@ -195,7 +125,7 @@ export const drawRectangleTool: Tool = {
         return createErrorResponse(errorMsg)
       }
       const color = args.color.trim()
-      const opacity = normalizeOpacity(args.opacity, 'opacity')
+      const opacity = args.opacity
       console.log(`🟦 使用颜色: ${color}, 透明度: ${opacity}`)
 
       console.log(`🟦 创建矩形...`)
@@ -227,9 +157,9 @@ export const drawRectangleTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const drawCircleTool: Tool = {
+const createDrawCircleTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'draw_circle',
   description:
     '在坐标画布上绘制圆形。坐标范围 -50 到 50。示例：<tool_calls>[{"name":"draw_circle","arguments":{"centerX":15,"centerY":-8,"radius":12,"color":"#ff6f61","opacity":1.0}}]</tool_calls>',
@@ -237,18 +167,19 @@ export const drawCircleTool: Tool = {
     type: 'object',
     properties: {
       centerX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '圆心的 x 坐标（范围 -50 到 50），默认 0',
         default: DEFAULT_CIRCLE.centerX
       },
       centerY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '圆心的 y 坐标（范围 -50 到 50），默认 0',
         default: DEFAULT_CIRCLE.centerY
       },
       radius: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '圆的半径（必须大于 0），默认 12',
+        exclusiveMinimum: 0,
         default: DEFAULT_CIRCLE.radius
       },
       color: {
@@ -257,8 +188,10 @@ export const drawCircleTool: Tool = {
         default: DEFAULT_CIRCLE.color
       },
       opacity: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '透明度（0-1），1.0 为完全不透明，默认 1.0',
+        minimum: 0,
+        maximum: 1,
         default: DEFAULT_CIRCLE.opacity
       }
     },
@@ -270,18 +203,8 @@ export const drawCircleTool: Tool = {
     console.log(`🟡 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
-      console.log(`🟡 解析参数...`)
-      const centerX = normalizeNumber(args.centerX, 'centerX')
-      const centerY = normalizeNumber(args.centerY, 'centerY')
-      const radius = normalizeNumber(args.radius, 'radius')
-      console.log(`🟡 参数解析完成: centerX=${centerX}, centerY=${centerY}, radius=${radius}`)
-
-      if (radius <= 0) {
-        const errorMsg = '圆的半径必须大于 0'
-        console.log(`🟡 半径验证失败: ${errorMsg}`)
-        return createErrorResponse(errorMsg)
-      }
+      const store = resolveCanvas()
+      const { centerX, centerY, radius } = args
 
       if (!args.color?.trim()) {
         const errorMsg = '必须提供颜色参数'
@@ -289,7 +212,7 @@ export const drawCircleTool: Tool = {
         return createErrorResponse(errorMsg)
       }
       const color = args.color.trim()
-      const opacity = normalizeOpacity(args.opacity, 'opacity')
+      const opacity = args.opacity
       console.log(`🟡 使用颜色: ${color}, 透明度: ${opacity}`)
 
       console.log(`🟡 创建圆形...`)
@@ -321,9 +244,9 @@ export const drawCircleTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const updateShapeColorTool: Tool = {
+const createUpdateShapeColorTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'update_shape_color',
   description:
     '更新指定图形的颜色和透明度。示例：<tool_calls>[{"name":"update_shape_color","arguments":{"id":"rect_123","color":"#673ab7","opacity":0.8}}]</tool_calls>',
@@ -340,19 +263,21 @@ export const updateShapeColorTool: Tool = {
         default: DEFAULT_SHAPE_COLOR
       },
       opacity: {
-        type: ['number', 'string'],
-        description: '透明度（0-1），1.0 为完全不透明，默认保持原值'
+        type: 'number',
+        description: '透明度（0-1），1.0 为完全不透明，默认保持原值',
+        minimum: 0,
+        maximum: 1
       }
     },
     required: ['id']
   },
-  handler: async (args: { id: string; color?: string; opacity?: number | string }) => {
+  handler: async (args: { id: string; color?: string; opacity?: number }) => {
     console.log('🟣 ==========================================')
     console.log(`🟣 工具调用: update_shape_color`)
     console.log(`🟣 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
 
       // 验证至少提供一个更新参数
       if (!args.color && args.opacity === undefined) {
@@ -376,7 +301,7 @@ export const updateShapeColorTool: Tool = {
 
       // 处理透明度参数
       if (args.opacity !== undefined) {
-        updates.opacity = normalizeOpacity(args.opacity, 'opacity')
+        updates.opacity = args.opacity
         console.log(`🟣 使用新透明度: ${updates.opacity}`)
       }
 
@@ -414,9 +339,9 @@ export const updateShapeColorTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const deleteShapeTool: Tool = {
+const createDeleteShapeTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'delete_shape',
   description: '删除指定图形。示例：<tool_calls>[{"name":"delete_shape","arguments":{"id":"shape-123"}}]</tool_calls>',
   parameters: {
@@ -435,7 +360,7 @@ export const deleteShapeTool: Tool = {
     console.log(`🔴 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
       console.log(`🔴 删除图形: id=${args.id}`)
 
       console.log(`🔴 执行删除操作...`)
@@ -459,9 +384,9 @@ export const deleteShapeTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const updateBackgroundColorTool: Tool = {
+const createUpdateBackgroundColorTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'update_canvas_background',
   description:
     '更新画布背景颜色。示例：<tool_calls>[{"name":"update_canvas_background","arguments":{"color":"#212121"}}]</tool_calls>',
@@ -482,7 +407,7 @@ export const updateBackgroundColorTool: Tool = {
     console.log(`⚪ 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
 
       if (!args.color?.trim()) {
         const errorMsg = '必须提供颜色参数'
@@ -512,9 +437,9 @@ export const updateBackgroundColorTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const updateRectangleTool: Tool = {
+const createUpdateRectangleTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'update_rectangle',
   description:
     '更新指定矩形的位置和大小。可以只更新部分坐标。示例：<tool_calls>[{"name":"update_rectangle","arguments":{"id":"rect_123","topLeftX":-20,"bottomRightX":20}}]</tool_calls>',
@@ -526,31 +451,31 @@ export const updateRectangleTool: Tool = {
         description: '目标矩形的唯一ID'
       },
       topLeftX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的左上角 x 坐标（范围 -50 到 50），不提供则保持原值'
       },
       topLeftY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的左上角 y 坐标（范围 -50 到 50），不提供则保持原值'
       },
       bottomRightX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的右下角 x 坐标（范围 -50 到 50），不提供则保持原值'
       },
       bottomRightY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的右下角 y 坐标（范围 -50 到 50），不提供则保持原值'
       }
     },
     required: ['id']
   },
-  handler: async (args: { id: string; topLeftX?: number | string; topLeftY?: number | string; bottomRightX?: number | string; bottomRightY?: number | string }) => {
+  handler: async (args: { id: string; topLeftX?: number; topLeftY?: number; bottomRightX?: number; bottomRightY?: number }) => {
     console.log('🔷 ==========================================')
     console.log(`🔷 工具调用: update_rectangle`)
     console.log(`🔷 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
       
       // 获取原矩形信息
       const originalShape = store.shapes.find(shape => shape.id === args.id)
@@ -582,10 +507,10 @@ export const updateRectangleTool: Tool = {
 
       console.log(`🔷 合并坐标参数...`)
       // 合并新旧坐标，未提供的坐标保持原值
-      const topLeftX = args.topLeftX !== undefined ? normalizeNumber(args.topLeftX, 'topLeftX') : currentRect.topLeft.x
-      const topLeftY = args.topLeftY !== undefined ? normalizeNumber(args.topLeftY, 'topLeftY') : currentRect.topLeft.y
-      const bottomRightX = args.bottomRightX !== undefined ? normalizeNumber(args.bottomRightX, 'bottomRightX') : currentRect.bottomRight.x
-      const bottomRightY = args.bottomRightY !== undefined ? normalizeNumber(args.bottomRightY, 'bottomRightY') : currentRect.bottomRight.y
+      const topLeftX = args.topLeftX ?? currentRect.topLeft.x
+      const topLeftY = args.topLeftY ?? currentRect.topLeft.y
+      const bottomRightX = args.bottomRightX ?? currentRect.bottomRight.x
+      const bottomRightY = args.bottomRightY ?? currentRect.bottomRight.y
 
       const topLeft = { x: topLeftX, y: topLeftY }
       const bottomRight = { x: bottomRightX, y: bottomRightY }
@@ -626,9 +551,9 @@ export const updateRectangleTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const updateCircleTool: Tool = {
+const createUpdateCircleTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'update_circle',
   description:
     '更新指定圆形的位置和大小。可以只更新部分参数。示例：<tool_calls>[{"name":"update_circle","arguments":{"id":"circle_123","centerX":10}}]</tool_calls>',
@@ -640,27 +565,28 @@ export const updateCircleTool: Tool = {
         description: '目标圆形的唯一ID'
       },
       centerX: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的圆心 x 坐标（范围 -50 到 50），不提供则保持原值'
       },
       centerY: {
-        type: ['number', 'string'],
+        type: 'number',
         description: '新的圆心 y 坐标（范围 -50 到 50），不提供则保持原值'
       },
       radius: {
-        type: ['number', 'string'],
-        description: '新的圆半径（必须大于 0），不提供则保持原值'
+        type: 'number',
+        description: '新的圆半径（必须大于 0），不提供则保持原值',
+        exclusiveMinimum: 0
       }
     },
     required: ['id']
   },
-  handler: async (args: { id: string; centerX?: number | string; centerY?: number | string; radius?: number | string }) => {
+  handler: async (args: { id: string; centerX?: number; centerY?: number; radius?: number }) => {
     console.log('🔶 ==========================================')
     console.log(`🔶 工具调用: update_circle`)
     console.log(`🔶 调用参数:`, JSON.stringify(args, null, 2))
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
       
       // 获取原圆形信息
       const originalShape = store.shapes.find(shape => shape.id === args.id)
@@ -691,18 +617,12 @@ export const updateCircleTool: Tool = {
 
       console.log(`🔶 合并参数...`)
       // 合并新旧参数，未提供的参数保持原值
-      const centerX = args.centerX !== undefined ? normalizeNumber(args.centerX, 'centerX') : currentCircle.center.x
-      const centerY = args.centerY !== undefined ? normalizeNumber(args.centerY, 'centerY') : currentCircle.center.y
-      const radius = args.radius !== undefined ? normalizeNumber(args.radius, 'radius') : currentCircle.radius
+      const centerX = args.centerX ?? currentCircle.center.x
+      const centerY = args.centerY ?? currentCircle.center.y
+      const radius = args.radius ?? currentCircle.radius
       
       console.log(`🔶 最终参数: centerX=${centerX}, centerY=${centerY}, radius=${radius}`)
 
-      if (radius <= 0) {
-        const errorMsg = '圆的半径必须大于 0'
-        console.log(`🔶 半径验证失败: ${errorMsg}`)
-        return createErrorResponse(errorMsg)
-      }
-
       console.log(`🔶 更新圆形位置和大小...`)
       const updatedCircle = store.updateCircle(args.id, {
         center: { x: centerX, y: centerY },
@@ -731,9 +651,9 @@ export const updateCircleTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
-}
+})
 
-export const clearCanvasTool: Tool = {
+const createClearCanvasTool = (resolveCanvas: CanvasResolver): Tool => ({
   name: 'clear_canvas',
   description:
     '清空画布上的所有图形，保留背景颜色。示例：<tool_calls>[{"name":"clear_canvas","arguments":{}}]</tool_calls>',
@@ -747,7 +667,7 @@ export const clearCanvasTool: Tool = {
     console.log(`🧹 工具调用: clear_canvas`)
 
     try {
-      const store = useCanvasStore()
+      const store = resolveCanvas()
       console.log(`🧹 清空画布中的所有图形...`)
       
       const shapesBeforeClear = store.shapes.length
@@ -772,98 +692,24 @@ export const clearCanvasTool: Tool = {
       return createErrorResponse(errorMsg)
     }
   }
+})
+
+export function createCanvasTools(resolveCanvas: CanvasResolver): Tool[] {
+  return [
+    createDrawRectangleTool,
+    createDrawCircleTool,
+    createUpdateRectangleTool,
+    createUpdateCircleTool,
+    createUpdateShapeColorTool,
+    createDeleteShapeTool,
+    createUpdateBackgroundColorTool,
+    createClearCanvasTool
+  ].map(createTool => createTool(resolveCanvas))
 }
 
-export const canvasTools: Tool[] = [
-  drawRectangleTool,
-  drawCircleTool,
-  updateRectangleTool,
-  updateCircleTool,
-  updateShapeColorTool,
-  deleteShapeTool,
-  updateBackgroundColorTool,
-  clearCanvasTool
-]
-
 const CANVAS_SPACE_DESCRIPTION = `你可以使用一个 100×100 的笛卡尔坐标画布：原点位于画布中心 (0,0)，x 轴向右为正，y 轴向上为正。所有坐标的有效范围为 -50 到 50。`
 
-function formatDefaultValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return ''
-  }
-
-  if (typeof value === 'string') {
-    return value
-  }
-
-  if (typeof value === 'number' || typeof value === 'boolean') {
-    return String(value)
-  }
-
-  try {
-    return JSON.stringify(value)
-  } catch {
-    return String(value)
-  }
-}
-
-function formatNestedProperties(schema: ToolSchemaProperty): string {
-  if (!schema.properties) {
-    return ''
-  }
-
-  const nested = Object.entries(schema.properties)
-    .map(([key, value]) => {
-      const typeText = Array.isArray(value.type) ? value.type.join(' | ') : value.type
-      const defaultText = value.default !== undefined ? `，默认值：${formatDefaultValue(value.default)}` : ''
-      return `${key}:${typeText}${defaultText}`
-    })
-    .join(', ')
-
-  return nested ? `（对象字段：${nested}）` : ''
-}
-
-function formatParameterSummary(tool: Tool, name: string, schema: ToolSchemaProperty): string {
-  const types = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type
-  const requiredMark = tool.parameters.required?.includes(name) ? '（必填）' : '（可选）'
-  const nested = formatNestedProperties(schema)
-  const defaultText = schema.default !== undefined ? `，默认值：${formatDefaultValue(schema.default)}` : ''
-  return `  - ${name}${requiredMark}：${schema.description} 类型：${types}${nested}${defaultText}`
-}
-
-function describeTool(tool: Tool): string {
-  const lines = [`- ${tool.name}：${tool.description}`]
-  const parameterEntries = Object.entries(tool.parameters.properties || {})
-  if (parameterEntries.length > 0) {
-    lines.push('  参数说明：')
-    for (const [name, schema] of parameterEntries) {
-      lines.push(formatParameterSummary(tool, name, schema as ToolSchemaProperty))
-    }
-  }
-
-  if (tool.parameters.anyOf && tool.parameters.anyOf.length > 0) {
-    const combos = tool.parameters.anyOf
-      .map((combo, index) => `    • 方案 ${index + 1}：${combo.required?.join('、') || ''}`)
-      .join('\n')
-    if (combos) {
-      lines.push('  参数组合要求：')
-      lines.push(combos)
-    }
-  }
-
-  return lines.join('\n')
-}
-
-const TOOL_SUMMARY = canvasTools.map(describeTool).join('\n\n')
-
-export const CANVAS_SYSTEM_PROMPT_SEGMENT = `${CANVAS_SPACE_DESCRIPTION}
-
-可用工具：
-${TOOL_SUMMARY}
-
-# 工具调用方式
-<tool_calls>[{...}]</tool_calls>
-## 工具调用例子1
+const CANVAS_TOOL_EXAMPLES = `## 工具调用例子1
 <tool_calls>
 [{
   "name": "draw_rectangle",
@@ -899,6 +745,26 @@ ${TOOL_SUMMARY}
   }
 }]
   </tool_calls>
+## 引用同批次结果例子
+同一批次中后面的调用可以用 "$ref:<序号>.<字段>" 引用前面调用返回的结果（序号从 0 开始），例如先画矩形再修改它的颜色：
+<tool_calls>
+[{
+  "name": "draw_rectangle",
+  "arguments": {
+    "topLeftX": -20,
+    "topLeftY": 0,
+    "bottomRightX": 20,
+    "bottomRightY": -20,
+    "color": "#ff0000"
+  }
+}, {
+  "name": "update_shape_color",
+  "arguments": {
+    "id": "$ref:0.id",
+    "color": "#00aa00"
+  }
+}]
+</tool_calls>
 ## 更新图形样式例子
 <tool_calls>
 [{
@@ -937,15 +803,9 @@ ${TOOL_SUMMARY}
   "name": "clear_canvas",
   "arguments": {}
 }]
-</tool_calls>
+</tool_calls>`
 
-# 结束循环
-当你收到工具调用结果后，如果有错误可以根据反馈重新生成<tool_calls>标签，修正工具调用。
-如果没有错误，生成一句结束语总结。
-## 结束语示例
-成功完成绘制！
-
-⚠️ **关键约束**：
+const CANVAS_TOOL_CONSTRAINTS = `⚠️ **关键约束**：
 1. **矩形绘制**：使用平铺坐标参数 {"name":"draw_rectangle","arguments":{"topLeftX":-10,"topLeftY":10,"bottomRightX":10,"bottomRightY":-10,"color":"#ff0000","opacity":1.0}}
 2. **圆形绘制**：使用 {"name":"draw_circle","arguments":{"centerX":0,"centerY":0,"radius":15,"color":"#0000ff","opacity":1.0}}
 3. **坐标范围**：所有 x、y 坐标必须在 -50 到 50 之间
@@ -955,9 +815,22 @@ ${TOOL_SUMMARY}
 7. **样式更新**：使用 update_shape_color 工具可以同时更新颜色和透明度，至少提供其中一个参数
 8. **位置和大小更新**：使用 update_rectangle 和 update_circle 工具可以更新图形的位置和大小，支持部分参数更新（如只更新 x 坐标而保持 y 坐标不变）
 9. **清屏操作**：使用 clear_canvas 工具可以清空所有图形，保留背景颜色
-10.**调用标记**：所有工具调用必须以 <tool_calls> 开始，以 </tool_calls> 结束
-
-`
-
-
-
+10.**引用同批次结果**：同一批次中后面的调用可以用 "$ref:<序号>.<字段>" 引用前面调用返回的结果（序号从 0 开始），如 "id": "$ref:0.id"`
+
+/**
+ * 创建画布工具包：工具执行时通过 resolveCanvas 获取要操作的画布
+ * 浏览器中传入 Pinia 的 canvas store，无界面运行时传入 createCanvasState() 创建的内存画布
+ */
+export function createCanvasToolPack(resolveCanvas: CanvasResolver): ToolPack {
+  return {
+    namespace: 'canvas',
+    title: '画布绘制',
+    description: '在 100×100 坐标画布上绘制、修改和清除图形',
+    tools: createCanvasTools(resolveCanvas),
+    prompt: {
+      instructions: CANVAS_SPACE_DESCRIPTION,
+      examples: CANVAS_TOOL_EXAMPLES,
+      constraints: CANVAS_TOOL_CONSTRAINTS
+    }
+  }
+}
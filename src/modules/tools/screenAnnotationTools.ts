@@ -0,0 +1,282 @@
+import type { Tool, ToolSchemaProperty } from '@/modules/llm/LLM'
+import type { ToolPack } from './ToolRegistry'
+import { useAnnotationStore } from '@/stores/annotations'
+
+type HighlightRegionArgs = {
+  topLeftX: number
+  topLeftY: number
+  bottomRightX: number
+  bottomRightY: number
+  color?: string
+  label?: string
+}
+
+type DrawArrowArgs = {
+  fromX: number
+  fromY: number
+  toX: number
+  toY: number
+  color?: string
+  label?: string
+}
+
+type AddLabelArgs = {
+  x: number
+  y: number
+  text: string
+  color?: string
+}
+
+function screenCoordinate(description: string): ToolSchemaProperty {
+  return {
+    type: 'number',
+    description: `${description}（屏幕相对坐标，范围 0 到 100）`,
+    minimum: 0,
+    maximum: 100
+  }
+}
+
+function createSuccessResponse(data: Record<string, unknown>) {
+  const response = {
+    isSuccess: true,
+    error: null,
+    data
+  }
+  console.log(`✅ 工具调用成功:`, JSON.stringify(response, null, 2))
+  return response
+}
+
+function createErrorResponse(error: string) {
+  const response = {
+    isSuccess: false,
+    error,
+    data: null
+  }
+  console.log(`❌ 工具调用失败:`, JSON.stringify(response, null, 2))
+  return response
+}
+
+export const highlightRegionTool: Tool = {
+  name: 'highlight_region',
+  description:
+    '在共享屏幕上用方框高亮一个区域，可以附带简短说明。示例：<tool_calls>[{"name":"highlight_region","arguments":{"topLeftX":70,"topLeftY":5,"bottomRightX":95,"bottomRightY":15,"label":"设置按钮"}}]</tool_calls>',
+  parameters: {
+    type: 'object',
+    properties: {
+      topLeftX: screenCoordinate('区域左上角的 x 坐标'),
+      topLeftY: screenCoordinate('区域左上角的 y 坐标'),
+      bottomRightX: screenCoordinate('区域右下角的 x 坐标'),
+      bottomRightY: screenCoordinate('区域右下角的 y 坐标'),
+      color: {
+        type: 'string',
+        description: '方框颜色（CSS 颜色字符串），默认 #ff1744'
+      },
+      label: {
+        type: 'string',
+        description: '显示在方框上方的说明文字，不超过 40 个字符'
+      }
+    },
+    required: ['topLeftX', 'topLeftY', 'bottomRightX', 'bottomRightY']
+  },
+  handler: async (args: HighlightRegionArgs) => {
+    console.log(`🖍️ 工具调用: highlight_region`, JSON.stringify(args))
+
+    try {
+      const store = useAnnotationStore()
+      const highlight = store.addHighlight({
+        topLeft: { x: args.topLeftX, y: args.topLeftY },
+        bottomRight: { x: args.bottomRightX, y: args.bottomRightY },
+        color: args.color,
+        label: args.label
+      })
+      store.setOverlayVisible(true)
+
+      return createSuccessResponse({
+        id: highlight.id,
+        type: 'highlight',
+        topLeft: highlight.topLeft,
+        bottomRight: highlight.bottomRight,
+        label: highlight.label ?? null
+      })
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : '高亮区域失败')
+    }
+  }
+}
+
+export const drawArrowTool: Tool = {
+  name: 'draw_arrow',
+  description:
+    '在共享屏幕上画一个从起点指向终点的箭头，用于指出按钮、菜单等位置。示例：<tool_calls>[{"name":"draw_arrow","arguments":{"fromX":50,"fromY":50,"toX":85,"toY":10,"label":"点这里"}}]</tool_calls>',
+  parameters: {
+    type: 'object',
+    properties: {
+      fromX: screenCoordinate('箭头起点的 x 坐标'),
+      fromY: screenCoordinate('箭头起点的 y 坐标'),
+      toX: screenCoordinate('箭头终点（箭头所指位置）的 x 坐标'),
+      toY: screenCoordinate('箭头终点（箭头所指位置）的 y 坐标'),
+      color: {
+        type: 'string',
+        description: '箭头颜色（CSS 颜色字符串），默认 #ff1744'
+      },
+      label: {
+        type: 'string',
+        description: '显示在箭头起点的说明文字，不超过 40 个字符'
+      }
+    },
+    required: ['fromX', 'fromY', 'toX', 'toY']
+  },
+  handler: async (args: DrawArrowArgs) => {
+    console.log(`🖍️ 工具调用: draw_arrow`, JSON.stringify(args))
+
+    try {
+      const store = useAnnotationStore()
+      const arrow = store.addArrow({
+        from: { x: args.fromX, y: args.fromY },
+        to: { x: args.toX, y: args.toY },
+        color: args.color,
+        label: args.label
+      })
+      store.setOverlayVisible(true)
+
+      return createSuccessResponse({
+        id: arrow.id,
+        type: 'arrow',
+        from: arrow.from,
+        to: arrow.to,
+        label: arrow.label ?? null
+      })
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : '绘制箭头失败')
+    }
+  }
+}
+
+export const addLabelTool: Tool = {
+  name: 'add_label',
+  description:
+    '在共享屏幕的指定位置添加一段文字说明，文字左上角对齐该位置。示例：<tool_calls>[{"name":"add_label","arguments":{"x":10,"y":80,"text":"第 2 步：填写邮箱"}}]</tool_calls>',
+  parameters: {
+    type: 'object',
+    properties: {
+      x: screenCoordinate('文字左上角的 x 坐标'),
+      y: screenCoordinate('文字左上角的 y 坐标'),
+      text: {
+        type: 'string',
+        description: '说明文字，不超过 40 个字符'
+      },
+      color: {
+        type: 'string',
+        description: '文字底色（CSS 颜色字符串），默认 #2962ff'
+      }
+    },
+    required: ['x', 'y', 'text']
+  },
+  handler: async (args: AddLabelArgs) => {
+    console.log(`🖍️ 工具调用: add_label`, JSON.stringify(args))
+
+    try {
+      const store = useAnnotationStore()
+      const label = store.addLabel({
+        position: { x: args.x, y: args.y },
+        text: args.text,
+        color: args.color
+      })
+      store.setOverlayVisible(true)
+
+      return createSuccessResponse({
+        id: label.id,
+        type: 'label',
+        position: label.position,
+        text: label.text
+      })
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : '添加文字说明失败')
+    }
+  }
+}
+
+export const clearAnnotationsTool: Tool = {
+  name: 'clear_annotations',
+  description:
+    '清除共享屏幕上的所有标注。示例：<tool_calls>[{"name":"clear_annotations","arguments":{}}]</tool_calls>',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: []
+  },
+  handler: async () => {
+    console.log(`🖍️ 工具调用: clear_annotations`)
+
+    try {
+      const store = useAnnotationStore()
+      const removed = store.clearAnnotations()
+
+      return createSuccessResponse({
+        cleared: true,
+        removedAnnotations: removed,
+        message: `成功清除了 ${removed} 个标注`
+      })
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : '清除标注失败')
+    }
+  }
+}
+
+export const screenAnnotationTools: Tool[] = [
+  highlightRegionTool,
+  drawArrowTool,
+  addLabelTool,
+  clearAnnotationsTool
+]
+
+const SCREEN_ANNOTATION_SPACE_DESCRIPTION = `你可以在用户共享的屏幕上做标注，引导用户一步步操作。标注坐标是屏幕相对坐标：原点在屏幕左上角，x 向右、y 向下，范围 0 到 100，以最近一张屏幕截图为准（截图开启坐标网格时与网格一致）。这套坐标与画布工具的 -50 到 50 坐标系无关。
+画好的标注会显示在用户屏幕上方，并出现在之后的截图里，你可以在下一张截图中确认标注是否指对了位置。`
+
+const SCREEN_ANNOTATION_EXAMPLES = `## 指出按钮位置例子
+<tool_calls>
+[{
+  "name": "highlight_region",
+  "arguments": {
+    "topLeftX": 72,
+    "topLeftY": 4,
+    "bottomRightX": 96,
+    "bottomRightY": 12,
+    "label": "第 1 步：点击设置"
+  }
+}, {
+  "name": "draw_arrow",
+  "arguments": {
+    "fromX": 55,
+    "fromY": 30,
+    "toX": 72,
+    "toY": 10
+  }
+}]
+</tool_calls>
+## 进入下一步前清除标注例子
+<tool_calls>
+[{
+  "name": "clear_annotations",
+  "arguments": {}
+}]
+</tool_calls>`
+
+const SCREEN_ANNOTATION_CONSTRAINTS = `⚠️ **屏幕标注约束**：
+1. **坐标范围**：屏幕标注的所有坐标必须在 0 到 100 之间，原点在左上角，y 向下增大
+2. **先看再画**：只标注在最近一张截图中确实看到的内容，不要猜测位置
+3. **保持简洁**：每一步只保留当前需要的标注，进入下一步前先调用 clear_annotations
+4. **文字长度**：说明文字不超过 40 个字符`
+
+export const screenAnnotationToolPack: ToolPack = {
+  namespace: 'screen_annotation',
+  title: '屏幕标注',
+  description: '在共享屏幕上高亮区域、画箭头和添加文字说明，屏幕共享开启时自动启用',
+  tools: screenAnnotationTools,
+  prompt: {
+    instructions: SCREEN_ANNOTATION_SPACE_DESCRIPTION,
+    examples: SCREEN_ANNOTATION_EXAMPLES,
+    constraints: SCREEN_ANNOTATION_CONSTRAINTS
+  },
+  enabledByDefault: false
+}
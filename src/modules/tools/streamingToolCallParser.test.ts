@@ -0,0 +1,92 @@
+/**
+ * 流式工具调用解析器测试套件
+ */
+
+import { StreamingToolCallParser } from './streamingToolCallParser'
+import type { ParsedToolCall } from './toolCallParser'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 按给定分片依次喂给解析器，返回可展示文本与事件中收到的工具调用
+function feed(chunks: string[]): { text: string; toolCalls: ParsedToolCall[]; parser: StreamingToolCallParser } {
+  const parser = new StreamingToolCallParser()
+  const toolCalls: ParsedToolCall[] = []
+  let text = ''
+
+  parser.on('toolCall', (toolCall: ParsedToolCall) => toolCalls.push(toolCall))
+  for (const chunk of chunks) {
+    text += parser.push(chunk).text
+  }
+  text += parser.flush().text
+
+  return { text, toolCalls, parser }
+}
+
+// 测试用例
+export function runTests(): void {
+  console.log('🗺️ 开始运行流式工具调用解析器测试...')
+
+  try {
+    // 测试 1: 标签被拆分到多个分片中，仍能解析并隐藏标签内容
+    const result1 = feed([
+      '好的，我来画',
+      '<tool_',
+      'calls>[{"name":"draw_rectangle","argu',
+      'ments":{"topLeftX":-10}}]</tool_',
+      'calls>画好了'
+    ])
+    assert(result1.toolCalls.length === 1, '应该解析出 1 个工具调用')
+    assert(result1.toolCalls[0].name === 'draw_rectangle', '工具名称应该是 draw_rectangle')
+    assert(result1.toolCalls[0].arguments.topLeftX === -10, '参数应该被正确解析')
+    assert(result1.text === '好的，我来画画好了', '展示文本不应该包含标签内容')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 标签块闭合时立即发出事件，不等待流结束
+    const parser2 = new StreamingToolCallParser()
+    const received: ParsedToolCall[] = []
+    parser2.on('toolCall', (toolCall: ParsedToolCall) => received.push(toolCall))
+    parser2.push('<tool_calls>[{"name":"clear_canvas","arguments":{}}]</tool_calls>')
+    assert(received.length === 1, '标签闭合后应该立即发出工具调用事件')
+    const later = parser2.push('后续的长段语音回复')
+    assert(later.text === '后续的长段语音回复', '标签之后的文本应该正常输出')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 同一段回复中的多个块与单数标签
+    const result3 = feed([
+      '先画圆<tool_call>[{"name":"draw_circle","arguments":{"radius":5}}]</tool_call>',
+      '再画矩形<tool_calls>[{"name":"draw_rectangle","arguments":{}}]</tool_calls>'
+    ])
+    assert(result3.toolCalls.length === 2, '应该解析出 2 个工具调用')
+    assert(result3.toolCalls[0].name === 'draw_circle', '第一个应该是 draw_circle')
+    assert(result3.text === '先画圆再画矩形', '多个标签块都应该被隐藏')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 普通的尖括号文本不会被吞掉
+    const result4 = feed(['比较 a <', ' b 的大小，<b>加粗</b>'])
+    assert(result4.toolCalls.length === 0, '不应该检测到工具调用')
+    assert(result4.text === '比较 a < b 的大小，<b>加粗</b>', '非标签文本应该原样输出')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 未闭合的标签在 flush 时尝试解析，内容仍不展示
+    const result5 = feed(['开始<tool_calls>[{"name":"delete_shape","arguments":{"id":"rect_001"}}]'])
+    assert(result5.toolCalls.length === 1, '未闭合的完整 JSON 应该在 flush 时被解析')
+    assert(result5.text === '开始', '未闭合标签的内容不应该展示')
+    assert(result5.parser.getToolCalls().length === 1, 'getToolCalls 应该返回全部工具调用')
+    console.log('✅ 测试 5 通过')
+
+    console.log('🎉 所有测试都通过了！流式工具调用解析器工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
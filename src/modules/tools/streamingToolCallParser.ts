@@ -0,0 +1,156 @@
+/**
+ * 流式工具调用解析器
+ *
+ * 逐段消费 LLM 输出的文本增量，一旦出现闭合的 <tool_calls>…</tool_calls>（或 <tool_call>…</tool_call>）块，
+ * 立即解析并发出 ParsedToolCall 事件，无需等待整段回复结束。
+ * 标签及其中的 JSON 不会出现在可展示文本中；可能是标签开头的片段会暂存，直到能确定其含义。
+ *
+ * 事件：
+ * - 'toolCall' (toolCall: ParsedToolCall)  解析出一个工具调用
+ * - 'text' (text: string)                  可展示的文本增量
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { parseToolCallBlock, type ParsedToolCall } from './toolCallParser'
+
+export interface StreamingParseResult {
+  text: string                  // 本次可展示的文本增量（已移除工具调用标签）
+  toolCalls: ParsedToolCall[]   // 本次新解析出的工具调用
+}
+
+const OPEN_TAG_REGEX = /<(tool_calls?)>/
+const OPEN_TAG_CANDIDATES = ['<tool_calls>', '<tool_call>']
+
+// 判断文本末尾是否可能是开始标签的一部分（例如 "<tool_ca"）
+function findPartialOpenTagStart(text: string): number {
+  const lastLt = text.lastIndexOf('<')
+  if (lastLt === -1) {
+    return -1
+  }
+
+  const tail = text.slice(lastLt)
+  return OPEN_TAG_CANDIDATES.some(tag => tag.startsWith(tail)) ? lastLt : -1
+}
+
+export class StreamingToolCallParser extends EventEmitter {
+  private pending = ''              // 标签外尚未输出的文本
+  private blockBuffer = ''          // 标签内累积的内容
+  private blockTagName: string | null = null
+  private toolCalls: ParsedToolCall[] = []
+
+  // 消费一段文本增量
+  push(delta: string): StreamingParseResult {
+    const result: StreamingParseResult = { text: '', toolCalls: [] }
+    if (!delta) {
+      return result
+    }
+
+    if (this.blockTagName) {
+      this.blockBuffer += delta
+    } else {
+      this.pending += delta
+    }
+
+    this.drain(result)
+    this.emitResult(result)
+    return result
+  }
+
+  // 流结束：输出暂存文本，尝试解析未闭合的块（内容仍不展示）
+  flush(): StreamingParseResult {
+    const result: StreamingParseResult = { text: '', toolCalls: [] }
+
+    if (this.blockTagName) {
+      console.warn('⚠️ 工具调用标签未闭合，尝试解析已接收内容')
+      this.completeBlock(this.blockBuffer, result)
+      this.blockTagName = null
+      this.blockBuffer = ''
+    }
+
+    if (this.pending) {
+      result.text += this.pending
+      this.pending = ''
+    }
+
+    this.emitResult(result)
+    return result
+  }
+
+  getToolCalls(): ParsedToolCall[] {
+    return [...this.toolCalls]
+  }
+
+  isInsideToolCallBlock(): boolean {
+    return this.blockTagName !== null
+  }
+
+  reset(): void {
+    this.pending = ''
+    this.blockBuffer = ''
+    this.blockTagName = null
+    this.toolCalls = []
+  }
+
+  private drain(result: StreamingParseResult): void {
+    while (true) {
+      if (this.blockTagName) {
+        const closeTag = `</${this.blockTagName}>`
+        const closeIndex = this.blockBuffer.indexOf(closeTag)
+        if (closeIndex === -1) {
+          return
+        }
+
+        const content = this.blockBuffer.slice(0, closeIndex)
+        const rest = this.blockBuffer.slice(closeIndex + closeTag.length)
+        this.completeBlock(content, result)
+
+        this.blockTagName = null
+        this.blockBuffer = ''
+        this.pending = rest
+        continue
+      }
+
+      const match = OPEN_TAG_REGEX.exec(this.pending)
+      if (match) {
+        result.text += this.pending.slice(0, match.index)
+        this.blockTagName = match[1]
+        this.blockBuffer = this.pending.slice(match.index + match[0].length)
+        this.pending = ''
+        continue
+      }
+
+      // 暂存可能构成开始标签的末尾片段，其余文本直接输出
+      const partialStart = findPartialOpenTagStart(this.pending)
+      if (partialStart === -1) {
+        result.text += this.pending
+        this.pending = ''
+      } else {
+        result.text += this.pending.slice(0, partialStart)
+        this.pending = this.pending.slice(partialStart)
+      }
+      return
+    }
+  }
+
+  private completeBlock(content: string, result: StreamingParseResult): void {
+    const trimmed = content.trim()
+    if (!trimmed) {
+      return
+    }
+
+    try {
+      const parsed = parseToolCallBlock(trimmed)
+      this.toolCalls.push(...parsed)
+      result.toolCalls.push(...parsed)
+    } catch (error) {
+      console.error('❌ 流式解析工具调用块失败:', { content: trimmed, error })
+    }
+  }
+
+  private emitResult(result: StreamingParseResult): void {
+    if (result.text) {
+      this.emit('text', result.text)
+    }
+    result.toolCalls.forEach(toolCall => this.emit('toolCall', toolCall))
+  }
+}
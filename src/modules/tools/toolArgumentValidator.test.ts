@@ -0,0 +1,131 @@
+/**
+ * 工具参数校验器测试套件
+ */
+
+import { validateToolArguments, formatToolArgumentErrors } from './toolArgumentValidator'
+import type { ToolSchema } from '../llm/LLM'
+import { createCanvasTools } from './canvasTools'
+import { createCanvasState } from './canvasState'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+const shapeSchema: ToolSchema = {
+  type: 'object',
+  properties: {
+    shape: { type: 'string', description: '形状', enum: ['rectangle', 'circle'] },
+    size: { type: 'integer', description: '尺寸', minimum: 1, maximum: 100 },
+    filled: { type: 'boolean', description: '是否填充', default: false },
+    label: { type: 'string', description: '标签' },
+    points: {
+      type: 'array',
+      description: '顶点',
+      items: {
+        type: 'object',
+        description: '顶点坐标',
+        properties: {
+          x: { type: 'number', description: 'x' },
+          y: { type: 'number', description: 'y' }
+        },
+        required: ['x', 'y']
+      }
+    }
+  },
+  required: ['shape'],
+  anyOf: [{ required: ['size'] }, { required: ['points'] }]
+}
+
+// 与画布工具 draw_circle 相同写法的 Schema：坐标允许数字或字符串，半径与透明度带范围约束
+const circleSchema: ToolSchema = {
+  type: 'object',
+  properties: {
+    centerX: { type: ['number', 'string'], description: '圆心 x 坐标', default: 0 },
+    centerY: { type: ['number', 'string'], description: '圆心 y 坐标', default: 0 },
+    radius: { type: ['number', 'string'], description: '半径', exclusiveMinimum: 0, default: 12 },
+    color: { type: 'string', description: '颜色', default: '#ff6f61' },
+    opacity: { type: ['number', 'string'], description: '透明度', minimum: 0, maximum: 1, default: 1 }
+  },
+  required: ['centerX', 'centerY', 'radius', 'color']
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🗺️ 开始运行工具参数校验器测试...')
+
+  try {
+    // 测试 1: 合法参数通过校验，并进行类型转换与默认值填充
+    const result1 = validateToolArguments(shapeSchema, { shape: 'circle', size: '12', label: 5 })
+    assert(result1.valid, '合法参数应该通过校验')
+    assert(result1.value.size === 12, '数字字符串应该转换为数字')
+    assert(result1.value.filled === false, '缺失的可选参数应该填充默认值')
+    assert(result1.value.label === '5', '仅允许字符串时数字应该转换为字符串')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 缺少必填参数、枚举不匹配、超出范围都会被报告
+    const result2 = validateToolArguments(shapeSchema, { shape: 'triangle', size: 500 })
+    assert(!result2.valid, '非法参数不应该通过校验')
+    assert(result2.errors.some(error => error.path === 'shape' && error.message.includes('rectangle')), '应该报告枚举错误')
+    assert(result2.errors.some(error => error.path === 'size' && error.message.includes('100')), '应该报告范围错误')
+    const result2b = validateToolArguments(shapeSchema, { size: 3 })
+    assert(result2b.errors.some(error => error.path === 'shape' && error.message === '缺少必填参数'), '应该报告缺少必填参数')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: anyOf 组合必填与无法转换的类型
+    const result3 = validateToolArguments(shapeSchema, { shape: 'circle', filled: 'yes' })
+    assert(result3.errors.some(error => error.message.includes('[size] 或 [points]')), '应该报告 anyOf 组合缺失')
+    assert(result3.errors.some(error => error.path === 'filled' && error.message.includes('boolean')), '无法转换的值应该报告类型错误')
+    assert(validateToolArguments(shapeSchema, { shape: 'circle', size: 1, filled: 'true' }).value.filled === true, '布尔字符串应该转换为布尔值')
+    assert(!validateToolArguments(shapeSchema, { shape: 'circle', size: '1.5' }).valid, 'integer 类型不应该接受小数')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 嵌套数组元素逐项校验，错误路径包含下标
+    const result4 = validateToolArguments(shapeSchema, {
+      shape: 'rectangle',
+      points: [{ x: '1', y: 2 }, { x: 'abc' }]
+    })
+    const points = result4.value.points as Array<Record<string, unknown>>
+    assert(points[0].x === 1, '数组元素中的数字字符串应该被转换')
+    assert(result4.errors.some(error => error.path === 'points[1].x'), '错误路径应该包含数组下标')
+    assert(result4.errors.some(error => error.path === 'points[1].y'), '数组元素缺少的必填字段应该被报告')
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 画布工具风格的联合类型 Schema 与模型可读的错误文本
+    const circle = validateToolArguments(circleSchema, {
+      centerX: '10', centerY: -5, radius: 0, color: '#ff0000', opacity: '1.5'
+    })
+    assert(circle.value.centerX === 10, '联合类型应该优先规范化为数字')
+    assert(circle.errors.some(error => error.path === 'radius'), '半径为 0 应该被拒绝')
+    assert(circle.errors.some(error => error.path === 'opacity'), '透明度超出 0-1 应该被拒绝')
+    const text = formatToolArgumentErrors('draw_circle', circle.errors)
+    assert(text.includes('draw_circle') && text.includes('- radius: 必须大于 0，当前值: 0'), '错误文本应该列出参数路径与当前值')
+    const valid = validateToolArguments(circleSchema, { centerX: 0, centerY: 0, radius: '8', color: 'red' })
+    assert(valid.valid && valid.value.radius === 8 && valid.value.opacity === 1, '合法的圆形参数应该通过校验并填充默认透明度')
+    assert(!validateToolArguments(circleSchema, '[1, 2]').valid, '非对象参数应该被拒绝')
+    console.log('✅ 测试 5 通过')
+
+    // 测试 6: 画布工具依赖校验后的参数：数字字符串在执行前已转换，非数字的坐标直接被拒绝
+    const canvas = createCanvasState()
+    const drawCircle = createCanvasTools(() => canvas).find(tool => tool.name === 'draw_circle')!
+    assert(!validateToolArguments(drawCircle.parameters, { centerX: 'abc', centerY: 0, radius: 5, color: 'red' }).valid, '非数字的坐标应该被拒绝')
+    const validated = validateToolArguments(drawCircle.parameters, { centerX: '5', centerY: '-3', radius: '4', color: 'red' })
+    assert(validated.valid, '数字字符串应该通过校验')
+    const drawn = await drawCircle.handler(validated.value)
+    assert(drawn.isSuccess && canvas.shapes[0].type === 'circle' && canvas.shapes[0].center.x === 5 && canvas.shapes[0].radius === 4, '工具应该使用转换后的数字绘制')
+    assert(canvas.shapes[0].opacity === 1, '未提供的透明度使用默认值')
+    console.log('✅ 测试 6 通过')
+
+    console.log('🎉 所有测试都通过了！工具参数校验器工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
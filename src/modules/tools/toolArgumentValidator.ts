@@ -0,0 +1,268 @@
+/**
+ * 工具参数校验器
+ *
+ * 在工具处理函数执行前，根据注册的 ToolSchema 校验并规范化参数：
+ * - 类型检查（支持联合类型），数字字符串 / 布尔字符串自动转换
+ * - enum、required、anyOf 组合必填
+ * - 可选参数缺失时填充 default
+ * - 数值范围（minimum / maximum / exclusiveMinimum / exclusiveMaximum）
+ * - 嵌套对象与数组逐项校验
+ *
+ * 校验失败时返回结构化错误，并可格式化为模型可读的提示文本
+ */
+
+import type { ToolSchema, ToolSchemaProperty } from '../llm/LLM'
+
+export interface ToolArgumentError {
+  path: string        // 参数路径，例如 "radius" 或 "points[0].x"
+  message: string     // 中文错误说明
+  received?: unknown  // 实际收到的值
+}
+
+export interface ToolArgumentValidationResult {
+  valid: boolean
+  value: Record<string, unknown>   // 规范化后的参数（已转换类型并填充默认值）
+  errors: ToolArgumentError[]
+}
+
+const NUMERIC_STRING_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+
+function toTypeList(type: string | string[] | undefined): string[] {
+  if (!type) {
+    return []
+  }
+  return Array.isArray(type) ? type : [type]
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined'
+  }
+  try {
+    return JSON.stringify(value)
+  } catch {
+    return String(value)
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'string':
+      return typeof value === 'string'
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'null':
+      return value === null
+    default:
+      return true
+  }
+}
+
+// 尝试把值转换为目标类型，无法转换时返回 undefined
+function coerceToType(value: unknown, type: string): unknown {
+  if (type === 'number' || type === 'integer') {
+    if (typeof value === 'string' && NUMERIC_STRING_REGEX.test(value.trim())) {
+      const parsed = Number(value.trim())
+      if (type === 'integer' && !Number.isInteger(parsed)) {
+        return undefined
+      }
+      return parsed
+    }
+    return undefined
+  }
+
+  if (type === 'boolean' && typeof value === 'string') {
+    const normalized = value.trim().toLowerCase()
+    if (normalized === 'true') return true
+    if (normalized === 'false') return false
+    return undefined
+  }
+
+  if (type === 'string' && typeof value === 'number' && Number.isFinite(value)) {
+    return String(value)
+  }
+
+  if ((type === 'object' || type === 'array') && typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value)
+      return matchesType(parsed, type) ? parsed : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  return undefined
+}
+
+function validateValue(
+  value: unknown,
+  schema: ToolSchemaProperty,
+  path: string,
+  errors: ToolArgumentError[]
+): unknown {
+  const types = toTypeList(schema.type)
+  let current = value
+
+  if (types.length > 0) {
+    // 联合类型包含 number 时优先把数字字符串规范化为数字
+    const prefersNumber = typeof current === 'string' && (types.includes('number') || types.includes('integer'))
+    if (prefersNumber) {
+      const numeric = coerceToType(current, types.includes('integer') && !types.includes('number') ? 'integer' : 'number')
+      if (numeric !== undefined) {
+        current = numeric
+      }
+    }
+
+    if (!types.some(type => matchesType(current, type))) {
+      const coerced = types
+        .map(type => coerceToType(current, type))
+        .find(candidate => candidate !== undefined)
+
+      if (coerced === undefined) {
+        errors.push({
+          path,
+          message: `类型错误，应为 ${types.join(' 或 ')}`,
+          received: value
+        })
+        return value
+      }
+      current = coerced
+    }
+  }
+
+  if (schema.enum && schema.enum.length > 0 && !schema.enum.includes(current as string)) {
+    errors.push({
+      path,
+      message: `取值必须是以下之一: ${schema.enum.join(', ')}`,
+      received: value
+    })
+  }
+
+  if (typeof current === 'number') {
+    if (schema.minimum !== undefined && current < schema.minimum) {
+      errors.push({ path, message: `不能小于 ${schema.minimum}`, received: value })
+    }
+    if (schema.maximum !== undefined && current > schema.maximum) {
+      errors.push({ path, message: `不能大于 ${schema.maximum}`, received: value })
+    }
+    if (schema.exclusiveMinimum !== undefined && current <= schema.exclusiveMinimum) {
+      errors.push({ path, message: `必须大于 ${schema.exclusiveMinimum}`, received: value })
+    }
+    if (schema.exclusiveMaximum !== undefined && current >= schema.exclusiveMaximum) {
+      errors.push({ path, message: `必须小于 ${schema.exclusiveMaximum}`, received: value })
+    }
+  }
+
+  if (matchesType(current, 'object') && schema.properties) {
+    current = validateObject(current as Record<string, unknown>, schema.properties, schema.required, undefined, path, errors)
+  }
+
+  if (Array.isArray(current) && schema.items) {
+    const itemSchema = schema.items
+    current = current.map((item, index) => validateValue(item, itemSchema, `${path}[${index}]`, errors))
+  }
+
+  return current
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+function validateObject(
+  input: Record<string, unknown>,
+  properties: Record<string, ToolSchemaProperty>,
+  required: string[] | undefined,
+  anyOf: Array<{ required: string[] }> | undefined,
+  basePath: string,
+  errors: ToolArgumentError[]
+): Record<string, unknown> {
+  const output: Record<string, unknown> = { ...input }
+  const joinPath = (key: string) => (basePath ? `${basePath}.${key}` : key)
+
+  for (const key of required ?? []) {
+    if (isMissing(input[key])) {
+      errors.push({ path: joinPath(key), message: '缺少必填参数', received: input[key] })
+    }
+  }
+
+  if (anyOf && anyOf.length > 0) {
+    const satisfied = anyOf.some(combo => combo.required.every(key => !isMissing(input[key])))
+    if (!satisfied) {
+      const combos = anyOf.map(combo => `[${combo.required.join(', ')}]`).join(' 或 ')
+      errors.push({ path: basePath || '(root)', message: `至少需要提供以下参数组合之一: ${combos}` })
+    }
+  }
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const raw = input[key]
+
+    if (isMissing(raw)) {
+      // 可选参数缺失时填充默认值，必填参数的缺失已在上方报告
+      if (propertySchema.default !== undefined && !(required ?? []).includes(key)) {
+        output[key] = propertySchema.default
+      } else {
+        delete output[key]
+      }
+      continue
+    }
+
+    output[key] = validateValue(raw, propertySchema, joinPath(key), errors)
+  }
+
+  return output
+}
+
+/**
+ * 根据 ToolSchema 校验工具参数
+ */
+export function validateToolArguments(schema: ToolSchema, args: unknown): ToolArgumentValidationResult {
+  const errors: ToolArgumentError[] = []
+
+  if (args === undefined || args === null) {
+    args = {}
+  }
+
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return {
+      valid: false,
+      value: {},
+      errors: [{ path: '(root)', message: '参数必须是 JSON 对象', received: args }]
+    }
+  }
+
+  const value = validateObject(
+    args as Record<string, unknown>,
+    schema.properties ?? {},
+    schema.required,
+    schema.anyOf,
+    '',
+    errors
+  )
+
+  return {
+    valid: errors.length === 0,
+    value,
+    errors
+  }
+}
+
+/**
+ * 将校验错误格式化为模型可读的提示文本
+ */
+export function formatToolArgumentErrors(toolName: string, errors: ToolArgumentError[]): string {
+  const lines = errors.map(error => {
+    const received = error.received !== undefined ? `，当前值: ${describeValue(error.received)}` : ''
+    return `- ${error.path}: ${error.message}${received}`
+  })
+
+  return `工具 ${toolName} 参数校验失败：\n${lines.join('\n')}\n请根据参数说明修正后重新调用。`
+}
@@ -100,7 +100,7 @@ function normalizeToolCall(obj: any): ParsedToolCall {
 /**
  * 解析单个工具调用块的内容
  */
-function parseToolCallBlock(content: string): ParsedToolCall[] {
+export function parseToolCallBlock(content: string): ParsedToolCall[] {
   console.log('🔍 解析工具调用块:', content)
   
   const parsed = safeParseJson(content)
@@ -350,6 +350,13 @@ export function hasToolCallTags(text: string): boolean {
   return false
 }
 
+/**
+ * 去掉工具描述中的 <tool_calls> 标签示例（原生 function calling 模式下模型不应输出标签）
+ */
+export function stripToolCallExamples(text: string): string {
+  return text.replace(/\s*示例：<tool_calls>[\s\S]*?<\/tool_calls>/g, '').trim()
+}
+
 /**
  * 获取工具调用的摘要信息（用于日志和调试）
  */
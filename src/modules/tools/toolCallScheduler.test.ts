@@ -0,0 +1,119 @@
+/**
+ * 批量工具调用调度器测试套件
+ */
+
+import { executeToolCallBatch, findToolCallReferences, resolveToolCallReferences } from './toolCallScheduler'
+import type { ToolCall, ToolResponse } from '../llm/LLM'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+function createCall(id: string, name: string, args: Record<string, unknown>): ToolCall {
+  return { id, name, arguments: JSON.stringify(args) }
+}
+
+function createResponse(toolCall: ToolCall, result: Record<string, unknown>): ToolResponse {
+  return { tool_call_id: toolCall.id, name: toolCall.name, content: JSON.stringify(result) }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🗺️ 开始运行批量工具调用调度器测试...')
+
+  try {
+    // 测试 1: 独立调用并发执行且不超过并发上限，结果保持原始顺序
+    let running = 0
+    let peak = 0
+    const independent = [0, 1, 2, 3, 4].map(index => createCall(`call_${index}`, 'draw_circle', { radius: index + 1 }))
+    const results1 = await executeToolCallBatch(independent, async (toolCall, index) => {
+      running++
+      peak = Math.max(peak, running)
+      await delay(20 - index * 4) // 后面的调用先完成
+      running--
+      return createResponse(toolCall, { isSuccess: true, data: { index } })
+    }, { concurrency: 2 })
+    assert(peak === 2, `同时执行的调用数应该受并发上限限制，实际 ${peak}`)
+    assert(results1.map(result => JSON.parse(result.content).data.index).join(',') === '0,1,2,3,4', '结果应该按原始顺序返回')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: 引用同批次前面调用的结果，依赖完成后才执行并替换参数
+    const executed: string[] = []
+    const dependent = [
+      createCall('call_a', 'draw_rectangle', { color: 'red' }),
+      createCall('call_b', 'draw_circle', { radius: 5 }),
+      createCall('call_c', 'update_shape_color', { id: '$ref:0.id', color: 'blue' }),
+      createCall('call_d', 'delete_shape', { id: '$ref:call_b.id' })
+    ]
+    const results2 = await executeToolCallBatch(dependent, async (toolCall) => {
+      await delay(toolCall.name === 'draw_rectangle' ? 20 : 1)
+      executed.push(`${toolCall.name}:${toolCall.arguments}`)
+      const id = toolCall.name === 'draw_rectangle' ? 'rect_001' : toolCall.name === 'draw_circle' ? 'circle_001' : undefined
+      return createResponse(toolCall, { isSuccess: true, error: null, data: { id } })
+    })
+    const updateIndex = executed.findIndex(entry => entry.startsWith('update_shape_color'))
+    const drawIndex = executed.findIndex(entry => entry.startsWith('draw_rectangle'))
+    assert(updateIndex > drawIndex, '依赖的调用应该在被引用的调用完成后执行')
+    assert(executed[updateIndex].includes('"id":"rect_001"'), '占位引用应该替换为前面调用返回的 id')
+    assert(executed.some(entry => entry === 'delete_shape:{"id":"circle_001"}'), '应该支持按调用 id 引用')
+    assert(results2[2].tool_call_id === 'call_c', '结果应该保留原始的调用 id 与顺序')
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 被依赖的调用失败时不执行依赖它的调用；不能引用后面的调用
+    const unresolved: string[] = []
+    const failing = [
+      createCall('call_x', 'draw_rectangle', {}),
+      createCall('call_y', 'update_shape_color', { id: '$ref:0.id' }),
+      createCall('call_z', 'update_shape_color', { id: '$ref:3.id' }),
+      createCall('call_w', 'draw_circle', {})
+    ]
+    const executedNames: string[] = []
+    const results3 = await executeToolCallBatch(failing, async (toolCall) => {
+      executedNames.push(toolCall.name)
+      const isSuccess = toolCall.name !== 'draw_rectangle'
+      return createResponse(toolCall, { isSuccess, error: isSuccess ? null : '坐标缺失', data: { id: 'circle_002' } })
+    }, {
+      onUnresolved: (toolCall, reason) => {
+        unresolved.push(reason)
+        return createResponse(toolCall, { skipped: true, reason })
+      }
+    })
+    assert(executedNames.join(',') === 'draw_rectangle,draw_circle', '依赖失败或引用无效的调用不应该执行')
+    assert(unresolved[0].includes('排在前面') && unresolved[1].includes('#0'), '应该说明未执行的原因')
+    assert(JSON.parse(results3[1].content).skipped === true, '未执行的调用应该使用 onUnresolved 生成的结果')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 引用的查找与解析
+    const references = findToolCallReferences({ id: '$ref:0.id', points: [{ x: '$ref:1.center.x' }], text: '普通文本' })
+    assert(references.length === 2 && references[1].path.join('.') === 'center.x', '应该递归找到全部引用')
+    const resolved = resolveToolCallReferences({ x: '$ref:0.center.x' }, () => ({
+      tool_call_id: 'call_0',
+      name: 'draw_circle',
+      content: JSON.stringify({ isSuccess: true, data: { center: { x: 12 } } })
+    })) as Record<string, unknown>
+    assert(resolved.x === 12, '引用应该解析为原始类型的值')
+    let threw = false
+    try {
+      resolveToolCallReferences('$ref:0.missing', () => ({ tool_call_id: 'c', name: 'n', content: '{"data":{}}' }))
+    } catch {
+      threw = true
+    }
+    assert(threw, '引用不存在的字段应该报错')
+    console.log('✅ 测试 4 通过')
+
+    console.log('🎉 所有测试都通过了！批量工具调用调度器工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,239 @@
+/**
+ * 批量工具调用调度器
+ *
+ * 同一批次中的工具调用：
+ * - 互不依赖的调用并发执行，同时运行的数量受 concurrency 限制
+ * - 参数中可以用占位引用 "$ref:<序号或调用 id>.<字段路径>" 引用同批次前面调用的结果，
+ *   例如 update_shape_color 的 id 写成 "$ref:0.id"，表示使用第 1 个调用（draw_rectangle）返回的 id。
+ *   被引用的调用完成后才会执行，字段路径优先在结果的 data 中查找
+ * - 被依赖的调用失败时，依赖它的调用不会执行，直接返回错误
+ * - 结果按原始顺序返回，保证汇总的工具结果消息稳定
+ */
+
+import type { ToolCall, ToolResponse } from '../llm/LLM'
+
+export interface ToolCallReference {
+  target: string   // 被引用调用的序号（从 0 开始）或调用 id
+  path: string[]   // 结果中的字段路径
+}
+
+export interface ToolCallBatchOptions {
+  concurrency?: number  // 最多同时执行的调用数，默认 4
+  // 引用无效、无法解析或依赖的调用未成功时生成该调用的结果，默认返回错误结果
+  onUnresolved?: (toolCall: ToolCall, reason: string) => ToolResponse
+}
+
+export type ToolCallRunner = (toolCall: ToolCall, index: number) => Promise<ToolResponse>
+
+const REFERENCE_REGEX = /^\$ref:([A-Za-z0-9_-]+)(?:\.(.+))?$/
+const DEFAULT_CONCURRENCY = 4
+
+function parseReference(value: string): ToolCallReference | null {
+  const match = REFERENCE_REGEX.exec(value.trim())
+  if (!match) {
+    return null
+  }
+  return {
+    target: match[1],
+    path: match[2] ? match[2].split('.').filter(Boolean) : []
+  }
+}
+
+function parseArguments(toolCall: ToolCall): unknown {
+  try {
+    return toolCall.arguments ? JSON.parse(toolCall.arguments) : {}
+  } catch {
+    return null
+  }
+}
+
+function parseResponseContent(response: ToolResponse): any {
+  try {
+    return JSON.parse(response.content)
+  } catch {
+    return null
+  }
+}
+
+function createErrorResponse(toolCall: ToolCall, error: string): ToolResponse {
+  return {
+    tool_call_id: toolCall.id,
+    name: toolCall.name,
+    content: JSON.stringify({ isSuccess: false, error, data: null })
+  }
+}
+
+/**
+ * 工具返回 isSuccess: false、error 字段或被跳过时视为未成功
+ */
+export function isFailedToolResponse(response: ToolResponse): boolean {
+  const content = parseResponseContent(response)
+  return content?.isSuccess === false || Boolean(content?.error) || content?.skipped === true
+}
+
+/**
+ * 收集参数中的全部占位引用（递归查找对象与数组）
+ */
+export function findToolCallReferences(args: unknown): ToolCallReference[] {
+  if (typeof args === 'string') {
+    const reference = parseReference(args)
+    return reference ? [reference] : []
+  }
+
+  if (Array.isArray(args)) {
+    return args.flatMap(item => findToolCallReferences(item))
+  }
+
+  if (args && typeof args === 'object') {
+    return Object.values(args).flatMap(value => findToolCallReferences(value))
+  }
+
+  return []
+}
+
+export function hasToolCallReferences(args: unknown): boolean {
+  return findToolCallReferences(args).length > 0
+}
+
+// 在工具结果中按路径取值：优先查找 data 字段，其次查找结果本身
+function readResultPath(content: any, path: string[]): unknown {
+  const read = (root: any) => path.reduce((current, key) => (current == null ? undefined : current[key]), root)
+
+  if (path.length === 0) {
+    return content?.data ?? content
+  }
+
+  const fromData = read(content?.data)
+  return fromData !== undefined ? fromData : read(content)
+}
+
+/**
+ * 用已完成调用的结果替换参数中的占位引用，无法解析时抛出错误
+ */
+export function resolveToolCallReferences(
+  args: unknown,
+  resolveTarget: (target: string) => ToolResponse | undefined
+): unknown {
+  if (typeof args === 'string') {
+    const reference = parseReference(args)
+    if (!reference) {
+      return args
+    }
+
+    const response = resolveTarget(reference.target)
+    if (!response) {
+      throw new Error(`无法解析引用 ${args}：目标调用不存在或尚未完成`)
+    }
+
+    const value = readResultPath(parseResponseContent(response), reference.path)
+    if (value === undefined) {
+      throw new Error(`无法解析引用 ${args}：结果中没有字段 ${reference.path.join('.')}`)
+    }
+    return value
+  }
+
+  if (Array.isArray(args)) {
+    return args.map(item => resolveToolCallReferences(item, resolveTarget))
+  }
+
+  if (args && typeof args === 'object') {
+    return Object.fromEntries(
+      Object.entries(args).map(([key, value]) => [key, resolveToolCallReferences(value, resolveTarget)])
+    )
+  }
+
+  return args
+}
+
+/**
+ * 按依赖关系并发执行一批工具调用，结果按原始顺序返回
+ */
+export async function executeToolCallBatch(
+  toolCalls: ToolCall[],
+  run: ToolCallRunner,
+  options: ToolCallBatchOptions = {}
+): Promise<ToolResponse[]> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+  const results: Array<ToolResponse | undefined> = new Array(toolCalls.length)
+  const unresolved = (toolCall: ToolCall, reason: string): ToolResponse => {
+    console.warn(`⚠️ 工具调用未执行: ${toolCall.name}`, reason)
+    return options.onUnresolved ? options.onUnresolved(toolCall, reason) : createErrorResponse(toolCall, reason)
+  }
+  const completions: Array<Promise<ToolResponse>> = []
+
+  const indexOfTarget = (target: string): number => {
+    if (/^\d+$/.test(target)) {
+      return Number(target)
+    }
+    return toolCalls.findIndex(toolCall => toolCall.id === target)
+  }
+
+  // 简单的信号量：限制同时执行的调用数，排队的调用按原始顺序获得执行权
+  let running = 0
+  const waiting: Array<() => void> = []
+  const acquire = async (): Promise<void> => {
+    if (running < concurrency) {
+      running++
+      return
+    }
+    await new Promise<void>(resolve => waiting.push(resolve))
+  }
+  const release = (): void => {
+    const next = waiting.shift()
+    if (next) {
+      next()
+    } else {
+      running--
+    }
+  }
+
+  const executeAt = async (index: number): Promise<ToolResponse> => {
+    const toolCall = toolCalls[index]
+    const args = parseArguments(toolCall)
+    const references = findToolCallReferences(args)
+
+    let resolvedCall = toolCall
+    if (references.length > 0) {
+      const dependencyIndexes = Array.from(new Set(references.map(reference => indexOfTarget(reference.target))))
+      const invalid = dependencyIndexes.find(dependency => dependency < 0 || dependency >= index)
+      if (invalid !== undefined) {
+        return unresolved(toolCall, '参数中的引用只能指向同一批次中排在前面的工具调用')
+      }
+
+      // 等待被依赖的调用完成；等待期间不占用并发名额
+      const dependencies = await Promise.all(dependencyIndexes.map(dependency => completions[dependency]))
+      const failedIndex = dependencies.findIndex(response => isFailedToolResponse(response))
+      if (failedIndex !== -1) {
+        const dependency = dependencyIndexes[failedIndex]
+        return unresolved(toolCall, `依赖的工具调用 #${dependency}（${toolCalls[dependency].name}）未成功，未执行`)
+      }
+
+      try {
+        const resolvedArgs = resolveToolCallReferences(args, target => results[indexOfTarget(target)])
+        resolvedCall = { ...toolCall, arguments: JSON.stringify(resolvedArgs) }
+        console.log(`🔗 已解析工具调用引用: ${toolCall.name}`, resolvedArgs)
+      } catch (error) {
+        return unresolved(toolCall, error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    await acquire()
+    try {
+      return await run(resolvedCall, index)
+    } catch (error) {
+      return createErrorResponse(toolCall, error instanceof Error ? error.message : String(error))
+    } finally {
+      release()
+    }
+  }
+
+  toolCalls.forEach((_, index) => {
+    const completion = executeAt(index).then(response => {
+      results[index] = response
+      return response
+    })
+    completions.push(completion)
+  })
+
+  return Promise.all(completions)
+}
@@ -11,25 +11,56 @@
  */
 
 import { EventEmitter } from 'eventemitter3'
-import { Agent, type AgentConfig } from '@/modules/agent'
+import { Agent, type AgentConfig, type TaggedImage, type VisualSource } from '@/modules/agent'
 import { AudioRecorder } from '@/lib/audio-recorder'
 import { AudioStreamer } from '@/lib/audio-streamer'
-import { useScreenCapture, type UseScreenCaptureResult } from '@/composables/useScreenCapture'
-import { ModernVadDetector, type ModernVadConfig } from '@/lib/modern-vad-detector'
+import type { ModernVadConfig } from '@/lib/modern-vad-detector'
 import { audioContext } from '@/lib/utils'
-import { testTool } from '@/modules/llm/LLMExample'
-import { canvasTools } from '@/modules/tools/canvasTools'
+import { testToolPack } from '@/modules/llm/LLMExample'
+import { createCanvasToolPack } from '@/modules/tools/canvasTools'
+import { screenAnnotationToolPack } from '@/modules/tools/screenAnnotationTools'
+import { useCanvasStore } from '@/stores/canvas'
+import { ToolRegistry, type ToolPack, type ToolPackInfo } from '@/modules/tools/ToolRegistry'
+import { FrameChangeDetector, computeImageSignature, type FrameDifference } from '@/modules/screen/frameChangeDetector'
+import { applyImageBudget, createCanvasImageEncoder, resolveImageBudget, type BudgetImage, type ImageBudget } from '@/modules/screen/imageBudget'
+import { ScreenClipRecorder, isClipRecordingSupported } from '@/modules/screen/ScreenClipRecorder'
+import { CameraCaptureSource, DisplayCaptureSource, type ScreenCaptureSource } from '@/modules/screen/ScreenCaptureSource'
+import { composeFrames, describeFrameComposite, isCompositeEnabled, type FrameCompositeOptions } from '@/modules/screen/frameCompositor'
+import { buildScreenGridPromptSegment, createGridOverlay, type ScreenGridOptions } from '@/modules/screen/screenGrid'
+import { createAnnotationOverlay, type ScreenAnnotation } from '@/modules/screen/screenAnnotations'
+import { combineFrameOverlays, type FrameOverlay } from '@/modules/screen/frameCrop'
+import { supportsVideoInput } from '@/modules/llm/providers'
+import type { CaptureFocusMode, RegionOfInterest } from '@/types/screen'
+import {
+  ClientVadStrategy,
+  createTurnDetectionStrategy,
+  replaceTurnDetectionStrategy,
+  type TurnDetectionConfig,
+  type TurnDetectionMode,
+  type TurnDetectionStrategy
+} from './core/TurnDetectionStrategy'
+import { computeHeardRatio, shouldBargeIn } from './core/BargeIn'
 
 // ===== 类型定义 =====
 export interface MultiModalServiceConfig {
   agentConfig: AgentConfig
   vadConfig?: Partial<ModernVadConfig>
+  turnDetectionConfig?: TurnDetectionConfig
   screenshotConfig?: {
     captureInterval?: number
     maxScreenshots?: number
     includeSystemAudio?: boolean
     showPreview?: boolean
     imageQuality?: number
+    skipUnchangedFrames?: boolean  // 丢弃与上一张截图几乎相同的截图，默认 true
+    changeSensitivity?: number     // 画面变化检测灵敏度 0 ~ 1，越大越容易判定为变化，默认 0.7
+    focusMode?: CaptureFocusMode   // 截图模式，默认 full；没有设置区域时总是整屏
+    regionOfInterest?: RegionOfInterest | null  // 截图区域（相对坐标）
+    imageBudget?: Partial<ImageBudget>  // 覆盖当前供应商的图片发送预算
+    sendMode?: 'images' | 'video'  // 屏幕内容的发送方式，默认 images；供应商不支持视频时退回截图帧
+    clipDuration?: number          // video 模式下视频片段的最长时长（毫秒），默认 6000
+    composite?: FrameCompositeOptions  // 摄像头开启时把摄像头画面合成到截图中（画中画 / 左右并排），默认不合成
+    grid?: ScreenGridOptions       // 在截图上叠加带编号的坐标网格，并在系统提示词中说明网格规则，默认关闭
   }
   audioConfig?: {
     sampleRate?: number
@@ -40,6 +71,19 @@ export interface MultiModalServiceConfig {
     sendHistoryImages?: boolean
     sendHistoryAudio?: boolean  // 新增：是否发送历史音频
   }
+  bargeInConfig?: {
+    enabled?: boolean  // AI回复/播放期间检测到用户说话时打断回复
+  }
+  toolPacks?: ToolPack[]  // 会话可用的工具包，默认注册测试工具与画布工具
+  captureSource?: ScreenCaptureSource  // 截图的画面源，默认为屏幕共享
+  cameraConfig?: {
+    deviceId?: string         // 摄像头设备，默认使用系统默认摄像头
+    width?: number            // 期望分辨率，默认 1280 × 720
+    height?: number
+    frameRate?: number        // 摄像头帧率，默认 15
+    captureInterval?: number  // 取帧间隔（毫秒），默认与截图间隔相同
+    maxFrames?: number        // 每次请求最多附带的摄像头画面数，默认 1
+  }
 }
 
 export enum ServiceState {
@@ -61,11 +105,20 @@ export interface ServiceStatus {
   isVoiceActive: boolean
 }
 
-interface Screenshot {
+interface ScreenshotImage {
   data: string
+  width: number
+  height: number
+}
+
+interface Screenshot extends ScreenshotImage {
+  source: VisualSource
   timestamp: number
+  detail?: ScreenshotImage  // focus 模式下选定区域的高清裁剪，data 为整屏概览
 }
 
+const FOCUS_MODE_IMAGE_HINT = '截图说明：图片按"整屏低分辨率概览、用户选定区域的高清裁剪"成对提供，请结合两者理解屏幕内容，细小文字以高清裁剪为准。'
+
 export class MultiModalService extends EventEmitter {
   // 状态管理
   private currentState: ServiceState = ServiceState.IDLE
@@ -73,28 +126,38 @@ export class MultiModalService extends EventEmitter {
   
   // 核心组件 - 使用现代化实现
   private agent: Agent
+  private toolRegistry: ToolRegistry
   private audioRecorder: AudioRecorder
   private audioStreamer: AudioStreamer | null = null
   private audioContext: AudioContext | null = null
-  private vadDetector: ModernVadDetector
+  private turnDetector: TurnDetectionStrategy
   private detachVadListeners: (() => void) | null = null
-  private screenCapture: UseScreenCaptureResult
+  private captureSource: ScreenCaptureSource
+  private frameChangeDetector: FrameChangeDetector
+  private clipRecorder: ScreenClipRecorder | null = null
+  private cameraSource: CameraCaptureSource | null = null
   
   private config: MultiModalServiceConfig
   private toolsEnabled = true
+  private bargeInEnabled: boolean
+  private activeAgentRequest: Promise<void> | null = null
   
   // 音频处理相关
   private audioChunks: string[] = [] // 存储base64音频数据
   private screenshots: Screenshot[] = []
+  private screenAnnotations: ScreenAnnotation[] = []
   private isRecordingVoice: boolean = false
   private hasRecordedVoiceChunk: boolean = false
   private listeningStartedAt: number | null = null
   private captureTimer: number | null = null
+  private cameraFrames: Screenshot[] = []
+  private cameraTimer: number | null = null
 
   constructor(config: MultiModalServiceConfig) {
     super()
 
     this.config = config
+    this.bargeInEnabled = config.bargeInConfig?.enabled ?? false
     this.status = {
       state: ServiceState.IDLE,
       isInitialized: false,
@@ -115,24 +178,22 @@ export class MultiModalService extends EventEmitter {
     this.agent = new Agent(mergedAgentConfig)
     this.agent.setToolsEnabled(this.toolsEnabled)
 
-    // 注册测试工具与画布控制工具
-    this.agent.registerTools([testTool])
-    this.agent.registerTools(canvasTools)
+    // 注册工具包（默认为测试工具、画布控制工具与屏幕标注工具），每个会话独立启用/禁用
+    this.toolRegistry = new ToolRegistry()
+    const toolPacks = config.toolPacks ?? [testToolPack, createCanvasToolPack(() => useCanvasStore()), screenAnnotationToolPack]
+    toolPacks.forEach(pack => this.toolRegistry.registerPack(pack))
+    this.agent.setToolRegistry(this.toolRegistry)
+    this.toolRegistry.on('changed', (packs: ToolPackInfo[]) => this.emit('toolPacksChanged', packs))
 
     // 初始化音频录制器
     const sampleRate = config.audioConfig?.sampleRate ?? 16000
     this.audioRecorder = new AudioRecorder(sampleRate)
 
-    // 初始化VAD检测器
-    this.vadDetector = new ModernVadDetector({
-      threshold: config.vadConfig?.threshold ?? 5,
-      silenceDuration: config.vadConfig?.silenceDuration ?? 800,
-      onVoiceStart: () => this.onVoiceStart(),
-      onVoiceStop: () => this.onVoiceStop()
-    })
+    // 初始化轮次检测策略（客户端VAD / 服务端VAD）
+    this.turnDetector = this.createTurnDetector(config.turnDetectionConfig?.mode ?? 'client_vad')
 
-    // 初始化屏幕捕获
-    this.screenCapture = useScreenCapture()
+    // 初始化画面源
+    this.captureSource = config.captureSource ?? new DisplayCaptureSource()
 
     // 应用默认截图配置
     if (!this.config.screenshotConfig) {
@@ -142,6 +203,14 @@ export class MultiModalService extends EventEmitter {
     this.config.screenshotConfig.maxScreenshots = this.config.screenshotConfig.maxScreenshots ?? 1
     this.config.screenshotConfig.showPreview = this.config.screenshotConfig.showPreview ?? true
     this.config.screenshotConfig.imageQuality = this.config.screenshotConfig.imageQuality ?? 0.8
+    this.config.screenshotConfig.skipUnchangedFrames = this.config.screenshotConfig.skipUnchangedFrames ?? true
+    this.config.screenshotConfig.changeSensitivity = this.config.screenshotConfig.changeSensitivity ?? 0.7
+
+    this.frameChangeDetector = new FrameChangeDetector({
+      enabled: this.config.screenshotConfig.skipUnchangedFrames,
+      sensitivity: this.config.screenshotConfig.changeSensitivity
+    })
+    this.syncScreenGrid()
 
     this.setupEventListeners()
   }
@@ -156,11 +225,6 @@ export class MultiModalService extends EventEmitter {
       this.audioContext = await audioContext({ 
         sampleRate: this.config.audioConfig?.sampleRate ?? 24000 
       })
-      
-      // 初始化VAD检测器
-      this.vadDetector.initialize((volume) => {
-        this.vadDetector.processVolume(volume)
-      })
 
       this.currentState = ServiceState.READY
       this.status.isInitialized = true
@@ -195,8 +259,8 @@ export class MultiModalService extends EventEmitter {
       this.status.isListening = true
       this.listeningStartedAt = Date.now()
 
-      // 启动VAD检测
-      this.vadDetector.startDetection()
+      // 启动轮次检测
+      await this.turnDetector.start()
 
       this.emit('listeningStarted')
       this.emit('stateChanged', this.currentState)
@@ -223,22 +287,19 @@ export class MultiModalService extends EventEmitter {
     }
 
     try {
-      await this.screenCapture.startScreenCapture()
-
-      // 等待一小段时间确保Vue响应性更新完成
-      await new Promise(resolve => setTimeout(resolve, 50))
+      await this.captureSource.start()
 
-      console.log('🖼️ 检查流状态:', {
-        isStreaming: this.screenCapture.isStreaming.value,
-        getStreamingStatus: this.screenCapture.getStreamingStatus(),
-        stream: !!this.screenCapture.stream.value,
-        streamActive: this.screenCapture.stream.value?.active
+      console.log('🖼️ 检查画面源状态:', {
+        kind: this.captureSource.kind,
+        isActive: this.captureSource.isActive,
+        stream: !!this.captureSource.stream
       })
 
-      // 使用同步检查方法验证屏幕捕获是否真正启动
-      if (this.screenCapture.getStreamingStatus()) {
+      if (this.captureSource.isActive) {
         this.status.isCapturing = true
         this.startScreenshotCapture()
+        this.syncClipRecorder()
+        this.syncAnnotationToolPack()
         console.log('🖼️ 屏幕捕获已启动')
         this.emit('screenCaptureStarted')
       } else {
@@ -265,10 +326,8 @@ export class MultiModalService extends EventEmitter {
 
     console.log('🛑 正在停止屏幕捕获...')
 
-    // 停止屏幕捕获
-    if (this.screenCapture.isStreaming.value) {
-      this.screenCapture.stopScreenCapture()
-    }
+    // 停止画面源
+    this.captureSource.stop()
 
     // 停止定时截图
     if (this.captureTimer) {
@@ -279,6 +338,9 @@ export class MultiModalService extends EventEmitter {
     // 重置状态
     this.status.isCapturing = false
     this.screenshots = []
+    this.frameChangeDetector.reset()
+    this.syncClipRecorder()
+    this.syncAnnotationToolPack()
 
     this.emit('screenCaptureStopped')
     console.log('🛑 屏幕捕获已停止')
@@ -297,8 +359,8 @@ export class MultiModalService extends EventEmitter {
       await this.audioRecorder.stop()
     }
 
-    // 停止VAD检测
-    this.vadDetector.stopDetection()
+    // 停止轮次检测
+    this.turnDetector.stop()
 
     // 重置状态
     this.status.isListening = false
@@ -397,7 +459,7 @@ export class MultiModalService extends EventEmitter {
     // 获取最新截图
     const maxScreenshots = this.config.screenshotConfig?.maxScreenshots ?? 1
     const screenshots = this.getLatestScreenshots(maxScreenshots)
-    const imageBase64List = screenshots.map(s => s.data)
+    const imageBase64List = screenshots.flatMap(s => (s.detail ? [s.data, s.detail.data] : [s.data]))
     const audioBase64 = this.combineAudioChunks()
     
     console.log('📋 准备发送数据', {
@@ -434,11 +496,33 @@ export class MultiModalService extends EventEmitter {
       images: imageBase64List // 添加图片数据
     })
 
-    await this.processAgentRequest({
-      text: '',
-      images: imageBase64List,
-      audio: audioBase64
-    })
+    // video 模式优先发送最近的屏幕视频片段，导出失败时退回截图帧
+    const clip = this.clipRecorder?.isRecording ? await this.clipRecorder.captureClip() : null
+    const cameraFrames = this.getLatestCameraFrames()
+    if (clip) {
+      // 视频片段只包含屏幕内容，摄像头画面单独发送
+      const camera = await this.applyImageBudget([], cameraFrames)
+      await this.processAgentRequest({
+        text: '',
+        images: camera.images,
+        videos: [clip.data],
+        audio: audioBase64
+      })
+    } else {
+      // 最新截图已经合成了摄像头画面时不再单独发送摄像头画面
+      const separateCameraFrames = screenshots[0]?.source === 'composite' ? [] : cameraFrames
+      const budgeted = await this.applyImageBudget(screenshots, separateCameraFrames)
+      const hasComposite = budgeted.images.some(image => image.source === 'composite')
+      const hints = [
+        budgeted.hasFocusDetail ? FOCUS_MODE_IMAGE_HINT : '',
+        hasComposite && this.config.screenshotConfig?.composite ? describeFrameComposite(this.config.screenshotConfig.composite) : ''
+      ]
+      await this.processAgentRequest({
+        text: hints.filter(Boolean).join('\n'),
+        images: budgeted.images,
+        audio: audioBase64
+      })
+    }
 
     this.audioChunks = []
     this.hasRecordedVoiceChunk = false
@@ -452,29 +536,75 @@ export class MultiModalService extends EventEmitter {
       return
     }
 
+    if (this.shouldBargeIn()) {
+      this.handleBargeIn()
+    }
+
     this.startVoiceCapture()
   }
 
+  // 打断判断：AI仍在生成或播放时用户开口
+  private shouldBargeIn(): boolean {
+    return shouldBargeIn({
+      enabled: this.bargeInEnabled,
+      isListening: this.status.isListening,
+      isProcessing: this.status.isProcessing,
+      isPlaying: Boolean(this.audioStreamer?.isActive())
+    })
+  }
+
+  // 执行打断：停止播放、中止生成、按实际听到的比例截断助手消息
+  private handleBargeIn(): void {
+    const progress = this.audioStreamer?.getPlaybackProgress()
+    const heardRatio = computeHeardRatio(progress, this.agent.isResponseInProgress())
+
+    console.log('✋ 检测到用户插话，打断当前回复', {
+      heardRatio,
+      playedSeconds: progress?.playedSeconds,
+      receivedSeconds: progress?.receivedSeconds
+    })
+
+    this.stopStreamingPlayback()
+    this.agent.interruptResponse(heardRatio)
+
+    this.status.isProcessing = false
+    this.currentState = ServiceState.LISTENING
+    this.emit('bargeIn', { heardRatio })
+    this.emit('stateChanged', this.currentState)
+  }
+
+  setBargeInEnabled(enabled: boolean): void {
+    this.bargeInEnabled = enabled
+    this.config.bargeInConfig = { ...this.config.bargeInConfig, enabled }
+  }
+
+  isBargeInEnabled(): boolean {
+    return this.bargeInEnabled
+  }
+
   private async onVoiceStop(): Promise<void> {
     await this.finalizeVoiceCapture()
   }
 
   // 处理Agent请求
-  private async processAgentRequest(payload: { text?: string; images?: string[]; audio?: string }): Promise<void> {
+  private async processAgentRequest(payload: { text?: string; images?: TaggedImage[]; videos?: string[]; audio?: string }): Promise<void> {
     const hasText = payload.text && payload.text.trim().length > 0
     const hasImages = Boolean(payload.images && payload.images.length > 0)
+    const hasVideos = Boolean(payload.videos && payload.videos.length > 0)
     const hasAudio = Boolean(payload.audio && payload.audio.length > 0)
 
     console.log('🚀 处理Agent请求', {
       hasText,
       hasImages,
+      hasVideos,
       hasAudio,
       textLength: payload.text?.length || 0,
       imagesCount: payload.images?.length || 0,
+      videosCount: payload.videos?.length || 0,
       audioLength: payload.audio?.length || 0
     })
 
-    if (!hasText && !hasImages && !hasAudio) {
+    if (!hasText && !hasImages && !hasVideos && !hasAudio) {
       console.warn('没有内容提供给Agent请求')
       this.currentState = ServiceState.LISTENING
       this.emit('stateChanged', this.currentState)
@@ -500,15 +630,30 @@ export class MultiModalService extends EventEmitter {
       console.log('📤 发送到Agent的数据:', {
         hasText,
         hasImages,
+        hasVideos,
         hasAudio,
         payload: {
           text: payload.text,
           images: payload.images ? `${payload.images.length} images` : 'no images',
+          videos: payload.videos ? `${payload.videos.length} videos` : 'no videos',
           audio: payload.audio ? `${payload.audio.length} chars` : 'no audio'
         }
       })
 
-      await this.agent.sendMultiModalMessage(payload)
+      // 打断后上一轮回复可能仍在收尾，等待其结束以保证历史顺序
+      if (this.activeAgentRequest) {
+        await this.activeAgentRequest.catch(() => undefined)
+      }
+
+      const request = this.agent.sendMultiModalMessage(payload)
+      this.activeAgentRequest = request
+      try {
+        await request
+      } finally {
+        if (this.activeAgentRequest === request) {
+          this.activeAgentRequest = null
+        }
+      }
     } catch (error) {
       console.error('❌ 处理Agent请求失败:', error)
       this.emit('error', error)
@@ -523,44 +668,33 @@ export class MultiModalService extends EventEmitter {
 
   // 暂停/恢复监听（按照语音交互控制流程规范）
   private pauseListening(): void {
+    if (this.bargeInEnabled) {
+      // 打断模式下保持轮次检测，以便用户随时插话
+      console.log('👂 AI回复期间保持语音监听（打断模式）')
+      return
+    }
+
     console.log('⏸️ 暂停语音监听 - AI回复期间')
-    this.vadDetector.stopDetection()
+    this.turnDetector.stop()
     this.emit('listeningPaused')
   }
 
   private resumeListening(): void {
     console.log('▶️ 恢复语音监听')
     if (this.status.isListening) {
-      // 完全重置VAD检测器状态
-      this.vadDetector.dispose()
-
-      // 重新创建VAD检测器，确保状态完全重置
-      this.vadDetector = new ModernVadDetector({
-        threshold: this.config.vadConfig?.threshold ?? 5,
-        silenceDuration: this.config.vadConfig?.silenceDuration ?? 800,
-        onVoiceStart: () => this.onVoiceStart(),
-        onVoiceStop: () => this.onVoiceStop()
-      })
-
-      // 重新初始化并连接音频录制器
-      this.vadDetector.initialize((volume) => {
-        this.vadDetector.processVolume(volume)
-      })
+      // 完全重置轮次检测状态并重新启动
+      this.turnDetector.reset()
 
-      this.attachVadEventListeners()
       // 重新设置音频录制器的音量事件监听
       this.setupAudioRecorderVolumeListener()
 
-      // 启动VAD检测
-      this.vadDetector.startDetection()
-
       // 重置时间和状态
       this.listeningStartedAt = Date.now()
       this.status.isVoiceActive = false
       this.isRecordingVoice = false
 
       this.emit('listeningResumed')
-      console.log('▶️ VAD检测器已完全重置并重新启动')
+      console.log('▶️ 轮次检测已完全重置并重新启动', { mode: this.turnDetector.mode })
     }
   }
 
@@ -575,6 +709,11 @@ export class MultiModalService extends EventEmitter {
   private setupAudioRecorderEventListeners(): void {
     // AudioRecorder事件
     this.audioRecorder.on('data', (base64Data: string) => {
+      // 服务端VAD需要持续接收麦克风音频（打断模式下回复期间也需要）
+      if (this.status.isListening && (!this.status.isProcessing || this.bargeInEnabled)) {
+        this.turnDetector.processAudio(base64Data)
+      }
+
       if (this.isRecordingVoice && !this.status.isProcessing) {
         this.audioChunks.push(base64Data)
         this.hasRecordedVoiceChunk = true
@@ -610,9 +749,9 @@ export class MultiModalService extends EventEmitter {
 
     // 添加新的音量监听器
     this.audioRecorder.on('volume', (volume: number) => {
-      // 传递给VAD检测器
-      if (this.vadDetector && this.status.isListening) {
-        this.vadDetector.processVolume(volume)
+      // 传递给轮次检测策略
+      if (this.turnDetector && this.status.isListening) {
+        this.turnDetector.processVolume(volume)
       }
       // 发送可视化数据
       this.emit('microphoneVisualization', { volume })
@@ -666,6 +805,23 @@ export class MultiModalService extends EventEmitter {
       this.emit('stateChanged', this.currentState)
     })
 
+    this.agent.on('responseCancelled', (payload) => {
+      console.log('⏹️ AI回复已取消:', payload)
+      this.stopStreamingPlayback()
+      this.resumeListening()
+      this.status.isProcessing = false
+      this.currentState = ServiceState.LISTENING
+
+      this.emit('agentResponseCancelled', payload)
+      this.emit('processingCompleted')
+      this.emit('stateChanged', this.currentState)
+    })
+
+    this.agent.on('responseInterrupted', (payload) => {
+      console.log('✋ AI回复已被打断:', payload)
+      this.emit('agentResponseInterrupted', payload)
+    })
+
     this.agent.on('toolCallStarted', (toolCall) => {
       console.log('🛠️ 工具调用开始:', toolCall)
       this.emit('toolCallStarted', toolCall)
@@ -680,17 +836,31 @@ export class MultiModalService extends EventEmitter {
       console.log('❌ 工具调用失败:', payload)
       this.emit('toolCallFailed', payload)
     })
+
+    this.agent.on('toolCallSkipped', (toolCall) => {
+      console.log('⏭️ 工具调用已跳过:', toolCall)
+      this.emit('toolCallSkipped', toolCall)
+    })
+
+    this.agent.on('stepCompleted', (step) => {
+      this.emit('agentStepCompleted', step)
+    })
+
+    this.agent.on('runCompleted', (summary) => {
+      console.log('🏁 AI多步回复结束:', summary.stopReason, `共 ${summary.stepCount} 步`)
+      this.emit('agentRunCompleted', summary)
+    })
   }
 
   // 设置VAD事件监听
   private attachVadEventListeners(): void {
     this.detachVadListeners?.()
 
-    if (!this.vadDetector) {
+    if (!this.turnDetector) {
       return
     }
 
-    const vad = this.vadDetector
+    const vad = this.turnDetector
     const handleVoiceStart = () => {
       this.emit('voiceStarted')
     }
@@ -740,6 +910,29 @@ export class MultiModalService extends EventEmitter {
     }
   }
 
+  // 立即停止播放并丢弃尚未播放的音频
+  private stopStreamingPlayback(): void {
+    if (!this.audioStreamer) {
+      return
+    }
+
+    const streamer = this.audioStreamer
+    this.audioStreamer = null
+    streamer.onComplete = () => {}
+    streamer.dispose()
+  }
+
+  // 停止当前回复（适用于“停止”按钮）：中止生成、跳过未执行的工具调用并立即停止播放
+  async stopResponse(): Promise<void> {
+    console.log('⏹️ 停止当前回复')
+    this.stopStreamingPlayback()
+    this.agent.cancelCurrentResponse()
+
+    if (this.activeAgentRequest) {
+      await this.activeAgentRequest.catch(() => undefined)
+    }
+  }
+
   // 屏幕截图管理
   private startScreenshotCapture(): void {
     const interval = this.config.screenshotConfig?.captureInterval ?? 2000
@@ -747,20 +940,18 @@ export class MultiModalService extends EventEmitter {
 
     this.captureTimer = window.setInterval(async () => {
       try {
-        // 使用同步检查方法检查流状态
-        if (!this.screenCapture.getStreamingStatus()) {
-          console.warn('📸 截图失败：屏幕流未激活，尝试重新启动...')
+        if (!this.captureSource.isActive) {
+          console.warn('📸 截图失败：画面源未激活，尝试重新启动...')
 
-          // 尝试重新启动屏幕捕获
+          // 尝试重新启动画面源
           try {
-            await this.screenCapture.startScreenCapture()
-            // 等待Vue响应性更新
-            await new Promise(resolve => setTimeout(resolve, 50))
-            if (!this.screenCapture.getStreamingStatus()) {
-              console.error('📸 屏幕流重新启动失败')
+            await this.captureSource.start()
+            if (!this.captureSource.isActive) {
+              console.error('📸 画面源重新启动失败')
               return
             }
-            console.log('📸 屏幕流重新启动成功')
+            console.log('📸 画面源重新启动成功')
+            this.syncClipRecorder()
           } catch (restartError) {
             console.error('📸 重新启动屏幕捕获失败:', restartError)
             return
@@ -768,32 +959,93 @@ export class MultiModalService extends EventEmitter {
         }
 
         const quality = this.config.screenshotConfig?.imageQuality ?? 0.8
-        const base64Data = await this.screenCapture.captureFrame(quality)
+        const frames = await this.captureSource.captureFrames(
+          quality,
+          {
+            mode: this.config.screenshotConfig?.focusMode,
+            region: this.config.screenshotConfig?.regionOfInterest
+          },
+          undefined,
+          this.createFrameOverlay()
+        )
+        const [primary, detail] = frames
+        const base64Data = primary?.data
 
         if (base64Data && base64Data.length > 0) {
-          this.addScreenshot({ data: base64Data, timestamp: Date.now() })
+          const timestamp = Date.now()
+          // 合成后的画面再做变化检测，摄像头画面变化也会保留
+          const composite = await this.composeWithCamera(primary)
+          const frame = composite ?? primary
+          if (await this.isFrameChanged(frame.data, timestamp)) {
+            this.addScreenshot({
+              source: composite ? 'composite' : 'screen',
+              data: frame.data,
+              width: frame.width,
+              height: frame.height,
+              timestamp,
+              detail: detail ? { data: detail.data, width: detail.width, height: detail.height } : undefined
+            })
+          }
         } else {
           console.warn('📸 截图失败：数据为空')
         }
       } catch (error) {
+        // 画面源在截图过程中关闭时，下一次定时截图会尝试重新启动
         console.warn('📸 截图失败:', error)
-
-        // 如果是流被关闭的错误，尝试重新启动
-        if (error instanceof Error && error.message.includes('not active')) {
-          console.log('📸 检测到流已关闭，尝试重新启动...')
-          try {
-            await this.screenCapture.startScreenCapture()
-            console.log('📸 屏幕捕获已重新启动')
-          } catch (restartError) {
-            console.error('📸 重新启动屏幕捕获失败:', restartError)
-          }
-        }
       }
     }, interval)
 
     console.log(`🖼️ 截图定时器已启动，间隔: ${interval}ms, 最大截图数: ${maxScreenshots}`)
   }
 
+  // 画面变化检测：未变化的截图不进入缓冲区，只刷新最新截图的时间戳
+  private async isFrameChanged(base64Data: string, timestamp: number): Promise<boolean> {
+    if (!this.frameChangeDetector.enabled) {
+      return true
+    }
+
+    let difference: FrameDifference | null
+    try {
+      const signature = await computeImageSignature(base64Data, this.frameChangeDetector.gridSize)
+      const decision = this.frameChangeDetector.evaluate(signature)
+      if (decision.changed) {
+        return true
+      }
+      difference = decision.difference
+    } catch (error) {
+      console.warn('📸 画面变化检测失败，保留截图:', error)
+      return true
+    }
+
+    if (this.screenshots.length > 0) {
+      this.screenshots[0].timestamp = timestamp
+    }
+    this.emit('screenshotSkipped', { timestamp, difference })
+    console.log(`📸 画面无明显变化，跳过截图（变化块占比 ${((difference?.changedRatio ?? 0) * 100).toFixed(2)}%）`)
+    return false
+  }
+
+  // 启用画面合成且摄像头开启时，把当前摄像头画面合成到截图中；合成失败时返回 null，按普通截图处理
+  private async composeWithCamera(frame: ScreenshotImage): Promise<ScreenshotImage | null> {
+    const options = this.config.screenshotConfig?.composite
+    if (!isCompositeEnabled(options) || !this.cameraSource?.isActive) {
+      return null
+    }
+
+    const quality = this.config.screenshotConfig?.imageQuality ?? 0.8
+    try {
+      const [cameraFrame] = await this.cameraSource.captureFrames(quality)
+      const camera = cameraFrame ?? this.cameraFrames[0]
+      if (!camera) {
+        return null
+      }
+      return await composeFrames(frame, camera, options, quality)
+    } catch (error) {
+      console.warn('🖼️ 画面合成失败，使用原始截图:', error)
+      return null
+    }
+  }
+
   private addScreenshot(screenshot: Screenshot): void {
     // 添加新截图到数组开头
     this.screenshots.unshift(screenshot)
@@ -808,6 +1060,183 @@ export class MultiModalService extends EventEmitter {
     console.log(`📸 截图已添加，当前数量: ${this.screenshots.length}/${maxScreenshots}`)
   }
 
+  // 根据发送方式与供应商能力启动或停止屏幕视频片段录制
+  private syncClipRecorder(): void {
+    const stream = this.captureSource.stream
+    const wantsVideo = this.config.screenshotConfig?.sendMode === 'video'
+    const { providerId, baseURL } = this.config.agentConfig.llmConfig
+
+    if (!this.status.isCapturing || !stream || !wantsVideo) {
+      this.clipRecorder?.stop()
+      return
+    }
+
+    if (!supportsVideoInput(providerId, baseURL) || !isClipRecordingSupported()) {
+      console.warn(`🎬 当前供应商（${providerId ?? 'default'}）或浏览器不支持视频片段，使用截图帧发送`)
+      this.clipRecorder?.stop()
+      return
+    }
+
+    const clipDuration = this.config.screenshotConfig?.clipDuration ?? 6000
+    if (!this.clipRecorder) {
+      this.clipRecorder = new ScreenClipRecorder({ clipDuration })
+      this.clipRecorder.on('error', (error: unknown) => this.emit('clipRecordingError', error))
+    } else {
+      this.clipRecorder.updateConfig({ clipDuration })
+    }
+
+    if (this.clipRecorder.activeStream !== stream) {
+      this.clipRecorder.start(stream)
+    }
+  }
+
+  // 按当前供应商的图片预算调整要发送的截图与摄像头画面：自动决定张数、分辨率与编码质量
+  private async applyImageBudget(
+    screenshots: Screenshot[],
+    cameraFrames: Screenshot[] = []
+  ): Promise<{ images: TaggedImage[]; hasFocusDetail: boolean }> {
+    const toEntries = (screenshot: Screenshot): Array<BudgetImage & { source: VisualSource; isDetail: boolean }> => [
+      { data: screenshot.data, width: screenshot.width, height: screenshot.height, source: screenshot.source, isDetail: false },
+      ...(screenshot.detail ? [{ ...screenshot.detail, source: screenshot.source, isDetail: true }] : [])
+    ]
+    // 优先级：最新截图、最新摄像头画面，然后是更早的截图与摄像头画面
+    const entries = [
+      ...screenshots.slice(0, 1),
+      ...cameraFrames.slice(0, 1),
+      ...screenshots.slice(1),
+      ...cameraFrames.slice(1)
+    ].flatMap(toEntries)
+    // 发送时同一来源的图片排在一起（稳定排序，保持各来源内的顺序）
+    const sourceOrder: VisualSource[] = ['screen', 'composite', 'camera']
+    const toTaggedImages = (kept: Array<{ data: string; source: VisualSource }>): TaggedImage[] => sourceOrder
+      .flatMap(source => kept.filter(entry => entry.source === source))
+      .map(entry => ({ data: entry.data, source: entry.source }))
+    if (entries.length === 0) {
+      return { images: [], hasFocusDetail: false }
+    }
+
+    const budget = resolveImageBudget(
+      this.config.agentConfig.llmConfig.providerId,
+      this.config.screenshotConfig?.imageBudget
+    )
+
+    try {
+      const result = await applyImageBudget(entries, budget, createCanvasImageEncoder())
+      console.log('📐 图片预算已应用', {
+        provider: this.config.agentConfig.llmConfig.providerId ?? 'default',
+        sent: result.images.length,
+        dropped: result.droppedCount,
+        reencoded: result.images.filter(image => image.reencoded).length,
+        totalBytes: result.totalBytes
+      })
+      return {
+        images: toTaggedImages(result.images.map((image, index) => ({ data: image.data, source: entries[index].source }))),
+        // 预算只会丢弃排在后面的图片，保留的是 entries 的前缀
+        hasFocusDetail: entries.slice(0, result.images.length).some(entry => entry.isDetail)
+      }
+    } catch (error) {
+      console.warn('📐 图片预算处理失败，按原图发送:', error)
+      return {
+        images: toTaggedImages(entries.slice(0, budget.maxImages)),
+        hasFocusDetail: entries.slice(0, budget.maxImages).some(entry => entry.isDetail)
+      }
+    }
+  }
+
+  // 开始摄像头取帧，可以单独使用，也可以与屏幕截图同时使用
+  async startCameraCapture(): Promise<void> {
+    if (this.cameraSource?.isActive) {
+      console.warn('Already capturing camera')
+      return
+    }
+
+    const cameraConfig = this.config.cameraConfig ?? {}
+    const source = new CameraCaptureSource({
+      deviceId: cameraConfig.deviceId,
+      width: cameraConfig.width,
+      height: cameraConfig.height,
+      frameRate: cameraConfig.frameRate
+    })
+
+    try {
+      await source.start()
+    } catch (error) {
+      console.error('📷 摄像头启动失败:', error)
+      if (this.isScreenshotPermissionDenied(error)) {
+        this.emit('cameraDisabled', { reason: 'permission-denied' })
+        throw new Error('摄像头权限被拒绝')
+      }
+      throw error
+    }
+
+    source.once('ended', () => this.stopCameraCapture())
+    this.cameraSource = source
+
+    const interval = cameraConfig.captureInterval ?? this.config.screenshotConfig?.captureInterval ?? 2000
+    const captureCameraFrame = async () => {
+      try {
+        const quality = this.config.screenshotConfig?.imageQuality ?? 0.8
+        const [frame] = await source.captureFrames(quality)
+        if (frame?.data) {
+          this.addCameraFrame({ source: 'camera', data: frame.data, width: frame.width, height: frame.height, timestamp: Date.now() })
+        }
+      } catch (error) {
+        console.warn('📷 摄像头取帧失败:', error)
+      }
+    }
+    await captureCameraFrame()
+    this.cameraTimer = window.setInterval(captureCameraFrame, interval)
+
+    this.emit('cameraCaptureStarted')
+    console.log(`📷 摄像头已启动，取帧间隔: ${interval}ms`)
+  }
+
+  stopCameraCapture(): void {
+    if (this.cameraTimer) {
+      clearInterval(this.cameraTimer)
+      this.cameraTimer = null
+    }
+
+    if (!this.cameraSource) {
+      return
+    }
+
+    this.cameraSource.stop()
+    this.cameraSource = null
+    this.cameraFrames = []
+    this.emit('cameraCaptureStopped')
+    console.log('📷 摄像头已停止')
+  }
+
+  get isCameraCapturing(): boolean {
+    return this.cameraSource?.isActive ?? false
+  }
+
+  // 更新摄像头配置，正在取帧时按新的设备与分辨率重新启动
+  async updateCameraConfig(cameraConfig: NonNullable<MultiModalServiceConfig['cameraConfig']>): Promise<void> {
+    this.config.cameraConfig = { ...this.config.cameraConfig, ...cameraConfig }
+
+    if (this.cameraSource) {
+      this.stopCameraCapture()
+      await this.startCameraCapture()
+    }
+  }
+
+  private addCameraFrame(frame: Screenshot): void {
+    this.cameraFrames.unshift(frame)
+
+    const maxFrames = this.config.cameraConfig?.maxFrames ?? 1
+    if (this.cameraFrames.length > maxFrames) {
+      this.cameraFrames = this.cameraFrames.slice(0, maxFrames)
+    }
+
+    this.emit('cameraFrameTaken', frame)
+  }
+
+  private getLatestCameraFrames(): Screenshot[] {
+    return this.cameraFrames.slice(0, this.config.cameraConfig?.maxFrames ?? 1)
+  }
+
   private getLatestScreenshots(count?: number): Screenshot[] {
     const maxScreenshots = this.config.screenshotConfig?.maxScreenshots ?? 1
     const screenshotCount = count ?? maxScreenshots
@@ -819,9 +1248,78 @@ export class MultiModalService extends EventEmitter {
     return result
   }
 
+  // 截取当前整屏画面（不进入截图缓冲区），用于框选截图区域
+  async captureFullFrame(): Promise<string | null> {
+    if (!this.captureSource.isActive) {
+      return null
+    }
+
+    const quality = this.config.screenshotConfig?.imageQuality ?? 0.8
+    const [frame] = await this.captureSource.captureFrames(quality, { mode: 'full' })
+    return frame?.data ?? null
+  }
+
+  // 截图叠加层：先画坐标网格，再画屏幕标注
+  private createFrameOverlay(): FrameOverlay | undefined {
+    const grid = this.config.screenshotConfig?.grid
+    return combineFrameOverlays(
+      grid?.enabled ? createGridOverlay(grid) : undefined,
+      this.screenAnnotations.length > 0 ? createAnnotationOverlay(this.screenAnnotations) : undefined
+    )
+  }
+
+  /**
+   * 更新屏幕标注，之后截取的画面会绘制这些标注，模型可以在下一张截图中看到自己画的标注
+   */
+  setScreenAnnotations(annotations: ScreenAnnotation[]): void {
+    this.screenAnnotations = annotations.map(annotation => ({ ...annotation }))
+    // 标注变化后下一张截图必须进入缓冲区，不能被判定为画面未变化
+    this.frameChangeDetector.reset()
+    console.log(`🖍️ 屏幕标注已更新: ${annotations.length} 个`)
+  }
+
+  // 屏幕标注工具只在屏幕共享期间启用
+  private syncAnnotationToolPack(): void {
+    const namespace = screenAnnotationToolPack.namespace
+    if (this.toolRegistry.hasPack(namespace)) {
+      this.toolRegistry.setPackEnabled(namespace, this.status.isCapturing)
+    }
+  }
+
+  // 坐标网格开启时把网格说明追加到系统提示词，关闭时移除
+  private syncScreenGrid(): void {
+    const grid = this.config.screenshotConfig?.grid
+    this.agent.setPromptSegment('screenGrid', grid?.enabled ? buildScreenGridPromptSegment(grid) : null)
+  }
+
+  getCaptureSource(): ScreenCaptureSource {
+    return this.captureSource
+  }
+
+  // 切换画面源（屏幕共享 / 摄像头 / 画布 / 上传图片等），正在截图时自动切换到新的画面源
+  async setCaptureSource(source: ScreenCaptureSource): Promise<void> {
+    if (source === this.captureSource) {
+      return
+    }
+
+    const wasCapturing = this.status.isCapturing
+    if (wasCapturing) {
+      await this.stopScreenCapture()
+    }
+
+    this.captureSource = source
+    this.emit('captureSourceChanged', source.kind)
+    console.log(`🖼️ 画面源已切换: ${source.kind}`)
+
+    if (wasCapturing) {
+      await this.startScreenCapture()
+    }
+  }
+
   // 清空截图
   clearScreenshots(): void {
     this.screenshots = []
+    this.frameChangeDetector.reset()
     this.emit('screenshotsCleared')
   }
 
@@ -964,7 +1462,14 @@ export class MultiModalService extends EventEmitter {
       if (newConfig.agentConfig.llmConfig) {
         this.agent.updateLLMConfig(newConfig.agentConfig.llmConfig)
       }
+      if (newConfig.agentConfig.maxSteps !== undefined || newConfig.agentConfig.maxToolCallsPerRound !== undefined) {
+        this.agent.updateConfig({
+          maxSteps: newConfig.agentConfig.maxSteps,
+          maxToolCallsPerRound: newConfig.agentConfig.maxToolCallsPerRound
+        })
+      }
       this.config.agentConfig = { ...this.config.agentConfig, ...newConfig.agentConfig }
+      this.syncClipRecorder()
     }
 
     if (newConfig.conversationConfig) {
@@ -985,7 +1490,13 @@ export class MultiModalService extends EventEmitter {
 
     if (newConfig.vadConfig) {
       this.config.vadConfig = { ...this.config.vadConfig, ...newConfig.vadConfig }
-      this.vadDetector.updateConfig(newConfig.vadConfig)
+      if (this.turnDetector instanceof ClientVadStrategy) {
+        this.turnDetector.updateConfig(newConfig.vadConfig)
+      }
+    }
+
+    if (newConfig.bargeInConfig?.enabled !== undefined) {
+      this.setBargeInEnabled(newConfig.bargeInConfig.enabled)
     }
 
     if (newConfig.audioConfig) {
@@ -994,6 +1505,26 @@ export class MultiModalService extends EventEmitter {
 
     if (newConfig.screenshotConfig) {
       this.config.screenshotConfig = { ...this.config.screenshotConfig, ...newConfig.screenshotConfig }
+      this.frameChangeDetector.updateConfig({
+        enabled: this.config.screenshotConfig.skipUnchangedFrames,
+        sensitivity: this.config.screenshotConfig.changeSensitivity
+      })
+
+      // 截图区域、模式、合成布局或网格变化后画面构图不同，重新建立变化检测的比较基准
+      if (
+        'focusMode' in newConfig.screenshotConfig ||
+        'regionOfInterest' in newConfig.screenshotConfig ||
+        'composite' in newConfig.screenshotConfig ||
+        'grid' in newConfig.screenshotConfig
+      ) {
+        this.frameChangeDetector.reset()
+      }
+      if ('grid' in newConfig.screenshotConfig) {
+        this.syncScreenGrid()
+      }
+      if ('sendMode' in newConfig.screenshotConfig || 'clipDuration' in newConfig.screenshotConfig) {
+        this.syncClipRecorder()
+      }
 
       // 如果屏幕捕获正在运行，重新启动截图定时器以应用新的配置
       if (this.status.isCapturing && this.captureTimer) {
@@ -1007,11 +1538,63 @@ export class MultiModalService extends EventEmitter {
     this.emit('configUpdated', this.config)
   }
 
+  // 切换轮次检测模式（可同时更新服务端VAD参数与实时连接配置），监听中会立即以新策略重新启动
+  // 新策略创建或启动失败时抛出错误，当前策略与配置保持不变
+  async setTurnDetectionMode(mode: TurnDetectionMode, config?: Omit<TurnDetectionConfig, 'mode'>): Promise<void> {
+    if (this.turnDetector.mode === mode && !config) {
+      return
+    }
+
+    const turnDetectionConfig: TurnDetectionConfig = { ...this.config.turnDetectionConfig, ...config, mode }
+    const previousMode = this.turnDetector.mode
+    // AI回复期间不启动，恢复监听时由 reset() 启动
+    const startNow = this.status.isListening && !this.status.isProcessing
+    this.turnDetector = await replaceTurnDetectionStrategy(
+      this.turnDetector,
+      () => this.createTurnDetector(mode, turnDetectionConfig),
+      { start: startNow, beforeRelease: () => this.detachVadListeners?.() }
+    )
+    console.log('🔀 切换轮次检测模式:', previousMode, '->', mode)
+
+    this.config.turnDetectionConfig = turnDetectionConfig
+    this.attachVadEventListeners()
+
+    if (startNow) {
+      this.listeningStartedAt = Date.now()
+    }
+
+    this.emit('turnDetectionModeChanged', mode)
+  }
+
+  getTurnDetectionMode(): TurnDetectionMode {
+    return this.turnDetector.mode
+  }
+
+  private createTurnDetector(mode: TurnDetectionMode, config: TurnDetectionConfig | undefined = this.config.turnDetectionConfig): TurnDetectionStrategy {
+    return createTurnDetectionStrategy(mode, config, this.config.vadConfig, {
+      onSpeechStart: () => this.onVoiceStart(),
+      onSpeechStop: () => this.onVoiceStop()
+    })
+  }
+
   setToolsEnabled(enabled: boolean): void {
     this.toolsEnabled = enabled
     this.agent.setToolsEnabled(enabled)
   }
 
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry
+  }
+
+  getToolPacks(): ToolPackInfo[] {
+    return this.toolRegistry.getPacks()
+  }
+
+  // 运行时启用/禁用工具包，系统提示词中的工具说明随之重新生成
+  setToolPackEnabled(namespace: string, enabled: boolean): void {
+    this.toolRegistry.setPackEnabled(namespace, enabled)
+  }
+
   // 设置会话保存回合数
   setMaxHistoryRounds(rounds: number): void {
     // 每轮包含一个用户消息和一个AI回复，所以最大历史大小 = 轮数 * 2
@@ -1136,7 +1719,9 @@ export class MultiModalService extends EventEmitter {
 
     this.stopListening()
     this.stopScreenCapture()
-    this.vadDetector.dispose()
+    this.stopCameraCapture()
+    this.detachVadListeners?.()
+    this.turnDetector.dispose()
 
     if (this.audioRecorder.isRecording()) {
       this.audioRecorder.stop()
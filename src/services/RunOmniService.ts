@@ -5,10 +5,12 @@
 
 import { EventEmitter } from 'eventemitter3'
 import { AudioManager } from '@/modules/audio'
-import { ScreenManager } from '@/modules/screen'
+import { ScreenManager, FrameChangeDetector, computeImageSignature } from '@/modules/screen'
+import { applyImageBudget, createCanvasImageEncoder, resolveImageBudget } from '@/modules/screen/imageBudget'
 import { ConversationManager } from '@/modules/conversation'
 import { Agent } from '@/modules/agent'
 import { ServiceState } from './MultiModalService'
+import { computeHeardRatio, shouldBargeIn } from './core/BargeIn'
 import type { MultiModalServiceConfig, ServiceStatus } from './MultiModalService'
 import type { ScreenshotData } from '@/types/screen'
 import type { AudioVisualizationData } from '@/types/audio'
@@ -26,6 +28,8 @@ export enum RunOmniState {
 
 interface Screenshot {
   data: string
+  width: number
+  height: number
   timestamp: number
 }
 
@@ -37,6 +41,7 @@ export class RunOmniService extends EventEmitter {
   // 核心模块
   private audioManager: AudioManager
   private screenManager: ScreenManager
+  private frameChangeDetector: FrameChangeDetector
   private conversationManager: ConversationManager
   private agent: Agent
   
@@ -47,9 +52,16 @@ export class RunOmniService extends EventEmitter {
   private isVoiceRecording: boolean = false
   private listeningStartedAt: number | null = null
   private screenshotTimer: number | null = null
+  private isResponseInterrupted: boolean = false
+  private activeAgentRequest: Promise<void> | null = null
 
   constructor(config: MultiModalServiceConfig) {
     super()
+
+    // ScreenManager 每次只输出一张截图，无法提供整屏概览 + 区域高清裁剪
+    if (config.screenshotConfig?.focusMode === 'focus') {
+      throw new Error('RunOmniService 不支持 focus 截图模式，请使用 region 模式或 MultiModalService')
+    }
     
     this.config = config
     this.status = {
@@ -67,6 +79,13 @@ export class RunOmniService extends EventEmitter {
       captureInterval: config.screenshotConfig?.captureInterval ?? 1000,
       quality: 0.8,
       format: 'jpeg'
+    }, config.captureSource)
+    if (config.screenshotConfig?.focusMode === 'region') {
+      this.screenManager.setRegionOfInterest(config.screenshotConfig.regionOfInterest ?? null)
+    }
+    this.frameChangeDetector = new FrameChangeDetector({
+      enabled: config.screenshotConfig?.skipUnchangedFrames ?? true,
+      sensitivity: config.screenshotConfig?.changeSensitivity ?? 0.7
     })
     this.conversationManager = new ConversationManager()
     this.agent = new Agent(config.agentConfig)
@@ -190,6 +209,7 @@ export class RunOmniService extends EventEmitter {
     this.status.isVoiceActive = false
     this.isVoiceRecording = false
     this.screenshots = []
+    this.frameChangeDetector.reset()
     this.listeningStartedAt = null
     
     this.currentState = RunOmniState.READY
@@ -276,7 +296,20 @@ export class RunOmniService extends EventEmitter {
         }
       })
 
-      await this.agent.sendMultiModalMessage(payload)
+      // 打断后上一轮回复可能仍在收尾，等待其结束以保证历史顺序
+      if (this.activeAgentRequest) {
+        await this.activeAgentRequest.catch(() => undefined)
+      }
+
+      const request = this.agent.sendMultiModalMessage(payload)
+      this.activeAgentRequest = request
+      try {
+        await request
+      } finally {
+        if (this.activeAgentRequest === request) {
+          this.activeAgentRequest = null
+        }
+      }
     } catch (error) {
       console.error('❌ 处理Agent请求失败:', error)
       this.emit('error', error)
@@ -391,11 +424,66 @@ export class RunOmniService extends EventEmitter {
 
     await this.processAgentRequest({
       text: '',
-      images: imageBase64List,
+      images: await this.applyImageBudget(screenshots),
       audio: audioBase64
     })
   }
 
+  // 私有方法：按当前供应商的图片预算调整要发送的截图（最新的优先）
+  private async applyImageBudget(screenshots: Screenshot[]): Promise<string[]> {
+    const newestFirst = [...screenshots].reverse()
+    const budget = resolveImageBudget(
+      this.config.agentConfig.llmConfig.providerId,
+      this.config.screenshotConfig?.imageBudget
+    )
+
+    try {
+      const result = await applyImageBudget(newestFirst, budget, createCanvasImageEncoder())
+      // 恢复时间顺序
+      return result.images.map(image => image.data).reverse()
+    } catch (error) {
+      console.warn('📐 图片预算处理失败，按原图发送:', error)
+      return newestFirst.slice(0, budget.maxImages).map(s => s.data).reverse()
+    }
+  }
+
+  // 私有方法：打断（barge-in）
+  private shouldBargeIn(): boolean {
+    return shouldBargeIn({
+      enabled: Boolean(this.config.bargeInConfig?.enabled),
+      isListening: this.status.isListening,
+      isProcessing: this.status.isProcessing,
+      isPlaying: this.audioManager.isStreamingPlaybackActive()
+    })
+  }
+
+  private handleBargeIn(): void {
+    const progress = this.audioManager.getStreamingProgress()
+    const heardRatio = computeHeardRatio(progress, this.agent.isResponseInProgress())
+
+    console.log('✋ 检测到用户插话，打断当前回复', { heardRatio, ...progress })
+
+    // stopPlayback 会触发 playbackStopped，由其恢复监听状态
+    this.isResponseInterrupted = true
+    this.audioManager.stopPlayback()
+    this.agent.interruptResponse(heardRatio)
+
+    this.status.isProcessing = false
+    this.emit('bargeIn', { heardRatio })
+  }
+
+  // 停止当前回复（适用于“停止”按钮）：中止生成、跳过未执行的工具调用并立即停止播放
+  async stopResponse(): Promise<void> {
+    console.log('⏹️ 停止当前回复')
+    this.isResponseInterrupted = true
+    this.audioManager.stopPlayback()
+    this.agent.cancelCurrentResponse()
+
+    if (this.activeAgentRequest) {
+      await this.activeAgentRequest.catch(() => undefined)
+    }
+  }
+
   // 私有方法：暂停/恢复监听
   private pauseListening(): void {
     console.log('⏸️ 暂停语音监听 - AI回复期间')
@@ -421,8 +509,13 @@ export class RunOmniService extends EventEmitter {
     this.screenshotTimer = window.setInterval(async () => {
       try {
         const screenshot = await this.screenManager.takeScreenshot()
+        if (!(await this.isFrameChanged(screenshot.image, screenshot.timestamp))) {
+          return
+        }
         this.addScreenshot({
           data: screenshot.image.split(',')[1], // 移除base64前缀
+          width: screenshot.width,
+          height: screenshot.height,
           timestamp: screenshot.timestamp
         })
       } catch (error) {
@@ -440,6 +533,31 @@ export class RunOmniService extends EventEmitter {
     }
   }
 
+  // 私有方法：画面变化检测，未变化的截图只刷新最新截图的时间戳
+  private async isFrameChanged(image: string, timestamp: number): Promise<boolean> {
+    if (!this.frameChangeDetector.enabled) {
+      return true
+    }
+
+    try {
+      const signature = await computeImageSignature(image, this.frameChangeDetector.gridSize)
+      const decision = this.frameChangeDetector.evaluate(signature)
+      if (decision.changed) {
+        return true
+      }
+
+      const latest = this.screenshots[this.screenshots.length - 1]
+      if (latest) {
+        latest.timestamp = timestamp
+      }
+      this.emit('screenshotSkipped', { timestamp, difference: decision.difference })
+      return false
+    } catch (error) {
+      console.warn('📸 画面变化检测失败，保留截图:', error)
+      return true
+    }
+  }
+
   // 私有方法：截图管理
   private addScreenshot(screenshot: Screenshot): void {
     const maxScreenshots = this.config.screenshotConfig?.maxScreenshots ?? 10
@@ -481,6 +599,9 @@ export class RunOmniService extends EventEmitter {
         console.log('语音开始被忽略 - 在宽限期内')
         return
       }
+      if (this.shouldBargeIn()) {
+        this.handleBargeIn()
+      }
       this.startVoiceCapture()
     })
 
@@ -523,12 +644,14 @@ export class RunOmniService extends EventEmitter {
   private setupAgentEventListeners(): void {
     this.agent.on('responseStarted', () => {
       console.log('🤖 AI开始回复')
+      this.isResponseInterrupted = false
       this.audioManager.beginStreamingPlayback()
       this.emit('agentResponseStarted')
     })
 
     this.agent.on('responseChunk', (response) => {
-      if (response.audioChunk) {
+      // 被打断的回复在收尾前仍可能产出分片，不再播放
+      if (response.audioChunk && !this.isResponseInterrupted) {
         try {
           this.audioManager.enqueueAudioChunk(response.audioChunk)
         } catch (error) {
@@ -545,6 +668,21 @@ export class RunOmniService extends EventEmitter {
       this.emit('agentResponseCompleted', response)
     })
 
+    this.agent.on('responseCancelled', (payload) => {
+      console.log('⏹️ AI回复已取消:', payload)
+      this.audioManager.stopPlayback()
+      this.resumeListening()
+      this.status.isProcessing = false
+      this.currentState = RunOmniState.LISTENING
+      this.emit('agentResponseCancelled', payload)
+      this.emit('stateChanged', this.currentState)
+    })
+
+    this.agent.on('responseInterrupted', (payload) => {
+      console.log('✋ AI回复已被打断:', payload)
+      this.emit('agentResponseInterrupted', payload)
+    })
+
     this.agent.on('responseError', (error) => {
       console.error('Agent回复错误:', error)
       this.audioManager.stopPlayback()
@@ -0,0 +1,34 @@
+// 播放进度：已播放时长与已接收音频总时长（秒）
+export interface PlaybackProgress {
+  playedSeconds: number
+  receivedSeconds: number
+}
+
+// 判断是否打断时需要的服务状态
+export interface BargeInState {
+  enabled: boolean
+  isListening: boolean
+  isProcessing: boolean
+  isPlaying: boolean
+}
+
+// 打断判断：开启打断且正在监听时，AI仍在生成或播放时用户开口
+export function shouldBargeIn(state: BargeInState): boolean {
+  if (!state.enabled || !state.isListening) {
+    return false
+  }
+
+  return state.isProcessing || state.isPlaying
+}
+
+/**
+ * 计算用户实际听到的回复比例（0-1）
+ * 还没有收到音频时：仍在生成说明用户什么也没听到，否则按文本回复视为已全部看到
+ */
+export function computeHeardRatio(progress: PlaybackProgress | null | undefined, responseInProgress: boolean): number {
+  if (!progress || progress.receivedSeconds <= 0) {
+    return responseInProgress ? 0 : 1
+  }
+
+  return Math.max(0, Math.min(1, progress.playedSeconds / progress.receivedSeconds))
+}
@@ -0,0 +1,213 @@
+/**
+ * 轮次检测策略测试套件
+ * 通过注入模拟的 WebSocket 验证服务端VAD事件到轮次回调的映射，以及客户端/服务端策略的切换
+ */
+
+import {
+  ClientVadStrategy,
+  ServerVadStrategy,
+  createTurnDetectionStrategy,
+  replaceTurnDetectionStrategy,
+  toTurnDetection,
+  type TurnDetectionStrategy
+} from './TurnDetectionStrategy'
+import type { RealtimeClientConfig, RealtimeSocket } from '../../modules/realtime'
+
+// 简单的断言函数
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`断言失败: ${message}`)
+  }
+}
+
+// 模拟 WebSocket：由测试手动触发 open 与服务端事件
+class FakeSocket implements RealtimeSocket {
+  readyState = 0
+  onopen: ((event: any) => void) | null = null
+  onclose: ((event: any) => void) | null = null
+  onerror: ((event: any) => void) | null = null
+  onmessage: ((event: any) => void) | null = null
+  sent: any[] = []
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close(): void {
+    this.readyState = 3
+  }
+
+  open(): void {
+    this.readyState = 1
+    this.onopen?.({})
+  }
+
+  receive(type: string, fields: Record<string, unknown> = {}): void {
+    this.onmessage?.({ data: JSON.stringify({ type, event_id: `e_${type}`, item_id: 'item_1', ...fields }) })
+  }
+}
+
+function createRealtimeConfig(sockets: FakeSocket[]): RealtimeClientConfig {
+  return {
+    url: 'ws://mock.local/realtime',
+    createSocket: () => {
+      const socket = new FakeSocket()
+      sockets.push(socket)
+      return socket
+    }
+  }
+}
+
+function createCallbacks(log: string[]) {
+  return {
+    onSpeechStart: () => log.push('start'),
+    onSpeechStop: () => log.push('stop')
+  }
+}
+
+// 测试用例
+export async function runTests(): Promise<void> {
+  console.log('🛰️ 开始运行轮次检测策略测试...')
+
+  try {
+    // 测试 1: 应用配置转换为协议中的 turn_detection
+    const turnDetection = toTurnDetection({ type: 'server_vad', threshold: 0.6, silenceDurationMs: 1200, createResponse: false, interruptResponse: true })
+    assert(turnDetection.type === 'server_vad' && turnDetection.silence_duration_ms === 1200 && turnDetection.interrupt_response === true, '应该转换为 snake_case 字段')
+    assert(toTurnDetection(null).threshold === 0.5, '没有配置时使用默认的服务端VAD参数')
+    console.log('✅ 测试 1 通过')
+
+    // 测试 2: speech_started / speech_stopped 映射为语音开始与结束
+    const sockets: FakeSocket[] = []
+    const log: string[] = []
+    const server = new ServerVadStrategy(
+      createRealtimeConfig(sockets),
+      { type: 'server_vad', threshold: 0.5, silenceDurationMs: 900, createResponse: false, interruptResponse: false },
+      createCallbacks(log)
+    )
+    server.on('voiceStart', () => log.push('voiceStart'))
+    server.on('voiceStop', () => log.push('voiceStop'))
+
+    const starting = server.start()
+    sockets[0].open()
+    await starting
+    assert(sockets[0].sent[0].type === 'session.update' && sockets[0].sent[0].session.turn_detection.silence_duration_ms === 900, '建连时应该把服务端VAD参数写入会话配置')
+
+    server.processAudio('AAAA')
+    assert(sockets[0].sent.some(event => event.type === 'input_audio_buffer.append' && event.audio === 'AAAA'), '麦克风音频应该转发给服务端')
+
+    sockets[0].receive('input_audio_buffer.speech_started', { audio_start_ms: 100 })
+    sockets[0].receive('input_audio_buffer.speech_started', { audio_start_ms: 120 })
+    sockets[0].receive('input_audio_buffer.speech_stopped', { audio_end_ms: 800 })
+    sockets[0].receive('input_audio_buffer.speech_stopped', { audio_end_ms: 820 })
+    assert(log.join(',') === 'start,voiceStart,stop,voiceStop', `每个轮次只应回调一次开始与结束: ${log.join(',')}`)
+
+    // 说话中停止检测：补发语音结束，之后不再转发音频
+    sockets[0].receive('input_audio_buffer.speech_started', { audio_start_ms: 1000 })
+    log.length = 0
+    server.stop()
+    assert(log.join(',') === 'stop,voiceStop', '说话中停止检测应该结束当前轮次')
+    const sentCount = sockets[0].sent.length
+    server.processAudio('BBBB')
+    sockets[0].receive('input_audio_buffer.speech_started', { audio_start_ms: 2000 })
+    assert(sockets[0].sent.length === sentCount && log.length === 2, '停止后不再转发音频，也不再触发语音开始')
+    server.dispose()
+    console.log('✅ 测试 2 通过')
+
+    // 测试 3: 按模式创建策略，服务端VAD缺少实时连接配置时报错
+    const client = createTurnDetectionStrategy('client_vad', undefined, { threshold: 10 }, createCallbacks([]))
+    assert(client instanceof ClientVadStrategy && client.mode === 'client_vad', '默认创建客户端VAD')
+    let missingRealtime = false
+    try {
+      createTurnDetectionStrategy('server_vad', { mode: 'server_vad' }, undefined, createCallbacks([]))
+    } catch (error) {
+      missingRealtime = (error as Error).message.includes('realtime')
+    }
+    assert(missingRealtime, '没有 realtime 配置时应该抛出错误')
+    console.log('✅ 测试 3 通过')
+
+    // 测试 4: 客户端 → 服务端切换，先创建并启动新策略再释放旧策略；创建或启动失败时旧策略保持可用
+    const events: string[] = []
+    const current: TurnDetectionStrategy = client
+    const originalStop = current.stop.bind(current)
+    const originalDispose = current.dispose.bind(current)
+    current.stop = () => {
+      events.push('stop')
+      originalStop()
+    }
+    current.dispose = () => {
+      events.push('dispose')
+      originalDispose()
+    }
+
+    let failed = false
+    try {
+      await replaceTurnDetectionStrategy(
+        current,
+        () => createTurnDetectionStrategy('server_vad', {}, undefined, createCallbacks([])),
+        { beforeRelease: () => events.push('release') }
+      )
+    } catch {
+      failed = true
+    }
+    assert(failed && events.length === 0, '创建失败时不应该停止或释放当前策略')
+
+    // 实时连接建立失败：新策略被释放，当前策略保持可用
+    const failingSockets: FakeSocket[] = []
+    const failing = replaceTurnDetectionStrategy(
+      current,
+      () => createTurnDetectionStrategy('server_vad', { realtime: createRealtimeConfig(failingSockets) }, undefined, createCallbacks([])),
+      { start: true, beforeRelease: () => events.push('release') }
+    )
+    failingSockets[0].onerror?.({})
+    failed = false
+    await failing.catch(() => {
+      failed = true
+    })
+    assert(failed && events.length === 0, '启动失败时不应该停止或释放当前策略')
+
+    const switchSockets: FakeSocket[] = []
+    const switching = replaceTurnDetectionStrategy(
+      current,
+      () => createTurnDetectionStrategy('server_vad', { realtime: createRealtimeConfig(switchSockets) }, undefined, createCallbacks([])),
+      { start: true, beforeRelease: () => events.push('release') }
+    )
+    assert(events.length === 0, '新策略启动完成前应该保留当前策略')
+    switchSockets[0].open()
+    const next = await switching
+    assert(next instanceof ServerVadStrategy && next.mode === 'server_vad', '应该切换为服务端VAD')
+    assert(events.join(',') === 'release,stop,dispose', `应该先解绑再停止并释放旧策略: ${events.join(',')}`)
+
+    const back = await replaceTurnDetectionStrategy(next, () => createTurnDetectionStrategy('client_vad', undefined, undefined, createCallbacks([])))
+    assert(back.mode === 'client_vad', '应该可以切换回客户端VAD')
+    back.dispose()
+    console.log('✅ 测试 4 通过')
+
+    // 测试 5: 未启动的服务端VAD在 reset() 时建立连接并开始转发（AI回复期间切换模式后恢复监听）
+    const resetSockets: FakeSocket[] = []
+    const resetLog: string[] = []
+    const pending = new ServerVadStrategy(createRealtimeConfig(resetSockets), undefined, createCallbacks(resetLog))
+    pending.reset()
+    assert(resetSockets.length === 1, 'reset() 应该为未启动的策略建立连接')
+    resetSockets[0].open()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    pending.processAudio('CCCC')
+    resetSockets[0].receive('input_audio_buffer.speech_started', { audio_start_ms: 0 })
+    assert(resetSockets[0].sent.some(event => event.type === 'input_audio_buffer.append' && event.audio === 'CCCC'), '启动后应该转发麦克风音频')
+    assert(resetLog.join(',') === 'start', '启动后应该收到服务端的语音事件')
+
+    pending.reset()
+    assert(resetSockets.length === 1 && resetSockets[0].sent[resetSockets[0].sent.length - 1].type === 'input_audio_buffer.clear', '已连接时 reset() 只清空服务端缓冲区')
+    pending.dispose()
+    console.log('✅ 测试 5 通过')
+
+    console.log('🎉 所有测试都通过了！轮次检测策略工作正常。')
+  } catch (error) {
+    console.error('❌ 测试失败:', error)
+    throw error
+  }
+}
+
+// 如果在 Node.js 环境中运行，直接执行测试
+if (typeof window === 'undefined') {
+  runTests()
+}
@@ -0,0 +1,299 @@
+import { EventEmitter } from 'eventemitter3'
+import { ModernVadDetector, type ModernVadConfig } from '../../lib/modern-vad-detector'
+import { RealtimeClient, type RealtimeClientConfig } from '../../modules/realtime'
+import type { AppConfig } from '@/types/config'
+import type { TurnDetection } from '@/types/websocket'
+
+// 轮次检测模式：客户端音量VAD 或 服务端VAD
+export type TurnDetectionMode = 'client_vad' | 'server_vad'
+
+export type AppTurnDetectionConfig = AppConfig['omni']['turnDetection']
+
+export interface TurnDetectionConfig {
+  mode?: TurnDetectionMode              // 默认使用客户端VAD
+  serverVad?: AppTurnDetectionConfig    // 对应 AppConfig.omni.turnDetection
+  realtime?: RealtimeClientConfig       // 服务端VAD所需的实时连接配置
+}
+
+export interface TurnDetectionCallbacks {
+  onSpeechStart: () => void
+  onSpeechStop: () => void
+}
+
+/**
+ * 轮次检测策略接口
+ * 策略在检测到语音开始/结束时回调，同时发出 'voiceStart' / 'voiceStop' 事件
+ */
+export interface TurnDetectionStrategy extends EventEmitter {
+  readonly mode: TurnDetectionMode
+  start(): Promise<void>
+  stop(): void
+  reset(): void
+  processVolume(volume: number): void
+  processAudio(base64Pcm16: string): void
+  dispose(): void
+}
+
+const DEFAULT_SERVER_TURN_DETECTION: TurnDetection = {
+  type: 'server_vad',
+  threshold: 0.5,
+  silence_duration_ms: 800,
+  create_response: false,
+  interrupt_response: false
+}
+
+// 将应用配置（camelCase）转换为协议中的 TurnDetection
+export function toTurnDetection(config: AppTurnDetectionConfig | undefined): TurnDetection {
+  if (!config) {
+    return { ...DEFAULT_SERVER_TURN_DETECTION }
+  }
+
+  return {
+    type: 'server_vad',
+    threshold: config.threshold,
+    silence_duration_ms: config.silenceDurationMs,
+    create_response: config.createResponse,
+    interrupt_response: config.interruptResponse
+  }
+}
+
+/**
+ * 客户端VAD策略
+ * 基于 AudioRecorder 的音量数据，由 ModernVadDetector 判断语音起止
+ */
+export class ClientVadStrategy extends EventEmitter implements TurnDetectionStrategy {
+  readonly mode = 'client_vad' as const
+  private vadConfig: Partial<ModernVadConfig>
+  private callbacks: TurnDetectionCallbacks
+  private detector: ModernVadDetector
+
+  constructor(vadConfig: Partial<ModernVadConfig> | undefined, callbacks: TurnDetectionCallbacks) {
+    super()
+    this.vadConfig = { ...vadConfig }
+    this.callbacks = callbacks
+    this.detector = this.createDetector()
+  }
+
+  async start(): Promise<void> {
+    this.detector.startDetection()
+  }
+
+  stop(): void {
+    this.detector.stopDetection()
+  }
+
+  // 完全重建检测器，确保状态完全重置
+  reset(): void {
+    this.detector.dispose()
+    this.detector = this.createDetector()
+    this.detector.startDetection()
+  }
+
+  processVolume(volume: number): void {
+    this.detector.processVolume(volume)
+  }
+
+  processAudio(): void {
+    // 客户端VAD只依赖音量数据
+  }
+
+  updateConfig(vadConfig: Partial<ModernVadConfig>): void {
+    this.vadConfig = { ...this.vadConfig, ...vadConfig }
+    this.detector.updateConfig(vadConfig)
+  }
+
+  dispose(): void {
+    this.detector.dispose()
+    this.removeAllListeners()
+  }
+
+  private createDetector(): ModernVadDetector {
+    const detector = new ModernVadDetector({
+      threshold: this.vadConfig.threshold ?? 5,
+      silenceDuration: this.vadConfig.silenceDuration ?? 800,
+      onVoiceStart: () => this.callbacks.onSpeechStart(),
+      onVoiceStop: () => this.callbacks.onSpeechStop()
+    })
+
+    detector.initialize((volume) => {
+      detector.processVolume(volume)
+    })
+    detector.on('voiceStart', () => this.emit('voiceStart'))
+    detector.on('voiceStop', () => this.emit('voiceStop'))
+
+    return detector
+  }
+}
+
+/**
+ * 服务端VAD策略
+ * 将麦克风 PCM16 流式发送到实时服务端，由 input_audio_buffer.speech_started / speech_stopped 决定轮次
+ */
+export class ServerVadStrategy extends EventEmitter implements TurnDetectionStrategy {
+  readonly mode = 'server_vad' as const
+  private client: RealtimeClient
+  private turnDetection: TurnDetection
+  private callbacks: TurnDetectionCallbacks
+  private isForwarding = false
+  private isSpeaking = false
+  private detachServerListeners: (() => void) | null = null
+
+  constructor(
+    realtimeConfig: RealtimeClientConfig,
+    turnDetection: AppTurnDetectionConfig | undefined,
+    callbacks: TurnDetectionCallbacks
+  ) {
+    super()
+    this.turnDetection = toTurnDetection(turnDetection)
+    this.callbacks = callbacks
+    this.client = new RealtimeClient({
+      ...realtimeConfig,
+      session: {
+        ...realtimeConfig.session,
+        turn_detection: this.turnDetection
+      }
+    })
+  }
+
+  async start(): Promise<void> {
+    if (!this.detachServerListeners) {
+      this.attachServerListeners()
+    }
+
+    if (!this.client.isConnected()) {
+      await this.client.connect()
+    }
+
+    this.isForwarding = true
+    console.log('🛰️ 服务端VAD已启动', this.turnDetection)
+  }
+
+  stop(): void {
+    this.isForwarding = false
+    this.client.clearAudio()
+
+    if (this.isSpeaking) {
+      this.isSpeaking = false
+      this.callbacks.onSpeechStop()
+      this.emit('voiceStop')
+    }
+  }
+
+  // 尚未启动（例如在AI回复期间切换到服务端VAD）时直接启动，否则清空服务端缓冲区后继续转发
+  reset(): void {
+    this.isSpeaking = false
+
+    if (!this.detachServerListeners || !this.client.isConnected()) {
+      this.start().catch(error => {
+        console.error('❌ 服务端VAD启动失败:', error)
+      })
+      return
+    }
+
+    this.client.clearAudio()
+    this.isForwarding = true
+  }
+
+  processVolume(): void {
+    // 服务端VAD不使用本地音量数据
+  }
+
+  processAudio(base64Pcm16: string): void {
+    if (!this.isForwarding) {
+      return
+    }
+
+    this.client.appendAudio(base64Pcm16)
+  }
+
+  getClient(): RealtimeClient {
+    return this.client
+  }
+
+  dispose(): void {
+    this.isForwarding = false
+    this.detachServerListeners?.()
+    this.client.dispose()
+    this.removeAllListeners()
+  }
+
+  private attachServerListeners(): void {
+    const offStarted = this.client.onServerEvent('input_audio_buffer.speech_started', (event) => {
+      if (!this.isForwarding || this.isSpeaking) {
+        return
+      }
+
+      console.log('🛰️ 服务端检测到语音开始', { audioStartMs: event.audio_start_ms })
+      this.isSpeaking = true
+      this.callbacks.onSpeechStart()
+      this.emit('voiceStart')
+    })
+
+    const offStopped = this.client.onServerEvent('input_audio_buffer.speech_stopped', (event) => {
+      if (!this.isSpeaking) {
+        return
+      }
+
+      console.log('🛰️ 服务端检测到语音结束', { audioEndMs: event.audio_end_ms })
+      this.isSpeaking = false
+      this.callbacks.onSpeechStop()
+      this.emit('voiceStop')
+    })
+
+    this.detachServerListeners = () => {
+      offStarted()
+      offStopped()
+      this.detachServerListeners = null
+    }
+  }
+}
+
+/**
+ * 按模式创建轮次检测策略，服务端VAD缺少实时连接配置时抛出错误
+ */
+export function createTurnDetectionStrategy(
+  mode: TurnDetectionMode,
+  config: TurnDetectionConfig | undefined,
+  vadConfig: Partial<ModernVadConfig> | undefined,
+  callbacks: TurnDetectionCallbacks
+): TurnDetectionStrategy {
+  if (mode === 'server_vad') {
+    if (!config?.realtime) {
+      throw new Error('服务端VAD模式需要提供 realtime 连接配置')
+    }
+    return new ServerVadStrategy(config.realtime, config.serverVad, callbacks)
+  }
+
+  return new ClientVadStrategy(vadConfig, callbacks)
+}
+
+export interface ReplaceTurnDetectionOptions {
+  start?: boolean               // 是否在释放当前策略前启动新策略
+  beforeRelease?: () => void    // 停止当前策略前调用，用于解绑事件
+}
+
+/**
+ * 替换轮次检测策略：先创建（并按需启动）新策略，成功后才停止并释放当前策略
+ * 创建或启动失败时释放新策略并抛出错误，当前策略保持可用
+ */
+export async function replaceTurnDetectionStrategy(
+  current: TurnDetectionStrategy,
+  createNext: () => TurnDetectionStrategy,
+  options: ReplaceTurnDetectionOptions = {}
+): Promise<TurnDetectionStrategy> {
+  const next = createNext()
+
+  if (options.start) {
+    try {
+      await next.start()
+    } catch (error) {
+      next.dispose()
+      throw error
+    }
+  }
+
+  options.beforeRelease?.()
+  current.stop()
+  current.dispose()
+  return next
+}
@@ -4,4 +4,12 @@ export { RunOmniState } from './RunOmniService'
 
 // 向后兼容：旧版MultiModalService（建议迁移到RunOmniService）
 export { MultiModalService } from './MultiModalService'
-export type { MultiModalServiceConfig, ServiceState, ServiceStatus } from './MultiModalService'
\ No newline at end of file
+export type { MultiModalServiceConfig, ServiceState, ServiceStatus } from './MultiModalService'
+
+// 轮次检测策略
+export { ClientVadStrategy, ServerVadStrategy, toTurnDetection, createTurnDetectionStrategy, replaceTurnDetectionStrategy } from './core/TurnDetectionStrategy'
+export type { TurnDetectionMode, TurnDetectionStrategy, TurnDetectionConfig, AppTurnDetectionConfig, ReplaceTurnDetectionOptions } from './core/TurnDetectionStrategy'
+
+// 打断（barge-in）判断
+export { shouldBargeIn, computeHeardRatio } from './core/BargeIn'
+export type { BargeInState, PlaybackProgress } from './core/BargeIn'
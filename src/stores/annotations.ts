@@ -0,0 +1,144 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import {
+  SCREEN_COORDINATE_MAX,
+  SCREEN_COORDINATE_MIN,
+  type ArrowAnnotation,
+  type HighlightAnnotation,
+  type LabelAnnotation,
+  type ScreenAnnotation,
+  type ScreenPoint
+} from '@/modules/screen/screenAnnotations'
+
+const DEFAULT_HIGHLIGHT_COLOR = '#ff1744'
+const DEFAULT_ARROW_COLOR = '#ff1744'
+const DEFAULT_LABEL_COLOR = '#2962ff'
+const MAX_LABEL_LENGTH = 40
+
+function ensureNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
+    throw new Error(`${name} 必须是一个有效的数字`)
+  }
+  return value
+}
+
+function ensurePoint(point: ScreenPoint | undefined, label: string): ScreenPoint {
+  const result = {
+    x: ensureNumber(point?.x, `${label}.x`),
+    y: ensureNumber(point?.y, `${label}.y`)
+  }
+  if (
+    result.x < SCREEN_COORDINATE_MIN || result.x > SCREEN_COORDINATE_MAX ||
+    result.y < SCREEN_COORDINATE_MIN || result.y > SCREEN_COORDINATE_MAX
+  ) {
+    throw new Error(`${label} 坐标 (${result.x}, ${result.y}) 超出了屏幕范围（${SCREEN_COORDINATE_MIN} 到 ${SCREEN_COORDINATE_MAX}）`)
+  }
+  return result
+}
+
+function ensureText(text: string | undefined, name: string): string {
+  const trimmed = text?.trim() ?? ''
+  if (!trimmed) {
+    throw new Error(`${name} 不能为空`)
+  }
+  if (trimmed.length > MAX_LABEL_LENGTH) {
+    throw new Error(`${name} 不能超过 ${MAX_LABEL_LENGTH} 个字符`)
+  }
+  return trimmed
+}
+
+export const useAnnotationStore = defineStore('screenAnnotations', () => {
+  const annotations = ref<ScreenAnnotation[]>([])
+  const overlayVisible = ref(true)
+  let sequence = 0
+
+  const annotationCount = computed(() => annotations.value.length)
+  const isOverlayVisible = computed(() => overlayVisible.value && annotations.value.length > 0)
+
+  const createId = (prefix: string) => `${prefix}_${++sequence}`
+
+  const addHighlight = (args: {
+    topLeft: ScreenPoint
+    bottomRight: ScreenPoint
+    color?: string
+    label?: string
+  }): HighlightAnnotation => {
+    const topLeft = ensurePoint(args.topLeft, '左上角')
+    const bottomRight = ensurePoint(args.bottomRight, '右下角')
+    if (topLeft.x >= bottomRight.x || topLeft.y >= bottomRight.y) {
+      throw new Error('高亮区域无效：左上角必须位于右下角的左上方')
+    }
+
+    const highlight: HighlightAnnotation = {
+      id: createId('highlight'),
+      type: 'highlight',
+      topLeft,
+      bottomRight,
+      color: args.color?.trim() || DEFAULT_HIGHLIGHT_COLOR,
+      label: args.label?.trim() ? ensureText(args.label, '说明文字') : undefined
+    }
+    annotations.value = [...annotations.value, highlight]
+    return highlight
+  }
+
+  const addArrow = (args: { from: ScreenPoint; to: ScreenPoint; color?: string; label?: string }): ArrowAnnotation => {
+    const from = ensurePoint(args.from, '起点')
+    const to = ensurePoint(args.to, '终点')
+    if (from.x === to.x && from.y === to.y) {
+      throw new Error('箭头的起点和终点不能相同')
+    }
+
+    const arrow: ArrowAnnotation = {
+      id: createId('arrow'),
+      type: 'arrow',
+      from,
+      to,
+      color: args.color?.trim() || DEFAULT_ARROW_COLOR,
+      label: args.label?.trim() ? ensureText(args.label, '说明文字') : undefined
+    }
+    annotations.value = [...annotations.value, arrow]
+    return arrow
+  }
+
+  const addLabel = (args: { position: ScreenPoint; text: string; color?: string }): LabelAnnotation => {
+    const label: LabelAnnotation = {
+      id: createId('label'),
+      type: 'label',
+      position: ensurePoint(args.position, '位置'),
+      text: ensureText(args.text, '文字'),
+      color: args.color?.trim() || DEFAULT_LABEL_COLOR
+    }
+    annotations.value = [...annotations.value, label]
+    return label
+  }
+
+  const removeAnnotation = (id: string): void => {
+    if (!annotations.value.some(annotation => annotation.id === id)) {
+      throw new Error(`未找到ID为 ${id} 的标注`)
+    }
+    annotations.value = annotations.value.filter(annotation => annotation.id !== id)
+  }
+
+  const clearAnnotations = (): number => {
+    const removed = annotations.value.length
+    annotations.value = []
+    return removed
+  }
+
+  const setOverlayVisible = (visible: boolean): void => {
+    overlayVisible.value = visible
+  }
+
+  return {
+    annotations,
+    annotationCount,
+    overlayVisible,
+    isOverlayVisible,
+    addHighlight,
+    addArrow,
+    addLabel,
+    removeAnnotation,
+    clearAnnotations,
+    setOverlayVisible
+  }
+})
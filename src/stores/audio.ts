@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { AudioRecordingState, AudioPlaybackState, AudioVisualizationData } from '@/types/audio'
+import type { AppConfig } from '@/types/config'
 
 export const useAudioStore = defineStore('audio', () => {
   // 录制状态
@@ -45,6 +46,8 @@ export const useAudioStore = defineStore('audio', () => {
   const isVoiceActive = ref(false)
   const vadThreshold = ref(18)
   const vadSilenceDuration = ref(1500) // 默认1500毫秒
+  // 服务端VAD配置（对应 AppConfig.omni.turnDetection），为 null 时使用客户端VAD
+  const serverTurnDetection = ref<AppConfig['omni']['turnDetection']>(null)
 
   // 错误状态
   const audioError = ref<string | null>(null)
@@ -217,6 +220,10 @@ export const useAudioStore = defineStore('audio', () => {
     vadSilenceDuration.value = Math.max(500, Math.min(4000, duration))
   }
 
+  const setServerTurnDetection = (config: AppConfig['omni']['turnDetection']) => {
+    serverTurnDetection.value = config ? { ...config } : null
+  }
+
   const reset = () => {
     // 重置录制状态
     isRecording.value = false
@@ -238,6 +245,7 @@ export const useAudioStore = defineStore('audio', () => {
     isVoiceActive.value = false
     vadThreshold.value = 18
     vadSilenceDuration.value = 1500
+    serverTurnDetection.value = null
 
     // 重置其他状态
     volumeLevel.value = 0
@@ -275,6 +283,7 @@ export const useAudioStore = defineStore('audio', () => {
     isVoiceActive,
     vadThreshold,
     vadSilenceDuration,
+    serverTurnDetection,
     audioError,
     permissionDenied,
 
@@ -313,6 +322,7 @@ export const useAudioStore = defineStore('audio', () => {
     setVoiceActive,
     updateVadThreshold,
     updateVadSilenceDuration,
+    setServerTurnDetection,
     reset
   }
 })
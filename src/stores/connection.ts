@@ -1,6 +1,10 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { SessionConfig } from '@/types/websocket'
+import type { AppConfig } from '@/types/config'
+
+// LLM 请求的超时与重试次数（对应 AppConfig.api），构建 LLMConfig 时写入
+export type ApiRequestPolicy = Pick<AppConfig['api'], 'timeout' | 'retryAttempts'>
 
 export const useConnectionStore = defineStore('connection', () => {
   // 状态
@@ -13,6 +17,8 @@ export const useConnectionStore = defineStore('connection', () => {
   const reconnectAttempts = ref(0)
   const lastConnectedAt = ref<Date | null>(null)
   const lastDisconnectedAt = ref<Date | null>(null)
+  const requestTimeout = ref(30000)
+  const retryAttempts = ref(2)
 
   // 计算属性
   const connectionStatus = computed(() => {
@@ -38,6 +44,11 @@ export const useConnectionStore = defineStore('connection', () => {
     return apiKey.value.trim().length > 0
   })
 
+  const requestPolicy = computed<ApiRequestPolicy>(() => ({
+    timeout: requestTimeout.value,
+    retryAttempts: retryAttempts.value
+  }))
+
   const connectionInfo = computed(() => ({
     status: connectionStatus.value,
     statusText: connectionStatusText.value,
@@ -79,6 +90,15 @@ export const useConnectionStore = defineStore('connection', () => {
     connectionError.value = error
   }
 
+  const setRequestPolicy = (policy: Partial<ApiRequestPolicy>) => {
+    if (policy.timeout !== undefined) {
+      requestTimeout.value = Math.max(0, policy.timeout)
+    }
+    if (policy.retryAttempts !== undefined) {
+      retryAttempts.value = Math.max(0, Math.floor(policy.retryAttempts))
+    }
+  }
+
   const incrementReconnectAttempts = () => {
     reconnectAttempts.value++
   }
@@ -108,12 +128,15 @@ export const useConnectionStore = defineStore('connection', () => {
     reconnectAttempts,
     lastConnectedAt,
     lastDisconnectedAt,
+    requestTimeout,
+    retryAttempts,
 
     // 计算属性
     connectionStatus,
     connectionStatusText,
     hasValidApiKey,
     connectionInfo,
+    requestPolicy,
 
     // 动作
     setConnected,
@@ -122,6 +145,7 @@ export const useConnectionStore = defineStore('connection', () => {
     setWebsocketUrl,
     setSessionConfig,
     setConnectionError,
+    setRequestPolicy,
     incrementReconnectAttempts,
     resetReconnectAttempts,
     reset
@@ -4,4 +4,5 @@ export { useScreenStore } from './screen'
 export { useConversationStore } from './conversation'
 
 // 导出类型
-export type { ConversationMessage } from './conversation'
\ No newline at end of file
+export type { ConversationMessage } from './conversation'
+export type { ApiRequestPolicy } from './connection'
\ No newline at end of file
@@ -1,6 +1,62 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { ScreenCaptureState, ScreenshotData, DisplayInfo } from '@/types/screen'
+import type { ScreenCaptureState, ScreenshotData, DisplayInfo, RegionOfInterest, CaptureFocusMode } from '@/types/screen'
+
+const REGION_STORAGE_KEY = 'screenRegionOfInterest'
+const FOCUS_MODE_STORAGE_KEY = 'screenCaptureFocusMode'
+const FOCUS_MODES: CaptureFocusMode[] = ['full', 'region', 'focus']
+
+// 本地存储工具函数
+const safeLocalStorage = (() => {
+  if (typeof window === 'undefined') {
+    return null
+  }
+
+  try {
+    return window.localStorage
+  } catch (error) {
+    console.warn('本地存储不可用:', error)
+    return null
+  }
+})()
+
+const isValidRegion = (region: any): region is RegionOfInterest => {
+  return Boolean(region) &&
+    ['x', 'y', 'width', 'height'].every(key => typeof region[key] === 'number' && region[key] >= 0 && region[key] <= 1) &&
+    region.width > 0 && region.height > 0
+}
+
+const getStoredRegion = (): RegionOfInterest | null => {
+  try {
+    const stored = safeLocalStorage?.getItem(REGION_STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (isValidRegion(parsed)) {
+        return { x: parsed.x, y: parsed.y, width: parsed.width, height: parsed.height }
+      }
+    }
+  } catch (error) {
+    console.warn('读取截图区域失败:', error)
+  }
+  return null
+}
+
+const getStoredFocusMode = (): CaptureFocusMode => {
+  const stored = safeLocalStorage?.getItem(FOCUS_MODE_STORAGE_KEY) as CaptureFocusMode | null
+  return stored && FOCUS_MODES.includes(stored) ? stored : 'full'
+}
+
+const storeValue = (key: string, value: string | null) => {
+  try {
+    if (value === null) {
+      safeLocalStorage?.removeItem(key)
+    } else {
+      safeLocalStorage?.setItem(key, value)
+    }
+  } catch (error) {
+    console.warn('保存截图区域设置失败:', error)
+  }
+}
 
 export const useScreenStore = defineStore('screen', () => {
   // 捕获状态
@@ -20,6 +76,10 @@ export const useScreenStore = defineStore('screen', () => {
   const format = ref<'jpeg' | 'png'>('jpeg')
   const compression = ref(0.8)
 
+  // 截图区域（相对坐标）与截图模式，保存在本地存储中
+  const regionOfInterest = ref<RegionOfInterest | null>(getStoredRegion())
+  const captureFocusMode = ref<CaptureFocusMode>(getStoredFocusMode())
+
   // 设备信息
   const displays = ref<DisplayInfo[]>([])
   const selectedDisplay = ref<string>('')
@@ -50,6 +110,13 @@ export const useScreenStore = defineStore('screen', () => {
     compression: compression.value
   }))
 
+  const hasRegionOfInterest = computed(() => regionOfInterest.value !== null)
+
+  // 实际生效的截图模式：没有选定区域时总是整屏
+  const effectiveFocusMode = computed<CaptureFocusMode>(() => {
+    return regionOfInterest.value ? captureFocusMode.value : 'full'
+  })
+
   const hasScreenshot = computed(() => lastScreenshot.value !== null)
 
   const screenshotCount = computed(() => screenshotHistory.value.length)
@@ -134,6 +201,24 @@ export const useScreenStore = defineStore('screen', () => {
     compression.value = Math.max(0.1, Math.min(1, compressionValue))
   }
 
+  const setRegionOfInterest = (region: RegionOfInterest | null) => {
+    if (region && !isValidRegion(region)) {
+      throw new Error('截图区域必须使用 0 到 1 之间的相对坐标')
+    }
+
+    regionOfInterest.value = region ? { ...region } : null
+    storeValue(REGION_STORAGE_KEY, region ? JSON.stringify(region) : null)
+  }
+
+  const clearRegionOfInterest = () => {
+    setRegionOfInterest(null)
+  }
+
+  const setCaptureFocusMode = (mode: CaptureFocusMode) => {
+    captureFocusMode.value = mode
+    storeValue(FOCUS_MODE_STORAGE_KEY, mode)
+  }
+
   const setDisplays = (displaysList: DisplayInfo[]) => {
     displays.value = displaysList
 
@@ -223,6 +308,8 @@ export const useScreenStore = defineStore('screen', () => {
     quality,
     format,
     compression,
+    regionOfInterest,
+    captureFocusMode,
     displays,
     selectedDisplay,
     screenPermission,
@@ -232,6 +319,8 @@ export const useScreenStore = defineStore('screen', () => {
 
     // 计算属性
     captureInfo,
+    hasRegionOfInterest,
+    effectiveFocusMode,
     hasScreenshot,
     screenshotCount,
     isScreenActive,
@@ -251,6 +340,9 @@ export const useScreenStore = defineStore('screen', () => {
     setQuality,
     setFormat,
     setCompression,
+    setRegionOfInterest,
+    clearRegionOfInterest,
+    setCaptureFocusMode,
     setDisplays,
     setSelectedDisplay,
     setScreenPermission,
@@ -59,6 +59,7 @@ export interface DisplayInfo {
   refreshRate: number
 }
 
+// 感兴趣区域，使用相对于整个画面宽高的相对坐标（0 ~ 1）
 export interface RegionOfInterest {
   x: number
   y: number
@@ -66,6 +67,9 @@ export interface RegionOfInterest {
   height: number
 }
 
+// 截图模式：整屏 / 只发送选定区域 / 整屏概览 + 区域高清裁剪
+export type CaptureFocusMode = 'full' | 'region' | 'focus'
+
 export interface ScreenPermission {
   granted: boolean
   reason: string